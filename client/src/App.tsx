@@ -7,22 +7,32 @@ import Robots from "@/pages/robots";
 import TasksIndex from "@/pages/tasks/index";
 import TaskCreate from "@/pages/tasks/create";
 import TaskHistory from "@/pages/tasks/history";
+import Schedules from "@/pages/schedules";
 import Maps from "@/pages/maps";
+import LiveMap from "@/pages/live-map";
+import Inventory from "@/pages/inventory";
+import Chargers from "@/pages/chargers";
 import Alerts from "@/pages/alerts";
+import Analytics from "@/pages/analytics";
 import Login from "@/pages/login";
 import Layout from "@/components/layout/Layout";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { useEffect } from "react";
 
 function ProtectedRoutes() {
   const [location, setLocation] = useLocation();
+  const { user, isLoading } = useAuth();
   
   useEffect(() => {
-    // Check if user is authenticated
-    const auth = localStorage.getItem('auth');
-    if (!auth && location !== '/login') {
+    // Send users without a server session to the login page
+    if (!isLoading && !user && location !== '/login') {
       setLocation('/login');
     }
-  }, [location, setLocation]);
+  }, [user, isLoading, location, setLocation]);
+
+  if (isLoading || !user) {
+    return null;
+  }
 
   return (
     <Layout>
@@ -30,11 +40,16 @@ function ProtectedRoutes() {
         <Route path="/" component={Dashboard} />
         <Route path="/dashboard" component={Dashboard} />
         <Route path="/robots" component={Robots} />
+        <Route path="/chargers" component={Chargers} />
         <Route path="/tasks" component={TasksIndex} />
         <Route path="/tasks/create" component={TaskCreate} />
         <Route path="/tasks/history" component={TaskHistory} />
+        <Route path="/schedules" component={Schedules} />
         <Route path="/maps" component={Maps} />
+        <Route path="/live-map" component={LiveMap} />
+        <Route path="/inventory" component={Inventory} />
         <Route path="/alerts" component={Alerts} />
+        <Route path="/analytics" component={Analytics} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -43,21 +58,23 @@ function ProtectedRoutes() {
 
 function App() {
   return (
-    <TooltipProvider>
-      <Toaster />
-      <Switch>
-        <Route path="/login" component={Login} />
-        <Route path="/" exact>
-          {() => {
-            window.location.href = '/login';
-            return null;
-          }}
-        </Route>
-        <Route>
-          <ProtectedRoutes />
-        </Route>
-      </Switch>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Switch>
+          <Route path="/login" component={Login} />
+          <Route path="/" exact>
+            {() => {
+              window.location.href = '/login';
+              return null;
+            }}
+          </Route>
+          <Route>
+            <ProtectedRoutes />
+          </Route>
+        </Switch>
+      </TooltipProvider>
+    </AuthProvider>
   );
 }
 
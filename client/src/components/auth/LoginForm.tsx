@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/componen
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 
 export function LoginForm() {
   const [username, setUsername] = useState('');
@@ -12,17 +13,15 @@ export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { loginMutation } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // For now, hardcode the credentials
-    // In a real app, this would be an API call
-    if (username === 'Ozzydog' && password === 'Ozzydog') {
-      // Store auth token in localStorage
-      localStorage.setItem('auth', 'true');
-      localStorage.setItem('username', username);
+    try {
+      // Server validates credentials and sets the session cookie
+      await loginMutation.mutateAsync({ username, password });
       
       setIsLoading(false);
       toast({
@@ -32,7 +31,7 @@ export function LoginForm() {
       
       // Navigate to dashboard
       setLocation('/dashboard');
-    } else {
+    } catch {
       setIsLoading(false);
       toast({
         title: 'Login failed',
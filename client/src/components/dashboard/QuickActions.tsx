@@ -4,6 +4,8 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserRole } from "@shared/schema";
 import { 
   PlusCircle, 
   MapPin, 
@@ -14,6 +16,9 @@ import {
 export default function QuickActions() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canCreateTasks = hasRole(UserRole.OPERATOR);
+  const canCommandRobots = hasRole(UserRole.SUPERVISOR);
   
   const createTaskAction = () => {
     navigate("/tasks/create");
@@ -99,45 +104,55 @@ export default function QuickActions() {
       
       <CardContent className="p-6">
         <div className="grid grid-cols-2 gap-3">
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center justify-center h-auto p-4"
-            onClick={createTaskAction}
-          >
-            <PlusCircle className="h-5 w-5 text-primary-600 mb-1" />
-            <span className="text-xs font-medium text-gray-700">New Task</span>
-          </Button>
+          {canCreateTasks && (
+            <Button 
+              variant="outline" 
+              className="flex flex-col items-center justify-center h-auto p-4"
+              onClick={createTaskAction}
+            >
+              <PlusCircle className="h-5 w-5 text-primary-600 mb-1" />
+              <span className="text-xs font-medium text-gray-700">New Task</span>
+            </Button>
+          )}
           
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center justify-center h-auto p-4"
-            onClick={handleLocateRobot}
-            disabled={locateRobotMutation.isPending}
-          >
-            <MapPin className="h-5 w-5 text-primary-600 mb-1" />
-            <span className="text-xs font-medium text-gray-700">Locate Robot</span>
-          </Button>
-          
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center justify-center h-auto p-4"
-            onClick={handleStartCharging}
-            disabled={startChargingMutation.isPending}
-          >
-            <Battery className="h-5 w-5 text-primary-600 mb-1" />
-            <span className="text-xs font-medium text-gray-700">Start Charging</span>
-          </Button>
-          
-          <Button 
-            variant="outline" 
-            className="flex flex-col items-center justify-center h-auto p-4"
-            onClick={handlePauseAll}
-            disabled={pauseAllMutation.isPending}
-          >
-            <PauseCircle className="h-5 w-5 text-primary-600 mb-1" />
-            <span className="text-xs font-medium text-gray-700">Pause All</span>
-          </Button>
+          {canCommandRobots && (
+            <>
+              <Button 
+                variant="outline" 
+                className="flex flex-col items-center justify-center h-auto p-4"
+                onClick={handleLocateRobot}
+                disabled={locateRobotMutation.isPending}
+              >
+                <MapPin className="h-5 w-5 text-primary-600 mb-1" />
+                <span className="text-xs font-medium text-gray-700">Locate Robot</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                className="flex flex-col items-center justify-center h-auto p-4"
+                onClick={handleStartCharging}
+                disabled={startChargingMutation.isPending}
+              >
+                <Battery className="h-5 w-5 text-primary-600 mb-1" />
+                <span className="text-xs font-medium text-gray-700">Start Charging</span>
+              </Button>
+              
+              <Button 
+                variant="outline" 
+                className="flex flex-col items-center justify-center h-auto p-4"
+                onClick={handlePauseAll}
+                disabled={pauseAllMutation.isPending}
+              >
+                <PauseCircle className="h-5 w-5 text-primary-600 mb-1" />
+                <span className="text-xs font-medium text-gray-700">Pause All</span>
+              </Button>
+            </>
+          )}
         </div>
+        
+        {!canCreateTasks && (
+          <p className="text-xs text-gray-500 mt-3">Your role can view robots and tasks but not send commands.</p>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,12 +1,15 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   Menu, 
   Search, 
   Bell, 
   HelpCircle,
+  LogOut,
 } from "lucide-react";
 
 interface HeaderProps {
@@ -14,6 +17,15 @@ interface HeaderProps {
 }
 
 export default function Header({ toggleSidebar }: HeaderProps) {
+  const { user, logoutMutation } = useAuth();
+  const [, setLocation] = useLocation();
+  const username = user?.username ?? "";
+  
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
+    setLocation("/login");
+  };
+  
   return (
     <header className="bg-white border-b border-gray-200 flex items-center justify-between px-4 py-3">
       <div className="flex items-center lg:hidden">
@@ -47,10 +59,19 @@ export default function Header({ toggleSidebar }: HeaderProps) {
         </Button>
         <div className="flex items-center">
           <Avatar className="h-8 w-8 bg-primary-600 mr-2">
-            <AvatarFallback className="text-sm font-medium text-white">JD</AvatarFallback>
+            <AvatarFallback className="text-sm font-medium text-white">{username.slice(0, 2).toUpperCase()}</AvatarFallback>
           </Avatar>
-          <span className="text-sm font-medium text-gray-700 hidden md:block">John Doe</span>
+          <span className="text-sm font-medium text-gray-700 hidden md:block">{username}</span>
         </div>
+        <Button 
+          variant="ghost" 
+          size="icon" 
+          onClick={handleLogout} 
+          className="text-gray-600 hover:text-gray-800"
+          title="Log out"
+        >
+          <LogOut className="h-5 w-5" />
+        </Button>
       </div>
     </header>
   );
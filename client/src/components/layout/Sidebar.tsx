@@ -64,12 +64,16 @@ export default function Sidebar() {
         <Section title="Dashboard">
           <SidebarLink href="/" icon="dashboard" label="Overview" />
           <SidebarLink href="/robots" icon="device_hub" label="Robots" />
+          <SidebarLink href="/chargers" icon="ev_station" label="Chargers" />
+          <SidebarLink href="/live-map" icon="explore" label="Live Map" />
         </Section>
         
         <Section title="Task Management">
           <SidebarLink href="/tasks" icon="assignment" label="Active Tasks" />
           <SidebarLink href="/tasks/history" icon="history" label="Task History" />
           <SidebarLink href="/tasks/create" icon="note_add" label="Create Task" />
+          <SidebarLink href="/schedules" icon="schedule" label="Schedules" />
+          <SidebarLink href="/inventory" icon="inventory_2" label="Inventory" />
         </Section>
         
         <Section title="Configuration">
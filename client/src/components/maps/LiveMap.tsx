@@ -0,0 +1,529 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Zap, Package, Anchor, ArrowUpDown, MapPin, ZoomIn, ZoomOut, Maximize } from "lucide-react";
+
+export interface MapPoint {
+  poiId: string;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  yaw: number;
+  stored: boolean;
+}
+
+export interface MapRobot {
+  robotId: string;
+  name: string;
+  status: string;
+  pose: { x: number; y: number; ori: number } | null;
+}
+
+export interface MapZone {
+  zoneId: string;
+  name: string;
+  kind: string;
+  polygon: { x: number; y: number }[];
+  speedLimit: number | null;
+}
+
+// Event placed on the map, e.g. a task step or alert during a path replay
+export interface MapMarker {
+  id: string;
+  kind: string;
+  label: string;
+  x: number;
+  y: number;
+  faded?: boolean;
+}
+
+export interface MapGrid {
+  originX: number;
+  originY: number;
+  resolution: number;
+}
+
+// view: drag pans; pick: click or drag on the map picks a target; edit: pick, plus stored POIs can be dragged;
+// zone: each click picks the next vertex of a zone outline
+export type MapMode = "view" | "pick" | "edit" | "zone";
+
+// Picked location; yaw is in degrees like POI yaw, or null if the user clicked without dragging
+export interface MapTarget {
+  x: number;
+  y: number;
+  yaw: number | null;
+}
+
+export interface PointMenuItem {
+  label: string;
+  onSelect: () => void;
+  destructive?: boolean;
+}
+
+interface LiveMapProps {
+  grid: MapGrid | null;
+  imageUrl: string | null;
+  points: MapPoint[];
+  robots: MapRobot[];
+  mode?: MapMode;
+  onPick?: (target: MapTarget) => void;
+  onPointMoved?: (point: MapPoint, x: number, y: number) => void;
+  pointMenu?: (point: MapPoint) => PointMenuItem[];
+  zones?: MapZone[];
+  draftZone?: { x: number; y: number }[];
+  zoneMenu?: (zone: MapZone) => PointMenuItem[];
+  trail?: { x: number; y: number }[];
+  markers?: MapMarker[];
+}
+
+// In-progress pointer gesture
+type Gesture =
+  | { kind: "pan"; startX: number; startY: number; viewX: number; viewY: number }
+  | { kind: "aim"; origin: { x: number; y: number }; current: { x: number; y: number } }
+  | { kind: "move"; point: MapPoint; current: { x: number; y: number } };
+
+// Drags shorter than this (in meters) count as a click without a heading
+const MIN_AIM_DISTANCE = 0.3;
+
+// Screen pixels per meter when there is no occupancy image to size the map
+const DEFAULT_PIXELS_PER_METER = 20;
+
+// Margin around points and robots when there is no occupancy image, in meters
+const BOUNDS_PADDING = 2;
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 10;
+
+// Icon and color for each point type (robot point types may carry a subtype suffix)
+function pointStyle(type: string) {
+  if (type.startsWith("charg")) return { Icon: Zap, color: "#2563eb" };
+  if (type.startsWith("rack") || type.startsWith("shelf")) return { Icon: Package, color: "#9333ea" };
+  if (type.startsWith("dock")) return { Icon: Anchor, color: "#0d9488" };
+  if (type === "elevator") return { Icon: ArrowUpDown, color: "#ea580c" };
+  return { Icon: MapPin, color: "#6b7280" };
+}
+
+// Zone outline color by kind: red for no-go, amber for slow
+function zoneColor(kind: string) {
+  return kind === "no_go" ? "#dc2626" : "#d97706";
+}
+
+// Event marker color by kind: blue for task steps, green for task outcomes, red for alerts
+function markerColor(kind: string) {
+  switch (kind) {
+    case "step": return "#2563eb";
+    case "task": return "#16a34a";
+    case "alert": return "#dc2626";
+    default: return "#6b7280";
+  }
+}
+
+// Robot marker color by status
+function robotColor(status: string) {
+  switch (status) {
+    case "online": return "#16a34a";
+    case "busy": return "#2563eb";
+    case "charging": return "#d97706";
+    case "error": return "#dc2626";
+    default: return "#6b7280";
+  }
+}
+
+export default function LiveMap({
+  grid,
+  imageUrl,
+  points,
+  robots,
+  mode = "view",
+  onPick,
+  onPointMoved,
+  pointMenu,
+  zones = [],
+  draftZone = [],
+  zoneMenu,
+  trail = [],
+  markers = []
+}: LiveMapProps) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+  const [menu, setMenu] = useState<{ title: string; items: PointMenuItem[]; left: number; top: number } | null>(null);
+
+  // Load the occupancy image first so the map can be sized to it
+  useEffect(() => {
+    setImageSize(null);
+    setImageFailed(false);
+    if (!imageUrl) return;
+
+    const image = new Image();
+    image.onload = () => setImageSize({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => setImageFailed(true);
+    image.src = imageUrl;
+  }, [imageUrl]);
+
+  // World-to-screen projection: the image's own pixels when there is one, otherwise fit points and robots
+  const projection = useMemo(() => {
+    if (grid && imageSize && !imageFailed) {
+      const scale = 1 / grid.resolution;
+      return {
+        scale,
+        minX: grid.originX,
+        maxY: grid.originY + imageSize.height * grid.resolution,
+        width: imageSize.width,
+        height: imageSize.height,
+      };
+    }
+
+    const xs = [...points.map(p => p.x), ...robots.filter(r => r.pose).map(r => r.pose!.x)];
+    const ys = [...points.map(p => p.y), ...robots.filter(r => r.pose).map(r => r.pose!.y)];
+    const minX = (xs.length ? Math.min(...xs) : 0) - BOUNDS_PADDING;
+    const maxX = (xs.length ? Math.max(...xs) : 10) + BOUNDS_PADDING;
+    const minY = (ys.length ? Math.min(...ys) : 0) - BOUNDS_PADDING;
+    const maxY = (ys.length ? Math.max(...ys) : 10) + BOUNDS_PADDING;
+
+    return {
+      scale: DEFAULT_PIXELS_PER_METER,
+      minX,
+      maxY,
+      width: (maxX - minX) * DEFAULT_PIXELS_PER_METER,
+      height: (maxY - minY) * DEFAULT_PIXELS_PER_METER,
+    };
+    // Robots move constantly; only the points size the fallback map
+  }, [grid, imageSize, imageFailed, points]);
+
+  const toScreen = (x: number, y: number) => ({
+    sx: (x - projection.minX) * projection.scale,
+    sy: (projection.maxY - y) * projection.scale,
+  });
+
+  // Map coordinates under the mouse
+  const toWorld = (event: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const sx = (event.clientX - rect.left - view.x) / view.zoom;
+    const sy = (event.clientY - rect.top - view.y) / view.zoom;
+    return { x: projection.minX + sx / projection.scale, y: projection.maxY - sy / projection.scale };
+  };
+
+  // Marker size stays constant on screen while zooming
+  const markerSize = 18 / view.zoom;
+
+  const zoomAt = (factor: number, cx: number, cy: number) => {
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const ratio = zoom / current.zoom;
+      return { zoom, x: cx - (cx - current.x) * ratio, y: cy - (cy - current.y) * ratio };
+    });
+  };
+
+  const handleWheel = (event: React.WheelEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    zoomAt(event.deltaY < 0 ? 1.2 : 1 / 1.2, event.clientX - rect.left, event.clientY - rect.top);
+  };
+
+  const zoomCenter = (factor: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    zoomAt(factor, (rect?.width ?? 0) / 2, (rect?.height ?? 0) / 2);
+  };
+
+  const fitToView = () => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || projection.width === 0 || projection.height === 0) return;
+
+    const zoom = Math.min(rect.width / projection.width, rect.height / projection.height);
+    setView({
+      zoom,
+      x: (rect.width - projection.width * zoom) / 2,
+      y: (rect.height - projection.height * zoom) / 2,
+    });
+  };
+
+  // Fit the map whenever the floor or its image changes
+  useEffect(fitToView, [projection.width, projection.height]);
+
+  // Shift-drag always pans, so the map can be moved while picking
+  const handleMouseDown = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    setMenu(null);
+
+    if (mode === "view" || event.shiftKey) {
+      setGesture({ kind: "pan", startX: event.clientX, startY: event.clientY, viewX: view.x, viewY: view.y });
+    } else {
+      const origin = toWorld(event);
+      setGesture({ kind: "aim", origin, current: origin });
+    }
+  };
+
+  const handlePointMouseDown = (point: MapPoint) => (event: React.MouseEvent) => {
+    if (event.button !== 0 || mode !== "edit" || !point.stored || event.shiftKey) return;
+    event.stopPropagation();
+    setMenu(null);
+    setGesture({ kind: "move", point, current: { x: point.x, y: point.y } });
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!gesture) return;
+
+    if (gesture.kind === "pan") {
+      const { startX, startY, viewX, viewY } = gesture;
+      setView(current => ({ ...current, x: viewX + event.clientX - startX, y: viewY + event.clientY - startY }));
+    } else {
+      setGesture({ ...gesture, current: toWorld(event) });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (gesture?.kind === "aim") {
+      const dx = gesture.current.x - gesture.origin.x;
+      const dy = gesture.current.y - gesture.origin.y;
+      const yaw = Math.hypot(dx, dy) >= MIN_AIM_DISTANCE ? Math.round((Math.atan2(dy, dx) * 180) / Math.PI) : null;
+      onPick?.({ x: gesture.origin.x, y: gesture.origin.y, yaw });
+    } else if (gesture?.kind === "move") {
+      const { point, current } = gesture;
+      if (current.x !== point.x || current.y !== point.y) {
+        onPointMoved?.(point, current.x, current.y);
+      }
+    }
+    setGesture(null);
+  };
+
+  const openMenu = (event: React.MouseEvent, title: string, items: PointMenuItem[]) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (items.length === 0 || !rect) return;
+    setMenu({ title, items, left: event.clientX - rect.left, top: event.clientY - rect.top });
+  };
+
+  const handlePointContextMenu = (point: MapPoint) => (event: React.MouseEvent) =>
+    openMenu(event, point.name, pointMenu?.(point) ?? []);
+
+  const handleZoneContextMenu = (zone: MapZone) => (event: React.MouseEvent) =>
+    openMenu(event, zone.name, zoneMenu?.(zone) ?? []);
+
+  const toPolygonPoints = (vertices: { x: number; y: number }[]) =>
+    vertices.map(vertex => {
+      const { sx, sy } = toScreen(vertex.x, vertex.y);
+      return `${sx},${sy}`;
+    }).join(" ");
+
+  // Show a point where it is being dragged to
+  const pointPosition = (point: MapPoint) =>
+    gesture?.kind === "move" && gesture.point.poiId === point.poiId ? gesture.current : point;
+
+  return (
+    <div className="relative h-[600px] w-full overflow-hidden rounded-md border bg-gray-50">
+      <svg
+        ref={svgRef}
+        className={`h-full w-full select-none ${mode === "view" ? "cursor-grab active:cursor-grabbing" : "cursor-crosshair"}`}
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => setGesture(null)}
+        onContextMenu={(event) => event.preventDefault()}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+          {imageUrl && imageSize && !imageFailed ? (
+            <image href={imageUrl} width={imageSize.width} height={imageSize.height} style={{ imageRendering: "pixelated" }} />
+          ) : (
+            <rect width={projection.width} height={projection.height} fill="#ffffff" stroke="#e5e7eb" />
+          )}
+
+          {zones.map(zone => {
+            const color = zoneColor(zone.kind);
+            const label = zone.kind === "slow" && zone.speedLimit != null ? `${zone.name} (${zone.speedLimit} m/s)` : zone.name;
+            const anchor = toScreen(
+              zone.polygon.reduce((sum, vertex) => sum + vertex.x, 0) / zone.polygon.length,
+              zone.polygon.reduce((sum, vertex) => sum + vertex.y, 0) / zone.polygon.length
+            );
+            return (
+              <g key={zone.zoneId} onContextMenu={handleZoneContextMenu(zone)}>
+                <title>{label}</title>
+                <polygon
+                  points={toPolygonPoints(zone.polygon)}
+                  fill={color}
+                  fillOpacity={0.15}
+                  stroke={color}
+                  strokeWidth={1.5 / view.zoom}
+                />
+                <text x={anchor.sx} y={anchor.sy} fontSize={11 / view.zoom} textAnchor="middle" fill={color} pointerEvents="none">
+                  {label}
+                </text>
+              </g>
+            );
+          })}
+
+          {draftZone.length > 0 && (
+            <g pointerEvents="none">
+              <polyline
+                points={toPolygonPoints(draftZone)}
+                fill="none"
+                stroke="#2563eb"
+                strokeWidth={2 / view.zoom}
+                strokeDasharray={`${4 / view.zoom} ${3 / view.zoom}`}
+              />
+              {draftZone.map((vertex, index) => {
+                const { sx, sy } = toScreen(vertex.x, vertex.y);
+                return <circle key={index} cx={sx} cy={sy} r={3 / view.zoom} fill="#2563eb" />;
+              })}
+            </g>
+          )}
+
+          {trail.length > 1 && (
+            <polyline
+              points={toPolygonPoints(trail)}
+              fill="none"
+              stroke="#2563eb"
+              strokeOpacity={0.5}
+              strokeWidth={2 / view.zoom}
+              strokeLinejoin="round"
+              pointerEvents="none"
+            />
+          )}
+
+          {markers.map(marker => {
+            const { sx, sy } = toScreen(marker.x, marker.y);
+            const size = markerSize / 3;
+            return (
+              <g key={marker.id} opacity={marker.faded ? 0.35 : 1}>
+                <title>{marker.label}</title>
+                <rect
+                  x={sx - size}
+                  y={sy - size}
+                  width={size * 2}
+                  height={size * 2}
+                  transform={`rotate(45 ${sx} ${sy})`}
+                  fill={markerColor(marker.kind)}
+                  stroke="#ffffff"
+                  strokeWidth={1 / view.zoom}
+                />
+              </g>
+            );
+          })}
+
+          {points.map(point => {
+            const position = pointPosition(point);
+            const { sx, sy } = toScreen(position.x, position.y);
+            const { Icon, color } = pointStyle(point.type);
+            return (
+              <g
+                key={point.poiId}
+                className={mode === "edit" && point.stored ? "cursor-move" : undefined}
+                onMouseDown={handlePointMouseDown(point)}
+                onContextMenu={handlePointContextMenu(point)}
+              >
+                <title>{`${point.name} (${point.type})`}</title>
+                <circle cx={sx} cy={sy} r={markerSize / 2} fill="#ffffff" stroke={color} strokeWidth={1.5 / view.zoom} />
+                <Icon
+                  x={sx - markerSize / 3}
+                  y={sy - markerSize / 3}
+                  width={(markerSize * 2) / 3}
+                  height={(markerSize * 2) / 3}
+                  color={color}
+                />
+                <text
+                  x={sx}
+                  y={sy + markerSize}
+                  fontSize={11 / view.zoom}
+                  textAnchor="middle"
+                  fill="#374151"
+                >
+                  {point.name}
+                </text>
+              </g>
+            );
+          })}
+
+          {robots.filter(robot => robot.pose).map(robot => {
+            const { sx, sy } = toScreen(robot.pose!.x, robot.pose!.y);
+            const color = robotColor(robot.status);
+            // Screen y grows downwards, so the heading's y component flips
+            const headingX = sx + Math.cos(robot.pose!.ori) * markerSize;
+            const headingY = sy - Math.sin(robot.pose!.ori) * markerSize;
+            return (
+              <g key={robot.robotId}>
+                <title>{`${robot.name} (${robot.status})`}</title>
+                <line
+                  x1={sx}
+                  y1={sy}
+                  x2={headingX}
+                  y2={headingY}
+                  stroke={color}
+                  strokeWidth={3 / view.zoom}
+                  strokeLinecap="round"
+                />
+                <circle cx={headingX} cy={headingY} r={3 / view.zoom} fill={color} />
+                <circle cx={sx} cy={sy} r={markerSize / 2} fill={color} stroke="#ffffff" strokeWidth={2 / view.zoom} />
+                <text
+                  x={sx}
+                  y={sy - markerSize}
+                  fontSize={12 / view.zoom}
+                  fontWeight={600}
+                  textAnchor="middle"
+                  fill={color}
+                >
+                  {robot.name}
+                </text>
+              </g>
+            );
+          })}
+
+          {gesture?.kind === "aim" && mode !== "zone" && (() => {
+            const from = toScreen(gesture.origin.x, gesture.origin.y);
+            const to = toScreen(gesture.current.x, gesture.current.y);
+            return (
+              <g pointerEvents="none">
+                <circle cx={from.sx} cy={from.sy} r={markerSize / 3} fill="#dc2626" />
+                <line
+                  x1={from.sx}
+                  y1={from.sy}
+                  x2={to.sx}
+                  y2={to.sy}
+                  stroke="#dc2626"
+                  strokeWidth={2 / view.zoom}
+                  strokeDasharray={`${4 / view.zoom} ${3 / view.zoom}`}
+                />
+              </g>
+            );
+          })()}
+        </g>
+      </svg>
+
+      {menu && (
+        <div
+          className="absolute z-10 min-w-[10rem] rounded-md border bg-white py-1 shadow-md"
+          style={{ left: menu.left, top: menu.top }}
+        >
+          <div className="px-3 py-1 text-xs font-medium text-gray-500">{menu.title}</div>
+          {menu.items.map(item => (
+            <button
+              key={item.label}
+              className={`block w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 ${item.destructive ? "text-red-600" : "text-gray-800"}`}
+              onClick={() => {
+                setMenu(null);
+                item.onSelect();
+              }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="absolute right-3 top-3 flex flex-col gap-1">
+        <Button variant="outline" size="icon" onClick={() => zoomCenter(1.2)}>
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => zoomCenter(1 / 1.2)}>
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={fitToView}>
+          <Maximize className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
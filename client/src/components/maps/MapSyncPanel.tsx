@@ -0,0 +1,225 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SyncPoint {
+  poiId: string;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  yaw: number;
+}
+
+export interface MapSyncDiff {
+  id: string;
+  robotId: string;
+  mapUid: string;
+  mapName: string;
+  trigger: string;
+  detectedAt: string;
+  added: SyncPoint[];
+  removed: (Omit<SyncPoint, "yaw"> & { yaw: number | null })[];
+  moved: { poiId: string; name: string; from: { x: number; y: number; yaw: number }; to: SyncPoint }[];
+}
+
+interface SyncApplyResult {
+  applied: string[];
+  failed: { poiId: string; error: string }[];
+}
+
+// One row per change in a diff
+interface ChangeRow {
+  poiId: string;
+  name: string;
+  kind: "added" | "removed" | "moved";
+  detail: string;
+}
+
+const KIND_STYLES: Record<ChangeRow["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  moved: "bg-amber-100 text-amber-800",
+};
+
+const formatPose = (point: { x: number; y: number; yaw: number }) =>
+  `(${point.x.toFixed(2)}, ${point.y.toFixed(2)}, ${point.yaw}°)`;
+
+function changeRows(diff: MapSyncDiff): ChangeRow[] {
+  return [
+    ...diff.added.map(point => ({ poiId: point.poiId, name: point.name, kind: "added" as const, detail: `${point.type} at ${formatPose(point)}` })),
+    ...diff.moved.map(move => ({ poiId: move.poiId, name: move.name, kind: "moved" as const, detail: `${formatPose(move.from)} → ${formatPose(move.to)}` })),
+    ...diff.removed.map(poi => ({ poiId: poi.poiId, name: poi.name, kind: "removed" as const, detail: `was at ${formatPose({ ...poi, yaw: poi.yaw ?? 0 })}` })),
+  ];
+}
+
+interface MapSyncPanelProps {
+  canApprove: boolean;
+}
+
+/**
+ * Changes found on robot maps that are waiting for an admin to apply them to the POI table
+ */
+export default function MapSyncPanel({ canApprove }: MapSyncPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: diffs, isLoading } = useQuery<MapSyncDiff[]>({
+    queryKey: ["/api/map-sync"],
+    refetchInterval: 30000,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/map-sync"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maps"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pois"] });
+  };
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error}`,
+      variant: "destructive",
+    });
+  };
+
+  // Scan mutation
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/map-sync/scan");
+    },
+    onSuccess: refresh,
+    onError: showError("scan robot maps"),
+  });
+
+  // Approve mutation
+  const approveMutation = useMutation({
+    mutationFn: async ({ diffId, poiIds }: { diffId: string; poiIds?: string[] }) => {
+      const res = await apiRequest("POST", `/api/map-sync/${diffId}/approve`, poiIds ? { poiIds } : {});
+      return await res.json() as SyncApplyResult;
+    },
+    onSuccess: (result) => {
+      refresh();
+      if (result.failed.length > 0) {
+        toast({
+          title: `${result.failed.length} change(s) could not be applied`,
+          description: result.failed.map(failure => `${failure.poiId}: ${failure.error}`).join("\n"),
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Map changes applied", description: `${result.applied.length} POI(s) updated.` });
+      }
+    },
+    onError: showError("apply map changes"),
+  });
+
+  // Reject mutation
+  const rejectMutation = useMutation({
+    mutationFn: async (diffId: string) => {
+      return await apiRequest("POST", `/api/map-sync/${diffId}/reject`);
+    },
+    onSuccess: refresh,
+    onError: showError("reject map changes"),
+  });
+
+  const busy = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Robot maps are compared with the POI table every 15 minutes and whenever a robot switches maps.
+          Robots are not sent to POIs with unapproved changes.
+        </p>
+        {canApprove && (
+          <Button variant="outline" size="sm" onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+            Scan Now
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : !diffs?.length ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500">
+            Every scanned robot map matches the POI table
+          </CardContent>
+        </Card>
+      ) : (
+        diffs.map(diff => (
+          <Card key={diff.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="text-base">{diff.mapName}</CardTitle>
+                <p className="text-xs text-gray-500 mt-1">
+                  Found on {diff.robotId} · {diff.trigger.replace("_", " ")} · {format(new Date(diff.detectedAt), "MMM d, HH:mm")}
+                </p>
+              </div>
+              {canApprove && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => rejectMutation.mutate(diff.id)} disabled={busy}>
+                    Keep Ours
+                  </Button>
+                  <Button size="sm" onClick={() => approveMutation.mutate({ diffId: diff.id })} disabled={busy}>
+                    Apply All
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Change</TableHead>
+                    <TableHead>POI</TableHead>
+                    <TableHead>Details</TableHead>
+                    {canApprove && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changeRows(diff).map(row => (
+                    <TableRow key={`${row.kind}-${row.poiId}`}>
+                      <TableCell>
+                        <Badge variant="outline" className={KIND_STYLES[row.kind]}>{row.kind}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.name} <span className="text-gray-400">({row.poiId})</span></TableCell>
+                      <TableCell>{row.detail}</TableCell>
+                      {canApprove && (
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => approveMutation.mutate({ diffId: diff.id, poiIds: [row.poiId] })}
+                            disabled={busy}
+                          >
+                            Apply
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
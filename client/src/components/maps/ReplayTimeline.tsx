@@ -0,0 +1,110 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Pause, Play, RotateCcw } from "lucide-react";
+
+// Event shown as a tick above the scrub bar
+export interface TimelineMarker {
+  id: string;
+  at: number;
+  kind: string;
+  label: string;
+}
+
+interface ReplayTimelineProps {
+  from: number;
+  to: number;
+  cursor: number;
+  playing: boolean;
+  speed: number;
+  markers: TimelineMarker[];
+  onCursorChange: (cursor: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+// Playback rates, as multiples of real time
+const SPEEDS = [1, 10, 30, 60, 300];
+
+// Tick color by kind, matching the map markers
+const TICK_COLORS: Record<string, string> = {
+  step: "bg-blue-600",
+  task: "bg-green-600",
+  alert: "bg-red-600",
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export default function ReplayTimeline({
+  from,
+  to,
+  cursor,
+  playing,
+  speed,
+  markers,
+  onCursorChange,
+  onPlayingChange,
+  onSpeedChange
+}: ReplayTimelineProps) {
+  const span = Math.max(to - from, 1);
+  const atEnd = cursor >= to;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Button
+        size="icon"
+        variant="outline"
+        onClick={() => {
+          if (atEnd) onCursorChange(from);
+          onPlayingChange(atEnd || !playing);
+        }}
+      >
+        {playing ? <Pause className="h-4 w-4" /> : atEnd ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <div className="flex-1">
+        <div className="relative h-3 mb-1">
+          {markers.map(marker => (
+            <button
+              key={marker.id}
+              title={`${formatTime(marker.at)} ${marker.label}`}
+              className={`absolute top-0 h-3 w-1 -translate-x-1/2 rounded-sm ${TICK_COLORS[marker.kind] ?? "bg-gray-500"}`}
+              style={{ left: `${((marker.at - from) / span) * 100}%` }}
+              onClick={() => onCursorChange(marker.at)}
+            />
+          ))}
+        </div>
+        <Slider
+          min={from}
+          max={to}
+          step={1000}
+          value={[cursor]}
+          onValueChange={([value]) => onCursorChange(value)}
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatTime(from)}</span>
+          <span className="font-medium text-gray-800">{formatTime(cursor)}</span>
+          <span>{formatTime(to)}</span>
+        </div>
+      </div>
+
+      <Select value={String(speed)} onValueChange={(value) => onSpeedChange(Number(value))}>
+        <SelectTrigger className="w-20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SPEEDS.map(rate => (
+            <SelectItem key={rate} value={String(rate)}>{rate}x</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+interface TelemetryHistory {
+  robotId: string;
+  metric: string;
+  from: string;
+  to: string;
+  resolution: number;
+  samples: ({ at: string } & Record<string, number | boolean | string | null>)[];
+}
+
+// Series charted for each metric; flags are drawn as 0/1
+const METRICS: Record<string, { label: string; config: ChartConfig }> = {
+  battery: {
+    label: "Battery",
+    config: {
+      level: { label: "Level (%)", color: "#16a34a" },
+      voltage: { label: "Voltage (V)", color: "#2563eb" },
+      current: { label: "Current (A)", color: "#ea580c" }
+    }
+  },
+  pose: {
+    label: "Pose",
+    config: {
+      x: { label: "X (m)", color: "#2563eb" },
+      y: { label: "Y (m)", color: "#9333ea" }
+    }
+  },
+  planning: {
+    label: "Planning",
+    config: {
+      remainingDistance: { label: "Remaining distance (m)", color: "#0d9488" }
+    }
+  },
+  wheel: {
+    label: "Wheels",
+    config: {
+      emergencyStop: { label: "Emergency stop", color: "#dc2626" }
+    }
+  }
+};
+
+const RANGES: Record<string, { label: string; hours: number }> = {
+  "1h": { label: "Last hour", hours: 1 },
+  "24h": { label: "Last 24 hours", hours: 24 },
+  "7d": { label: "Last 7 days", hours: 24 * 7 },
+  "30d": { label: "Last 30 days", hours: 24 * 30 }
+};
+
+const formatTime = (value: number, hours: number) => {
+  const date = new Date(value);
+  return hours > 24
+    ? date.toLocaleDateString([], { month: "short", day: "numeric" })
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+export default function TelemetryChart({ robotId }: { robotId: string }) {
+  const [metric, setMetric] = useState("battery");
+  const [range, setRange] = useState("24h");
+  const { hours } = RANGES[range];
+
+  // Fixed when the range changes, so refetches keep the same query key; no "to" means up to now
+  const from = useMemo(() => new Date(Date.now() - hours * 3600000).toISOString(), [hours]);
+
+  const { data: history, isLoading } = useQuery<TelemetryHistory>({
+    queryKey: [`/api/robot/${robotId}/telemetry?metric=${metric}&from=${encodeURIComponent(from)}`],
+    refetchInterval: 30000
+  });
+
+  const { config } = METRICS[metric];
+  const series = Object.keys(config);
+  const points = (history?.samples ?? []).map(sample => {
+    const point: Record<string, number | null> = { at: new Date(sample.at).getTime() };
+    for (const key of series) {
+      const value = sample[key];
+      point[key] = typeof value === "boolean" ? Number(value) : typeof value === "number" ? value : null;
+    }
+    return point;
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-base">Telemetry</CardTitle>
+        <div className="flex gap-2">
+          <Select value={metric} onValueChange={setMetric}>
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METRICS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGES).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : points.length === 0 ? (
+          <p className="h-64 flex items-center justify-center text-sm text-gray-500">
+            No telemetry recorded in this range
+          </p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full aspect-auto">
+            <LineChart data={points} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="at"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(value) => formatTime(value, hours)}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+              />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => new Date(payload[0]?.payload.at).toLocaleString()}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map(key => (
+                <Line
+                  key={key}
+                  dataKey={key}
+                  type={metric === "wheel" ? "stepAfter" : "monotone"}
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+        {history && (
+          <p className="text-xs text-gray-500 mt-2">
+            One point per {history.resolution >= 60 ? `${Math.round(history.resolution / 60)} min` : `${history.resolution} s`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
+import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Pause, RefreshCw, MoreVertical, ArrowRight } from "lucide-react";
+import { Play, Pause, RefreshCw, MoreVertical, ArrowRight, Hand, Check } from "lucide-react";
+import TaskTraceDialog from "./TaskTraceDialog";
 
 // Define status indicator component
 const StatusIndicator = ({ status }: { status: string }) => {
@@ -52,12 +54,25 @@ interface TaskCardProps {
     currentPoint?: any;
     progress?: number;
     errorDetails?: any;
+    confirmation?: {
+      message: string;
+      requestedAt: string;
+      timeoutAt: string;
+      escalated: boolean;
+    } | null;
+    checkpoints?: {
+      lap: number;
+      name?: string;
+      status: string;
+      arrivedAt?: string;
+    }[] | null;
   };
 }
 
 export default function TaskCard({ task }: TaskCardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [showTrace, setShowTrace] = useState(false);
   
   // Calculate time elapsed since task started
   const getTimeElapsed = () => {
@@ -139,6 +154,28 @@ export default function TaskCard({ task }: TaskCardProps) {
     },
   });
   
+  // Confirm load/unload mutation
+  const confirmTaskMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/tasks/${task.taskId}/confirm`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: "Task confirmed",
+        description: `The task "${task.name}" will continue.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to confirm task: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Calculate progress percentage
   const progressPercentage = task.progress || 0;
   
@@ -196,7 +233,7 @@ export default function TaskCard({ task }: TaskCardProps) {
         </div>
         <div className="flex space-x-2">
           <ActionButton />
-          <Button size="icon" variant="ghost">
+          <Button size="icon" variant="ghost" title="Step trace" onClick={() => setShowTrace(true)}>
             <MoreVertical className="h-4 w-4" />
           </Button>
         </div>
@@ -205,7 +242,7 @@ export default function TaskCard({ task }: TaskCardProps) {
       <div className="grid grid-cols-3 gap-4 mb-3">
         <div>
           <p className="text-xs text-gray-500">Robot</p>
-          <p className="text-sm font-medium">{task.robotName || task.robotId}</p>
+          <p className="text-sm font-medium">{task.robotName || task.robotId || "Unassigned"}</p>
         </div>
         <div>
           <p className="text-xs text-gray-500">Task Type</p>
@@ -231,6 +268,49 @@ export default function TaskCard({ task }: TaskCardProps) {
         </div>
       )}
       
+      {/* Patrol progress: the latest waypoint visit */}
+      {task.checkpoints && task.checkpoints.length > 0 && (() => {
+        const last = task.checkpoints[task.checkpoints.length - 1];
+        const missed = task.checkpoints.filter(visit => visit.status !== "reached").length;
+        return (
+          <p className="text-xs text-gray-500 mb-3">
+            Lap {last.lap} - {last.name || "Waypoint"} {last.status === "reached" && last.arrivedAt
+              ? `reached at ${new Date(last.arrivedAt).toLocaleTimeString()}`
+              : last.status}
+            {missed > 0 && <span className="text-amber-600">{` (${missed} missed)`}</span>}
+          </p>
+        );
+      })()}
+      
+      {/* Waiting for someone to confirm a load/unload */}
+      {task.confirmation && (
+        <div className={`${task.confirmation.escalated ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"} border rounded-md p-3 mb-3`}>
+          <div className="flex items-start justify-between">
+            <div className="flex items-start">
+              <Hand className={`h-5 w-5 mr-2 ${task.confirmation.escalated ? "text-red-600" : "text-amber-600"}`} />
+              <div>
+                <p className={`text-sm font-medium ${task.confirmation.escalated ? "text-red-800" : "text-amber-800"}`}>
+                  {task.confirmation.message}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {task.confirmation.escalated
+                    ? `Overdue - bin will be returned at ${new Date(task.confirmation.timeoutAt).toLocaleTimeString()}`
+                    : `Waiting since ${new Date(task.confirmation.requestedAt).toLocaleTimeString()}`}
+                </p>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => confirmTaskMutation.mutate()}
+              disabled={confirmTaskMutation.isPending}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Confirm
+            </Button>
+          </div>
+        </div>
+      )}
+      
       {/* Error display */}
       {task.status === "failed" && task.errorDetails && (
         <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-3">
@@ -250,6 +330,7 @@ export default function TaskCard({ task }: TaskCardProps) {
               variant="link"
               size="sm"
               className="text-xs font-medium text-red-600 hover:text-red-800 h-auto p-0"
+              onClick={() => setShowTrace(true)}
             >
               View details
             </Button>
@@ -278,6 +359,8 @@ export default function TaskCard({ task }: TaskCardProps) {
           <span>{progressPercentage}%</span>
         </div>
       </div>
+      
+      <TaskTraceDialog taskId={showTrace ? task.taskId : null} onClose={() => setShowTrace(false)} />
     </div>
   );
 }
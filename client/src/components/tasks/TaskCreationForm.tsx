@@ -30,15 +30,18 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Trash2, PlusCircle, Edit, Save } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { WorkflowDefinition } from "@shared/schema";
 
 // Task form schema
 const taskFormSchema = z.object({
   name: z.string().min(1, "Task name is required"),
   robotId: z.string().min(1, "Robot is required"),
   taskType: z.string().min(1, "Task type is required"),
+  binId: z.string().optional(),
   priority: z.string().default("normal"),
   runMode: z.number().default(1),
   runNum: z.number().default(1),
+  runUntil: z.string().optional(),
   runType: z.number().optional(),
   routeMode: z.number().default(1),
   speed: z.number().default(-1),
@@ -47,6 +50,12 @@ const taskFormSchema = z.object({
 
 type TaskFormValues = z.infer<typeof taskFormSchema>;
 
+// Robot select value that leaves the choice to the fleet dispatcher
+const ANY_ROBOT = "any";
+
+// Task type that loops through its points
+const PATROL_TASK_TYPE = "patrol";
+
 interface Point {
   id: string;
   name: string;
@@ -68,11 +77,13 @@ export default function TaskCreationForm() {
   // Default form values
   const defaultValues: TaskFormValues = {
     name: "",
-    robotId: "",
+    robotId: ANY_ROBOT,
     taskType: "",
+    binId: "",
     priority: "normal",
     runMode: 1,
     runNum: 1,
+    runUntil: "",
     routeMode: 1,
     speed: -1,
     ignorePublicSite: false,
@@ -94,9 +105,16 @@ export default function TaskCreationForm() {
     queryKey: ["/api/pois"],
   });
   
+  // Fetch workflow definitions (each active one is a task type)
+  const { data: workflows, isLoading: isWorkflowsLoading } = useQuery<WorkflowDefinition[]>({
+    queryKey: ["/api/workflows"],
+  });
+  const activeWorkflows = workflows?.filter((workflow) => workflow.isActive) || [];
+  const isPatrol = form.watch("taskType") === PATROL_TASK_TYPE;
+  
   // Create task mutation
   const createTaskMutation = useMutation({
-    mutationFn: async (values: TaskFormValues & { points: Point[], returnPoint?: Point | null }) => {
+    mutationFn: async (values: Omit<TaskFormValues, "robotId"> & { robotId?: string, points: Point[], returnPoint?: Point | null }) => {
       const response = await apiRequest("POST", "/api/tasks", values);
       return response.json();
     },
@@ -119,7 +137,10 @@ export default function TaskCreationForm() {
   
   // Handle form submission
   const onSubmit = (values: TaskFormValues) => {
-    if (selectedPoints.length === 0) {
+    const binId = values.binId?.trim() || undefined;
+    
+    // Bin tasks get their shelf point from the inventory
+    if (selectedPoints.length === 0 && !binId) {
       toast({
         title: "Error",
         description: "Please add at least one point to the task.",
@@ -130,6 +151,9 @@ export default function TaskCreationForm() {
     
     createTaskMutation.mutate({
       ...values,
+      robotId: values.robotId === ANY_ROBOT ? undefined : values.robotId,
+      runUntil: isPatrol && values.runUntil ? new Date(values.runUntil).toISOString() : undefined,
+      binId,
       points: selectedPoints,
       returnPoint,
     });
@@ -194,6 +218,7 @@ export default function TaskCreationForm() {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
+                    <SelectItem value={ANY_ROBOT}>Any available robot</SelectItem>
                     {isRobotsLoading ? (
                       <Skeleton className="h-24 w-full" />
                     ) : robots?.length > 0 ? (
@@ -213,6 +238,20 @@ export default function TaskCreationForm() {
               </FormItem>
             )}
           />
+          
+          <FormField
+            control={form.control}
+            name="binId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bin</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional - the shelf slot is chosen from the inventory" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -232,12 +271,19 @@ export default function TaskCreationForm() {
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="delivery">Restaurant Delivery</SelectItem>
-                    <SelectItem value="charging">Charging Return</SelectItem>
-                    <SelectItem value="rack_operation">Rack Operation</SelectItem>
-                    <SelectItem value="multi_floor">Multi-Floor Delivery</SelectItem>
-                    <SelectItem value="patrol">Patrol</SelectItem>
-                    <SelectItem value="custom">Custom</SelectItem>
+                    {isWorkflowsLoading ? (
+                      <Skeleton className="h-24 w-full" />
+                    ) : activeWorkflows.length > 0 ? (
+                      activeWorkflows.map((workflow) => (
+                        <SelectItem key={workflow.taskType} value={workflow.taskType}>
+                          {workflow.name}
+                        </SelectItem>
+                      ))
+                    ) : (
+                      <SelectItem value="no-workflows" disabled>
+                        No workflows available
+                      </SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -298,6 +344,44 @@ export default function TaskCreationForm() {
           />
         </div>
         
+        {isPatrol && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="runNum"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Laps</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={field.value}
+                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="runUntil"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Patrol Until</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <p className="text-xs text-gray-500">Optional - loops until this time instead of a number of laps. Points of type checkpoint are dwelled at.</p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        
         {/* Task Points Section */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">Task Points</label>
@@ -0,0 +1,167 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { StepSpan } from "@shared/schema";
+
+type Pose = StepSpan["startPose"];
+
+interface TaskTrace {
+  taskId: string;
+  robotId: string | null;
+  taskType: string;
+  status: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  spans: StepSpan[];
+  current: {
+    step: number;
+    name: string;
+    startedAt: string;
+    elapsedMs: number;
+    startPose: Pose;
+    moveIds: string[];
+  } | null;
+}
+
+// Timeline entry: a finished span, or the step running now
+interface TimelineEntry {
+  key: string;
+  step: number;
+  name: string;
+  startedAt: string;
+  durationMs: number;
+  result: StepSpan["result"] | "running";
+  error?: string;
+  startPose: Pose;
+  endPose: Pose;
+  moveIds: string[];
+}
+
+// Bar and badge colors by how a step ended
+const RESULT_STYLES: Record<TimelineEntry["result"], { bar: string; badge: string; label: string }> = {
+  succeeded: { bar: "bg-green-500", badge: "bg-green-100 text-green-800", label: "Succeeded" },
+  failed: { bar: "bg-red-500", badge: "bg-red-100 text-red-800", label: "Failed" },
+  error: { bar: "bg-red-700", badge: "bg-red-100 text-red-800", label: "Error" },
+  cancelled: { bar: "bg-orange-400", badge: "bg-orange-100 text-orange-800", label: "Cancelled" },
+  running: { bar: "bg-blue-500 animate-pulse", badge: "bg-blue-100 text-blue-800", label: "Running" },
+};
+
+/**
+ * Format a duration such as "850ms", "4m 12s" or "1h 05m"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+const formatPose = (pose: Pose) => pose ? `(${pose.x.toFixed(2)}, ${pose.y.toFixed(2)})` : "unknown";
+
+interface TaskTraceDialogProps {
+  taskId: string | null;
+  onClose: () => void;
+}
+
+export default function TaskTraceDialog({ taskId, onClose }: TaskTraceDialogProps) {
+  const { data: trace, isLoading } = useQuery<TaskTrace>({
+    queryKey: [`/api/tasks/${taskId}/trace`],
+    enabled: !!taskId,
+    // Keep the running step's elapsed time moving
+    refetchInterval: (query) => query.state.data?.current ? 5000 : false,
+  });
+
+  const entries: TimelineEntry[] = [
+    ...(trace?.spans ?? []).map((span, index) => ({
+      key: `span-${index}`,
+      step: span.step,
+      name: span.name,
+      startedAt: String(span.startedAt),
+      durationMs: span.durationMs,
+      result: span.result,
+      error: span.error,
+      startPose: span.startPose,
+      endPose: span.endPose,
+      moveIds: span.moveIds,
+    })),
+    ...(trace?.current ? [{
+      key: "current",
+      step: trace.current.step,
+      name: trace.current.name,
+      startedAt: trace.current.startedAt,
+      durationMs: trace.current.elapsedMs,
+      result: "running" as const,
+      startPose: trace.current.startPose,
+      endPose: null,
+      moveIds: trace.current.moveIds,
+    }] : []),
+  ];
+  const totalMs = entries.reduce((sum, entry) => sum + entry.durationMs, 0);
+
+  return (
+    <Dialog open={!!taskId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Step trace</DialogTitle>
+        </DialogHeader>
+        {isLoading || !trace ? (
+          <Skeleton className="h-48 w-full" />
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No steps have run for this task yet</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-600">
+              {trace.taskType} on {trace.robotId ?? "no robot"}, {entries.length} step run(s) totalling {formatDuration(totalMs)}
+            </div>
+
+            {/* Step durations side by side, to scale */}
+            <div className="flex h-3 w-full overflow-hidden rounded bg-gray-100">
+              {entries.map(entry => (
+                <div
+                  key={entry.key}
+                  title={`${entry.name}: ${formatDuration(entry.durationMs)}`}
+                  className={`${RESULT_STYLES[entry.result].bar} border-r border-white last:border-r-0`}
+                  style={{ width: `${totalMs > 0 ? (entry.durationMs / totalMs) * 100 : 100 / entries.length}%` }}
+                />
+              ))}
+            </div>
+
+            <ol className="relative max-h-[60vh] overflow-y-auto border-l border-gray-200 ml-2">
+              {entries.map(entry => (
+                <li key={entry.key} className="mb-4 ml-4">
+                  <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${RESULT_STYLES[entry.result].bar}`} />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-800">
+                      {entry.step + 1}. {entry.name}
+                    </p>
+                    <Badge variant="outline" className={RESULT_STYLES[entry.result].badge}>
+                      {RESULT_STYLES[entry.result].label}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.startedAt).toLocaleTimeString()} · {formatDuration(entry.durationMs)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatPose(entry.startPose)} → {entry.result === "running" ? "…" : formatPose(entry.endPose)}
+                  </p>
+                  {entry.moveIds.length > 0 && (
+                    <p className="text-xs text-gray-500">Moves {entry.moveIds.map(id => `#${id}`).join(", ")}</p>
+                  )}
+                  {entry.error && <p className="text-xs text-red-700 mt-1">{entry.error}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,7 @@ export type MessageType =
   | 'get_task_status'
   | 'robot_update'
   | 'task_update'
+  | 'task_confirmation'
   | 'ping'
   | 'pong';
 
@@ -118,7 +119,7 @@ export function useWebSocket() {
           }
           
           // Process different message types
-          if (message.type === 'robot_update' || message.type === 'task_update') {
+          if (message.type === 'robot_update' || message.type === 'task_update' || message.type === 'task_confirmation') {
             // These messages will be handled by components that register callbacks
             // for specific event types
             const eventCallbacks = Array.from(subscriptions.current.entries())
@@ -0,0 +1,413 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { type Map as FloorMap } from "@shared/schema";
+
+interface RobotUtilization {
+  robotId: string;
+  name: string;
+  floor: string;
+  busyMs: number;
+  idleMs: number;
+  chargingMs: number;
+  errorMs: number;
+  offlineMs: number;
+  utilization: number;
+  distance: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+}
+
+interface FleetReport {
+  from: string;
+  to: string;
+  floor: string | null;
+  totals: {
+    tasksCompleted: number;
+    tasksFailed: number;
+    tasksPerHour: number;
+    failureRate: number;
+    averageCycleMs: number | null;
+    averageWaitMs: number | null;
+    distance: number;
+    utilization: number;
+  };
+  throughputBucketMs: number;
+  throughput: { start: string; completed: number; failed: number }[];
+  robots: RobotUtilization[];
+  steps: { taskType: string; step: number; stepName: string; runs: number; averageMs: number }[];
+  failures: { code: number; name: string; count: number; rate: number }[];
+  floors: {
+    floor: string;
+    robots: number;
+    tasksCompleted: number;
+    tasksFailed: number;
+    tasksPerHour: number;
+    averageCycleMs: number | null;
+    busyMs: number;
+    distance: number;
+  }[];
+}
+
+// Floor select value for the whole fleet
+const ALL_FLOORS = "all";
+
+const RANGES: Record<string, { label: string; hours: number }> = {
+  "24h": { label: "Last 24 hours", hours: 24 },
+  "7d": { label: "Last 7 days", hours: 24 * 7 },
+  "30d": { label: "Last 30 days", hours: 24 * 30 },
+  "90d": { label: "Last 90 days", hours: 24 * 90 }
+};
+
+const throughputConfig = {
+  completed: { label: "Completed", color: "#16a34a" },
+  failed: { label: "Failed", color: "#dc2626" }
+} satisfies ChartConfig;
+
+const utilizationConfig = {
+  busy: { label: "Busy", color: "#2563eb" },
+  idle: { label: "Idle", color: "#9ca3af" },
+  charging: { label: "Charging", color: "#16a34a" },
+  error: { label: "Error", color: "#dc2626" },
+  offline: { label: "Offline", color: "#e5e7eb" }
+} satisfies ChartConfig;
+
+const hours = (ms: number) => Math.round((ms / 3600000) * 10) / 10;
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Format a duration such as "4m 12s" or "1h 05m"
+ */
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+const Stat = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <Card>
+    <CardContent className="p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold text-gray-800 mt-1">{value}</p>
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </CardContent>
+  </Card>
+);
+
+export default function Analytics() {
+  const [range, setRange] = useState("7d");
+  const [floor, setFloor] = useState(ALL_FLOORS);
+  const rangeHours = RANGES[range].hours;
+
+  // Fixed when the range changes, so the query key stays put; no "to" means up to now
+  const from = useMemo(() => new Date(Date.now() - rangeHours * 3600000).toISOString(), [rangeHours]);
+  const floorParam = floor === ALL_FLOORS ? "" : `&floor=${encodeURIComponent(floor)}`;
+
+  const { data: report, isLoading } = useQuery<FleetReport>({
+    queryKey: [`/api/analytics?from=${encodeURIComponent(from)}${floorParam}`],
+  });
+
+  const { data: maps } = useQuery<FloorMap[]>({
+    queryKey: ["/api/maps"],
+  });
+  const floors = Array.from(new Set(maps?.map(map => map.floor) ?? [])).sort();
+
+  const daily = (report?.throughputBucketMs ?? 0) >= 24 * 3600000;
+  const throughput = (report?.throughput ?? []).map(bucket => ({
+    ...bucket,
+    label: daily
+      ? new Date(bucket.start).toLocaleDateString([], { month: "short", day: "numeric" })
+      : new Date(bucket.start).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+  }));
+  const utilization = (report?.robots ?? []).map(robot => ({
+    name: robot.name,
+    busy: hours(robot.busyMs),
+    idle: hours(robot.idleMs),
+    charging: hours(robot.chargingMs),
+    error: hours(robot.errorMs),
+    offline: hours(robot.offlineMs)
+  }));
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Analytics</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Fleet utilization, throughput, cycle times and failures
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={floor} onValueChange={setFloor}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FLOORS}>All floors</SelectItem>
+              {floors.map(name => (
+                <SelectItem key={name} value={name}>Floor {name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGES).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Stat
+              label="Tasks completed"
+              value={String(report.totals.tasksCompleted)}
+              hint={`${report.totals.tasksPerHour.toFixed(1)} per hour`}
+            />
+            <Stat
+              label="Failure rate"
+              value={percent(report.totals.failureRate)}
+              hint={`${report.totals.tasksFailed} failed`}
+            />
+            <Stat
+              label="Average cycle time"
+              value={formatDuration(report.totals.averageCycleMs)}
+              hint={`Wait before start ${formatDuration(report.totals.averageWaitMs)}`}
+            />
+            <Stat
+              label="Utilization"
+              value={percent(report.totals.utilization)}
+              hint={`${(report.totals.distance / 1000).toFixed(1)} km driven`}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Throughput</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={throughputConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={throughput} margin={{ left: 0, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="completed" stackId="tasks" fill="var(--color-completed)" />
+                    <Bar dataKey="failed" stackId="tasks" fill="var(--color-failed)" />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Robot time (hours)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {utilization.length === 0 ? (
+                  <p className="h-64 flex items-center justify-center text-sm text-gray-500">No robots on this floor</p>
+                ) : (
+                  <ChartContainer config={utilizationConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={utilization} layout="vertical" margin={{ left: 0, right: 8 }}>
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {Object.keys(utilizationConfig).map(key => (
+                        <Bar key={key} dataKey={key} stackId="time" fill={`var(--color-${key})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Robots</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Robot</TableHead>
+                    <TableHead>Floor</TableHead>
+                    <TableHead>Utilization</TableHead>
+                    <TableHead>Charging</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead>Tasks</TableHead>
+                    <TableHead>Distance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.robots.map(robot => (
+                    <TableRow key={robot.robotId}>
+                      <TableCell className="font-medium">
+                        {robot.name}
+                        <span className="block text-xs text-gray-500">{robot.robotId}</span>
+                      </TableCell>
+                      <TableCell>{robot.floor}</TableCell>
+                      <TableCell>{percent(robot.utilization)}</TableCell>
+                      <TableCell>{hours(robot.chargingMs)} h</TableCell>
+                      <TableCell>{hours(robot.errorMs)} h</TableCell>
+                      <TableCell>
+                        {robot.tasksCompleted}
+                        {robot.tasksFailed > 0 && <span className="text-red-600"> / {robot.tasksFailed} failed</span>}
+                      </TableCell>
+                      <TableCell>{(robot.distance / 1000).toFixed(2)} km</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Step times</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {report.steps.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500">No workflow steps ran in this range</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Workflow</TableHead>
+                        <TableHead>Step</TableHead>
+                        <TableHead>Runs</TableHead>
+                        <TableHead>Average</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.steps.map(step => (
+                        <TableRow key={`${step.taskType}-${step.step}-${step.stepName}`}>
+                          <TableCell>{step.taskType}</TableCell>
+                          <TableCell>{step.step + 1}. {step.stepName}</TableCell>
+                          <TableCell>{step.runs}</TableCell>
+                          <TableCell>{formatDuration(step.averageMs)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Failures by error</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {report.failures.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500">No failed tasks in this range</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Error</TableHead>
+                        <TableHead>Tasks</TableHead>
+                        <TableHead>Share of finished</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.failures.map(failure => (
+                        <TableRow key={failure.code}>
+                          <TableCell>
+                            {failure.name}
+                            <span className="block text-xs text-gray-500">{failure.code}</span>
+                          </TableCell>
+                          <TableCell>{failure.count}</TableCell>
+                          <TableCell>{percent(failure.rate)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {report.floors.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Floors</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Floor</TableHead>
+                      <TableHead>Robots</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead>Failed</TableHead>
+                      <TableHead>Per hour</TableHead>
+                      <TableHead>Average cycle</TableHead>
+                      <TableHead>Busy</TableHead>
+                      <TableHead>Distance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.floors.map(entry => (
+                      <TableRow key={entry.floor}>
+                        <TableCell className="font-medium">{entry.floor}</TableCell>
+                        <TableCell>{entry.robots}</TableCell>
+                        <TableCell>{entry.tasksCompleted}</TableCell>
+                        <TableCell>{entry.tasksFailed}</TableCell>
+                        <TableCell>{entry.tasksPerHour.toFixed(1)}</TableCell>
+                        <TableCell>{formatDuration(entry.averageCycleMs)}</TableCell>
+                        <TableCell>{hours(entry.busyMs)} h</TableCell>
+                        <TableCell>{(entry.distance / 1000).toFixed(2)} km</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserRole, type ChargerLease, type Poi } from "@shared/schema";
+
+interface ChargerOccupancy {
+  charger: Poi;
+  lease: ChargerLease | null;
+}
+
+interface ChargerWaiter {
+  robotId: string;
+  floor: string | null;
+  urgent: boolean;
+  requestedAt: string;
+  position: number | null;
+}
+
+interface ChargerOverview {
+  chargers: ChargerOccupancy[];
+  waiting: ChargerWaiter[];
+}
+
+// Charger occupancy badge
+const OccupancyBadge = ({ lease }: { lease: ChargerLease | null }) => {
+  const badgeVariants: Record<string, { className: string; label: string }> = {
+    "free": { className: "bg-green-100 text-green-800", label: "Free" },
+    "traveling": { className: "bg-blue-100 text-blue-800", label: "Robot En Route" },
+    "docked": { className: "bg-amber-100 text-amber-800", label: "Charging" },
+  };
+
+  const variant = badgeVariants[lease?.status ?? "free"] || badgeVariants.free;
+
+  return (
+    <Badge variant="outline" className={variant.className}>
+      {variant.label}
+    </Badge>
+  );
+};
+
+export default function ChargersPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(UserRole.SUPERVISOR);
+
+  // Leases change as robots dock and leave, so keep polling
+  const { data, isLoading } = useQuery<ChargerOverview>({
+    queryKey: ["/api/chargers"],
+    refetchInterval: 10000,
+  });
+
+  // Release lease mutation
+  const releaseMutation = useMutation({
+    mutationFn: async (robotId: string) => {
+      return await apiRequest("DELETE", `/api/chargers/leases/${robotId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chargers"] });
+      toast({
+        title: "Charger released",
+        description: "The charger has been handed to the next waiting robot.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to release charger: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const occupied = data?.chargers.filter(entry => entry.lease).length ?? 0;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Chargers</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Which robot holds each charger and who is waiting for one
+          {data && ` - ${occupied} of ${data.chargers.length} chargers in use`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <Card className="xl:col-span-2">
+          <CardHeader>
+            <CardTitle>Charger Occupancy</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-4">
+                <Skeleton className="h-64 w-full" />
+              </div>
+            ) : data && data.chargers.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Charger</TableHead>
+                    <TableHead>Floor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Robot</TableHead>
+                    <TableHead>Since</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.chargers.map(({ charger, lease }) => (
+                    <TableRow key={charger.poiId}>
+                      <TableCell className="font-medium">{charger.name || charger.poiId}</TableCell>
+                      <TableCell>{charger.floor || "N/A"}</TableCell>
+                      <TableCell><OccupancyBadge lease={lease} /></TableCell>
+                      <TableCell>{lease?.robotId || "-"}</TableCell>
+                      <TableCell>
+                        {lease ? new Date(lease.dockedAt ?? lease.leasedAt ?? Date.now()).toLocaleTimeString() : "-"}
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          {lease && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => releaseMutation.mutate(lease.robotId)}
+                              disabled={releaseMutation.isPending}
+                            >
+                              Release
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="p-8 text-center">
+                <p className="text-gray-500">No chargers found</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Waiting Robots</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-4">
+                <Skeleton className="h-32 w-full" />
+              </div>
+            ) : data && data.waiting.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Robot</TableHead>
+                    <TableHead>Floor</TableHead>
+                    <TableHead>Waiting Since</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.waiting.map(waiter => (
+                    <TableRow key={waiter.robotId}>
+                      <TableCell>{waiter.position ?? "-"}</TableCell>
+                      <TableCell className="font-medium">
+                        {waiter.robotId}
+                        {waiter.urgent && <span className="block text-xs text-red-600">Low battery</span>}
+                      </TableCell>
+                      <TableCell>{waiter.floor || "N/A"}</TableCell>
+                      <TableCell>{new Date(waiter.requestedAt).toLocaleTimeString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="p-8 text-center">
+                <p className="text-gray-500">No robots waiting</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { 
@@ -19,22 +19,20 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
 
 // Auth check component
 const AuthCheck = ({ children }: { children: React.ReactNode }) => {
   const [, setLocation] = useLocation();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { user, isLoading } = useAuth();
 
   useEffect(() => {
-    const auth = localStorage.getItem('auth');
-    if (!auth) {
+    if (!isLoading && !user) {
       setLocation('/login');
-    } else {
-      setIsAuthenticated(true);
     }
-  }, [setLocation]);
+  }, [user, isLoading, setLocation]);
 
-  if (!isAuthenticated) {
+  if (!user) {
     return null;
   }
 
@@ -43,6 +41,7 @@ const AuthCheck = ({ children }: { children: React.ReactNode }) => {
 
 export default function DashboardPage() {
   const [, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
   
   // Fetch tasks
   const { data: tasks, isLoading } = useQuery({
@@ -50,9 +49,8 @@ export default function DashboardPage() {
     retry: false,
   });
 
-  const handleLogout = () => {
-    localStorage.removeItem('auth');
-    localStorage.removeItem('username');
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
     setLocation('/login');
   };
 
@@ -81,7 +79,7 @@ export default function DashboardPage() {
             </h1>
             <div className="flex items-center gap-4">
               <span className="text-gray-300">
-                {localStorage.getItem('username')}
+                {user?.username}
               </span>
               <Button 
                 variant="outline" 
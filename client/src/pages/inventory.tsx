@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserRole, type Bin, type Poi, type ShelfSlot } from "@shared/schema";
+import { Search, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+type BinLocation = Bin & { poiId: string | null };
+type SlotDetails = ShelfSlot & { poi: Poi | null };
+
+// Bin status badge
+const BinStatusBadge = ({ status }: { status: string }) => {
+  const badgeVariants: Record<string, { className: string; label: string }> = {
+    "stored": { className: "bg-green-100 text-green-800", label: "Stored" },
+    "in_transit": { className: "bg-blue-100 text-blue-800", label: "In Transit" },
+    "off_shelf": { className: "bg-gray-100 text-gray-800", label: "Off Shelf" },
+  };
+
+  const variant = badgeVariants[status] || badgeVariants.off_shelf;
+
+  return (
+    <Badge variant="outline" className={variant.className}>
+      {variant.label}
+    </Badge>
+  );
+};
+
+export default function InventoryPage() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [newBinId, setNewBinId] = useState("");
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(UserRole.SUPERVISOR);
+
+  const { data: slots, isLoading: slotsLoading } = useQuery<SlotDetails[]>({
+    queryKey: ["/api/inventory/slots"],
+  });
+
+  const { data: bins, isLoading: binsLoading } = useQuery<BinLocation[]>({
+    queryKey: ["/api/inventory/bins"],
+  });
+
+  const refreshInventory = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/slots"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/bins"] });
+  };
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error}`,
+      variant: "destructive",
+    });
+  };
+
+  // Register bin mutation
+  const registerBinMutation = useMutation({
+    mutationFn: async (binId: string) => {
+      return await apiRequest("POST", "/api/inventory/bins", { binId });
+    },
+    onSuccess: () => {
+      refreshInventory();
+      setNewBinId("");
+      toast({
+        title: "Bin registered",
+        description: "The bin can now be dropped off.",
+      });
+    },
+    onError: showError("register bin"),
+  });
+
+  // Remove bin mutation
+  const removeBinMutation = useMutation({
+    mutationFn: async (binId: string) => {
+      return await apiRequest("DELETE", `/api/inventory/bins/${binId}`);
+    },
+    onSuccess: refreshInventory,
+    onError: showError("remove bin"),
+  });
+
+  // Sync slots mutation
+  const syncSlotsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/inventory/slots/sync", {});
+      return response.json();
+    },
+    onSuccess: (result: { created: number }) => {
+      refreshInventory();
+      toast({
+        title: "Shelf slots synced",
+        description: `${result.created} new slot(s) created from shelf POIs.`,
+      });
+    },
+    onError: showError("sync shelf slots"),
+  });
+
+  // Enable/disable slot mutation
+  const toggleSlotMutation = useMutation({
+    mutationFn: async ({ poiId, enabled }: { poiId: string; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/inventory/slots/${poiId}`, { enabled });
+    },
+    onSuccess: refreshInventory,
+    onError: showError("update shelf slot"),
+  });
+
+  // Clear slot mutation (stocktake correction)
+  const clearSlotMutation = useMutation({
+    mutationFn: async (poiId: string) => {
+      return await apiRequest("PUT", `/api/inventory/slots/${poiId}/bin`, { binId: null });
+    },
+    onSuccess: refreshInventory,
+    onError: showError("clear shelf slot"),
+  });
+
+  const query = searchQuery.toLowerCase();
+  const filteredSlots = slots?.filter(slot =>
+    slot.poiId.toLowerCase().includes(query) ||
+    (slot.poi?.name ?? "").toLowerCase().includes(query) ||
+    (slot.binId ?? "").toLowerCase().includes(query)
+  );
+  const filteredBins = bins?.filter(bin =>
+    bin.binId.toLowerCase().includes(query) ||
+    (bin.label ?? "").toLowerCase().includes(query)
+  );
+
+  const occupied = slots?.filter(slot => slot.binId).length ?? 0;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Inventory</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Track which bin is stored in which shelf slot
+          {slots && ` - ${occupied} of ${slots.length} slots occupied`}
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <div className="relative w-full md:w-64">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                type="text"
+                placeholder="Search bins or shelves..."
+                className="pl-10"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+
+            {canEdit && (
+              <div className="flex flex-wrap items-center gap-2 w-full md:w-auto">
+                <Input
+                  type="text"
+                  placeholder="New bin ID"
+                  className="w-40"
+                  value={newBinId}
+                  onChange={(e) => setNewBinId(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  className="h-10"
+                  onClick={() => registerBinMutation.mutate(newBinId.trim())}
+                  disabled={!newBinId.trim() || registerBinMutation.isPending}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Register Bin
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-10"
+                  onClick={() => syncSlotsMutation.mutate()}
+                  disabled={syncSlotsMutation.isPending}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Sync Slots
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Shelf Slots</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {slotsLoading ? (
+              <div className="p-4">
+                <Skeleton className="h-64 w-full" />
+              </div>
+            ) : filteredSlots && filteredSlots.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shelf</TableHead>
+                    <TableHead>Area</TableHead>
+                    <TableHead>Bin</TableHead>
+                    <TableHead>Reserved By</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSlots.map(slot => (
+                    <TableRow key={slot.poiId}>
+                      <TableCell className="font-medium">{slot.poi?.name || slot.poiId}</TableCell>
+                      <TableCell>{slot.poi?.areaId || "N/A"}</TableCell>
+                      <TableCell>{slot.binId || <span className="text-gray-400">Empty</span>}</TableCell>
+                      <TableCell className="max-w-[8rem] truncate">{slot.reservedByTaskId || "-"}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={slot.enabled}
+                          disabled={!canEdit || toggleSlotMutation.isPending}
+                          onCheckedChange={(enabled) => toggleSlotMutation.mutate({ poiId: slot.poiId, enabled })}
+                        />
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          {slot.binId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => clearSlotMutation.mutate(slot.poiId)}
+                              disabled={clearSlotMutation.isPending}
+                            >
+                              Mark Empty
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="p-8 text-center">
+                <p className="text-gray-500">No shelf slots found</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Bins</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {binsLoading ? (
+              <div className="p-4">
+                <Skeleton className="h-64 w-full" />
+              </div>
+            ) : filteredBins && filteredBins.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bin</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Shelf</TableHead>
+                    <TableHead>Task</TableHead>
+                    {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredBins.map(bin => (
+                    <TableRow key={bin.binId}>
+                      <TableCell className="font-medium">
+                        {bin.binId}
+                        {bin.label && <span className="block text-xs text-gray-500">{bin.label}</span>}
+                      </TableCell>
+                      <TableCell><BinStatusBadge status={bin.status} /></TableCell>
+                      <TableCell>{bin.poiId || "-"}</TableCell>
+                      <TableCell className="max-w-[8rem] truncate">{bin.taskId || "-"}</TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          {bin.status === "off_shelf" && !bin.taskId && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeBinMutation.mutate(bin.binId)}
+                              disabled={removeBinMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="p-8 text-center">
+                <p className="text-gray-500">No bins found</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,703 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import LiveMap, {
+  type MapGrid,
+  type MapMarker,
+  type MapMode,
+  type MapPoint,
+  type MapRobot,
+  type MapTarget,
+  type MapZone,
+  type PointMenuItem
+} from "@/components/maps/LiveMap";
+import ReplayTimeline from "@/components/maps/ReplayTimeline";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useWebSocket, ConnectionStatus } from "@/hooks/useWebSocket";
+import {
+  GeofenceKind,
+  UserRole,
+  type Geofence,
+  type Map as FloorMap,
+  type Robot,
+  type Task
+} from "@shared/schema";
+
+interface MapView {
+  map: FloorMap;
+  sourceRobotId: string | null;
+  grid: MapGrid | null;
+  hasImage: boolean;
+  points: MapPoint[];
+  robots: MapRobot[];
+}
+
+// POI types an admin can place from the map
+const POI_TYPES = ["regular", "charger", "shelf", "pickup", "dropoff", "docking", "elevator", "checkpoint"];
+
+interface NewPoi extends MapTarget {
+  name: string;
+  type: string;
+}
+
+interface NewZone {
+  name: string;
+  kind: string;
+  speedLimit: string;
+}
+
+interface ReplayPose {
+  at: string;
+  x: number;
+  y: number;
+  ori: number;
+}
+
+interface PathReplay {
+  robotId: string;
+  taskId: string | null;
+  from: string;
+  to: string;
+  path: ReplayPose[];
+  markers: {
+    at: string;
+    kind: string;
+    event: string;
+    label: string;
+    taskId: string | null;
+    x: number | null;
+    y: number | null;
+  }[];
+}
+
+// Map modes plus replay, where the map shows a robot's recorded trail instead of live robots
+type PageMode = MapMode | "replay";
+
+// Time ranges a replay can cover instead of a task
+const REPLAY_RANGES: Record<string, { label: string; hours: number }> = {
+  "1h": { label: "Last hour", hours: 1 },
+  "6h": { label: "Last 6 hours", hours: 6 },
+  "24h": { label: "Last 24 hours", hours: 24 },
+};
+
+// Playback frame interval
+const REPLAY_TICK_MS = 100;
+
+// Robot pose at a moment of a replay, interpolated between the samples either side
+function replayPoseAt(path: (ReplayPose & { time: number })[], time: number): MapRobot["pose"] {
+  if (path.length === 0 || time < path[0].time) return null;
+
+  const next = path.findIndex(pose => pose.time > time);
+  if (next === -1) return path[path.length - 1];
+
+  const before = path[next - 1];
+  const after = path[next];
+  const ratio = (time - before.time) / (after.time - before.time);
+  return { x: before.x + (after.x - before.x) * ratio, y: before.y + (after.y - before.y) * ratio, ori: before.ori };
+}
+
+export default function LiveMapPage() {
+  const [areaId, setAreaId] = useState<string | null>(null);
+  const [poses, setPoses] = useState<Record<string, MapRobot["pose"]>>({});
+  const [mode, setMode] = useState<PageMode>("view");
+  const [robotId, setRobotId] = useState<string | null>(null);
+  const [newPoi, setNewPoi] = useState<NewPoi | null>(null);
+  const [draftZone, setDraftZone] = useState<{ x: number; y: number }[]>([]);
+  const [newZone, setNewZone] = useState<NewZone | null>(null);
+  const [replayRobotId, setReplayRobotId] = useState<string | null>(null);
+  const [replaySource, setReplaySource] = useState("1h"); // a REPLAY_RANGES key or a task ID
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(10);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canNavigate = hasRole(UserRole.SUPERVISOR);
+  const canEdit = hasRole(UserRole.ADMIN);
+
+  const { data: maps, isLoading: isMapsLoading } = useQuery<FloorMap[]>({
+    queryKey: ["/api/maps"],
+  });
+
+  // Default to the first active floor
+  useEffect(() => {
+    if (!areaId && maps && maps.length > 0) {
+      setAreaId((maps.find(map => map.isActive) ?? maps[0]).areaId);
+    }
+  }, [maps, areaId]);
+
+  const { data: view, isLoading: isViewLoading } = useQuery<MapView>({
+    queryKey: [`/api/maps/${areaId}/live`],
+    enabled: !!areaId,
+  });
+
+  const { data: zones } = useQuery<Geofence[]>({
+    queryKey: [`/api/geofences?areaId=${areaId}`],
+    enabled: !!areaId,
+  });
+
+  // A half-drawn zone belongs to the floor it was drawn on
+  useEffect(() => {
+    setDraftZone([]);
+  }, [areaId]);
+
+  // Start from the poses the server knew when the floor loaded
+  useEffect(() => {
+    setPoses(Object.fromEntries((view?.robots ?? []).map(robot => [robot.robotId, robot.pose])));
+  }, [view]);
+
+  // Move robots as /tracked_pose updates arrive
+  const { on, status, subscribeToAllRobots, unsubscribeFromAllRobots } = useWebSocket();
+  useEffect(() => {
+    subscribeToAllRobots();
+    const off = on('robot_update', (message) => {
+      const { robotId, position } = message.payload ?? {};
+      if (!robotId || !position) return;
+
+      setPoses(current => robotId in current
+        ? { ...current, [robotId]: { x: position.x, y: position.y, ori: position.orientation ?? 0 } }
+        : current);
+    });
+
+    return () => {
+      off();
+      unsubscribeFromAllRobots();
+    };
+  }, [on, subscribeToAllRobots, unsubscribeFromAllRobots]);
+
+  const robots = (view?.robots ?? []).map(robot => ({ ...robot, pose: poses[robot.robotId] ?? robot.pose }));
+
+  // Replays can pick any robot and any of its started tasks, whatever floor they are on now
+  const isReplay = mode === "replay";
+  const { data: allRobots } = useQuery<Robot[]>({
+    queryKey: ["/api/robots"],
+    enabled: isReplay,
+  });
+  const { data: tasks } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+    enabled: isReplay,
+  });
+
+  useEffect(() => {
+    if (!replayRobotId && allRobots && allRobots.length > 0) {
+      setReplayRobotId(allRobots[0].robotId);
+    }
+  }, [allRobots, replayRobotId]);
+
+  const replayTasks = (tasks ?? [])
+    .filter(task => task.robotId === replayRobotId && task.startedAt)
+    .sort((a, b) => new Date(b.startedAt!).getTime() - new Date(a.startedAt!).getTime())
+    .slice(0, 50);
+
+  // Fixed when the range is picked, so the query key stays put; no "to" means up to now
+  const replayFrom = useMemo(() => {
+    const range = REPLAY_RANGES[replaySource];
+    return range ? new Date(Date.now() - range.hours * 3600000).toISOString() : null;
+  }, [replaySource]);
+  const replayParams = replayFrom ? `from=${encodeURIComponent(replayFrom)}` : `taskId=${encodeURIComponent(replaySource)}`;
+
+  const { data: replay, isFetching: isReplayLoading, error: replayError } = useQuery<PathReplay>({
+    queryKey: [`/api/robot/${replayRobotId}/replay?${replayParams}`],
+    enabled: isReplay && !!replayRobotId,
+  });
+
+  const replayPath = useMemo(
+    () => (replay?.path ?? []).map(pose => ({ ...pose, time: new Date(pose.at).getTime() })),
+    [replay]
+  );
+  const replayStart = replay ? new Date(replay.from).getTime() : 0;
+  const replayEnd = replay ? new Date(replay.to).getTime() : 0;
+
+  // Rewind whenever a new replay loads
+  useEffect(() => {
+    setCursor(replayStart);
+    setPlaying(false);
+  }, [replay, replayStart]);
+
+  // Advance the cursor while playing, stopping at the end
+  useEffect(() => {
+    if (!playing || !isReplay) return;
+    const timer = setInterval(() => {
+      setCursor(current => Math.min(current + REPLAY_TICK_MS * speed, replayEnd));
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, isReplay, speed, replayEnd]);
+
+  useEffect(() => {
+    if (playing && cursor >= replayEnd) setPlaying(false);
+  }, [playing, cursor, replayEnd]);
+
+  const replayPose = replayPoseAt(replayPath, cursor);
+  const replayRobotName = allRobots?.find(robot => robot.robotId === replayRobotId)?.name ?? replayRobotId ?? "";
+  const replayRobots: MapRobot[] = replayPose && replayRobotId
+    ? [{ robotId: replayRobotId, name: replayRobotName, status: "busy", pose: replayPose }]
+    : [];
+  const replayMarkers: MapMarker[] = (replay?.markers ?? [])
+    .filter(marker => marker.x !== null && marker.y !== null)
+    .map((marker, index) => ({
+      id: `${index}`,
+      kind: marker.kind,
+      label: `${new Date(marker.at).toLocaleTimeString()} ${marker.label}`,
+      x: marker.x!,
+      y: marker.y!,
+      faded: new Date(marker.at).getTime() > cursor,
+    }));
+
+  // Default the robot to send to the first one on the floor
+  useEffect(() => {
+    if (view && !view.robots.some(robot => robot.robotId === robotId)) {
+      setRobotId(view.robots[0]?.robotId ?? null);
+    }
+  }, [view, robotId]);
+
+  const refreshMap = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/maps/${areaId}/live`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pois"] });
+  };
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error}`,
+      variant: "destructive",
+    });
+  };
+
+  // Send robot mutation
+  const navigateMutation = useMutation({
+    mutationFn: async (target: { robotId: string; x?: number; y?: number; yaw?: number; poiId?: string }) => {
+      return await apiRequest("POST", `/api/maps/${areaId}/navigate`, target);
+    },
+    onSuccess: (_response, target) => {
+      toast({
+        title: "Robot dispatched",
+        description: `${target.robotId} is moving to the selected ${target.poiId ? "point of interest" : "location"}.`,
+      });
+    },
+    onError: showError("send robot"),
+  });
+
+  // Create POI mutation
+  const createPoiMutation = useMutation({
+    mutationFn: async (poi: NewPoi) => {
+      return await apiRequest("POST", "/api/pois", {
+        poiId: `${areaId}_${Date.now().toString(36)}`,
+        name: poi.name,
+        type: poi.type,
+        x: poi.x,
+        y: poi.y,
+        yaw: poi.yaw ?? 0,
+        areaId,
+        floor: view?.map.floor,
+      });
+    },
+    onSuccess: () => {
+      refreshMap();
+      setNewPoi(null);
+    },
+    onError: showError("create POI"),
+  });
+
+  // Move POI mutation
+  const movePoiMutation = useMutation({
+    mutationFn: async ({ poiId, x, y }: { poiId: string; x: number; y: number }) => {
+      return await apiRequest("PUT", `/api/pois/${poiId}`, { x, y });
+    },
+    onSuccess: refreshMap,
+    onError: showError("move POI"),
+  });
+
+  // Delete POI mutation
+  const deletePoiMutation = useMutation({
+    mutationFn: async (poiId: string) => {
+      return await apiRequest("DELETE", `/api/pois/${poiId}`);
+    },
+    onSuccess: refreshMap,
+    onError: showError("delete POI"),
+  });
+
+  // Create geofence mutation
+  const createZoneMutation = useMutation({
+    mutationFn: async (zone: NewZone) => {
+      return await apiRequest("POST", "/api/geofences", {
+        zoneId: `${areaId}_${Date.now().toString(36)}`,
+        name: zone.name,
+        areaId,
+        kind: zone.kind,
+        polygon: draftZone,
+        speedLimit: zone.kind === GeofenceKind.SLOW ? parseFloat(zone.speedLimit) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/geofences?areaId=${areaId}`] });
+      setDraftZone([]);
+      setNewZone(null);
+    },
+    onError: showError("create zone"),
+  });
+
+  // Delete geofence mutation
+  const deleteZoneMutation = useMutation({
+    mutationFn: async (zoneId: string) => {
+      return await apiRequest("DELETE", `/api/geofences/${zoneId}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [`/api/geofences?areaId=${areaId}`] }),
+    onError: showError("delete zone"),
+  });
+
+  const handlePick = (target: MapTarget) => {
+    if (mode === "zone") {
+      setDraftZone(current => [...current, { x: target.x, y: target.y }]);
+    } else if (mode === "edit") {
+      setNewPoi({ ...target, name: "", type: POI_TYPES[0] });
+    } else if (robotId) {
+      navigateMutation.mutate({ robotId, x: target.x, y: target.y, yaw: target.yaw ?? undefined });
+    }
+  };
+
+  const pointMenu = (point: MapPoint): PointMenuItem[] => {
+    const items: PointMenuItem[] = canNavigate
+      ? robots.map(robot => ({
+          label: `Send ${robot.name} here`,
+          onSelect: () => navigateMutation.mutate({ robotId: robot.robotId, poiId: point.poiId }),
+        }))
+      : [];
+
+    if (canEdit && point.stored) {
+      items.push({
+        label: "Delete POI",
+        destructive: true,
+        onSelect: () => {
+          if (confirm(`Delete ${point.name}?`)) {
+            deletePoiMutation.mutate(point.poiId);
+          }
+        },
+      });
+    }
+    return items;
+  };
+
+  const zoneMenu = (zone: MapZone): PointMenuItem[] => canEdit
+    ? [{
+        label: "Delete zone",
+        destructive: true,
+        onSelect: () => {
+          if (confirm(`Delete ${zone.name}?`)) {
+            deleteZoneMutation.mutate(zone.zoneId);
+          }
+        },
+      }]
+    : [];
+
+  const newZoneSpeed = parseFloat(newZone?.speedLimit ?? "");
+  const isNewZoneValid = !!newZone?.name.trim() &&
+    (newZone.kind !== GeofenceKind.SLOW || (newZoneSpeed > 0 && newZoneSpeed <= 2));
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Live Map</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Robot positions and points of interest on each floor
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Badge variant="outline" className={status === ConnectionStatus.OPEN ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"}>
+            {status === ConnectionStatus.OPEN ? "Live" : "Reconnecting"}
+          </Badge>
+          <Select value={areaId ?? undefined} onValueChange={setAreaId} disabled={isMapsLoading || !maps?.length}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select a floor" />
+            </SelectTrigger>
+            <SelectContent>
+              {maps?.map(map => (
+                <SelectItem key={map.areaId} value={map.areaId}>
+                  {map.name} ({map.floor}{map.building ? `, ${map.building}` : ""})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card className="mb-4">
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+          <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as PageMode)}>
+            <ToggleGroupItem value="view">View</ToggleGroupItem>
+            {canNavigate && <ToggleGroupItem value="pick">Send Robot</ToggleGroupItem>}
+            {canEdit && <ToggleGroupItem value="edit">Edit POIs</ToggleGroupItem>}
+            {canEdit && <ToggleGroupItem value="zone">Zones</ToggleGroupItem>}
+            <ToggleGroupItem value="replay">Replay</ToggleGroupItem>
+          </ToggleGroup>
+
+          {mode === "zone" && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => setNewZone({ name: "", kind: GeofenceKind.NO_GO, speedLimit: "0.3" })}
+                disabled={draftZone.length < 3}
+              >
+                Finish Zone
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setDraftZone([])} disabled={draftZone.length === 0}>
+                Clear
+              </Button>
+            </div>
+          )}
+
+          {mode === "pick" && (
+            <Select value={robotId ?? undefined} onValueChange={setRobotId} disabled={robots.length === 0}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="No robots on this floor" />
+              </SelectTrigger>
+              <SelectContent>
+                {robots.map(robot => (
+                  <SelectItem key={robot.robotId} value={robot.robotId}>{robot.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {isReplay && (
+            <div className="flex gap-2">
+              <Select
+                value={replayRobotId ?? undefined}
+                onValueChange={(value) => {
+                  setReplayRobotId(value);
+                  if (!REPLAY_RANGES[replaySource]) setReplaySource("1h");
+                }}
+                disabled={!allRobots?.length}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="No robots" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allRobots?.map(robot => (
+                    <SelectItem key={robot.robotId} value={robot.robotId}>{robot.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={replaySource} onValueChange={setReplaySource}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REPLAY_RANGES).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                  {replayTasks.map(task => (
+                    <SelectItem key={task.taskId} value={task.taskId}>
+                      {task.name} ({task.status}, {new Date(task.startedAt!).toLocaleString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500">
+            {mode === "view" && (canNavigate
+              ? "Drag to pan, scroll to zoom. Right-click a point of interest to send a robot there."
+              : "Drag to pan, scroll to zoom.")}
+            {mode === "pick" && "Click to send the robot to a spot, or drag to set the heading it should face. Shift-drag pans."}
+            {mode === "edit" && "Click or drag to place a new POI, drag an existing POI to move it, right-click to delete. Shift-drag pans."}
+            {mode === "zone" && "Click to add the corners of a no-go or slow zone, then finish it. Right-click a zone to delete it. Shift-drag pans."}
+            {isReplay && "Pick a robot and a task or time range, and the floor it drove on. Hover a marker for the step or alert."}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4">
+          {isMapsLoading || isViewLoading ? (
+            <Skeleton className="h-[600px] w-full" />
+          ) : view ? (
+            <>
+              <LiveMap
+                grid={view.grid}
+                imageUrl={view.hasImage ? `/api/maps/${view.map.areaId}/image` : null}
+                points={view.points}
+                robots={isReplay ? replayRobots : robots}
+                mode={isReplay ? "view" : mode}
+                onPick={handlePick}
+                onPointMoved={(point, x, y) => movePoiMutation.mutate({ poiId: point.poiId, x, y })}
+                pointMenu={pointMenu}
+                zones={zones ?? []}
+                draftZone={mode === "zone" ? draftZone : []}
+                zoneMenu={zoneMenu}
+                trail={isReplay ? replayPath : []}
+                markers={isReplay ? replayMarkers : []}
+              />
+              {isReplay && replay && (
+                <div className="mt-3">
+                  <ReplayTimeline
+                    from={replayStart}
+                    to={replayEnd}
+                    cursor={cursor}
+                    playing={playing}
+                    speed={speed}
+                    markers={replay.markers.map((marker, index) => ({
+                      id: `${index}`,
+                      at: new Date(marker.at).getTime(),
+                      kind: marker.kind,
+                      label: marker.label,
+                    }))}
+                    onCursorChange={setCursor}
+                    onPlayingChange={setPlaying}
+                    onSpeedChange={setSpeed}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                {isReplay ? (
+                  isReplayLoading ? "Loading replay..."
+                    : replayError ? `Failed to load replay: ${replayError}`
+                    : replay && replay.path.length === 0 ? "No poses were recorded for this robot in this range"
+                    : replay ? `${replay.path.length} pose sample(s), ${replay.markers.length} event(s)`
+                    : "Pick a robot to replay"
+                ) : (
+                  <>
+                    {view.sourceRobotId
+                      ? `Map and points from robot ${view.sourceRobotId}`
+                      : "No robot on this floor could be reached; showing stored points only"}
+                    {` - ${view.points.length} point(s), ${robots.filter(robot => robot.pose).length} of ${robots.length} robot(s) located`}
+                  </>
+                )}
+              </p>
+            </>
+          ) : (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">No maps found</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!newPoi} onOpenChange={(open) => !open && setNewPoi(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Point of Interest</DialogTitle>
+          </DialogHeader>
+          {newPoi && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="poi-name">Name</Label>
+                <Input
+                  id="poi-name"
+                  value={newPoi.name}
+                  onChange={(e) => setNewPoi({ ...newPoi, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Type</Label>
+                <Select value={newPoi.type} onValueChange={(type) => setNewPoi({ ...newPoi, type })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {POI_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-gray-500">
+                x: {newPoi.x.toFixed(2)}, y: {newPoi.y.toFixed(2)}, yaw: {newPoi.yaw ?? 0}°
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewPoi(null)}>Cancel</Button>
+            <Button
+              onClick={() => newPoi && createPoiMutation.mutate(newPoi)}
+              disabled={!newPoi?.name.trim() || createPoiMutation.isPending}
+            >
+              Create POI
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newZone} onOpenChange={(open) => !open && setNewZone(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Zone</DialogTitle>
+          </DialogHeader>
+          {newZone && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="zone-name">Name</Label>
+                <Input
+                  id="zone-name"
+                  value={newZone.name}
+                  onChange={(e) => setNewZone({ ...newZone, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Kind</Label>
+                <Select value={newZone.kind} onValueChange={(kind) => setNewZone({ ...newZone, kind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GeofenceKind.NO_GO}>No-go</SelectItem>
+                    <SelectItem value={GeofenceKind.SLOW}>Slow</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {newZone.kind === GeofenceKind.SLOW && (
+                <div className="grid gap-2">
+                  <Label htmlFor="zone-speed">Speed limit (m/s)</Label>
+                  <Input
+                    id="zone-speed"
+                    type="number"
+                    step="0.1"
+                    min="0.1"
+                    max="2"
+                    value={newZone.speedLimit}
+                    onChange={(e) => setNewZone({ ...newZone, speedLimit: e.target.value })}
+                  />
+                </div>
+              )}
+              <p className="text-sm text-gray-500">{draftZone.length} corner(s)</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewZone(null)}>Cancel</Button>
+            <Button
+              onClick={() => newZone && createZoneMutation.mutate(newZone)}
+              disabled={!isNewZoneValid || createZoneMutation.isPending}
+            >
+              Create Zone
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
 
 export default function LoginPage() {
   const [username, setUsername] = useState('');
@@ -7,6 +8,7 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [, setLocation] = useLocation();
+  const { loginMutation } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -14,20 +16,13 @@ export default function LoginPage() {
     setError('');
     
     try {
-      // For now, hardcode the credentials as specified in requirements
-      if (username === 'Ozzydog' && password === 'Ozzydog') {
-        // Store auth token and user data in localStorage
-        localStorage.setItem('auth', 'true');
-        localStorage.setItem('username', username);
-        localStorage.setItem('lastLogin', new Date().toISOString());
-        
-        // Navigate to dashboard
-        setLocation('/dashboard');
-      } else {
-        setError('Invalid username or password');
-      }
+      // Server validates credentials and sets the session cookie
+      await loginMutation.mutateAsync({ username, password });
+      
+      // Navigate to dashboard
+      setLocation('/dashboard');
     } catch (err: any) {
-      setError(err.message || 'Login failed. Please try again.');
+      setError(err.message?.startsWith('401') ? 'Invalid username or password' : 'Login failed. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -177,9 +172,6 @@ export default function LoginPage() {
         
         <div style={footerStyle}>
           <p>Fleet Management Admin Portal</p>
-          <p style={{fontSize: '0.75rem', marginTop: '0.5rem'}}>
-            Access credentials: Ozzydog / Ozzydog
-          </p>
         </div>
       </div>
     </div>
@@ -1,8 +1,24 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -14,19 +30,194 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search, Plus, Map, MapPin, Filter } from "lucide-react";
+import { Search, Plus, Map, MapPin, Filter, Download, Upload } from "lucide-react";
+import MapSyncPanel, { type MapSyncDiff } from "@/components/maps/MapSyncPanel";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { UserRole, type Map as FloorMap, type Poi } from "@shared/schema";
+
+const POI_TYPES = ["regular", "charger", "shelf", "pickup", "dropoff", "docking", "elevator", "checkpoint"];
+
+// Map form fields; `existing` is set when editing
+interface MapForm {
+  existing: boolean;
+  areaId: string;
+  name: string;
+  floor: string;
+  building: string;
+  isActive: boolean;
+}
+
+// POI form fields (numbers kept as text while typing); `existing` is set when editing
+interface PoiForm {
+  existing: boolean;
+  poiId: string;
+  name: string;
+  type: string;
+  areaId: string;
+  x: string;
+  y: string;
+  yaw: string;
+}
+
+const emptyMapForm: MapForm = { existing: false, areaId: "", name: "", floor: "", building: "", isActive: true };
 
 export default function MapsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState("maps");
+  const [mapForm, setMapForm] = useState<MapForm | null>(null);
+  const [poiForm, setPoiForm] = useState<PoiForm | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(UserRole.ADMIN);
   
-  const { data: maps, isLoading: isMapsLoading } = useQuery({
+  const { data: maps, isLoading: isMapsLoading } = useQuery<FloorMap[]>({
     queryKey: ["/api/maps"],
   });
   
-  const { data: pois, isLoading: isPoisLoading } = useQuery({
+  const { data: pois, isLoading: isPoisLoading } = useQuery<Poi[]>({
     queryKey: ["/api/pois"],
   });
+
+  const { data: syncDiffs } = useQuery<MapSyncDiff[]>({
+    queryKey: ["/api/map-sync"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maps"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pois"] });
+  };
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error}`,
+      variant: "destructive",
+    });
+  };
+
+  // Save map mutation (create or update)
+  const saveMapMutation = useMutation({
+    mutationFn: async (form: MapForm) => {
+      const body = { name: form.name, floor: form.floor, building: form.building || null, isActive: form.isActive };
+      return form.existing
+        ? await apiRequest("PUT", `/api/maps/${form.areaId}`, body)
+        : await apiRequest("POST", "/api/maps", { ...body, areaId: form.areaId });
+    },
+    onSuccess: () => {
+      refresh();
+      setMapForm(null);
+    },
+    onError: showError("save map"),
+  });
+
+  // Delete map mutation
+  const deleteMapMutation = useMutation({
+    mutationFn: async ({ areaId, cascade }: { areaId: string; cascade: boolean }) => {
+      return await apiRequest("DELETE", `/api/maps/${areaId}${cascade ? "?cascade=true" : ""}`);
+    },
+    onSuccess: refresh,
+    onError: showError("delete map"),
+  });
+
+  // Save POI mutation (create or update)
+  const savePoiMutation = useMutation({
+    mutationFn: async (form: PoiForm) => {
+      const body = {
+        name: form.name,
+        type: form.type,
+        areaId: form.areaId,
+        x: Number(form.x),
+        y: Number(form.y),
+        yaw: form.yaw === "" ? null : Number(form.yaw),
+      };
+      return form.existing
+        ? await apiRequest("PUT", `/api/pois/${form.poiId}`, body)
+        : await apiRequest("POST", "/api/pois", { ...body, poiId: form.poiId });
+    },
+    onSuccess: () => {
+      refresh();
+      setPoiForm(null);
+    },
+    onError: showError("save POI"),
+  });
+
+  // Delete POI mutation
+  const deletePoiMutation = useMutation({
+    mutationFn: async (poiId: string) => {
+      return await apiRequest("DELETE", `/api/pois/${poiId}`);
+    },
+    onSuccess: refresh,
+    onError: showError("delete POI"),
+  });
+
+  // Import mutation
+  const importMutation = useMutation({
+    mutationFn: async (bundle: unknown) => {
+      const res = await apiRequest("POST", "/api/maps/import", bundle);
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      refresh();
+      toast({
+        title: "Import complete",
+        description: `Maps: ${result.mapsCreated} created, ${result.mapsUpdated} updated. ` +
+          `POIs: ${result.poisCreated} created, ${result.poisUpdated} updated.`,
+      });
+    },
+    onError: showError("import maps"),
+  });
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      importMutation.mutate(JSON.parse(await file.text()));
+    } catch (error) {
+      showError("read import file")(error);
+    } finally {
+      if (importInput.current) importInput.current.value = "";
+    }
+  };
+
+  const handleDeleteMap = (map: FloorMap) => {
+    const count = pois?.filter(poi => poi.areaId === map.areaId).length ?? 0;
+    const question = count > 0
+      ? `Delete ${map.name} and its ${count} POI(s)?`
+      : `Delete ${map.name}?`;
+    if (confirm(question)) {
+      deleteMapMutation.mutate({ areaId: map.areaId, cascade: count > 0 });
+    }
+  };
+
+  const openPoiForm = (poi?: Poi) => {
+    setPoiForm(poi ? {
+      existing: true,
+      poiId: poi.poiId,
+      name: poi.name,
+      type: poi.type,
+      areaId: poi.areaId,
+      x: String(poi.x),
+      y: String(poi.y),
+      yaw: poi.yaw === null || poi.yaw === undefined ? "" : String(poi.yaw),
+    } : {
+      existing: false,
+      poiId: "",
+      name: "",
+      type: POI_TYPES[0],
+      areaId: maps?.[0]?.areaId ?? "",
+      x: "0",
+      y: "0",
+      yaw: "",
+    });
+  };
+
+  const poiFormValid = !!poiForm && !!poiForm.poiId.trim() && !!poiForm.name.trim() && !!poiForm.areaId &&
+    poiForm.x.trim() !== "" && Number.isFinite(Number(poiForm.x)) &&
+    poiForm.y.trim() !== "" && Number.isFinite(Number(poiForm.y)) &&
+    (poiForm.yaw === "" || Number.isFinite(Number(poiForm.yaw)));
   
   // Filter maps based on search query
   const filteredMaps = maps?.filter((map: any) => 
@@ -38,7 +229,7 @@ export default function MapsPage() {
   // Filter POIs based on search query
   const filteredPois = pois?.filter((poi: any) => 
     poi.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    poi.floor.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (poi.floor && poi.floor.toLowerCase().includes(searchQuery.toLowerCase())) ||
     poi.type.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
@@ -69,10 +260,46 @@ export default function MapsPage() {
                 Filter
               </Button>
               
-              <Button size="sm" className="h-10">
-                <Plus className="h-4 w-4 mr-2" />
-                {activeTab === "maps" ? "Add Map" : "Add POI"}
+              <Button variant="outline" size="sm" className="h-10" asChild>
+                <a href="/api/maps/export" download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </a>
               </Button>
+              
+              {canEdit && (
+                <>
+                  <input
+                    ref={importInput}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => handleImportFile(e.target.files?.[0])}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-10"
+                    onClick={() => importInput.current?.click()}
+                    disabled={importMutation.isPending}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  
+                  {activeTab !== "sync" && (
+                    <Button
+                      size="sm"
+                      className="h-10"
+                      onClick={() => activeTab === "maps" ? setMapForm(emptyMapForm) : openPoiForm()}
+                      disabled={activeTab === "pois" && !maps?.length}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      {activeTab === "maps" ? "Add Map" : "Add POI"}
+                    </Button>
+                  )}
+                </>
+              )}
             </div>
           </div>
         </CardContent>
@@ -82,6 +309,12 @@ export default function MapsPage() {
         <TabsList className="mb-6">
           <TabsTrigger value="maps">Maps</TabsTrigger>
           <TabsTrigger value="pois">Points of Interest</TabsTrigger>
+          <TabsTrigger value="sync">
+            Map Sync
+            {!!syncDiffs?.length && (
+              <Badge variant="outline" className="ml-2 bg-amber-100 text-amber-800">{syncDiffs.length}</Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="maps">
@@ -104,7 +337,7 @@ export default function MapsPage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredMaps.map((map: any) => (
+                    {filteredMaps.map((map) => (
                       <TableRow key={map.id}>
                         <TableCell className="font-medium">{map.name}</TableCell>
                         <TableCell>{map.areaId}</TableCell>
@@ -116,8 +349,36 @@ export default function MapsPage() {
                           </Badge>
                         </TableCell>
                         <TableCell className="text-right">
-                          <Button variant="ghost" size="sm">View</Button>
-                          <Button variant="ghost" size="sm">Edit</Button>
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href="/live-map">View</a>
+                          </Button>
+                          {canEdit && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setMapForm({
+                                  existing: true,
+                                  areaId: map.areaId,
+                                  name: map.name,
+                                  floor: map.floor,
+                                  building: map.building ?? "",
+                                  isActive: map.isActive ?? true,
+                                })}
+                              >
+                                Edit
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600"
+                                onClick={() => handleDeleteMap(map)}
+                                disabled={deleteMapMutation.isPending}
+                              >
+                                Delete
+                              </Button>
+                            </>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -159,7 +420,7 @@ export default function MapsPage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredPois.map((poi: any) => (
+                    {filteredPois.map((poi) => (
                       <TableRow key={poi.id}>
                         <TableCell className="font-medium">{poi.name}</TableCell>
                         <TableCell>
@@ -172,11 +433,23 @@ export default function MapsPage() {
                           </Badge>
                         </TableCell>
                         <TableCell>{poi.floor}</TableCell>
-                        <TableCell>x: {poi.x.toFixed(2)}, y: {poi.y.toFixed(2)}{poi.yaw !== undefined ? `, yaw: ${poi.yaw}°` : ''}</TableCell>
+                        <TableCell>x: {poi.x.toFixed(2)}, y: {poi.y.toFixed(2)}{poi.yaw !== null ? `, yaw: ${poi.yaw}°` : ''}</TableCell>
                         <TableCell>{poi.areaId}</TableCell>
                         <TableCell className="text-right">
-                          <Button variant="ghost" size="sm">View</Button>
-                          <Button variant="ghost" size="sm">Edit</Button>
+                          {canEdit && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => openPoiForm(poi)}>Edit</Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600"
+                                onClick={() => confirm(`Delete ${poi.name}?`) && deletePoiMutation.mutate(poi.poiId)}
+                                disabled={deletePoiMutation.isPending}
+                              >
+                                Delete
+                              </Button>
+                            </>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -197,7 +470,179 @@ export default function MapsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="sync">
+          <MapSyncPanel canApprove={canEdit} />
+        </TabsContent>
       </Tabs>
+
+      <Dialog open={!!mapForm} onOpenChange={(open) => !open && setMapForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mapForm?.existing ? "Edit Map" : "New Map"}</DialogTitle>
+          </DialogHeader>
+          {mapForm && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="map-area">Area ID</Label>
+                <Input
+                  id="map-area"
+                  value={mapForm.areaId}
+                  disabled={mapForm.existing}
+                  onChange={(e) => setMapForm({ ...mapForm, areaId: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="map-name">Name</Label>
+                <Input
+                  id="map-name"
+                  value={mapForm.name}
+                  onChange={(e) => setMapForm({ ...mapForm, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="map-floor">Floor</Label>
+                  <Input
+                    id="map-floor"
+                    value={mapForm.floor}
+                    onChange={(e) => setMapForm({ ...mapForm, floor: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="map-building">Building</Label>
+                  <Input
+                    id="map-building"
+                    value={mapForm.building}
+                    onChange={(e) => setMapForm({ ...mapForm, building: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="map-active"
+                  checked={mapForm.isActive}
+                  onCheckedChange={(isActive) => setMapForm({ ...mapForm, isActive })}
+                />
+                <Label htmlFor="map-active">Active</Label>
+              </div>
+              {mapForm.existing && (
+                <p className="text-sm text-gray-500">Changing the floor also moves this map's POIs to the new floor.</p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMapForm(null)}>Cancel</Button>
+            <Button
+              onClick={() => mapForm && saveMapMutation.mutate(mapForm)}
+              disabled={!mapForm?.areaId.trim() || !mapForm?.name.trim() || !mapForm?.floor.trim() || saveMapMutation.isPending}
+            >
+              {mapForm?.existing ? "Save Map" : "Create Map"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!poiForm} onOpenChange={(open) => !open && setPoiForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{poiForm?.existing ? "Edit Point of Interest" : "New Point of Interest"}</DialogTitle>
+          </DialogHeader>
+          {poiForm && (
+            <div className="grid gap-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="poi-id">POI ID</Label>
+                  <Input
+                    id="poi-id"
+                    value={poiForm.poiId}
+                    disabled={poiForm.existing}
+                    onChange={(e) => setPoiForm({ ...poiForm, poiId: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="poi-name">Name</Label>
+                  <Input
+                    id="poi-name"
+                    value={poiForm.name}
+                    onChange={(e) => setPoiForm({ ...poiForm, name: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Type</Label>
+                  <Select value={poiForm.type} onValueChange={(type) => setPoiForm({ ...poiForm, type })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...POI_TYPES, poiForm.type])).map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Map</Label>
+                  <Select value={poiForm.areaId} onValueChange={(areaId) => setPoiForm({ ...poiForm, areaId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a map" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {maps?.map(map => (
+                        <SelectItem key={map.areaId} value={map.areaId}>{map.name} ({map.floor})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="poi-x">X (m)</Label>
+                  <Input
+                    id="poi-x"
+                    type="number"
+                    step="0.01"
+                    value={poiForm.x}
+                    onChange={(e) => setPoiForm({ ...poiForm, x: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="poi-y">Y (m)</Label>
+                  <Input
+                    id="poi-y"
+                    type="number"
+                    step="0.01"
+                    value={poiForm.y}
+                    onChange={(e) => setPoiForm({ ...poiForm, y: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="poi-yaw">Yaw (°)</Label>
+                  <Input
+                    id="poi-yaw"
+                    type="number"
+                    min={-360}
+                    max={360}
+                    value={poiForm.yaw}
+                    onChange={(e) => setPoiForm({ ...poiForm, yaw: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPoiForm(null)}>Cancel</Button>
+            <Button
+              onClick={() => poiForm && savePoiMutation.mutate(poiForm)}
+              disabled={!poiFormValid || savePoiMutation.isPending}
+            >
+              {poiForm?.existing ? "Save POI" : "Create POI"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
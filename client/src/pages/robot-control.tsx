@@ -36,6 +36,8 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { UserRole } from '@shared/schema';
 
 interface RobotStatus {
   robotId: string;
@@ -55,6 +57,10 @@ interface RobotStatus {
 
 export default function RobotControl() {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canMove = hasRole(UserRole.SUPERVISOR);
+  const canStop = hasRole(UserRole.OPERATOR);
+  const canConfigure = hasRole(UserRole.ADMIN);
   const [robotId, setRobotId] = useState('L382502104987ir');
   const [robotStatus, setRobotStatus] = useState<RobotStatus | null>(null);
   const [loading, setLoading] = useState(false);
@@ -308,10 +314,10 @@ export default function RobotControl() {
       </div>
       
       <Tabs defaultValue="control" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${canConfigure ? 'grid-cols-3' : 'grid-cols-2'}`}>
           <TabsTrigger value="control">Control Panel</TabsTrigger>
           <TabsTrigger value="status">Robot Status</TabsTrigger>
-          <TabsTrigger value="settings">Settings</TabsTrigger>
+          {canConfigure && <TabsTrigger value="settings">Settings</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="control" className="space-y-4">
@@ -327,114 +333,135 @@ export default function RobotControl() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-3 gap-4 mb-6">
-                  <div></div>
-                  <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('forward')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-16 aspect-square"
-                  >
-                    <ArrowUp className="h-6 w-6" />
-                  </Button>
-                  <div></div>
-                  <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('left')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-16 aspect-square"
-                  >
-                    <ArrowLeft className="h-6 w-6" />
-                  </Button>
+                {canMove ? (
+                  <>
+                    <div className="grid grid-cols-3 gap-4 mb-6">
+                      <div></div>
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('forward')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-16 aspect-square"
+                      >
+                        <ArrowUp className="h-6 w-6" />
+                      </Button>
+                      <div></div>
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('left')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-16 aspect-square"
+                      >
+                        <ArrowLeft className="h-6 w-6" />
+                      </Button>
+                      <Button 
+                        variant="destructive" 
+                        size="lg" 
+                        onClick={stopRobot}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-16 aspect-square"
+                      >
+                        <Stop className="h-6 w-6" />
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('right')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-16 aspect-square"
+                      >
+                        <ArrowRight className="h-6 w-6" />
+                      </Button>
+                      <div></div>
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('backward')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-16 aspect-square"
+                      >
+                        <ArrowDown className="h-6 w-6" />
+                      </Button>
+                      <div></div>
+                    </div>
+                
+                    <div className="grid grid-cols-2 gap-4">
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('rotate_left')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-12"
+                      >
+                        <RotateCcw className="h-5 w-5 mr-2" />
+                        Rotate Left
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="lg" 
+                        onClick={() => moveRobot('rotate_right')}
+                        disabled={loading || !robotStatus?.connected}
+                        className="h-12"
+                      >
+                        <RotateCw className="h-5 w-5 mr-2" />
+                        Rotate Right
+                      </Button>
+                    </div>
+                
+                    <div className="mt-6">
+                      <Label htmlFor="speed">Movement Speed ({movementSpeed}%)</Label>
+                      <Input 
+                        id="speed"
+                        type="range"
+                        min="10"
+                        max="100"
+                        value={movementSpeed}
+                        onChange={(e) => setMovementSpeed(parseInt(e.target.value))}
+                        className="mt-2"
+                      />
+                    </div>
+                  </>
+                ) : canStop ? (
                   <Button 
                     variant="destructive" 
                     size="lg" 
                     onClick={stopRobot}
                     disabled={loading || !robotStatus?.connected}
-                    className="h-16 aspect-square"
-                  >
-                    <Stop className="h-6 w-6" />
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('right')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-16 aspect-square"
-                  >
-                    <ArrowRight className="h-6 w-6" />
-                  </Button>
-                  <div></div>
-                  <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('backward')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-16 aspect-square"
+                    className="w-full h-16"
                   >
-                    <ArrowDown className="h-6 w-6" />
-                  </Button>
-                  <div></div>
-                </div>
-                
-                <div className="grid grid-cols-2 gap-4">
-                  <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('rotate_left')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-12"
-                  >
-                    <RotateCcw className="h-5 w-5 mr-2" />
-                    Rotate Left
+                    <Stop className="h-6 w-6 mr-2" />
+                    Stop Robot
                   </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Your role can view robot status but not control movement.
+                  </p>
+                )}
+              </CardContent>
+              {canConfigure && (
+                <CardFooter>
                   <Button 
-                    variant="outline" 
-                    size="lg" 
-                    onClick={() => moveRobot('rotate_right')}
-                    disabled={loading || !robotStatus?.connected}
-                    className="h-12"
+                    variant="default" 
+                    className="w-full"
+                    onClick={connectToRobot}
+                    disabled={loading}
                   >
-                    <RotateCw className="h-5 w-5 mr-2" />
-                    Rotate Right
+                    {loading ? (
+                      <div className="flex items-center">
+                        <div className="animate-spin h-4 w-4 mr-2 border-2 border-b-0 border-r-0 border-white rounded-full"></div>
+                        Connecting...
+                      </div>
+                    ) : (
+                      <>
+                        <Power className="mr-2 h-4 w-4" />
+                        {connectionStatus === 'Connected' ? 'Reconnect' : 'Connect to Robot'}
+                      </>
+                    )}
                   </Button>
-                </div>
-                
-                <div className="mt-6">
-                  <Label htmlFor="speed">Movement Speed ({movementSpeed}%)</Label>
-                  <Input 
-                    id="speed"
-                    type="range"
-                    min="10"
-                    max="100"
-                    value={movementSpeed}
-                    onChange={(e) => setMovementSpeed(parseInt(e.target.value))}
-                    className="mt-2"
-                  />
-                </div>
-              </CardContent>
-              <CardFooter>
-                <Button 
-                  variant="default" 
-                  className="w-full"
-                  onClick={connectToRobot}
-                  disabled={loading}
-                >
-                  {loading ? (
-                    <div className="flex items-center">
-                      <div className="animate-spin h-4 w-4 mr-2 border-2 border-b-0 border-r-0 border-white rounded-full"></div>
-                      Connecting...
-                    </div>
-                  ) : (
-                    <>
-                      <Power className="mr-2 h-4 w-4" />
-                      {connectionStatus === 'Connected' ? 'Reconnect' : 'Connect to Robot'}
-                    </>
-                  )}
-                </Button>
-              </CardFooter>
+                </CardFooter>
+              )}
             </Card>
             
             <Card>
@@ -623,85 +650,87 @@ export default function RobotControl() {
           </div>
         </TabsContent>
         
-        <TabsContent value="settings">
-          <Card>
-            <CardHeader>
-              <CardTitle>Robot Connection Settings</CardTitle>
-              <CardDescription>Configure IP addresses and connection details</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label htmlFor="robotId">Robot ID</Label>
-                <Input
-                  id="robotId"
-                  value={robotId}
-                  onChange={(e) => setRobotId(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  The unique identifier for the robot
-                </p>
-              </div>
+        {canConfigure && (
+          <TabsContent value="settings">
+            <Card>
+              <CardHeader>
+                <CardTitle>Robot Connection Settings</CardTitle>
+                <CardDescription>Configure IP addresses and connection details</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="robotId">Robot ID</Label>
+                  <Input
+                    id="robotId"
+                    value={robotId}
+                    onChange={(e) => setRobotId(e.target.value)}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The unique identifier for the robot
+                  </p>
+                </div>
               
-              <div>
-                <Label htmlFor="publicIp">Public IP Address</Label>
-                <Input
-                  id="publicIp"
-                  value={ipConfig.publicIp}
-                  onChange={(e) => setIpConfig({...ipConfig, publicIp: e.target.value})}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  The public IP address for WAN access
-                </p>
-              </div>
+                <div>
+                  <Label htmlFor="publicIp">Public IP Address</Label>
+                  <Input
+                    id="publicIp"
+                    value={ipConfig.publicIp}
+                    onChange={(e) => setIpConfig({...ipConfig, publicIp: e.target.value})}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The public IP address for WAN access
+                  </p>
+                </div>
               
-              <div>
-                <Label htmlFor="localIp">Local IP Address</Label>
-                <Input
-                  id="localIp"
-                  value={ipConfig.localIp}
-                  onChange={(e) => setIpConfig({...ipConfig, localIp: e.target.value})}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  The local IP address for LAN access
-                </p>
-              </div>
+                <div>
+                  <Label htmlFor="localIp">Local IP Address</Label>
+                  <Input
+                    id="localIp"
+                    value={ipConfig.localIp}
+                    onChange={(e) => setIpConfig({...ipConfig, localIp: e.target.value})}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The local IP address for LAN access
+                  </p>
+                </div>
               
-              <div>
-                <Label htmlFor="port">Port</Label>
-                <Input
-                  id="port"
-                  value={ipConfig.port}
-                  onChange={(e) => setIpConfig({...ipConfig, port: e.target.value})}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  The port number for the robot connection
-                </p>
-              </div>
-            </CardContent>
-            <CardFooter className="flex justify-between">
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setIpConfig({
-                    publicIp: '47.180.91.99',
-                    localIp: '192.168.4.31',
-                    port: '80'
-                  });
-                }}
-              >
-                Reset to Default
-              </Button>
-              <Button onClick={saveIpConfig}>
-                <Save className="h-4 w-4 mr-2" />
-                Save Settings
-              </Button>
-            </CardFooter>
-          </Card>
-        </TabsContent>
+                <div>
+                  <Label htmlFor="port">Port</Label>
+                  <Input
+                    id="port"
+                    value={ipConfig.port}
+                    onChange={(e) => setIpConfig({...ipConfig, port: e.target.value})}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The port number for the robot connection
+                  </p>
+                </div>
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Button 
+                  variant="outline" 
+                  onClick={() => {
+                    setIpConfig({
+                      publicIp: '47.180.91.99',
+                      localIp: '192.168.4.31',
+                      port: '80'
+                    });
+                  }}
+                >
+                  Reset to Default
+                </Button>
+                <Button onClick={saveIpConfig}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Settings
+                </Button>
+              </CardFooter>
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
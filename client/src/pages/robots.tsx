@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import TelemetryChart from "@/components/robots/TelemetryChart";
 import { 
   Search, 
   Plus, 
@@ -29,6 +30,7 @@ const statusIndicatorStyles = (status: string) => {
 export default function RobotsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [expandedRobotId, setExpandedRobotId] = useState<string | null>(null);
   
   const { data: robots, isLoading } = useQuery({
     queryKey: ["/api/robots", statusFilter],
@@ -184,10 +186,22 @@ export default function RobotsPage() {
                   </div>
                   
                   <div className="flex flex-row sm:flex-col justify-end gap-2 mt-4 sm:mt-0">
-                    <Button size="sm">Details</Button>
+                    <Button
+                      size="sm"
+                      variant={expandedRobotId === robot.robotId ? "secondary" : "default"}
+                      onClick={() => setExpandedRobotId(expandedRobotId === robot.robotId ? null : robot.robotId)}
+                    >
+                      {expandedRobotId === robot.robotId ? "Hide Details" : "Details"}
+                    </Button>
                     <Button variant="outline" size="sm">Control</Button>
                   </div>
                 </div>
+                
+                {expandedRobotId === robot.robotId && (
+                  <div className="mt-4">
+                    <TelemetryChart robotId={robot.robotId} />
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))
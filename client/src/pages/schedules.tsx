@@ -0,0 +1,466 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  UserRole,
+  type BlackoutWindow,
+  type Poi,
+  type Robot,
+  type Schedule,
+  type TaskPoint,
+  type WorkflowDefinition
+} from "@shared/schema";
+import { Play, Plus, Trash2 } from "lucide-react";
+
+type ScheduleView = Schedule & { nextRunAt: string | null };
+
+// Robot select value that leaves the choice to the fleet dispatcher
+const ANY_ROBOT = "any";
+
+// Blackout windows as typed in the form: "22:00-06:00, 12:00-13:00"
+const BLACKOUT_PATTERN = /^\s*(\d{2}:\d{2})\s*-\s*(\d{2}:\d{2})\s*$/;
+
+interface NewSchedule {
+  name: string;
+  cron: string;
+  timezone: string;
+  taskType: string;
+  robotId: string;
+  priority: string;
+  points: TaskPoint[];
+  blackouts: string;
+}
+
+const emptySchedule = (): NewSchedule => ({
+  name: "",
+  cron: "0 * * * *",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  taskType: "",
+  robotId: ANY_ROBOT,
+  priority: "normal",
+  points: [],
+  blackouts: "",
+});
+
+/**
+ * Parse the blackout field, or null if any window is malformed
+ */
+function parseBlackouts(text: string): BlackoutWindow[] | null {
+  const windows: BlackoutWindow[] = [];
+  for (const part of text.split(",").filter(part => part.trim())) {
+    const match = BLACKOUT_PATTERN.exec(part);
+    if (!match) return null;
+    windows.push({ start: match[1], end: match[2] });
+  }
+  return windows;
+}
+
+// Outcome badge of a schedule's last run
+const OutcomeBadge = ({ outcome }: { outcome: string | null }) => {
+  const badgeVariants: Record<string, { className: string; label: string }> = {
+    "created": { className: "bg-green-100 text-green-800", label: "Task Created" },
+    "skipped_no_robot": { className: "bg-amber-100 text-amber-800", label: "No Robot" },
+    "skipped_blackout": { className: "bg-gray-100 text-gray-800", label: "Blackout" },
+    "failed": { className: "bg-red-100 text-red-800", label: "Failed" },
+  };
+
+  if (!outcome) return <span className="text-gray-500">Never</span>;
+  const variant = badgeVariants[outcome] || { className: "bg-gray-100 text-gray-800", label: outcome };
+
+  return (
+    <Badge variant="outline" className={variant.className}>
+      {variant.label}
+    </Badge>
+  );
+};
+
+export default function SchedulesPage() {
+  const [newSchedule, setNewSchedule] = useState<NewSchedule | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole(UserRole.SUPERVISOR);
+
+  const { data: schedules, isLoading } = useQuery<ScheduleView[]>({
+    queryKey: ["/api/schedules"],
+    refetchInterval: 30000,
+  });
+
+  const { data: workflows } = useQuery<WorkflowDefinition[]>({
+    queryKey: ["/api/workflows"],
+  });
+  const activeWorkflows = workflows?.filter(workflow => workflow.isActive) ?? [];
+
+  const { data: robots } = useQuery<Robot[]>({
+    queryKey: ["/api/robots"],
+  });
+
+  const { data: pois } = useQuery<Poi[]>({
+    queryKey: ["/api/pois"],
+  });
+
+  const refreshSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+  };
+
+  const showError = (action: string) => (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error}`,
+      variant: "destructive",
+    });
+  };
+
+  // Create schedule mutation
+  const createMutation = useMutation({
+    mutationFn: async ({ schedule, blackouts }: { schedule: NewSchedule; blackouts: BlackoutWindow[] }) => {
+      return await apiRequest("POST", "/api/schedules", {
+        scheduleId: `schedule_${Date.now().toString(36)}`,
+        name: schedule.name,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        task: {
+          taskType: schedule.taskType,
+          robotId: schedule.robotId === ANY_ROBOT ? null : schedule.robotId,
+          priority: schedule.priority,
+          points: schedule.points,
+        },
+        blackouts,
+      });
+    },
+    onSuccess: () => {
+      refreshSchedules();
+      setNewSchedule(null);
+    },
+    onError: showError("create schedule"),
+  });
+
+  // Pause or resume schedule mutation
+  const toggleMutation = useMutation({
+    mutationFn: async ({ scheduleId, isActive }: { scheduleId: string; isActive: boolean }) => {
+      return await apiRequest("PUT", `/api/schedules/${scheduleId}`, { isActive });
+    },
+    onSuccess: refreshSchedules,
+    onError: showError("update schedule"),
+  });
+
+  // Run schedule now mutation
+  const runMutation = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const response = await apiRequest("POST", `/api/schedules/${scheduleId}/run`);
+      return (await response.json()) as ScheduleView;
+    },
+    onSuccess: (schedule) => {
+      refreshSchedules();
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({
+        title: schedule.lastOutcome === "created" ? "Task created" : "Run skipped",
+        description: schedule.lastOutcome === "created"
+          ? `${schedule.name} created task ${schedule.lastTaskId}.`
+          : `${schedule.name} did not create a task (${schedule.lastOutcome}).`,
+      });
+    },
+    onError: showError("run schedule"),
+  });
+
+  // Delete schedule mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (scheduleId: string) => {
+      return await apiRequest("DELETE", `/api/schedules/${scheduleId}`);
+    },
+    onSuccess: refreshSchedules,
+    onError: showError("delete schedule"),
+  });
+
+  const addPoint = (poiId: string) => {
+    const poi = pois?.find(entry => entry.poiId === poiId);
+    if (!poi || !newSchedule) return;
+    setNewSchedule({
+      ...newSchedule,
+      points: [
+        ...newSchedule.points,
+        { x: poi.x, y: poi.y, yaw: poi.yaw ?? 0, areaId: poi.areaId, ext: { id: poi.poiId, name: poi.name } },
+      ],
+    });
+  };
+
+  const blackouts = newSchedule ? parseBlackouts(newSchedule.blackouts) : null;
+  const isNewScheduleValid = !!newSchedule?.name.trim() && !!newSchedule.cron.trim() &&
+    !!newSchedule.taskType && newSchedule.points.length > 0 && blackouts !== null;
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Schedules</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Tasks created automatically on a cron schedule, such as hourly patrols
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setNewSchedule(emptySchedule())}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Schedule
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recurring Tasks</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-4">
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : schedules && schedules.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Cron</TableHead>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Next Run</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Active</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map(schedule => (
+                  <TableRow key={schedule.scheduleId}>
+                    <TableCell className="font-medium">
+                      {schedule.name}
+                      {schedule.blackouts.length > 0 && (
+                        <span className="block text-xs text-gray-500">
+                          Blackout {schedule.blackouts.map(window => `${window.start}-${window.end}`).join(", ")}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-sm">{schedule.cron}</code>
+                      <span className="block text-xs text-gray-500">{schedule.timezone}</span>
+                    </TableCell>
+                    <TableCell>
+                      {schedule.task.taskType}
+                      <span className="block text-xs text-gray-500">
+                        {schedule.task.robotId || "Any robot"}, {schedule.task.points.length} point(s)
+                      </span>
+                    </TableCell>
+                    <TableCell>{schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : "-"}</TableCell>
+                    <TableCell>
+                      <OutcomeBadge outcome={schedule.lastOutcome} />
+                      {schedule.lastRunAt && (
+                        <span className="block text-xs text-gray-500">{new Date(schedule.lastRunAt).toLocaleString()}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={!!schedule.isActive}
+                        disabled={!canEdit || toggleMutation.isPending}
+                        onCheckedChange={(isActive) => toggleMutation.mutate({ scheduleId: schedule.scheduleId, isActive })}
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Run now"
+                          onClick={() => runMutation.mutate(schedule.scheduleId)}
+                          disabled={runMutation.isPending}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={() => {
+                            if (confirm(`Delete ${schedule.name}?`)) {
+                              deleteMutation.mutate(schedule.scheduleId);
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="p-8 text-center">
+              <p className="text-gray-500">No schedules found</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!newSchedule} onOpenChange={(open) => !open && setNewSchedule(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Schedule</DialogTitle>
+          </DialogHeader>
+          {newSchedule && (
+            <div className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-name">Name</Label>
+                <Input
+                  id="schedule-name"
+                  placeholder="Patrol floor 2"
+                  value={newSchedule.name}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, name: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="schedule-cron">Cron</Label>
+                  <Input
+                    id="schedule-cron"
+                    className="font-mono"
+                    value={newSchedule.cron}
+                    onChange={(e) => setNewSchedule({ ...newSchedule, cron: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="schedule-timezone">Time Zone</Label>
+                  <Input
+                    id="schedule-timezone"
+                    value={newSchedule.timezone}
+                    onChange={(e) => setNewSchedule({ ...newSchedule, timezone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                minute hour day-of-month month day-of-week, e.g. "0 * * * *" hourly or "0 17 * * 1-5" at 17:00 on weekdays
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Task Type</Label>
+                  <Select value={newSchedule.taskType || undefined} onValueChange={(taskType) => setNewSchedule({ ...newSchedule, taskType })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select task type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeWorkflows.map(workflow => (
+                        <SelectItem key={workflow.taskType} value={workflow.taskType}>{workflow.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Robot</Label>
+                  <Select value={newSchedule.robotId} onValueChange={(robotId) => setNewSchedule({ ...newSchedule, robotId })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_ROBOT}>Any available robot</SelectItem>
+                      {robots?.map(robot => (
+                        <SelectItem key={robot.robotId} value={robot.robotId}>{robot.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Priority</Label>
+                <Select value={newSchedule.priority} onValueChange={(priority) => setNewSchedule({ ...newSchedule, priority })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="normal">Normal</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="urgent">Urgent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Points</Label>
+                {newSchedule.points.map((point, index) => (
+                  <div key={index} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+                    <span>{index + 1}. {point.ext?.name} ({point.areaId})</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setNewSchedule({ ...newSchedule, points: newSchedule.points.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Select value="" onValueChange={addPoint}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add point" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pois?.map(poi => (
+                      <SelectItem key={poi.poiId} value={poi.poiId}>{poi.name} ({poi.floor})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-blackouts">Blackout Windows</Label>
+                <Input
+                  id="schedule-blackouts"
+                  placeholder="22:00-06:00, 12:00-13:00"
+                  value={newSchedule.blackouts}
+                  onChange={(e) => setNewSchedule({ ...newSchedule, blackouts: e.target.value })}
+                />
+                {blackouts === null && <p className="text-xs text-red-600">Use HH:MM-HH:MM, separated by commas</p>}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewSchedule(null)}>Cancel</Button>
+            <Button
+              onClick={() => newSchedule && blackouts && createMutation.mutate({ schedule: newSchedule, blackouts })}
+              disabled={!isNewScheduleValid || createMutation.isPending}
+            >
+              Create Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { DateRangePicker } from "@/components/ui/date-range-picker";
 import { Search, Filter, Calendar, Download } from "lucide-react";
 import { format } from "date-fns";
+import TaskTraceDialog from "@/components/tasks/TaskTraceDialog";
 
 const StatusBadge = ({ status }: { status: string }) => {
   const badgeVariants: Record<string, any> = {
@@ -47,6 +48,7 @@ export default function TaskHistoryPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [dateRange, setDateRange] = useState<{ from: Date, to: Date } | null>(null);
+  const [traceTaskId, setTraceTaskId] = useState<string | null>(null);
   
   const { data: taskHistory, isLoading } = useQuery({
     queryKey: ["/api/tasks/history", statusFilter, dateRange],
@@ -154,7 +156,7 @@ export default function TaskHistoryPage() {
                     <TableCell>{formatDate(task.startedAt)}</TableCell>
                     <TableCell>{formatDate(task.completedAt)}</TableCell>
                     <TableCell className="text-right">
-                      <Button variant="ghost" size="sm">Details</Button>
+                      <Button variant="ghost" size="sm" onClick={() => setTraceTaskId(task.taskId)}>Details</Button>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -178,6 +180,8 @@ export default function TaskHistoryPage() {
           )}
         </CardContent>
       </Card>
+      
+      <TaskTraceDialog taskId={traceTaskId} onClose={() => setTraceTaskId(null)} />
     </div>
   );
 }
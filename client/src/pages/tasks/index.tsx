@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "wouter";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import TaskCard from "@/components/tasks/TaskCard";
+import { useWebSocket } from "@/hooks/useWebSocket";
 import { Search, Plus, Filter } from "lucide-react";
 
 export default function TasksPage() {
@@ -18,10 +19,25 @@ export default function TasksPage() {
     queryKey: ["/api/tasks", statusTab],
   });
   
+  // Refresh when a task starts or stops waiting for confirmation
+  const queryClient = useQueryClient();
+  const { on, subscribeToAllTasks, unsubscribeFromAllTasks } = useWebSocket();
+  useEffect(() => {
+    subscribeToAllTasks();
+    const off = on('task_confirmation', () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    });
+    
+    return () => {
+      off();
+      unsubscribeFromAllTasks();
+    };
+  }, [on, subscribeToAllTasks, unsubscribeFromAllTasks, queryClient]);
+  
   // Filter tasks based on search query
   const filteredTasks = tasks?.filter((task: any) => 
     task.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    task.robotId.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    task.robotId?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     (task.robotName && task.robotName.toLowerCase().includes(searchQuery.toLowerCase()))
   );
   
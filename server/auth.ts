@@ -0,0 +1,301 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import {
+  insertUserSchema,
+  userRoleSchema,
+  hasRole,
+  UserRole,
+  type UserRoleValue,
+  type User as SelectUser
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number }; // user ID written by passport.serializeUser
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hash a password as `<hash>.<salt>` using scrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a plain password with a stored hash
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Strip the password hash before sending a user to the client
+function toPublicUser(user: SelectUser) {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+let sessionMiddleware: ReturnType<typeof session> | null = null;
+
+/**
+ * Set up sessions, passport and the login/logout endpoints
+ */
+export function setupAuth(app: Express): void {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("SESSION_SECRET is not set, using a random secret (sessions will not survive a restart)");
+  }
+
+  sessionMiddleware = session({
+    secret: secret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 12 * 60 * 60 * 1000 // 12 hours
+    }
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    const parsed = insertUserSchema.pick({ username: true, password: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      // Regenerate the session on login to prevent session fixation
+      req.session.regenerate((regenerateErr) => {
+        if (regenerateErr) {
+          return next(regenerateErr);
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) {
+            return next(loginErr);
+          }
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/user", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.sendStatus(401);
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+/**
+ * Reject unauthenticated requests with 401
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ error: "Authentication required" });
+}
+
+/**
+ * Reject requests from users below the required role with 403
+ */
+export function requireRole(role: UserRoleValue) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ error: "Insufficient permissions", requiredRole: role });
+    }
+    next();
+  };
+}
+
+/**
+ * Let any logged-in user read, but require a role for anything that changes state
+ */
+export function requireRoleForWrites(role: UserRoleValue) {
+  const check = requireRole(role);
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.method === "GET" || req.method === "HEAD") {
+      return next();
+    }
+    check(req, res, next);
+  };
+}
+
+/**
+ * Register admin endpoints for managing users and their roles
+ */
+export function registerUserRoutes(app: Express): void {
+  const adminOnly = requireRole(UserRole.ADMIN);
+
+  app.get("/api/users", adminOnly, async (_req: Request, res: Response) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = insertUserSchema.extend({ role: userRoleSchema.optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid user data", details: parsed.error.errors });
+      }
+
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password)
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = userRoleSchema.safeParse(req.body?.role);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+
+      const updated = await storage.updateUserRole(Number(req.params.id), parsed.data);
+      if (!updated) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ success: true, role: parsed.data });
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ error: "Failed to update user role" });
+    }
+  });
+}
+
+/**
+ * Resolve the logged-in user for a WebSocket upgrade request from its session cookie
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | null> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(null);
+    }
+
+    // The upgrade request never reaches Express, so run the session middleware by hand
+    const expressReq = req as Request;
+    sessionMiddleware(expressReq, {} as Response, async () => {
+      const userId = expressReq.session?.passport?.user;
+      if (userId === undefined) {
+        return resolve(null);
+      }
+      try {
+        const user = await storage.getUser(userId);
+        resolve(user || null);
+      } catch (error) {
+        console.error("Error loading user for WebSocket session:", error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+/**
+ * Create the initial admin account from ADMIN_USERNAME / ADMIN_PASSWORD if it doesn't exist yet
+ */
+export async function ensureInitialUser(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    return;
+  }
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    return;
+  }
+
+  await storage.createUser({ username, password: await hashPassword(password), role: UserRole.ADMIN });
+  console.log(`Created initial admin user ${username}`);
+}
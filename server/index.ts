@@ -101,7 +101,7 @@ const simpleLoginHtml = `<!DOCTYPE html>
             <div id="error-message" class="error-message"></div>
         </form>
         <div class="footer">
-            <p>Use credentials: Ozzydog / Ozzydog</p>
+            <p>Robot Fleet Management System</p>
         </div>
     </div>
 
@@ -113,18 +113,21 @@ const simpleLoginHtml = `<!DOCTYPE html>
             const password = document.getElementById('password').value;
             const errorElement = document.getElementById('error-message');
             
-            if (username === 'Ozzydog' && password === 'Ozzydog') {
-                // Store auth info
-                localStorage.setItem('auth', 'true');
-                localStorage.setItem('username', username);
-                
-                // Redirect to dashboard
-                window.location.href = '/dashboard';
-            } else {
-                // Show error
-                errorElement.textContent = 'Invalid username or password';
-                errorElement.style.display = 'block';
-            }
+            fetch('/api/login', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ username, password })
+            }).then(function(res) {
+                if (res.ok) {
+                    // Session cookie is set, go to dashboard
+                    window.location.href = '/dashboard';
+                } else {
+                    // Show error
+                    errorElement.textContent = 'Invalid username or password';
+                    errorElement.style.display = 'block';
+                }
+            });
         });
     </script>
 </body>
@@ -177,12 +180,44 @@ app.use((req, res, next) => {
   // Import robot monitoring and websocket components
   const { websocketHandler } = await import('./websocket');
   const { robotMonitor } = await import('./robot/robot-monitor');
+  const { fleetDispatcher } = await import('./robot/dispatcher');
+  const { taskQueue } = await import('./robot/task-queue');
+  const { taskRecovery } = await import('./robot/task-recovery');
+  const { workflowRegistry } = await import('./robot/workflow-definitions');
+  const { inventory } = await import('./robot/inventory');
+  const { chargingPolicyEngine } = await import('./robot/charging-policy');
+  const { chargerLeases } = await import('./robot/charger-leases');
+  const { mapSync } = await import('./robot/map-sync');
+  const { trafficManager } = await import('./robot/traffic');
+  const { scheduler } = await import('./robot/scheduler');
+  const { telemetry } = await import('./robot/telemetry');
   const { registerL382502104987irRobot } = await import('./robot/robot-registration');
 
+  const { ensureInitialUser } = await import('./auth');
+
+  // registerRoutes also attaches the WebSocket server
   const server = await registerRoutes(app);
   
-  // Initialize WebSocket server
-  websocketHandler.initialize(server);
+  // Create the first account from the environment if needed
+  try {
+    await ensureInitialUser();
+  } catch (error) {
+    console.error('Failed to create initial user:', error);
+  }
+  
+  // Register workflow definitions from the database (built-in workflows stay registered if this fails)
+  try {
+    await workflowRegistry.load();
+  } catch (error) {
+    console.error('Failed to load workflow definitions:', error);
+  }
+  
+  // Make sure every shelf POI has an inventory slot
+  try {
+    await inventory.syncSlots();
+  } catch (error) {
+    console.error('Failed to sync shelf slots:', error);
+  }
   
   // Register and initialize our test robot L382502104987ir
   try {
@@ -221,9 +256,41 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     
-    // Start monitoring all robots
+    // Record telemetry from the first reading on
+    telemetry.start();
+    
+    // Start monitoring all robots, then recover interrupted tasks, pick up queued ones and start assigning pending ones
     robotMonitor.startMonitoringAllRobots().catch(err => {
       console.error('Failed to start monitoring robots:', err);
+    }).finally(async () => {
+      try {
+        await taskRecovery.recoverInterruptedTasks();
+      } catch (error) {
+        console.error('Failed to recover interrupted tasks:', error);
+      }
+      try {
+        await taskQueue.start();
+      } catch (error) {
+        console.error('Failed to start task queue:', error);
+      }
+      fleetDispatcher.start();
+      try {
+        await chargerLeases.start();
+      } catch (error) {
+        console.error('Failed to start charger leases:', error);
+      }
+      try {
+        await chargingPolicyEngine.start();
+      } catch (error) {
+        console.error('Failed to start charging policy engine:', error);
+      }
+      mapSync.start();
+      try {
+        await trafficManager.start();
+      } catch (error) {
+        console.error('Failed to start traffic manager:', error);
+      }
+      scheduler.start();
     });
   });
   
@@ -232,7 +299,17 @@ app.use((req, res, next) => {
     console.log('Shutting down server...');
     
     // Stop monitoring robots
+    chargingPolicyEngine.stop();
+    chargerLeases.stop();
+    mapSync.stop();
+    trafficManager.stop();
+    scheduler.stop();
     await robotMonitor.stopMonitoringAllRobots();
+    try {
+      await telemetry.stop();
+    } catch (error) {
+      console.error('Failed to write buffered telemetry:', error);
+    }
     
     // Stop WebSocket server
     websocketHandler.stop();
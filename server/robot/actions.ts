@@ -1,11 +1,13 @@
 import { storage } from '../storage';
 import { RobotError, ErrorCode, logError } from './errors';
 import * as sdk from './sdk';
+import { doorAccess } from './doors';
 
 // Action command types
 export interface DoorCommand {
   robotId: string;
   doorIds: number[];
+  requestedBy?: string;
 }
 
 export interface RackCommand {
@@ -139,7 +141,7 @@ export class ActionsModule {
   }
   
   /**
-   * Open cabin doors
+   * Open building doors for a robot
    */
   static async openDoors(command: DoorCommand): Promise<boolean> {
     try {
@@ -158,25 +160,15 @@ export class ActionsModule {
         throw new RobotError('No door IDs provided', ErrorCode.INVALID_TASK);
       }
       
-      // In a real implementation, we would communicate with the robot via SDK to open doors
-      // For now, we'll simulate this action
-      console.log(`Simulating robot ${command.robotId} opening doors: ${command.doorIds.join(', ')}`);
-      
-      // Update robot status to indicate it's performing an action
-      await storage.updateRobotStatus(command.robotId, 'busy');
-      
-      // Simulate action completion (in real implementation, this would be done via SDK callback)
-      setTimeout(async () => {
-        try {
-          await storage.updateRobotStatus(command.robotId, 'online');
-        } catch (error) {
-          logError(`Error updating robot status after opening doors: ${command.robotId}`, error);
-        }
-      }, 1500); // Simulate 1.5 seconds for door operation
+      // Each door's controller reports the result to the audit trail
+      await doorAccess.open(command.doorIds, { robotId: command.robotId, requestedBy: command.requestedBy });
       
       return true;
     } catch (error) {
       logError(`Failed to open doors for robot ${command.robotId}`, error);
+      if (error instanceof RobotError && error.code === ErrorCode.DOOR_FAILED) {
+        throw error;
+      }
       throw new RobotError(
         `Failed to open doors: ${error instanceof Error ? error.message : 'Unknown error'}`,
         ErrorCode.ACTION_FAILED
@@ -185,7 +177,7 @@ export class ActionsModule {
   }
   
   /**
-   * Close cabin doors
+   * Close building doors behind a robot
    */
   static async closeDoors(command: DoorCommand): Promise<boolean> {
     try {
@@ -204,25 +196,15 @@ export class ActionsModule {
         throw new RobotError('No door IDs provided', ErrorCode.INVALID_TASK);
       }
       
-      // In a real implementation, we would communicate with the robot via SDK to close doors
-      // For now, we'll simulate this action
-      console.log(`Simulating robot ${command.robotId} closing doors: ${command.doorIds.join(', ')}`);
-      
-      // Update robot status to indicate it's performing an action
-      await storage.updateRobotStatus(command.robotId, 'busy');
-      
-      // Simulate action completion (in real implementation, this would be done via SDK callback)
-      setTimeout(async () => {
-        try {
-          await storage.updateRobotStatus(command.robotId, 'online');
-        } catch (error) {
-          logError(`Error updating robot status after closing doors: ${command.robotId}`, error);
-        }
-      }, 1500); // Simulate 1.5 seconds for door operation
+      // Each door's controller reports the result to the audit trail
+      await doorAccess.close(command.doorIds, { robotId: command.robotId, requestedBy: command.requestedBy });
       
       return true;
     } catch (error) {
       logError(`Failed to close doors for robot ${command.robotId}`, error);
+      if (error instanceof RobotError && error.code === ErrorCode.DOOR_FAILED) {
+        throw error;
+      }
       throw new RobotError(
         `Failed to close doors: ${error instanceof Error ? error.message : 'Unknown error'}`,
         ErrorCode.ACTION_FAILED
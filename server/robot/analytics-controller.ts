@@ -0,0 +1,21 @@
+import { Router, Request, Response } from 'express';
+import { fleetAnalytics } from './analytics';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get the fleet KPI report
+ * GET /api/analytics?from=&to=&floor=
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await fleetAnalytics.getReport(req.query));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
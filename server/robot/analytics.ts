@@ -0,0 +1,425 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import { TASK_EVENT_CATEGORY } from './task-workflows';
+import { preferFinestSamples } from './telemetry';
+import {
+  TaskStatus,
+  TelemetryMetric,
+  type ErrorLog,
+  type Robot,
+  type RobotEvent,
+  type Task,
+  type TelemetrySample
+} from '@shared/schema';
+
+// Report window when the caller gives no range, and the longest allowed (rollups are kept 90 days)
+const DEFAULT_WINDOW_MS = 7 * 24 * 3600000;
+const MAX_WINDOW_MS = 90 * 24 * 3600000;
+
+// Utilization is worked out on a grid of slots this long, or coarser for long ranges
+const MIN_SLOT_MS = 60000;
+const MAX_SLOTS = 200000;
+
+// Throughput is bucketed by hour, or by day for ranges longer than this
+const HOURLY_THROUGHPUT_MAX_MS = 3 * 24 * 3600000;
+
+// Pose jumps faster than this (m/s, plus a meter of slack) are relocalizations or map switches, not driving
+const MAX_DRIVE_SPEED = 2;
+const JUMP_SLACK_M = 1;
+
+// Most step transitions read for one report
+const MAX_STEP_EVENTS = 50000;
+
+// Floor of tasks and robots whose floor is not known
+const UNKNOWN_FLOOR = 'unknown';
+
+// Query string time; an empty value means unset
+const queryDate = z.preprocess(value => value === '' ? undefined : value, z.coerce.date().optional());
+
+// Report query as sent by clients
+const reportQuerySchema = z.object({
+  from: queryDate,
+  to: queryDate,
+  floor: z.string().trim().min(1).optional()
+});
+
+// Robot states a utilization slot can be in, lowest precedence first
+const enum SlotState {
+  OFFLINE = 0,
+  IDLE = 1,
+  BUSY = 2,
+  CHARGING = 3,
+  ERROR = 4
+}
+
+// Time a robot spent in each state, and what it got done
+export interface RobotUtilization {
+  robotId: string;
+  name: string;
+  floor: string;
+  busyMs: number;
+  idleMs: number;
+  chargingMs: number;
+  errorMs: number;
+  offlineMs: number;
+  utilization: number; // busy share of the time the robot was online
+  distance: number;    // meters
+  tasksCompleted: number;
+  tasksFailed: number;
+}
+
+// Average duration of one step of a workflow
+export interface StepTiming {
+  taskType: string;
+  step: number;
+  stepName: string;
+  runs: number;
+  averageMs: number;
+}
+
+// Failed tasks with one error code
+export interface FailureBreakdown {
+  code: number;
+  name: string;
+  count: number;
+  rate: number; // share of finished tasks
+}
+
+// Task counts for one throughput bucket
+export interface ThroughputBucket {
+  start: Date;
+  completed: number;
+  failed: number;
+}
+
+// Task and robot figures for one floor
+export interface FloorBreakdown {
+  floor: string;
+  robots: number;
+  tasksCompleted: number;
+  tasksFailed: number;
+  tasksPerHour: number;
+  averageCycleMs: number | null;
+  busyMs: number;
+  distance: number;
+}
+
+// Fleet KPIs over a time range
+export interface FleetReport {
+  from: Date;
+  to: Date;
+  floor: string | null;
+  totals: {
+    tasksCompleted: number;
+    tasksFailed: number;
+    tasksPerHour: number;
+    failureRate: number;
+    averageCycleMs: number | null; // start to completion of completed tasks
+    averageWaitMs: number | null;  // creation to start of tasks started in the range
+    distance: number;
+    utilization: number;
+  };
+  throughputBucketMs: number;
+  throughput: ThroughputBucket[];
+  robots: RobotUtilization[];
+  steps: StepTiming[];
+  failures: FailureBreakdown[];
+  floors: FloorBreakdown[];
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Meters driven along a robot's recorded poses, leaving out relocalization jumps
+ */
+function distanceTravelled(samples: TelemetrySample[]): number {
+  const poses = preferFinestSamples(samples);
+
+  let distance = 0;
+  for (let index = 1; index < poses.length; index++) {
+    const from = poses[index - 1];
+    const to = poses[index];
+    if (typeof from.values.x !== 'number' || typeof from.values.y !== 'number' ||
+        typeof to.values.x !== 'number' || typeof to.values.y !== 'number') {
+      continue;
+    }
+
+    const step = Math.hypot(to.values.x - from.values.x, to.values.y - from.values.y);
+    const seconds = (to.recordedAt.getTime() - from.recordedAt.getTime()) / 1000;
+    if (step <= MAX_DRIVE_SPEED * seconds + JUMP_SLACK_M) {
+      distance += step;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Fleet analytics
+ * Utilization, throughput, cycle and step times, failure rates and distance travelled, from task history,
+ * recorded telemetry, step transitions and alerts.
+ */
+class FleetAnalytics {
+  /**
+   * Build the fleet report
+   * @param query from and to (default the last 7 days, at most 90), and an optional floor
+   */
+  async getReport(query: unknown): Promise<FleetReport> {
+    const { from: fromInput, to: toInput, floor } = parseInput(reportQuerySchema, query);
+    const to = toInput ?? new Date();
+    const from = fromInput ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+    if (from.getTime() >= to.getTime()) {
+      throw new RobotError('from must be before to', ErrorCode.INVALID_PARAM);
+    }
+    if (to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+      throw new RobotError('Reports can cover at most 90 days', ErrorCode.INVALID_PARAM);
+    }
+
+    const [allRobots, allTasks, maps, events] = await Promise.all([
+      storage.getAllRobots(),
+      storage.getAllTasks(),
+      storage.getAllMaps(),
+      storage.getRobotEvents({ category: TASK_EVENT_CATEGORY, from, to, limit: MAX_STEP_EVENTS })
+    ]);
+    const floorsByArea = new Map(maps.map(map => [map.areaId, map.floor]));
+    const robotFloor = (robot: Robot) => robot.floor || UNKNOWN_FLOOR;
+    const taskFloor = (task: Task) => {
+      const areaId = task.points?.[0]?.areaId;
+      const robot = allRobots.find(candidate => candidate.robotId === task.robotId);
+      return (areaId && floorsByArea.get(areaId)) || (robot ? robotFloor(robot) : UNKNOWN_FLOOR);
+    };
+
+    const robots = allRobots.filter(robot => !floor || robotFloor(robot) === floor);
+    const tasks = allTasks.filter(task => !floor || taskFloor(task) === floor);
+    const finished = tasks.filter(task =>
+      (task.status === TaskStatus.COMPLETED || task.status === TaskStatus.FAILED) &&
+      task.completedAt && task.completedAt >= from && task.completedAt < to);
+    const completed = finished.filter(task => task.status === TaskStatus.COMPLETED);
+    const failed = finished.filter(task => task.status === TaskStatus.FAILED);
+    const hours = (to.getTime() - from.getTime()) / 3600000;
+
+    const robotReports: RobotUtilization[] = [];
+    for (const robot of robots) {
+      robotReports.push(await this.getRobotUtilization(robot, allTasks, finished, from, to));
+    }
+
+    const cycleTimes = completed
+      .filter(task => task.startedAt)
+      .map(task => task.completedAt!.getTime() - task.startedAt!.getTime());
+    const waitTimes = tasks
+      .filter(task => task.startedAt && task.createdAt && task.startedAt >= from && task.startedAt < to)
+      .map(task => task.startedAt!.getTime() - task.createdAt!.getTime());
+    const online = robotReports.reduce((sum, robot) => sum + robot.busyMs + robot.idleMs + robot.chargingMs + robot.errorMs, 0);
+    const busy = robotReports.reduce((sum, robot) => sum + robot.busyMs, 0);
+
+    const floors = Array.from(new Set([...robots.map(robotFloor), ...finished.map(taskFloor)])).sort();
+    const throughputBucketMs = to.getTime() - from.getTime() > HOURLY_THROUGHPUT_MAX_MS ? 24 * 3600000 : 3600000;
+
+    return {
+      from,
+      to,
+      floor: floor ?? null,
+      totals: {
+        tasksCompleted: completed.length,
+        tasksFailed: failed.length,
+        tasksPerHour: completed.length / hours,
+        failureRate: finished.length > 0 ? failed.length / finished.length : 0,
+        averageCycleMs: average(cycleTimes),
+        averageWaitMs: average(waitTimes),
+        distance: robotReports.reduce((sum, robot) => sum + robot.distance, 0),
+        utilization: online > 0 ? busy / online : 0
+      },
+      throughputBucketMs,
+      throughput: this.getThroughput(finished, from, to, throughputBucketMs),
+      robots: robotReports,
+      steps: this.getStepTimings(events, new Map(tasks.map(task => [task.taskId, task]))),
+      failures: this.getFailures(failed, finished.length),
+      floors: floors.map(name => {
+        const floorTasks = finished.filter(task => taskFloor(task) === name);
+        const floorCompleted = floorTasks.filter(task => task.status === TaskStatus.COMPLETED);
+        const floorRobots = robotReports.filter(robot => robot.floor === name);
+        return {
+          floor: name,
+          robots: floorRobots.length,
+          tasksCompleted: floorCompleted.length,
+          tasksFailed: floorTasks.length - floorCompleted.length,
+          tasksPerHour: floorCompleted.length / hours,
+          averageCycleMs: average(floorCompleted
+            .filter(task => task.startedAt)
+            .map(task => task.completedAt!.getTime() - task.startedAt!.getTime())),
+          busyMs: floorRobots.reduce((sum, robot) => sum + robot.busyMs, 0),
+          distance: floorRobots.reduce((sum, robot) => sum + robot.distance, 0)
+        };
+      })
+    };
+  }
+
+  /**
+   * Split a robot's time into busy, idle, charging, error and offline
+   * Online time is when the robot reported battery state; busy is time running a task; charging and emergency
+   * stops come from telemetry and errors from error-level alerts until they are resolved. Where several apply,
+   * error beats charging beats busy.
+   */
+  private async getRobotUtilization(
+    robot: Robot,
+    allTasks: Task[],
+    finished: Task[],
+    from: Date,
+    to: Date
+  ): Promise<RobotUtilization> {
+    const { robotId } = robot;
+    const [battery, wheel, poses, alerts] = await Promise.all([
+      storage.getTelemetrySamples({ robotId, metric: TelemetryMetric.BATTERY, from, to }),
+      storage.getTelemetrySamples({ robotId, metric: TelemetryMetric.WHEEL, from, to }),
+      storage.getTelemetrySamples({ robotId, metric: TelemetryMetric.POSE, from, to }),
+      // Alerts raised before the range may still be open during it
+      storage.getErrorLogsByRobot(robotId, { from: new Date(0), to })
+    ]);
+
+    const start = from.getTime();
+    const end = to.getTime();
+    const slotMs = Math.max(MIN_SLOT_MS, Math.ceil((end - start) / MAX_SLOTS));
+    const slots = new Uint8Array(Math.ceil((end - start) / slotMs));
+
+    // Mark the slots an interval overlaps, over states of lower precedence
+    const mark = (intervalStart: number, intervalEnd: number, state: SlotState, onlyOnline = false) => {
+      const first = Math.max(0, Math.floor((intervalStart - start) / slotMs));
+      const last = Math.min(slots.length, Math.ceil((intervalEnd - start) / slotMs));
+      for (let slot = first; slot < last; slot++) {
+        if (slots[slot] < state && (!onlyOnline || slots[slot] !== SlotState.OFFLINE)) {
+          slots[slot] = state;
+        }
+      }
+    };
+    const sampleEnd = (sample: TelemetrySample) => sample.recordedAt.getTime() + sample.resolution * 1000;
+
+    for (const sample of battery) {
+      mark(sample.recordedAt.getTime(), sampleEnd(sample), SlotState.IDLE);
+    }
+    for (const task of allTasks) {
+      if (task.robotId === robotId && task.startedAt) {
+        const taskEnd = task.completedAt?.getTime() ?? (task.status === TaskStatus.IN_PROGRESS ? Date.now() : null);
+        if (taskEnd !== null) {
+          mark(task.startedAt.getTime(), taskEnd, SlotState.BUSY);
+        }
+      }
+    }
+    for (const sample of battery) {
+      if (sample.values.charging === true) {
+        mark(sample.recordedAt.getTime(), sampleEnd(sample), SlotState.CHARGING);
+      }
+    }
+    for (const sample of wheel) {
+      if (sample.values.emergencyStop === true) {
+        mark(sample.recordedAt.getTime(), sampleEnd(sample), SlotState.ERROR, true);
+      }
+    }
+    for (const alert of alerts.filter((log: ErrorLog) => log.priority && log.timestamp)) {
+      mark(alert.timestamp!.getTime(), alert.resolvedAt?.getTime() ?? end, SlotState.ERROR, true);
+    }
+
+    const totals = [0, 0, 0, 0, 0];
+    slots.forEach(state => totals[state] += slotMs);
+    const onlineMs = totals[SlotState.IDLE] + totals[SlotState.BUSY] + totals[SlotState.CHARGING] + totals[SlotState.ERROR];
+    const robotTasks = finished.filter(task => task.robotId === robotId);
+
+    return {
+      robotId,
+      name: robot.name,
+      floor: robot.floor || UNKNOWN_FLOOR,
+      busyMs: totals[SlotState.BUSY],
+      idleMs: totals[SlotState.IDLE],
+      chargingMs: totals[SlotState.CHARGING],
+      errorMs: totals[SlotState.ERROR],
+      offlineMs: totals[SlotState.OFFLINE],
+      utilization: onlineMs > 0 ? totals[SlotState.BUSY] / onlineMs : 0,
+      distance: distanceTravelled(poses),
+      tasksCompleted: robotTasks.filter(task => task.status === TaskStatus.COMPLETED).length,
+      tasksFailed: robotTasks.filter(task => task.status === TaskStatus.FAILED).length
+    };
+  }
+
+  /**
+   * Completed and failed tasks per bucket
+   */
+  private getThroughput(finished: Task[], from: Date, to: Date, bucketMs: number): ThroughputBucket[] {
+    const first = Math.floor(from.getTime() / bucketMs) * bucketMs;
+    const buckets: ThroughputBucket[] = [];
+    for (let start = first; start < to.getTime(); start += bucketMs) {
+      buckets.push({ start: new Date(start), completed: 0, failed: 0 });
+    }
+
+    for (const task of finished) {
+      const bucket = buckets[Math.floor((task.completedAt!.getTime() - first) / bucketMs)];
+      if (bucket) {
+        task.status === TaskStatus.COMPLETED ? bucket.completed++ : bucket.failed++;
+      }
+    }
+    return buckets;
+  }
+
+  /**
+   * Average time of each workflow step, from one step starting to the next starting or the task completing
+   * Steps that ended the task by failing are left out.
+   */
+  private getStepTimings(events: RobotEvent[], tasks: Map<string, Task>): StepTiming[] {
+    const byTask = new Map<string, RobotEvent[]>();
+    for (const event of events) {
+      const taskId = event.data?.taskId;
+      if (taskId && tasks.has(taskId)) {
+        byTask.set(taskId, [...(byTask.get(taskId) ?? []), event]);
+      }
+    }
+
+    const timings = new Map<string, { taskType: string; step: number; stepName: string; durations: number[] }>();
+    for (const [taskId, taskEvents] of Array.from(byTask.entries())) {
+      const ordered = taskEvents.sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime());
+      const taskType = tasks.get(taskId)!.taskType;
+
+      ordered.forEach((event, index) => {
+        const next = ordered[index + 1];
+        if (event.event !== 'step_started' || !next || next.event === 'task_failed') {
+          return;
+        }
+
+        const step = Number(event.data?.step ?? 0);
+        const stepName = String(event.data?.stepName ?? `Step ${step + 1}`);
+        const key = `${taskType}|${step}|${stepName}`;
+        if (!timings.has(key)) {
+          timings.set(key, { taskType, step, stepName, durations: [] });
+        }
+        timings.get(key)!.durations.push(next.createdAt!.getTime() - event.createdAt!.getTime());
+      });
+    }
+
+    return Array.from(timings.values())
+      .map(({ durations, ...timing }) => ({ ...timing, runs: durations.length, averageMs: average(durations)! }))
+      .sort((a, b) => a.taskType.localeCompare(b.taskType) || a.step - b.step);
+  }
+
+  /**
+   * Failed tasks grouped by error code, most frequent first
+   */
+  private getFailures(failed: Task[], finishedCount: number): FailureBreakdown[] {
+    const counts = new Map<number, number>();
+    for (const task of failed) {
+      const code = task.errorDetails?.code ?? ErrorCode.TASK_EXECUTION_FAILED;
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .map(([code, count]) => ({
+        code,
+        name: ErrorCode[code] ?? `ERROR_${code}`,
+        count,
+        rate: count / finishedCount
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+}
+
+// Create singleton instance
+export const fleetAnalytics = new FleetAnalytics();
@@ -7,12 +7,13 @@
  */
 
 import { getRobotApiClient, robotTaskStatuses } from './direct-api.js';
+import { chargerLeases } from './charger-leases.js';
 import axios from 'axios';
 
 /**
  * Command robot to return to charger and begin charging
  * @param {string} robotId - Robot identifier
- * @param {Object} chargerPoint - Charger point coordinates {x, y, orientation}
+ * @param {Object} chargerPoint - Charger to dock on {poiId} or its coordinates {x, y}; the nearest free charger is used if it is taken
  * @param {Object} options - Additional options for charging
  * @returns {Promise<Object>} - Result of the charging operation
  */
@@ -26,15 +27,24 @@ async function returnToCharger(robotId, chargerPoint, options = {}) {
   }
   
   try {
-    console.log(`Robot ${robotId} returning to charger at x:${chargerPoint.x}, y:${chargerPoint.y}`);
+    // Take the requested charger, or the nearest free one, so no other robot docks there
+    const charger = await chargerLeases.leaseFor(robotId, chargerPoint);
+    if (!charger) {
+      return {
+        success: false,
+        message: `Every charger on robot ${robotId}'s floor is taken`,
+      };
+    }
+    
+    console.log(`Robot ${robotId} returning to charger ${charger.poiId} at x:${charger.x}, y:${charger.y}`);
     
     // Create move action with charge type for precise docking
     const chargeActionData = {
       creator: 'fleet-management-system',
       type: 'charge', // Special type for charging stations
-      target_x: chargerPoint.x,
-      target_y: chargerPoint.y,
-      target_ori: chargerPoint.orientation || 0,
+      target_x: charger.x,
+      target_y: charger.y,
+      target_ori: ((charger.yaw || 0) * Math.PI) / 180, // POI yaw is in degrees
       // Higher accuracy for docking
       accuracy: options.accuracy || 0.05
     };
@@ -68,6 +78,7 @@ async function returnToCharger(robotId, chargerPoint, options = {}) {
         };
       }
     } else {
+      await chargerLeases.releaseIfUndocked(robotId, 'move to charger failed');
       return {
         success: false,
         message: `Failed to reach charger: ${chargeResult.fail_reason_str || 'Unknown error'}`,
@@ -77,6 +88,7 @@ async function returnToCharger(robotId, chargerPoint, options = {}) {
     }
   } catch (error) {
     console.error(`Error during charger operation for robot ${robotId}:`, error.message);
+    await chargerLeases.releaseIfUndocked(robotId, 'move to charger failed');
     return {
       success: false,
       message: `Charging operation failed: ${error.message}`,
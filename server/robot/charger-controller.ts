@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { chargerLeases } from './charger-leases';
+import { ErrorCode, RobotError, errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get every charger with the robot leasing it, and the robots waiting for one
+ * GET /api/chargers
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const occupancy = await chargerLeases.getOccupancy();
+    res.json({
+      ...occupancy,
+      waiting: occupancy.waiting.map(waiter => ({
+        ...waiter,
+        position: chargerLeases.getQueuePosition(waiter.robotId)
+      }))
+    });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Free a charger held by a robot (e.g. one that was moved off the dock by hand)
+ * DELETE /api/chargers/leases/:robotId
+ */
+router.delete('/leases/:robotId', async (req: Request, res: Response) => {
+  try {
+    const { robotId } = req.params;
+    if (!chargerLeases.getLease(robotId)) {
+      throw new RobotError(`Robot ${robotId} does not hold a charger`, ErrorCode.NOT_FOUND);
+    }
+
+    await chargerLeases.release(robotId, 'released by an operator');
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,363 @@
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { robotMonitor } from './robot-monitor';
+import {
+  ChargerLeaseStatus,
+  type ChargerLease,
+  type Poi
+} from '@shared/schema';
+
+// POI types that mark a charging station
+const CHARGER_POI_TYPES = ['charger', 'charging'];
+
+// Event category for every lease change
+const EVENT_CATEGORY = 'charger_lease';
+const record = robotEventRecorder(EVENT_CATEGORY, 'Charger lease');
+
+// How often leases of robots that never docked are checked
+const SWEEP_INTERVAL_MS = 60000;
+
+// How long a robot may hold a charger without docking on it
+const TRAVEL_TIMEOUT_MS = 20 * 60000;
+
+// How close a requested dock position must be to a charger POI to mean that charger (meters)
+const CHARGER_MATCH_RADIUS = 0.5;
+
+// Robot waiting for a charger to come free
+interface ChargerWaiter {
+  robotId: string;
+  floor: string | null;
+  urgent: boolean;         // below its charge threshold; served before opportunistic charging
+  requestedAt: Date;
+}
+
+// Called when a waiting robot has been given a charger
+type GrantListener = (robotId: string, charger: Poi) => void;
+
+// A charger with the robot that holds it
+export interface ChargerOccupancy {
+  charger: Poi;
+  lease: ChargerLease | null;
+}
+
+/**
+ * Whether a charger can serve a robot on the given floor
+ */
+function onFloor(charger: Poi, floor: string | null): boolean {
+  return !floor || !charger.floor || charger.floor === floor;
+}
+
+/**
+ * Charger leases
+ * Hands each charger to one robot at a time and queues robots while every charger on their floor is taken
+ */
+class ChargerLeases {
+  private started = false;
+  private leases: Map<string, ChargerLease> = new Map();
+  private waiting: ChargerWaiter[] = [];
+  private grantListeners: GrantListener[] = [];
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load persisted leases and start expiring them from battery readings
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const leases = await storage.getAllChargerLeases();
+    leases.forEach(lease => this.leases.set(lease.robotId, lease));
+
+    robotMonitor.onBatteryUpdate((robotId, _batteryLevel, charging) => {
+      this.handleBatteryReading(robotId, charging).catch(error => {
+        console.error(`Charger lease update failed for robot ${robotId}:`, error);
+      });
+    });
+    this.sweepTimer = setInterval(() => {
+      this.expireStaleLeases().catch(error => {
+        console.error('Charger lease sweep failed:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+
+    console.log(`Charger leases started with ${leases.length} active lease(s)`);
+  }
+
+  /**
+   * Stop the stale lease sweep
+   */
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Register a listener for chargers handed to waiting robots
+   */
+  onChargerGranted(listener: GrantListener): void {
+    this.grantListeners.push(listener);
+  }
+
+  /**
+   * Lease the nearest free charger to a robot, or queue it until one comes free
+   * Asking again while queued only updates the robot's urgency.
+   * @returns The leased charger, or null if the robot was queued
+   */
+  async request(robotId: string, urgent: boolean): Promise<Poi | null> {
+    const charger = await this.tryLease(robotId);
+    if (charger) {
+      this.removeWaiter(robotId);
+      return charger;
+    }
+
+    const robot = await storage.getRobot(robotId);
+    const existing = this.waiting.find(waiter => waiter.robotId === robotId);
+    const waiter: ChargerWaiter = {
+      robotId,
+      floor: robot?.floor ?? null,
+      urgent: urgent || (existing?.urgent ?? false),
+      requestedAt: existing?.requestedAt ?? new Date()
+    };
+
+    this.removeWaiter(robotId);
+    this.enqueue(waiter);
+
+    if (!existing || waiter.urgent !== existing.urgent) {
+      await record(robotId, 'queued',
+        `Every charger on ${waiter.floor ?? 'its floor'} is taken; waiting at position ${this.getQueuePosition(robotId)}`,
+        { urgent: waiter.urgent });
+    }
+    return null;
+  }
+
+  /**
+   * Lease a free charger to a robot without queueing it
+   * @param candidates Chargers to choose from; defaults to every charger on the robot's floor
+   * @returns The leased charger, or null if none is free
+   */
+  async tryLease(robotId: string, candidates?: Poi[]): Promise<Poi | null> {
+    const current = this.leases.get(robotId);
+    if (current) {
+      const charger = await storage.getPoi(current.chargerId);
+      if (charger) {
+        return charger;
+      }
+      // The charger POI was removed under the lease
+      await this.release(robotId, 'charger no longer exists');
+    }
+
+    const robot = await storage.getRobot(robotId);
+    if (!robot) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const chargers = candidates ?? (await this.getChargers()).filter(poi => onFloor(poi, robot.floor));
+    if (chargers.length === 0) {
+      throw new RobotError(`No charging station found for robot ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const leased = new Set(Array.from(this.leases.values()).map(lease => lease.chargerId));
+    const free = chargers.filter(poi => !leased.has(poi.poiId));
+
+    const pose = robotMonitor.getRobotState(robotId)?.pose;
+    if (pose) {
+      free.sort((a, b) => Math.hypot(a.x - pose.x, a.y - pose.y) - Math.hypot(b.x - pose.x, b.y - pose.y));
+    }
+
+    // Another server process may lease the same charger between listing and claiming it
+    for (const charger of free) {
+      const lease = await storage.createChargerLease({
+        chargerId: charger.poiId,
+        robotId,
+        status: ChargerLeaseStatus.TRAVELING
+      });
+      if (lease) {
+        this.leases.set(robotId, lease);
+        await record(robotId, 'leased', `Leased charger ${charger.name || charger.poiId}`,
+          { chargerId: charger.poiId });
+        return charger;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Lease the charger a robot was asked to dock on, or the nearest free one if that charger is taken
+   * @param target Charger POI ID, or the dock position in map coordinates
+   * @returns The leased charger, or null if every charger on the robot's floor is taken
+   */
+  async leaseFor(robotId: string, target: { poiId?: string; x?: number; y?: number }): Promise<Poi | null> {
+    const chargers = await this.getChargers();
+    const preferred = chargers.find(poi => poi.poiId === target.poiId) ??
+      chargers.find(poi => target.x !== undefined && target.y !== undefined &&
+        Math.hypot(poi.x - target.x, poi.y - target.y) <= CHARGER_MATCH_RADIUS);
+
+    if (preferred) {
+      const charger = await this.tryLease(robotId, [preferred]);
+      if (charger) {
+        return charger;
+      }
+    }
+    return this.tryLease(robotId);
+  }
+
+  /**
+   * Give up a robot's lease and hand the charger to the next robot waiting for one
+   */
+  async release(robotId: string, reason: string): Promise<void> {
+    const lease = this.leases.get(robotId);
+    if (!lease) {
+      return;
+    }
+
+    this.leases.delete(robotId);
+    await storage.deleteChargerLease(robotId);
+    await record(robotId, 'released', `Released charger ${lease.chargerId}: ${reason}`,
+      { chargerId: lease.chargerId });
+
+    await this.serveQueue();
+  }
+
+  /**
+   * Give up a lease the robot has not docked on yet, e.g. after its move to the charger failed
+   * Docked robots keep their lease until they leave the dock.
+   */
+  async releaseIfUndocked(robotId: string, reason: string): Promise<void> {
+    if (this.leases.get(robotId)?.status === ChargerLeaseStatus.TRAVELING) {
+      await this.release(robotId, reason);
+    }
+  }
+
+  /**
+   * Take a robot out of the queue
+   */
+  cancelRequest(robotId: string): void {
+    this.removeWaiter(robotId);
+  }
+
+  /**
+   * Get the charger a robot holds, if any
+   */
+  getLease(robotId: string): ChargerLease | null {
+    return this.leases.get(robotId) ?? null;
+  }
+
+  /**
+   * A robot's 1-based place in the queue, or null if it is not waiting
+   */
+  getQueuePosition(robotId: string): number | null {
+    const waiter = this.waiting.find(entry => entry.robotId === robotId);
+    if (!waiter) {
+      return null;
+    }
+    return this.waiting.filter(entry => entry.floor === waiter.floor).indexOf(waiter) + 1;
+  }
+
+  /**
+   * Every charger with the robot holding it, plus the robots waiting for one
+   */
+  async getOccupancy(): Promise<{ chargers: ChargerOccupancy[]; waiting: ChargerWaiter[] }> {
+    const chargers = await this.getChargers();
+    const leases = Array.from(this.leases.values());
+
+    return {
+      chargers: chargers.map(charger => ({
+        charger,
+        lease: leases.find(lease => lease.chargerId === charger.poiId) ?? null
+      })),
+      waiting: [...this.waiting]
+    };
+  }
+
+  /**
+   * Mark leases docked when the robot starts charging and expire them once it leaves the dock
+   */
+  private async handleBatteryReading(robotId: string, charging: boolean): Promise<void> {
+    const lease = this.leases.get(robotId);
+    if (!lease) {
+      return;
+    }
+
+    if (lease.status === ChargerLeaseStatus.TRAVELING && charging) {
+      const docked = await storage.updateChargerLease(robotId, {
+        status: ChargerLeaseStatus.DOCKED,
+        dockedAt: new Date()
+      });
+      if (docked) {
+        this.leases.set(robotId, docked);
+        await record(robotId, 'docked', `Docked on charger ${lease.chargerId}`, { chargerId: lease.chargerId });
+      }
+    } else if (lease.status === ChargerLeaseStatus.DOCKED && !charging) {
+      await this.release(robotId, 'robot left the dock');
+    }
+  }
+
+  /**
+   * Release chargers held by robots that never docked
+   */
+  private async expireStaleLeases(): Promise<void> {
+    const cutoff = Date.now() - TRAVEL_TIMEOUT_MS;
+
+    for (const lease of Array.from(this.leases.values())) {
+      if (lease.status === ChargerLeaseStatus.TRAVELING && lease.leasedAt && lease.leasedAt.getTime() < cutoff) {
+        await this.release(lease.robotId, `robot did not dock within ${TRAVEL_TIMEOUT_MS / 60000} minutes`);
+      }
+    }
+  }
+
+  /**
+   * Lease free chargers to waiting robots in queue order
+   */
+  private async serveQueue(): Promise<void> {
+    for (const waiter of [...this.waiting]) {
+      const charger = await this.tryLease(waiter.robotId).catch(() => null);
+      if (!charger) {
+        continue;
+      }
+
+      this.removeWaiter(waiter.robotId);
+      for (const listener of this.grantListeners) {
+        try {
+          listener(waiter.robotId, charger);
+        } catch (error) {
+          console.error(`Charger grant listener failed for robot ${waiter.robotId}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a waiter behind robots of the same urgency
+   */
+  private enqueue(waiter: ChargerWaiter): void {
+    const index = waiter.urgent ? this.waiting.findIndex(entry => !entry.urgent) : -1;
+    if (index === -1) {
+      this.waiting.push(waiter);
+    } else {
+      this.waiting.splice(index, 0, waiter);
+    }
+  }
+
+  /**
+   * Remove a robot from the queue
+   */
+  private removeWaiter(robotId: string): void {
+    this.waiting = this.waiting.filter(waiter => waiter.robotId !== robotId);
+  }
+
+  /**
+   * Get every charging station POI
+   */
+  private async getChargers(): Promise<Poi[]> {
+    return (await storage.getAllPois()).filter(poi => CHARGER_POI_TYPES.includes(poi.type));
+  }
+}
+
+// Create singleton instance
+export const chargerLeases = new ChargerLeases();
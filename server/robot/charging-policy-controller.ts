@@ -0,0 +1,79 @@
+import { Router, Request, Response } from 'express';
+import { chargingPolicyEngine } from './charging-policy';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all charging policies with each robot's current status
+ * GET /api/charging-policies
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const policies = await chargingPolicyEngine.listPolicies();
+    res.json(policies.map(policy => ({
+      ...policy,
+      status: chargingPolicyEngine.getStatus(policy.robotId)
+    })));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get logged charging decisions, newest first
+ * GET /api/charging-policies/events?robotId=&limit=
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const robotId = typeof req.query.robotId === 'string' ? req.query.robotId : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    res.json(await chargingPolicyEngine.getEvents(robotId, Number.isNaN(limit) ? undefined : limit));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a robot's charging policy and status
+ * GET /api/charging-policies/:robotId
+ */
+router.get('/:robotId', async (req: Request, res: Response) => {
+  try {
+    const policy = await chargingPolicyEngine.getPolicy(req.params.robotId);
+    res.json({ ...policy, status: chargingPolicyEngine.getStatus(policy.robotId) });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create or replace a robot's charging policy
+ * PUT /api/charging-policies/:robotId
+ */
+router.put('/:robotId', async (req: Request, res: Response) => {
+  try {
+    const policy = await chargingPolicyEngine.setPolicy(req.params.robotId, req.body ?? {});
+    res.json(policy);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a robot's charging policy
+ * DELETE /api/charging-policies/:robotId
+ */
+router.delete('/:robotId', async (req: Request, res: Response) => {
+  try {
+    await chargingPolicyEngine.removePolicy(req.params.robotId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,532 @@
+import { storage } from '../storage';
+import { websocketHandler } from '../websocket';
+import { chargerLeases } from './charger-leases';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { parseInput } from './validation';
+import { robotMonitor } from './robot-monitor';
+import { taskQueue } from './task-queue';
+import { TaskWorkflowFactory } from './task-workflows';
+import {
+  Priority,
+  TaskStatus,
+  TaskType,
+  insertChargingPolicySchema,
+  type ChargingPolicy,
+  type Poi,
+  type RobotEvent,
+  type TaskPoint
+} from '@shared/schema';
+
+// Decisions the policy engine logs
+export type ChargingDecision =
+  | 'send_to_charge'
+  | 'charge_deferred'
+  | 'opportunistic_charge'
+  | 'charger_queued'
+  | 'refuse_tasks'
+  | 'release'
+  | 'charge_failed';
+
+// Decisions that send a robot to charge
+type ChargeReason = 'send_to_charge' | 'opportunistic_charge';
+
+// What the engine currently holds against a robot
+interface RobotChargingState {
+  holding: boolean;           // sent to charge by policy, kept off work until releaseAbove
+  refusing: boolean;          // fell below refuseTasksBelow, no new tasks until releaseAbove
+  deferred: boolean;          // fell below chargeBelow mid-task, charges once the task ends
+  chargeTaskId: string | null;
+  waitingForCharger: ChargeReason | null; // queued for a charger, sends the robot once one is leased
+  idleSince: Date | null;
+  lastAttempt: Date | null;
+}
+
+// Event category for every decision made here
+const EVENT_CATEGORY = 'charging';
+const recordEvent = robotEventRecorder(EVENT_CATEGORY, 'Charging policy');
+
+// How often idle robots are checked for opportunistic charging
+const IDLE_CHECK_INTERVAL_MS = 60000;
+
+// Wait between attempts to send the same robot to charge
+const RETRY_COOLDOWN_MS = 5 * 60000;
+
+/**
+ * Convert a charger POI into a task point for the return workflow
+ */
+function chargerTaskPoint(charger: Poi): TaskPoint {
+  return {
+    x: charger.x,
+    y: charger.y,
+    yaw: charger.yaw ?? 0,
+    areaId: charger.areaId,
+    type: 'charger', // Role the return workflow drives to
+    stopRadius: charger.metadata?.stopRadius,
+    ext: { id: charger.poiId, name: charger.name }
+  };
+}
+
+/**
+ * Charging policy engine
+ * Sends robots to charge and keeps them off work based on their battery readings
+ */
+class ChargingPolicyEngine {
+  private started = false;
+  private policies: Map<string, ChargingPolicy> = new Map();
+  private states: Map<string, RobotChargingState> = new Map();
+  private evaluating: Set<string> = new Set();
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load policies and start reacting to battery readings
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const policies = await storage.getAllChargingPolicies();
+    policies.forEach(policy => this.policies.set(policy.robotId, policy));
+
+    chargerLeases.onChargerGranted((robotId, charger) => {
+      this.handleChargerGranted(robotId, charger).catch(error => {
+        console.error(`Failed to send robot ${robotId} to its granted charger:`, error);
+      });
+    });
+    robotMonitor.onBatteryUpdate((robotId, batteryLevel, charging) => {
+      this.handleBatteryReading(robotId, batteryLevel, charging).catch(error => {
+        console.error(`Charging policy evaluation failed for robot ${robotId}:`, error);
+      });
+    });
+    this.idleTimer = setInterval(() => {
+      this.checkIdleRobots().catch(error => {
+        console.error('Idle charging check failed:', error);
+      });
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    console.log(`Charging policy engine started with ${policies.length} policy(ies)`);
+  }
+
+  /**
+   * Stop the idle check
+   */
+  stop(): void {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Get every stored policy
+   */
+  async listPolicies(): Promise<ChargingPolicy[]> {
+    return storage.getAllChargingPolicies();
+  }
+
+  /**
+   * Get a robot's policy
+   */
+  async getPolicy(robotId: string): Promise<ChargingPolicy> {
+    const policy = await storage.getChargingPolicy(robotId);
+    if (!policy) {
+      throw new RobotError(`No charging policy for robot ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+    return policy;
+  }
+
+  /**
+   * Create or replace a robot's policy
+   */
+  async setPolicy(robotId: string, input: unknown): Promise<ChargingPolicy> {
+    if (!(await storage.getRobot(robotId))) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const data = parseInput(insertChargingPolicySchema, { ...(input as object), robotId });
+
+    const { chargeBelow = 25, refuseTasksBelow = 15, releaseAbove = 80 } = data;
+    if (releaseAbove <= chargeBelow || releaseAbove <= refuseTasksBelow) {
+      throw new RobotError(
+        'releaseAbove must be higher than chargeBelow and refuseTasksBelow',
+        ErrorCode.INVALID_PARAM
+      );
+    }
+
+    const policy = await storage.saveChargingPolicy(data);
+    this.policies.set(robotId, policy);
+
+    // A disabled policy no longer holds the robot back
+    if (!policy.enabled) {
+      this.forget(robotId);
+    }
+    return policy;
+  }
+
+  /**
+   * Delete a robot's policy
+   */
+  async removePolicy(robotId: string): Promise<void> {
+    if (!(await storage.deleteChargingPolicy(robotId))) {
+      throw new RobotError(`No charging policy for robot ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+    this.policies.delete(robotId);
+    this.forget(robotId);
+  }
+
+  /**
+   * Whether a robot has an enabled policy deciding when it charges
+   */
+  hasPolicy(robotId: string): boolean {
+    return this.policies.get(robotId)?.enabled ?? false;
+  }
+
+  /**
+   * Whether a robot may be given new tasks
+   */
+  canAcceptTasks(robotId: string): boolean {
+    const state = this.states.get(robotId);
+    return !state || !(state.holding || state.refusing || state.deferred);
+  }
+
+  /**
+   * What the engine currently holds against a robot
+   */
+  getStatus(robotId: string) {
+    const state = this.states.get(robotId);
+    return {
+      robotId,
+      policy: this.policies.get(robotId) ?? null,
+      acceptingTasks: this.canAcceptTasks(robotId),
+      holding: state?.holding ?? false,
+      refusing: state?.refusing ?? false,
+      deferred: state?.deferred ?? false,
+      chargeTaskId: state?.chargeTaskId ?? null,
+      waitingForCharger: state?.waitingForCharger !== null && state?.waitingForCharger !== undefined,
+      queuePosition: chargerLeases.getQueuePosition(robotId),
+      idleSince: state?.idleSince ?? null
+    };
+  }
+
+  /**
+   * Get logged policy decisions, newest first
+   */
+  async getEvents(robotId?: string, limit?: number): Promise<RobotEvent[]> {
+    return storage.getRobotEvents({ robotId, category: EVENT_CATEGORY, limit });
+  }
+
+  /**
+   * Apply a robot's thresholds to a battery reading
+   */
+  private async handleBatteryReading(robotId: string, batteryLevel: number, charging: boolean): Promise<void> {
+    const policy = this.policies.get(robotId);
+    if (!policy?.enabled || this.evaluating.has(robotId)) {
+      return;
+    }
+
+    this.evaluating.add(robotId);
+    try {
+      const state = this.getState(robotId);
+      await this.syncChargeTask(robotId, state, batteryLevel);
+
+      if (batteryLevel >= policy.releaseAbove) {
+        if (state.holding || state.refusing || state.deferred) {
+          state.holding = false;
+          state.refusing = false;
+          state.deferred = false;
+          this.stopWaiting(robotId, state);
+          await this.record(robotId, 'release', batteryLevel,
+            `Battery at ${Math.round(batteryLevel)}% (release above ${policy.releaseAbove}%); robot is available for tasks`);
+
+          // Lets the dispatcher pick the robot up again
+          robotMonitor.notifyRobotIdle(robotId);
+        }
+        return;
+      }
+
+      if (batteryLevel < policy.refuseTasksBelow && !state.refusing) {
+        state.refusing = true;
+        await this.record(robotId, 'refuse_tasks', batteryLevel,
+          `Battery at ${Math.round(batteryLevel)}% (refuse below ${policy.refuseTasksBelow}%); not accepting new tasks`);
+      }
+
+      if (batteryLevel < policy.chargeBelow && !charging && !state.holding) {
+        // Already heading to a charger opportunistically; keep it there until released
+        if (state.chargeTaskId) {
+          state.holding = true;
+          return;
+        }
+
+        // Queued for a charger opportunistically; move ahead of robots that can wait
+        if (state.waitingForCharger) {
+          if (state.waitingForCharger === 'opportunistic_charge') {
+            await this.sendToCharge(robotId, state, batteryLevel, 'send_to_charge',
+              `Battery at ${Math.round(batteryLevel)}% (charge below ${policy.chargeBelow}%)`);
+          }
+          return;
+        }
+
+        const activeTasks = await storage.getActiveTasksByRobot(robotId);
+        if (activeTasks.length > 0) {
+          if (!state.deferred) {
+            state.deferred = true;
+            await this.record(robotId, 'charge_deferred', batteryLevel,
+              `Battery at ${Math.round(batteryLevel)}% (charge below ${policy.chargeBelow}%); charging after task ${activeTasks[0].taskId}`,
+              { taskId: activeTasks[0].taskId });
+          }
+          return;
+        }
+
+        if (!this.cooledDown(state)) {
+          return;
+        }
+        await this.sendToCharge(robotId, state, batteryLevel, 'send_to_charge',
+          `Battery at ${Math.round(batteryLevel)}% (charge below ${policy.chargeBelow}%)`);
+      }
+    } finally {
+      this.evaluating.delete(robotId);
+    }
+  }
+
+  /**
+   * Charge robots that finished a task on a low battery, or have been idle long enough
+   */
+  private async checkIdleRobots(): Promise<void> {
+    for (const policy of Array.from(this.policies.values())) {
+      const robotId = policy.robotId;
+      const live = robotMonitor.getRobotState(robotId);
+      if (!policy.enabled || live?.batteryLevel === undefined || this.evaluating.has(robotId)) {
+        continue;
+      }
+
+      this.evaluating.add(robotId);
+      try {
+        const state = this.getState(robotId);
+        await this.syncChargeTask(robotId, state, live.batteryLevel);
+
+        const activeTasks = await storage.getActiveTasksByRobot(robotId);
+        if (activeTasks.length > 0) {
+          state.idleSince = null;
+          continue;
+        }
+        state.idleSince = state.idleSince ?? new Date();
+
+        if (live.charging || state.chargeTaskId || state.waitingForCharger || !this.cooledDown(state)) {
+          continue;
+        }
+
+        if (state.deferred && live.batteryLevel < policy.chargeBelow) {
+          await this.sendToCharge(robotId, state, live.batteryLevel, 'send_to_charge',
+            `Battery at ${Math.round(live.batteryLevel)}% after finishing its task`);
+          continue;
+        }
+
+        const idleMinutes = (Date.now() - state.idleSince.getTime()) / 60000;
+        if (policy.idleChargeMinutes && idleMinutes >= policy.idleChargeMinutes && live.batteryLevel < policy.releaseAbove) {
+          await this.sendToCharge(robotId, state, live.batteryLevel, 'opportunistic_charge',
+            `Idle for ${Math.floor(idleMinutes)} minutes at ${Math.round(live.batteryLevel)}%`);
+        }
+      } finally {
+        this.evaluating.delete(robotId);
+      }
+    }
+  }
+
+  /**
+   * Lease the nearest free charger and send the robot to it, or queue the robot for one
+   */
+  private async sendToCharge(
+    robotId: string,
+    state: RobotChargingState,
+    batteryLevel: number,
+    decision: ChargeReason,
+    reason: string
+  ): Promise<void> {
+    state.lastAttempt = new Date();
+
+    try {
+      const charger = await chargerLeases.request(robotId, decision === 'send_to_charge');
+      if (!charger) {
+        state.waitingForCharger = decision;
+        state.holding = decision === 'send_to_charge';
+        state.deferred = false;
+        await this.record(robotId, 'charger_queued', batteryLevel,
+          `${reason}; every charger is taken, waiting at position ${chargerLeases.getQueuePosition(robotId)}`);
+        return;
+      }
+
+      await this.queueChargeTask(robotId, state, batteryLevel, decision, reason, charger);
+    } catch (error) {
+      state.waitingForCharger = null;
+      await this.record(robotId, 'charge_failed', batteryLevel,
+        `${reason}; could not send robot to charge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Send a queued robot to the charger it has just been leased
+   */
+  private async handleChargerGranted(robotId: string, charger: Poi): Promise<void> {
+    const state = this.states.get(robotId);
+    const decision = state?.waitingForCharger;
+    if (!state || !decision) {
+      await chargerLeases.release(robotId, 'robot no longer needs a charger');
+      return;
+    }
+
+    // Opportunistic waiters may have picked up work in the meantime
+    if (decision === 'opportunistic_charge' && (await storage.getActiveTasksByRobot(robotId)).length > 0) {
+      state.waitingForCharger = null;
+      await chargerLeases.release(robotId, 'robot is busy with a task');
+      return;
+    }
+
+    const batteryLevel = robotMonitor.getRobotState(robotId)?.batteryLevel ?? 0;
+    try {
+      await this.queueChargeTask(robotId, state, batteryLevel, decision, 'A charger came free', charger);
+    } catch (error) {
+      state.waitingForCharger = null;
+      state.holding = false;
+      state.deferred = decision === 'send_to_charge'; // Try again once the cooldown has passed
+      await chargerLeases.release(robotId, 'could not create charge task');
+      await this.record(robotId, 'charge_failed', batteryLevel,
+        `Could not send robot to charger ${charger.poiId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Queue a task that drives the robot onto its leased charger
+   */
+  private async queueChargeTask(
+    robotId: string,
+    state: RobotChargingState,
+    batteryLevel: number,
+    decision: ChargeReason,
+    reason: string,
+    charger: Poi
+  ): Promise<void> {
+    try {
+      const task = await TaskWorkflowFactory.createTask({
+        robotId,
+        name: `Charge ${robotId} (${Math.round(batteryLevel)}%)`,
+        taskType: TaskType.RETURN,
+        // Opportunistic charging gives way to any real work
+        priority: decision === 'send_to_charge' ? Priority.HIGH : Priority.LOW,
+        points: [chargerTaskPoint(charger)]
+      });
+      await taskQueue.enqueue(task.taskId);
+
+      state.chargeTaskId = task.taskId;
+      state.waitingForCharger = null;
+      state.holding = decision === 'send_to_charge';
+      state.deferred = false;
+      state.idleSince = null;
+
+      await this.record(robotId, decision, batteryLevel,
+        `${reason}; sending to charger ${charger.name || charger.poiId}`,
+        { taskId: task.taskId, chargerId: charger.poiId });
+    } catch (error) {
+      // The charger goes to the next robot in line
+      await chargerLeases.release(robotId, 'charge task could not be created');
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a charge task once it has ended, and stop holding the robot if it never docked
+   */
+  private async syncChargeTask(robotId: string, state: RobotChargingState, batteryLevel: number): Promise<void> {
+    if (!state.chargeTaskId) {
+      return;
+    }
+
+    const task = await storage.getTask(state.chargeTaskId);
+    if (task && task.status !== TaskStatus.FAILED && task.status !== TaskStatus.CANCELLED) {
+      if (task.status === TaskStatus.COMPLETED) {
+        state.chargeTaskId = null;
+      }
+      return;
+    }
+
+    state.chargeTaskId = null;
+    await chargerLeases.release(robotId, `charge task ${task?.status ?? 'disappeared'}`);
+    if (state.holding) {
+      state.holding = false;
+      state.deferred = true; // Try again once the cooldown has passed
+      await this.record(robotId, 'charge_failed', batteryLevel,
+        `Charge task ${task?.taskId ?? 'unknown'} ${task?.status ?? 'disappeared'} before the robot docked`);
+    }
+  }
+
+  /**
+   * Stop waiting for a charger
+   */
+  private stopWaiting(robotId: string, state: RobotChargingState): void {
+    if (state.waitingForCharger) {
+      state.waitingForCharger = null;
+      chargerLeases.cancelRequest(robotId);
+    }
+  }
+
+  /**
+   * Drop everything the engine holds against a robot
+   */
+  private forget(robotId: string): void {
+    const state = this.states.get(robotId);
+    if (state) {
+      this.stopWaiting(robotId, state);
+      this.states.delete(robotId);
+    }
+  }
+
+  /**
+   * Whether enough time has passed since the last attempt to charge
+   */
+  private cooledDown(state: RobotChargingState): boolean {
+    return !state.lastAttempt || Date.now() - state.lastAttempt.getTime() >= RETRY_COOLDOWN_MS;
+  }
+
+  /**
+   * Get or create a robot's state
+   */
+  private getState(robotId: string): RobotChargingState {
+    let state = this.states.get(robotId);
+    if (!state) {
+      state = {
+        holding: false,
+        refusing: false,
+        deferred: false,
+        chargeTaskId: null,
+        waitingForCharger: null,
+        idleSince: null,
+        lastAttempt: null
+      };
+      this.states.set(robotId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Log a policy decision as a robot event and let clients know
+   */
+  private async record(
+    robotId: string,
+    decision: ChargingDecision,
+    batteryLevel: number,
+    message: string,
+    data: Record<string, any> = {}
+  ): Promise<void> {
+    await recordEvent(robotId, decision, message, { batteryLevel, ...data });
+
+    websocketHandler.broadcastRobotUpdate(robotId, {
+      chargingPolicy: this.getStatus(robotId),
+      chargingDecision: { event: decision, message, batteryLevel, timestamp: new Date() }
+    });
+  }
+}
+
+// Create singleton instance
+export const chargingPolicyEngine = new ChargingPolicyEngine();
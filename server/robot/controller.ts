@@ -1,15 +1,24 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage";
 import * as directApi from './direct-api';
+import { getSimulatorConnectionConfig } from './simulator';
 
 /**
  * Configure robot connection settings
  */
 export async function configureRobotConnection(req: Request, res: Response) {
   try {
-    const { robotId, publicIp, localIp, port, useSsl, appCode, appSecret, appId } = req.body;
+    const { robotId, publicIp, localIp, port, useSsl, appCode, appSecret, appId, simulator } = req.body;
+    
+    // Point the robot at the local simulator instead of real hardware
+    const simulatorConfig = simulator ? getSimulatorConnectionConfig(robotId) : null;
+    if (simulator && !simulatorConfig) {
+      return res.status(400).json({
+        error: `Robot simulator is not configured for robot ${robotId} (set ROBOT_SIMULATOR_HOST and ROBOT_SIMULATOR_SERIAL)`
+      });
+    }
     
-    if (!robotId || !publicIp) {
+    if (!robotId || (!publicIp && !simulatorConfig)) {
       return res.status(400).json({ error: "Missing required connection parameters" });
     }
     
@@ -18,10 +27,11 @@ export async function configureRobotConnection(req: Request, res: Response) {
       localIp: localIp || publicIp,
       port: port || 8090, // AutoXing robots use port 8090 by default
       useSsl: useSsl || false,
-      wsPort: 8090, // WebSocket also uses port 8090
+      wsPort: port || 8090, // WebSocket uses the same port as the REST API
       appCode: appCode || '667a51a4d948433081a272c78d10a8a4', // Default for our test robot
       appSecret: appSecret || '',
-      appId: appId || ''
+      appId: appId || '',
+      ...simulatorConfig
     };
     
     // Configure robot in the DirectApi module
@@ -0,0 +1,179 @@
+import { ErrorCode, RobotError } from './errors';
+
+// Parsed five-field cron expression
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted, either may match (standard cron behaviour)
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Wall-clock time in a time zone
+export interface ZonedTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;   // 1-12
+  weekday: number; // 0 = Sunday
+}
+
+// Bounds of each field, in order
+const FIELDS: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Give up looking for the next run after this many steps (a little over a year of day skips)
+const MAX_SEARCH_STEPS = 50000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Parse one cron field: *, a value, a range (a-b), a step (* /n or a-b/n) or a comma-separated list of those
+ */
+function parseField(text: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new RobotError(`Invalid cron ${field.name}: ${part}`, ErrorCode.INVALID_PARAM);
+    }
+
+    const from = match[1] === '*' ? field.min : Number(match[2]);
+    const to = match[1] === '*' ? field.max : match[3] !== undefined ? Number(match[3]) : match[4] ? field.max : from;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (from < field.min || to > field.max || from > to || step < 1) {
+      throw new RobotError(`Cron ${field.name} out of range: ${part}`, ErrorCode.INVALID_PARAM);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new RobotError(`Cron expression needs ${FIELDS.length} fields: ${expression}`, ErrorCode.INVALID_PARAM);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+/**
+ * Whether an IANA time zone name is known to the runtime
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export function toZonedTime(date: Date, timezone: string): ZonedTime {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * Whether a cron expression's day fields match a date
+ */
+function matchesDay(cron: CronExpression, time: ZonedTime): boolean {
+  if (!cron.months.has(time.month)) {
+    return false;
+  }
+
+  const dayOfMonth = cron.daysOfMonth.has(time.day);
+  const dayOfWeek = cron.daysOfWeek.has(time.weekday);
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Whether a cron expression fires at a wall-clock minute
+ */
+export function matchesCron(cron: CronExpression, time: ZonedTime): boolean {
+  return matchesDay(cron, time) && cron.hours.has(time.hour) && cron.minutes.has(time.minute);
+}
+
+/**
+ * First minute after a given instant at which a cron expression fires in a time zone
+ * @returns The run time, or null if there is none within about a year
+ */
+export function nextCronRun(cron: CronExpression, timezone: string, after: Date = new Date()): Date | null {
+  let candidate = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const time = toZonedTime(candidate, timezone);
+    let skipMinutes: number;
+
+    if (!matchesDay(cron, time)) {
+      skipMinutes = 24 * 60 - (time.hour * 60 + time.minute);
+    } else if (!cron.hours.has(time.hour)) {
+      skipMinutes = 60 - time.minute;
+    } else if (!cron.minutes.has(time.minute)) {
+      skipMinutes = 1;
+    } else {
+      return candidate;
+    }
+
+    candidate = new Date(candidate.getTime() + skipMinutes * 60000);
+  }
+  return null;
+}
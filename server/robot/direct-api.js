@@ -373,6 +373,21 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
       }
     },
     
+    /**
+     * Replace a map's overlays (points, regions and lines drawn on the map)
+     * @param {string} mapId - Map ID to update
+     * @param {Object} overlays - GeoJSON FeatureCollection, as returned in getMapDetails().overlays
+     */
+    async updateMapOverlays(mapId, overlays) {
+      try {
+        const response = await axiosInstance.patch(`/maps/${mapId}`, { overlays: JSON.stringify(overlays) });
+        return response.data;
+      } catch (error) {
+        console.error(`Error updating map overlays for robot ${serialNumber}, map ${mapId}:`, error.message);
+        throw error;
+      }
+    },
+    
     /**
      * Get all map points (POIs) from the current map
      * This combines getCurrentMap and getMapDetails into a single operation
@@ -535,6 +550,81 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
       }
     },
     
+    /**
+     * Get the move action the chassis is currently executing
+     * @returns {Promise<Object|null>} - Move action, or null if the robot has no current move
+     */
+    async getCurrentMove() {
+      try {
+        const response = await axiosInstance.get('/chassis/moves/current');
+        return response.data;
+      } catch (error) {
+        if (error.response && error.response.status === 404) {
+          return null;
+        }
+        console.error(`Error getting current move for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+
+    /**
+     * Cancel the move action the chassis is currently executing
+     * @returns {Promise<boolean>} - False if the robot had no current move
+     */
+    async cancelCurrentMove() {
+      try {
+        await axiosInstance.patch('/chassis/moves/current', { state: 'cancelled' });
+        return true;
+      } catch (error) {
+        if (error.response && error.response.status === 404) {
+          return false;
+        }
+        console.error(`Error canceling current move for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+
+    /**
+     * Get a move action by ID
+     * @param {number} moveId - Move action ID
+     * @returns {Promise<Object>} - Move action including its state
+     */
+    async getMove(moveId) {
+      try {
+        const response = await axiosInstance.get(`/chassis/moves/${moveId}`);
+        return response.data;
+      } catch (error) {
+        console.error(`Error getting move ${moveId} for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+
+    /**
+     * Raise the lifting mechanism to pick up a rack/bin
+     */
+    async jackUp() {
+      try {
+        const response = await axiosInstance.post('/services/jack_up');
+        return response.data;
+      } catch (error) {
+        console.error(`Error raising jack for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+
+    /**
+     * Lower the lifting mechanism to release a rack/bin
+     */
+    async jackDown() {
+      try {
+        const response = await axiosInstance.post('/services/jack_down');
+        return response.data;
+      } catch (error) {
+        console.error(`Error lowering jack for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+
     /**
      * Get battery status
      * Note: According to AutoXing documentation, battery information is primarily 
@@ -599,6 +689,24 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
       }
     },
     
+    /**
+     * Download a map's occupancy image
+     * @param {string} imageUrl - image_url from the map details (absolute or relative to the robot)
+     * @returns {Object} - Image bytes and content type
+     */
+    async getMapImage(imageUrl) {
+      try {
+        const response = await axiosInstance.get(imageUrl, { responseType: 'arraybuffer' });
+        return {
+          data: Buffer.from(response.data),
+          contentType: response.headers['content-type'] || 'image/png'
+        };
+      } catch (error) {
+        console.error(`Error getting map image for robot ${serialNumber}:`, error.message);
+        throw error;
+      }
+    },
+    
     /**
      * Create a new task 
      * @param {Object} taskInfo - Task information object
@@ -1016,10 +1124,10 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
      * @param {Object} moveData - Movement data with coordinates and parameters
      * @param {number} moveData.x - X coordinate
      * @param {number} moveData.y - Y coordinate
-     * @param {number} moveData.yaw - Orientation (yaw) in radians
+     * @param {number} moveData.yaw - Orientation (yaw) in degrees, as on POIs and task points; sent as target_ori in radians
      * @param {string} moveData.areaId - Map area ID
      * @param {string} [moveData.type='standard'] - Movement type (standard, charge, etc.)
-     * @param {number} [moveData.speed] - Speed for movement
+     * @param {number} [moveData.speed] - Maximum speed in m/s
      * @param {number} [moveData.accuracy=0.2] - Target position accuracy in meters
      * @param {string} [moveData.name] - Name for this movement action
      * @returns {Promise<string>} - Returns the move task ID
@@ -1029,7 +1137,9 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
         // Check if we're using the new target_x/target_y format or the legacy x/y format
         const targetX = moveData.target_x !== undefined ? moveData.target_x : moveData.x;
         const targetY = moveData.target_y !== undefined ? moveData.target_y : moveData.y;
-        const targetOri = moveData.target_ori !== undefined ? moveData.target_ori : moveData.yaw;
+        const targetOri = moveData.target_ori !== undefined
+          ? moveData.target_ori
+          : moveData.yaw !== undefined ? (Number(moveData.yaw) * Math.PI) / 180 : undefined;
         
         console.log(`Creating move action for robot ${serialNumber} to position (${targetX}, ${targetY})`);
         
@@ -1057,6 +1167,11 @@ export function createRobotApiClient(serialNumber, publicIp, port, appCode) {
           moveRequest.target_accuracy = Number(moveData.accuracy);
         }
         
+        // Speed cap in m/s; unset or -1 leaves the robot's configured speed
+        if (moveData.speed !== undefined && Number(moveData.speed) > 0) {
+          moveRequest.max_speed = Number(moveData.speed);
+        }
+        
         console.log(`Sending move command to /chassis/moves:`, JSON.stringify(moveRequest));
         
         const moveResponse = await axiosInstance.post('/chassis/moves', moveRequest);
@@ -0,0 +1,250 @@
+import { storage } from '../storage';
+import { websocketHandler } from '../websocket';
+import { robotMonitor } from './robot-monitor';
+import { taskQueue } from './task-queue';
+import { chargingPolicyEngine } from './charging-policy';
+import { priorityRank, type Robot, type Task } from '@shared/schema';
+
+// Robot statuses that can't take new work
+const UNAVAILABLE_STATUSES = ['offline', 'error', 'busy', 'emergency_stop', 'position_lost'];
+
+// Robots without a charging policy are left to charge below this battery percentage
+const MIN_DISPATCH_BATTERY = 20;
+
+// Scoring (lower is better): metres to the first task point, plus penalties
+const OTHER_FLOOR_PENALTY = 1000;
+const UNKNOWN_POSE_PENALTY = 50;
+const BATTERY_WEIGHT = 0.5;
+
+// A task handed to a robot by the dispatcher
+export interface DispatchAssignment {
+  taskId: string;
+  robotId: string;
+  score: number;
+  assignedAt: Date;
+}
+
+// Robot considered for a task, with the values used to score it
+interface DispatchCandidate {
+  robot: Robot;
+  batteryLevel: number;
+}
+
+/**
+ * Compare tasks by priority, then oldest first
+ */
+function compareTasks(a: Task, b: Task): number {
+  const rankDiff = priorityRank(b.priority) - priorityRank(a.priority);
+  if (rankDiff !== 0) {
+    return rankDiff;
+  }
+  return (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+}
+
+/**
+ * Fleet dispatcher
+ * Assigns robot-agnostic pending tasks to the best idle robot
+ */
+class FleetDispatcher {
+  private started = false;
+  private running = false;
+  private rerunRequested = false;
+  private lastRun: Date | null = null;
+  private recentAssignments: DispatchAssignment[] = [];
+
+  /**
+   * Start listening for idle robots and run a first dispatch
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    robotMonitor.onRobotIdle(() => this.requestDispatch());
+    this.requestDispatch();
+    console.log('Fleet dispatcher started');
+  }
+
+  /**
+   * Queue a dispatch run (runs are serialized so a task is never assigned twice)
+   */
+  requestDispatch(): void {
+    if (this.running) {
+      this.rerunRequested = true;
+      return;
+    }
+
+    this.running = true;
+    this.dispatch()
+      .catch(error => {
+        console.error('Fleet dispatch failed:', error);
+      })
+      .finally(() => {
+        this.running = false;
+        if (this.rerunRequested) {
+          this.rerunRequested = false;
+          this.requestDispatch();
+        }
+      });
+  }
+
+  /**
+   * Get dispatcher status
+   */
+  getStatus() {
+    return {
+      started: this.started,
+      running: this.running,
+      lastRun: this.lastRun,
+      recentAssignments: this.recentAssignments
+    };
+  }
+
+  /**
+   * Whether a robot (or, without an ID, any robot) could take a new task right now
+   */
+  async hasIdleRobot(robotId?: string | null): Promise<boolean> {
+    const candidates = await this.getIdleRobots();
+    return robotId
+      ? candidates.some(candidate => candidate.robot.robotId === robotId)
+      : candidates.length > 0;
+  }
+
+  /**
+   * Assign unassigned pending tasks in priority order
+   */
+  private async dispatch(): Promise<void> {
+    const pendingTasks = (await storage.getPendingTasks())
+      .filter(task => !task.robotId)
+      .sort(compareTasks);
+    this.lastRun = new Date();
+
+    if (pendingTasks.length === 0) {
+      return;
+    }
+
+    const candidates = await this.getIdleRobots();
+    const floorCache = new Map<string, string | undefined>();
+
+    for (const task of pendingTasks) {
+      if (candidates.length === 0) {
+        console.log(`No idle robots for ${pendingTasks.length} pending task(s)`);
+        break;
+      }
+
+      const taskFloor = await this.getTaskFloor(task, floorCache);
+
+      // Pick the lowest scoring robot
+      let bestIndex = 0;
+      let bestScore = Infinity;
+      candidates.forEach((candidate, index) => {
+        const score = this.scoreRobot(task, taskFloor, candidate);
+        if (score < bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+
+      const [best] = candidates.splice(bestIndex, 1);
+      await this.assign(task, best.robot, bestScore);
+    }
+  }
+
+  /**
+   * Robots that are online, not busy with a task and have enough battery
+   */
+  private async getIdleRobots(): Promise<DispatchCandidate[]> {
+    const robots = await storage.getAllRobots();
+    const candidates: DispatchCandidate[] = [];
+
+    for (const robot of robots) {
+      if (UNAVAILABLE_STATUSES.includes(robot.status)) {
+        continue;
+      }
+
+      const liveState = robotMonitor.getRobotState(robot.robotId);
+      const batteryLevel = liveState?.batteryLevel ?? robot.batteryLevel ?? 0;
+      // A robot's charging policy replaces the default battery floor
+      const acceptsTasks = chargingPolicyEngine.hasPolicy(robot.robotId)
+        ? chargingPolicyEngine.canAcceptTasks(robot.robotId)
+        : batteryLevel >= MIN_DISPATCH_BATTERY;
+      if (!acceptsTasks) {
+        continue;
+      }
+
+      const activeTasks = await storage.getActiveTasksByRobot(robot.robotId);
+      if (activeTasks.length > 0) {
+        continue;
+      }
+
+      candidates.push({ robot, batteryLevel });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Look up the floor of a task's first point from its map
+   */
+  private async getTaskFloor(task: Task, cache: Map<string, string | undefined>): Promise<string | undefined> {
+    const areaId = task.points?.[0]?.areaId;
+    if (!areaId) {
+      return undefined;
+    }
+
+    if (!cache.has(areaId)) {
+      const map = await storage.getMap(areaId);
+      cache.set(areaId, map?.floor);
+    }
+    return cache.get(areaId);
+  }
+
+  /**
+   * Score a robot for a task (lower is better)
+   */
+  private scoreRobot(task: Task, taskFloor: string | undefined, candidate: DispatchCandidate): number {
+    const target = task.points?.[0];
+    const pose = robotMonitor.getRobotState(candidate.robot.robotId)?.pose;
+    const sameFloor = !taskFloor || !candidate.robot.floor || candidate.robot.floor === taskFloor;
+
+    let score = 0;
+    if (!sameFloor) {
+      score += OTHER_FLOOR_PENALTY;
+    } else if (pose && target) {
+      score += Math.hypot(target.x - pose.x, target.y - pose.y);
+    } else {
+      score += UNKNOWN_POSE_PENALTY;
+    }
+
+    // Prefer fuller batteries when distances are close
+    score -= candidate.batteryLevel * BATTERY_WEIGHT;
+    return score;
+  }
+
+  /**
+   * Assign a task to a robot and queue it
+   */
+  private async assign(task: Task, robot: Robot, score: number): Promise<void> {
+    const updated = await storage.updateTaskRobot(task.taskId, robot.robotId);
+    if (!updated) {
+      return;
+    }
+
+    console.log(`Dispatched task ${task.taskId} (${task.priority}) to robot ${robot.robotId}`);
+
+    this.recentAssignments = [
+      { taskId: task.taskId, robotId: robot.robotId, score, assignedAt: new Date() },
+      ...this.recentAssignments
+    ].slice(0, 20);
+
+    websocketHandler.broadcastTaskUpdate(task.taskId, {
+      robotId: robot.robotId
+    });
+
+    await taskQueue.enqueue(task.taskId);
+  }
+}
+
+// Create singleton instance
+export const fleetDispatcher = new FleetDispatcher();
@@ -0,0 +1,97 @@
+import { Router, Request, Response } from 'express';
+import { doorAccess } from './doors';
+import { ErrorCode, RobotError, errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Parse a door ID route parameter
+ */
+function parseDoorId(value: string): number {
+  const doorId = Number(value);
+  if (!Number.isInteger(doorId)) {
+    throw new RobotError(`Invalid door ID: ${value}`, ErrorCode.INVALID_PARAM);
+  }
+  return doorId;
+}
+
+/**
+ * Get all doors (?floor= limits them to one floor)
+ * GET /api/doors
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const floor = typeof req.query.floor === 'string' ? req.query.floor : undefined;
+    res.json(await doorAccess.listDoors(floor));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get recent door commands and their results (?doorId=, ?robotId=, ?limit=)
+ * GET /api/doors/events
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const doorId = typeof req.query.doorId === 'string' ? parseDoorId(req.query.doorId) : undefined;
+    const robotId = typeof req.query.robotId === 'string' ? req.query.robotId : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    res.json(await doorAccess.getEvents({ doorId, robotId, limit }));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a door
+ * GET /api/doors/:doorId
+ */
+router.get('/:doorId', async (req: Request, res: Response) => {
+  try {
+    res.json(await doorAccess.getDoor(parseDoorId(req.params.doorId)));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Register a door
+ * POST /api/doors
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await doorAccess.createDoor(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a door
+ * PUT /api/doors/:doorId
+ */
+router.put('/:doorId', async (req: Request, res: Response) => {
+  try {
+    res.json(await doorAccess.updateDoor(parseDoorId(req.params.doorId), req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a door no POI lists
+ * DELETE /api/doors/:doorId
+ */
+router.delete('/:doorId', async (req: Request, res: Response) => {
+  try {
+    await doorAccess.deleteDoor(parseDoorId(req.params.doorId));
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,396 @@
+import axios, { type AxiosInstance } from 'axios';
+import { connect, type MqttClient } from 'mqtt';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { parseInput } from './validation';
+import { DoorControllerType, insertDoorSchema, type Door, type RobotEvent, type TaskPoint } from '@shared/schema';
+
+// Event category for every door command
+const EVENT_CATEGORY = 'door';
+const record = robotEventRecorder(EVENT_CATEGORY, 'Door');
+
+// How long an MQTT door has to report the commanded state
+const MQTT_STATE_TIMEOUT_MS = 15000;
+
+export type DoorState = 'open' | 'closed';
+
+// Door fields as sent by clients
+const doorInputSchema = insertDoorSchema.extend({
+  doorId: z.number().int().positive(),
+  name: z.string().trim().min(1),
+  floor: z.string().trim().min(1),
+  controller: z.enum([DoorControllerType.HTTP, DoorControllerType.MQTT, DoorControllerType.FAKE]),
+  address: z.string().trim().min(1).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+const doorUpdateSchema = doorInputSchema.omit({ doorId: true }).partial();
+
+// Who asked for a door command, for the audit trail
+export interface DoorContext {
+  robotId: string;
+  taskId?: string;
+  poiId?: string;
+  requestedBy?: string;   // username for manual commands; automatic ones leave it unset
+}
+
+/**
+ * Door controller
+ * Drives one kind of door hardware. Each call resolves once the door has reached the state.
+ */
+export interface DoorController {
+  readonly name: string;
+  open(door: Door): Promise<void>;
+  close(door: Door): Promise<void>;
+}
+
+/**
+ * Controller for doors with a small REST API at their address
+ * POST {address}/open, POST {address}/close
+ */
+export class HttpDoorController implements DoorController {
+  readonly name = DoorControllerType.HTTP;
+  private client: AxiosInstance;
+
+  constructor(apiKey?: string) {
+    this.client = axios.create({
+      timeout: 10000,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+    });
+  }
+
+  async open(door: Door): Promise<void> {
+    await this.client.post(`${this.getAddress(door)}/open`, { doorId: door.doorId });
+  }
+
+  async close(door: Door): Promise<void> {
+    await this.client.post(`${this.getAddress(door)}/close`, { doorId: door.doorId });
+  }
+
+  private getAddress(door: Door): string {
+    if (!door.address) {
+      throw new RobotError(`Door ${door.doorId} has no controller URL`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+    return door.address.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Controller for doors on an MQTT broker
+ * Publishes "open"/"close" to {address}/command and waits for the door to report it on {address}/state.
+ */
+export class MqttDoorController implements DoorController {
+  readonly name = DoorControllerType.MQTT;
+  private client: MqttClient | null = null;
+
+  constructor(private brokerUrl: string, private options: { username?: string; password?: string } = {}) {}
+
+  async open(door: Door): Promise<void> {
+    await this.command(door, 'open');
+  }
+
+  async close(door: Door): Promise<void> {
+    await this.command(door, 'closed');
+  }
+
+  /**
+   * Send a command and wait for the door's state topic to confirm it
+   */
+  private async command(door: Door, state: DoorState): Promise<void> {
+    if (!door.address) {
+      throw new RobotError(`Door ${door.doorId} has no MQTT topic`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+
+    const client = this.getClient();
+    const stateTopic = `${door.address}/state`;
+    await client.subscribeAsync(stateTopic);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          client.off('message', onMessage);
+          reject(new RobotError(`Door ${door.doorId} did not report ${state} in time`, ErrorCode.DOOR_FAILED));
+        }, MQTT_STATE_TIMEOUT_MS);
+
+        const onMessage = (topic: string, payload: Buffer) => {
+          if (topic === stateTopic && payload.toString().trim().toLowerCase() === state) {
+            clearTimeout(timer);
+            client.off('message', onMessage);
+            resolve();
+          }
+        };
+
+        client.on('message', onMessage);
+        client.publishAsync(`${door.address}/command`, state === 'open' ? 'open' : 'close', { qos: 1 })
+          .catch(error => {
+            clearTimeout(timer);
+            client.off('message', onMessage);
+            reject(error);
+          });
+      });
+    } finally {
+      await client.unsubscribeAsync(stateTopic).catch(() => undefined);
+    }
+  }
+
+  private getClient(): MqttClient {
+    if (!this.client) {
+      this.client = connect(this.brokerUrl, { ...this.options, reconnectPeriod: 5000 });
+      this.client.on('error', error => console.error(`Door MQTT broker ${this.brokerUrl}:`, error.message));
+    }
+    return this.client;
+  }
+}
+
+/**
+ * In-process doors that open and close at once
+ * Only for development and tests: commands to fake doors fail unless DOOR_FAKE_CONTROLLER=true or a test
+ * installs this with useController, so a door without hardware is never reported open.
+ */
+export class FakeDoorController implements DoorController {
+  readonly name = DoorControllerType.FAKE;
+  private states: Map<number, DoorState> = new Map();
+
+  async open(door: Door): Promise<void> {
+    this.states.set(door.doorId, 'open');
+  }
+
+  async close(door: Door): Promise<void> {
+    this.states.set(door.doorId, 'closed');
+  }
+
+  getState(doorId: number): DoorState {
+    return this.states.get(doorId) ?? 'closed';
+  }
+}
+
+/**
+ * Door access
+ * Opens and closes registered doors through their controllers and records every command as a robot event.
+ * DOOR_CONTROLLER_API_KEY authenticates HTTP doors; DOOR_MQTT_URL enables MQTT doors; DOOR_FAKE_CONTROLLER=true
+ * enables in-process fake doors for development.
+ */
+class DoorAccess {
+  private controllers: Map<string, DoorController> = new Map();
+
+  // Doors opened automatically for a task, closed when it ends
+  private openedForTask: Map<string, { robotId: string; doorIds: Set<number> }> = new Map();
+
+  constructor() {
+    this.controllers.set(DoorControllerType.HTTP, new HttpDoorController(process.env.DOOR_CONTROLLER_API_KEY));
+    if (process.env.DOOR_FAKE_CONTROLLER === 'true') {
+      this.controllers.set(DoorControllerType.FAKE, new FakeDoorController());
+    }
+
+    const mqttUrl = process.env.DOOR_MQTT_URL;
+    if (mqttUrl) {
+      this.controllers.set(DoorControllerType.MQTT, new MqttDoorController(mqttUrl, {
+        username: process.env.DOOR_MQTT_USERNAME,
+        password: process.env.DOOR_MQTT_PASSWORD
+      }));
+    }
+  }
+
+  /**
+   * Replace the controller for one kind of door (e.g. with a fake in tests)
+   */
+  useController(kind: string, controller: DoorController): void {
+    console.log(`Door controller for ${kind} doors: ${controller.name}`);
+    this.controllers.set(kind, controller);
+  }
+
+  /**
+   * Get every registered door, optionally only those on one floor
+   */
+  async listDoors(floor?: string): Promise<Door[]> {
+    const doors = await storage.getAllDoors();
+    return floor ? doors.filter(door => door.floor === floor) : doors;
+  }
+
+  /**
+   * Get a door or throw NOT_FOUND
+   */
+  async getDoor(doorId: number): Promise<Door> {
+    const door = await storage.getDoor(doorId);
+    if (!door) {
+      throw new RobotError(`Door not found: ${doorId}`, ErrorCode.NOT_FOUND);
+    }
+    return door;
+  }
+
+  /**
+   * Register a door
+   */
+  async createDoor(input: unknown): Promise<Door> {
+    const data = parseInput(doorInputSchema, input);
+    if (await storage.getDoor(data.doorId)) {
+      throw new RobotError(`Door ${data.doorId} already exists`, ErrorCode.CONFLICT);
+    }
+
+    const door = { ...data, address: data.address ?? null };
+    this.assertAddress(door);
+    return storage.createDoor(door);
+  }
+
+  /**
+   * Update a registered door
+   */
+  async updateDoor(doorId: number, input: unknown): Promise<Door> {
+    const door = await this.getDoor(doorId);
+    const data = parseInput(doorUpdateSchema, input);
+
+    this.assertAddress({ ...door, ...data });
+    return (await storage.updateDoor(doorId, data))!;
+  }
+
+  /**
+   * Remove a door that no POI lists any more
+   */
+  async deleteDoor(doorId: number): Promise<void> {
+    await this.getDoor(doorId);
+
+    const poi = (await storage.getAllPois()).find(entry => entry.metadata?.doorIds?.includes(doorId));
+    if (poi) {
+      throw new RobotError(`Door ${doorId} is listed on POI ${poi.poiId}`, ErrorCode.CONFLICT);
+    }
+    await storage.deleteDoor(doorId);
+  }
+
+  /**
+   * Door commands recorded in the audit trail, newest first
+   */
+  async getEvents(filter: { doorId?: number; robotId?: string; limit?: number }): Promise<RobotEvent[]> {
+    return storage.getRobotEvents({
+      robotId: filter.robotId,
+      category: EVENT_CATEGORY,
+      data: filter.doorId ? { doorId: filter.doorId } : undefined,
+      limit: filter.limit
+    });
+  }
+
+  /**
+   * Open doors, stopping at the first one that fails
+   */
+  async open(doorIds: number[], context: DoorContext): Promise<void> {
+    for (const doorId of doorIds) {
+      await this.command(doorId, 'open', context);
+    }
+  }
+
+  /**
+   * Close doors; every door is tried even if one fails
+   */
+  async close(doorIds: number[], context: DoorContext): Promise<void> {
+    let firstError: unknown = null;
+    for (const doorId of doorIds) {
+      try {
+        await this.command(doorId, 'closed', context);
+      } catch (error) {
+        firstError = firstError ?? error;
+      }
+    }
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  /**
+   * Open the doors listed on the POI behind a task point
+   * @returns The doors that were opened
+   */
+  async openForPoint(point: TaskPoint, context: DoorContext): Promise<number[]> {
+    const poiId = point.ext?.id;
+    const poi = poiId ? await storage.getPoi(poiId) : undefined;
+    const doorIds = poi?.metadata?.doorIds ?? [];
+    if (!poi || doorIds.length === 0) {
+      return [];
+    }
+
+    for (const doorId of doorIds) {
+      const door = await storage.getDoor(doorId);
+      if (door && poi.floor && door.floor !== poi.floor) {
+        throw new RobotError(
+          `POI ${poi.poiId} on floor ${poi.floor} lists door ${doorId}, which is on floor ${door.floor}`,
+          ErrorCode.INVALID_TASK_CONFIGURATION
+        );
+      }
+    }
+
+    await this.open(doorIds, { ...context, poiId: poi.poiId });
+
+    if (context.taskId) {
+      const opened = this.openedForTask.get(context.taskId) ?? { robotId: context.robotId, doorIds: new Set<number>() };
+      doorIds.forEach(doorId => opened.doorIds.add(doorId));
+      this.openedForTask.set(context.taskId, opened);
+    }
+    return doorIds;
+  }
+
+  /**
+   * Close every door opened for a task; failures are recorded but not thrown
+   */
+  async closeForTask(taskId: string): Promise<void> {
+    const opened = this.openedForTask.get(taskId);
+    if (!opened) {
+      return;
+    }
+    this.openedForTask.delete(taskId);
+
+    await this.close(Array.from(opened.doorIds), { robotId: opened.robotId, taskId }).catch(error => {
+      console.error(`Failed to close doors after task ${taskId}:`, error);
+    });
+  }
+
+  /**
+   * Send one command to one door and record the outcome
+   */
+  private async command(doorId: number, state: DoorState, context: DoorContext): Promise<void> {
+    const action = state === 'open' ? 'open' : 'close';
+    const data = {
+      doorId,
+      taskId: context.taskId ?? null,
+      poiId: context.poiId ?? null,
+      requestedBy: context.requestedBy ?? null
+    };
+
+    const door = await storage.getDoor(doorId);
+    if (!door) {
+      await record(context.robotId, `${action}_failed`, `Door ${doorId} is not registered`, data);
+      throw new RobotError(`Door ${doorId} is not registered`, ErrorCode.DOOR_FAILED);
+    }
+    if (!door.isActive) {
+      await record(context.robotId, `${action}_skipped`, `Door ${door.name} is disabled`, data);
+      return;
+    }
+
+    const controller = this.controllers.get(door.controller);
+    try {
+      if (!controller) {
+        throw new Error(`no ${door.controller} controller is configured`);
+      }
+      await (state === 'open' ? controller.open(door) : controller.close(door));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await record(context.robotId, `${action}_failed`, `Failed to ${action} door ${door.name}: ${reason}`,
+        { ...data, controller: door.controller });
+      throw new RobotError(`Failed to ${action} door ${door.name}: ${reason}`, ErrorCode.DOOR_FAILED);
+    }
+
+    await record(context.robotId, state === 'open' ? 'opened' : 'closed',
+      `${state === 'open' ? 'Opened' : 'Closed'} door ${door.name} on floor ${door.floor}`,
+      { ...data, controller: door.controller });
+  }
+
+  /**
+   * HTTP and MQTT doors need somewhere to send commands
+   */
+  private assertAddress(door: { doorId: number; controller: string; address?: string | null }): void {
+    if (door.controller !== DoorControllerType.FAKE && !door.address) {
+      throw new RobotError(`${door.controller} door ${door.doorId} needs an address`, ErrorCode.INVALID_PARAM);
+    }
+  }
+}
+
+// Create singleton instance
+export const doorAccess = new DoorAccess();
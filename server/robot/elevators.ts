@@ -0,0 +1,189 @@
+import axios, { type AxiosInstance } from 'axios';
+import { ErrorCode, RobotError } from './errors';
+
+// How long to wait for a car to arrive with its doors open
+const ARRIVAL_TIMEOUT_MS = 3 * 60000;
+
+// How often the HTTP driver polls the elevator controller
+const POLL_INTERVAL_MS = 1000;
+
+// Car position and door state reported by a driver
+export interface ElevatorState {
+  elevatorId: string;
+  floor: string | null;
+  doorOpen: boolean;
+  heldBy: string | null;   // robot the car is reserved for
+}
+
+/**
+ * Elevator driver
+ * Controls one building's elevators. Each call resolves once the car is at the floor with its doors held open.
+ */
+export interface ElevatorDriver {
+  readonly name: string;
+  // Bring the car to a floor and hold its doors open for the robot
+  call(elevatorId: string, floor: string, robotId: string): Promise<void>;
+  // Close the doors, travel to a floor and hold the doors open again
+  sendTo(elevatorId: string, floor: string, robotId: string): Promise<void>;
+  // Let the doors close and hand the car back to normal service
+  release(elevatorId: string, robotId: string): Promise<void>;
+  getState(elevatorId: string): Promise<ElevatorState>;
+}
+
+/**
+ * Driver for an elevator controller with a small REST API
+ * POST /elevators/:id/call, POST /elevators/:id/goto, POST /elevators/:id/release, GET /elevators/:id
+ */
+export class HttpElevatorDriver implements ElevatorDriver {
+  readonly name = 'http';
+  private client: AxiosInstance;
+
+  constructor(baseUrl: string, apiKey?: string) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 10000,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+    });
+  }
+
+  async call(elevatorId: string, floor: string, robotId: string): Promise<void> {
+    await this.client.post(`/elevators/${encodeURIComponent(elevatorId)}/call`, { floor, robotId });
+    await this.waitForDoors(elevatorId, floor);
+  }
+
+  async sendTo(elevatorId: string, floor: string, robotId: string): Promise<void> {
+    await this.client.post(`/elevators/${encodeURIComponent(elevatorId)}/goto`, { floor, robotId });
+    await this.waitForDoors(elevatorId, floor);
+  }
+
+  async release(elevatorId: string, robotId: string): Promise<void> {
+    await this.client.post(`/elevators/${encodeURIComponent(elevatorId)}/release`, { robotId });
+  }
+
+  async getState(elevatorId: string): Promise<ElevatorState> {
+    const { data } = await this.client.get(`/elevators/${encodeURIComponent(elevatorId)}`);
+    return {
+      elevatorId,
+      floor: data.floor != null ? String(data.floor) : null,
+      doorOpen: !!data.doorOpen,
+      heldBy: data.heldBy ?? null
+    };
+  }
+
+  /**
+   * Poll until the car is at a floor with its doors open
+   */
+  private async waitForDoors(elevatorId: string, floor: string): Promise<void> {
+    const deadline = Date.now() + ARRIVAL_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      const state = await this.getState(elevatorId);
+      if (state.floor === floor && state.doorOpen) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    throw new RobotError(`Elevator ${elevatorId} did not open at floor ${floor} in time`, ErrorCode.ELEVATOR_FAILED);
+  }
+}
+
+/**
+ * In-process elevator that moves between floors after a fixed delay
+ * Used when no elevator controller is configured, and by tests in place of real hardware.
+ */
+export class MockElevatorDriver implements ElevatorDriver {
+  readonly name = 'mock';
+  private cars: Map<string, ElevatorState> = new Map();
+
+  constructor(private travelMs = 2000) {}
+
+  async call(elevatorId: string, floor: string, robotId: string): Promise<void> {
+    const car = this.getCar(elevatorId);
+    if (car.heldBy && car.heldBy !== robotId) {
+      throw new RobotError(`Elevator ${elevatorId} is held by robot ${car.heldBy}`, ErrorCode.ROBOT_BUSY);
+    }
+    car.heldBy = robotId;
+    await this.travel(car, floor);
+  }
+
+  async sendTo(elevatorId: string, floor: string, robotId: string): Promise<void> {
+    const car = this.getCar(elevatorId);
+    if (car.heldBy !== robotId) {
+      throw new RobotError(`Elevator ${elevatorId} is not held by robot ${robotId}`, ErrorCode.CONFLICT);
+    }
+    await this.travel(car, floor);
+  }
+
+  async release(elevatorId: string, robotId: string): Promise<void> {
+    const car = this.getCar(elevatorId);
+    if (car.heldBy === robotId) {
+      car.heldBy = null;
+      car.doorOpen = false;
+    }
+  }
+
+  async getState(elevatorId: string): Promise<ElevatorState> {
+    return { ...this.getCar(elevatorId) };
+  }
+
+  private getCar(elevatorId: string): ElevatorState {
+    let car = this.cars.get(elevatorId);
+    if (!car) {
+      car = { elevatorId, floor: null, doorOpen: false, heldBy: null };
+      this.cars.set(elevatorId, car);
+    }
+    return car;
+  }
+
+  private async travel(car: ElevatorState, floor: string): Promise<void> {
+    if (car.floor !== floor) {
+      car.doorOpen = false;
+      await new Promise(resolve => setTimeout(resolve, this.travelMs));
+      car.floor = floor;
+    }
+    car.doorOpen = true;
+  }
+}
+
+/**
+ * Elevator control
+ * Holds the active driver; ELEVATOR_CONTROLLER_URL selects the HTTP driver. Without one, cross-floor routes are
+ * refused rather than faked: the mock driver is only used with ELEVATOR_MOCK=true or when a test installs it.
+ */
+class ElevatorControl {
+  private driver: ElevatorDriver | null = null;
+
+  constructor() {
+    const url = process.env.ELEVATOR_CONTROLLER_URL;
+    if (url) {
+      this.driver = new HttpElevatorDriver(url, process.env.ELEVATOR_CONTROLLER_API_KEY);
+    } else if (process.env.ELEVATOR_MOCK === 'true') {
+      this.driver = new MockElevatorDriver();
+    }
+  }
+
+  /**
+   * Replace the driver (e.g. with a mock in tests)
+   */
+  useDriver(driver: ElevatorDriver): void {
+    console.log(`Elevator driver: ${driver.name}`);
+    this.driver = driver;
+  }
+
+  /**
+   * Throw ELEVATOR_FAILED unless a driver is configured
+   */
+  assertAvailable(): void {
+    this.getDriver();
+  }
+
+  getDriver(): ElevatorDriver {
+    if (!this.driver) {
+      throw new RobotError('No elevator controller is configured (set ELEVATOR_CONTROLLER_URL)', ErrorCode.ELEVATOR_FAILED);
+    }
+    return this.driver;
+  }
+}
+
+// Create singleton instance
+export const elevatorControl = new ElevatorControl();
@@ -19,6 +19,10 @@ export enum ErrorCode {
   ROBOT_UNAVAILABLE = 2005,
   MAP_OPERATION_FAILED = 2006,
   ROBOT_OPERATION_FAILED = 2007,
+  MAP_OUT_OF_SYNC = 2008,
+  ELEVATOR_FAILED = 2009,
+  DOOR_FAILED = 2010,
+  TRAFFIC_BLOCKED = 2011,
   
   // Task-specific errors
   TASK_NOT_FOUND = 3000,
@@ -27,7 +31,12 @@ export enum ErrorCode {
   TASK_EXECUTION_FAILED = 3003,
   TASK_CANCELLATION_FAILED = 3004,
   INVALID_TASK_CONFIGURATION = 3005,
-  TASK_STATUS_CONFLICT = 3006
+  TASK_STATUS_CONFLICT = 3006,
+  TASK_RECOVERY_FAILED = 3007,
+  INVALID_WORKFLOW_DEFINITION = 3008,
+  CONFIRMATION_TIMEOUT = 3009,
+  GEOFENCE_VIOLATION = 3010,
+  PATROL_FAILED = 3011
 }
 
 // Custom error class for robot operations
@@ -86,6 +95,10 @@ export function errorResponse(res: Response, error: any): Response {
 function getHttpStatusFromErrorCode(code: ErrorCode): number {
   switch (code) {
     case ErrorCode.INVALID_PARAM:
+    case ErrorCode.INVALID_TASK:
+    case ErrorCode.INVALID_TASK_CONFIGURATION:
+    case ErrorCode.INVALID_WORKFLOW_DEFINITION:
+    case ErrorCode.GEOFENCE_VIOLATION:
       return 400; // Bad Request
     case ErrorCode.UNAUTHORIZED:
       return 401; // Unauthorized
@@ -95,7 +108,14 @@ function getHttpStatusFromErrorCode(code: ErrorCode): number {
     case ErrorCode.TASK_NOT_FOUND:
       return 404; // Not Found
     case ErrorCode.CONFLICT:
+    case ErrorCode.MAP_OUT_OF_SYNC:
+    case ErrorCode.ROBOT_BUSY:
+    case ErrorCode.TASK_STATUS_CONFLICT:
+    case ErrorCode.TRAFFIC_BLOCKED:
       return 409; // Conflict
+    case ErrorCode.ELEVATOR_FAILED:
+    case ErrorCode.DOOR_FAILED:
+      return 502; // Bad Gateway (building controller)
     case ErrorCode.CONNECTION_FAILED:
     case ErrorCode.ROBOT_OFFLINE:
       return 503; // Service Unavailable
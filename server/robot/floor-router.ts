@@ -0,0 +1,293 @@
+import { storage } from '../storage';
+import * as directApi from './direct-api';
+import { ErrorCode, RobotError } from './errors';
+import { elevatorControl } from './elevators';
+import { doorAccess } from './doors';
+import { trafficManager } from './traffic';
+import { geofences } from './geofences';
+import { MovementModule } from './movement';
+import type { Map as FloorMap, Poi, Robot, TaskPoint } from '@shared/schema';
+
+// POI type of an elevator hall point (one per floor the shaft serves)
+const ELEVATOR_POI_TYPE = 'elevator';
+
+// One step of a route; elevator rides expand into call, enter, ride, switch map, relocalize and exit
+export type RouteStep =
+  | { kind: 'move'; areaId: string; point: TaskPoint }
+  | { kind: 'call_elevator'; areaId: string; elevatorId: string; floor: string }
+  | { kind: 'enter_elevator'; areaId: string; elevatorId: string; point: TaskPoint }
+  | { kind: 'ride_elevator'; areaId: string; elevatorId: string; floor: string }
+  | { kind: 'switch_map'; areaId: string; mapId: string | number }
+  | { kind: 'relocalize'; areaId: string; floor: string; point: TaskPoint }
+  | { kind: 'exit_elevator'; areaId: string; elevatorId: string; point: TaskPoint };
+
+// Route through the building for one robot
+export interface RoutePlan {
+  robotId: string;
+  fromAreaId: string;
+  toAreaId: string;
+  elevatorRides: number;
+  steps: RouteStep[];
+}
+
+// Floors and the elevator shafts that connect them
+interface BuildingGraph {
+  floors: Map<string, FloorMap>;              // by area ID
+  shafts: Map<string, Map<string, Poi>>;      // elevator ID -> area ID -> hall POI
+}
+
+// Elevator ride between two floors
+interface Ride {
+  elevatorId: string;
+  from: Poi;
+  to: Poi;
+}
+
+/**
+ * Task point for a POI, or for a spot given in its map's coordinates
+ */
+function poiPoint(poi: Poi, at?: { x: number; y: number; yaw: number }, name = poi.name): TaskPoint {
+  return {
+    x: at?.x ?? poi.x,
+    y: at?.y ?? poi.y,
+    yaw: at?.yaw ?? poi.yaw ?? 0,
+    areaId: poi.areaId,
+    stopRadius: poi.metadata?.stopRadius,
+    ext: { id: poi.poiId, name }
+  };
+}
+
+/**
+ * Floor router
+ * Plans cross-floor moves over the elevators linking the building's maps and drives the robot through them
+ */
+class FloorRouter {
+  /**
+   * Plan a route that visits the points in order, riding elevators between floors
+   */
+  async plan(robotId: string, points: TaskPoint[]): Promise<RoutePlan> {
+    if (points.length === 0) {
+      throw new RobotError('No points provided for movement', ErrorCode.INVALID_PARAM);
+    }
+
+    const robot = await storage.getRobot(robotId);
+    if (!robot) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const graph = await this.loadGraph();
+    const unknown = points.find(point => !graph.floors.has(point.areaId));
+    if (unknown) {
+      throw new RobotError(`Point is on unknown map ${unknown.areaId}`, ErrorCode.INVALID_PARAM);
+    }
+
+    const fromAreaId = this.getCurrentArea(robot, graph, points[0].areaId);
+    let areaId = fromAreaId;
+    let elevatorRides = 0;
+    const steps: RouteStep[] = [];
+
+    for (const point of points) {
+      if (point.areaId !== areaId) {
+        for (const ride of this.findRides(graph, areaId, point.areaId)) {
+          steps.push(...this.rideSteps(graph, ride));
+          elevatorRides++;
+        }
+        areaId = point.areaId;
+      }
+      steps.push({ kind: 'move', areaId, point });
+    }
+
+    // Refuse routes that need an elevator nobody can call
+    if (elevatorRides > 0) {
+      elevatorControl.assertAvailable();
+    }
+
+    return { robotId, fromAreaId, toAreaId: areaId, elevatorRides, steps };
+  }
+
+  /**
+   * Every task point a plan visits, including elevator halls and cabins
+   */
+  planPoints(plan: RoutePlan): TaskPoint[] {
+    return plan.steps.flatMap(step => 'point' in step ? [step.point] : []);
+  }
+
+  /**
+   * Drive a robot through a plan, one step at a time
+   * Doors on each point's POI are opened before driving there and closed when the robot leaves the floor.
+   * A held elevator is always released, even if a step fails.
+   * @param taskId Task whose current point follows the robot, and which holds the opened doors
+   */
+  async execute(plan: RoutePlan, taskId?: string): Promise<void> {
+    const { robotId } = plan;
+    let heldElevator: string | null = null;
+
+    try {
+      for (let index = 0; index < plan.steps.length; index++) {
+        const step = plan.steps[index];
+        console.log(`Route for robot ${robotId}: step ${index + 1}/${plan.steps.length} ${step.kind} on ${step.areaId}`);
+
+        switch (step.kind) {
+          case 'move':
+          case 'enter_elevator':
+          case 'exit_elevator':
+            if (taskId) {
+              await storage.updateTaskCurrentPoint(taskId, step.point);
+            }
+            await doorAccess.openForPoint(step.point, { robotId, taskId });
+            await this.drive(robotId, step.point);
+            if (step.kind === 'exit_elevator') {
+              await elevatorControl.getDriver().release(step.elevatorId, robotId);
+              heldElevator = null;
+            }
+            break;
+          case 'call_elevator':
+            heldElevator = step.elevatorId;
+            await elevatorControl.getDriver().call(step.elevatorId, step.floor, robotId);
+            break;
+          case 'ride_elevator':
+            await elevatorControl.getDriver().sendTo(step.elevatorId, step.floor, robotId);
+            break;
+          case 'switch_map':
+            if (taskId) {
+              await doorAccess.closeForTask(taskId);
+            }
+            await MovementModule.setRobotMap({ robotId, mapId: step.mapId });
+            break;
+          case 'relocalize':
+            await MovementModule.setRobotPose({
+              robotId,
+              x: step.point.x,
+              y: step.point.y,
+              yaw: (step.point.yaw * Math.PI) / 180,
+              adjustPosition: true
+            });
+            await storage.updateRobotPosition(robotId, { x: step.point.x, y: step.point.y, floor: step.floor });
+            break;
+        }
+      }
+    } finally {
+      if (taskId) {
+        await doorAccess.closeForTask(taskId);
+      }
+      if (heldElevator) {
+        await elevatorControl.getDriver().release(heldElevator, robotId).catch(error => {
+          console.error(`Failed to release elevator ${heldElevator} held by robot ${robotId}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Load the building's floors and elevator hall points
+   */
+  private async loadGraph(): Promise<BuildingGraph> {
+    const [maps, pois] = await Promise.all([storage.getAllMaps(), storage.getAllPois()]);
+    const floors = new Map(maps.map(map => [map.areaId, map]));
+    const shafts = new Map<string, Map<string, Poi>>();
+
+    for (const poi of pois) {
+      const elevatorId = poi.metadata?.elevatorId;
+      if (poi.type !== ELEVATOR_POI_TYPE || !elevatorId || !floors.has(poi.areaId)) {
+        continue;
+      }
+      if (!shafts.has(elevatorId)) {
+        shafts.set(elevatorId, new Map());
+      }
+      shafts.get(elevatorId)!.set(poi.areaId, poi);
+    }
+
+    return { floors, shafts };
+  }
+
+  /**
+   * Area the robot is on now: a map on its floor, preferring the first point's map
+   */
+  private getCurrentArea(robot: Robot, graph: BuildingGraph, firstAreaId: string): string {
+    const onFloor = Array.from(graph.floors.values()).filter(map => map.floor === robot.floor);
+    if (onFloor.some(map => map.areaId === firstAreaId) || onFloor.length === 0) {
+      return firstAreaId;
+    }
+    return onFloor[0].areaId;
+  }
+
+  /**
+   * Fewest elevator rides from one area to another (breadth-first over the shafts)
+   */
+  private findRides(graph: BuildingGraph, fromAreaId: string, toAreaId: string): Ride[] {
+    const previous = new Map<string, Ride | null>([[fromAreaId, null]]);
+    const queue = [fromAreaId];
+
+    while (queue.length > 0 && !previous.has(toAreaId)) {
+      const areaId = queue.shift()!;
+      for (const [elevatorId, halls] of Array.from(graph.shafts.entries())) {
+        const from = halls.get(areaId);
+        if (!from) {
+          continue;
+        }
+        for (const [nextAreaId, to] of Array.from(halls.entries())) {
+          if (!previous.has(nextAreaId)) {
+            previous.set(nextAreaId, { elevatorId, from, to });
+            queue.push(nextAreaId);
+          }
+        }
+      }
+    }
+
+    if (!previous.has(toAreaId)) {
+      throw new RobotError(`No elevator connects ${fromAreaId} to ${toAreaId}`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+
+    const rides: Ride[] = [];
+    for (let ride = previous.get(toAreaId); ride; ride = previous.get(ride.from.areaId)) {
+      rides.unshift(ride);
+    }
+    return rides;
+  }
+
+  /**
+   * Steps for one elevator ride: go to the hall, call the car, enter, ride, switch map, relocalize and exit
+   */
+  private rideSteps(graph: BuildingGraph, ride: Ride): RouteStep[] {
+    const { elevatorId, from, to } = ride;
+    for (const hall of [from, to]) {
+      if (!hall.metadata?.cabin) {
+        throw new RobotError(`Elevator POI ${hall.poiId} has no cabin point`, ErrorCode.INVALID_TASK_CONFIGURATION);
+      }
+    }
+
+    const fromMap = graph.floors.get(from.areaId)!;
+    const toMap = graph.floors.get(to.areaId)!;
+    return [
+      { kind: 'move', areaId: from.areaId, point: poiPoint(from) },
+      { kind: 'call_elevator', areaId: from.areaId, elevatorId, floor: from.metadata?.elevatorFloor ?? fromMap.floor },
+      { kind: 'enter_elevator', areaId: from.areaId, elevatorId, point: poiPoint(from, from.metadata!.cabin, `${from.name} (cabin)`) },
+      { kind: 'ride_elevator', areaId: from.areaId, elevatorId, floor: to.metadata?.elevatorFloor ?? toMap.floor },
+      { kind: 'switch_map', areaId: to.areaId, mapId: to.metadata?.mapId ?? to.areaId },
+      { kind: 'relocalize', areaId: to.areaId, floor: toMap.floor, point: poiPoint(to, to.metadata!.cabin, `${to.name} (cabin)`) },
+      { kind: 'exit_elevator', areaId: to.areaId, elevatorId, point: poiPoint(to) }
+    ];
+  }
+
+  /**
+   * Send one move action, once traffic allows, and wait for the robot to finish it
+   */
+  private async drive(robotId: string, point: TaskPoint): Promise<void> {
+    await trafficManager.acquire(robotId, point);
+
+    const client = directApi.getRobotApiClient(robotId);
+    const moveId = await client.createMoveAction(robotId, {
+      x: point.x,
+      y: point.y,
+      yaw: point.yaw,
+      type: 'standard',
+      speed: await geofences.clampSpeed(robotId, [point]),
+      accuracy: 0.2
+    });
+
+    await MovementModule.waitForMove(robotId, moveId, point.ext?.name ?? `(${point.x}, ${point.y})`);
+  }
+}
+
+// Create singleton instance
+export const floorRouter = new FloorRouter();
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { geofences } from './geofences';
+import { ErrorCode, RobotError, errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all geofences (?areaId= limits them to one map)
+ * GET /api/geofences
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const areaId = typeof req.query.areaId === 'string' ? req.query.areaId : undefined;
+    res.json(await geofences.listZones(areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Push a map's geofences to the robots on it again (e.g. after a robot's map was edited on the device)
+ * POST /api/geofences/sync?areaId=
+ */
+router.post('/sync', async (req: Request, res: Response) => {
+  try {
+    const areaId = typeof req.query.areaId === 'string' ? req.query.areaId : undefined;
+    if (!areaId) {
+      throw new RobotError('areaId is required', ErrorCode.INVALID_PARAM);
+    }
+    res.json(await geofences.pushOverlays(areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a geofence
+ * GET /api/geofences/:zoneId
+ */
+router.get('/:zoneId', async (req: Request, res: Response) => {
+  try {
+    res.json(await geofences.getZone(req.params.zoneId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a geofence
+ * POST /api/geofences
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await geofences.createZone(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a geofence
+ * PUT /api/geofences/:zoneId
+ */
+router.put('/:zoneId', async (req: Request, res: Response) => {
+  try {
+    res.json(await geofences.updateZone(req.params.zoneId, req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a geofence
+ * DELETE /api/geofences/:zoneId
+ */
+router.delete('/:zoneId', async (req: Request, res: Response) => {
+  try {
+    await geofences.deleteZone(req.params.zoneId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,291 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import * as directApi from './direct-api';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { parseInput } from './validation';
+import { robotMonitor } from './robot-monitor';
+import { containsPoint, pathCrosses } from './geometry';
+import {
+  GeofenceKind,
+  insertGeofenceSchema,
+  RobotStatus,
+  type Geofence,
+  type TaskPoint,
+  type ZoneVertex
+} from '@shared/schema';
+
+// Event category for overlay pushes to robots
+const EVENT_CATEGORY = 'geofence';
+const record = robotEventRecorder(EVENT_CATEGORY, 'Geofence');
+
+// Overlay features written by this module carry this ID prefix, so they can be replaced without touching the rest
+const OVERLAY_ID_PREFIX = 'geofence_';
+
+// Region types written to the robot's map overlay
+const OVERLAY_REGION_TYPES: Record<string, string> = {
+  [GeofenceKind.NO_GO]: 'forbidden',
+  [GeofenceKind.SLOW]: 'speed_limit',
+};
+
+// HTTP statuses that mean the chassis cannot edit map overlays
+const OVERLAY_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// Geofence fields as sent by clients
+const geofenceInputSchema = insertGeofenceSchema.extend({
+  zoneId: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  areaId: z.string().trim().min(1),
+  kind: z.enum([GeofenceKind.NO_GO, GeofenceKind.SLOW]),
+  polygon: z.array(z.object({ x: z.number().finite(), y: z.number().finite() })).min(3),
+  speedLimit: z.number().positive().max(2).nullable().optional(),
+  isActive: z.boolean().optional()
+});
+const geofenceUpdateSchema = geofenceInputSchema.omit({ zoneId: true }).partial();
+
+// Outcome of pushing a map's geofences to one robot
+export interface OverlaySyncResult {
+  robotId: string;
+  status: 'synced' | 'unsupported' | 'failed';
+  error?: string;
+}
+
+/**
+ * Geofence overlay feature in the chassis' GeoJSON format (rings are closed)
+ */
+function toOverlayFeature(geofence: Geofence) {
+  const ring = [...geofence.polygon, geofence.polygon[0]].map(vertex => [vertex.x, vertex.y]);
+  return {
+    type: 'Feature',
+    id: `${OVERLAY_ID_PREFIX}${geofence.zoneId}`,
+    geometry: { type: 'Polygon', coordinates: [ring] },
+    properties: {
+      name: geofence.name,
+      regionType: OVERLAY_REGION_TYPES[geofence.kind],
+      ...(geofence.speedLimit != null ? { speedLimit: geofence.speedLimit } : {})
+    }
+  };
+}
+
+/**
+ * Geofences
+ * No-go zones that moves and tasks may not target, and slow zones that cap the speed of any leg crossing them.
+ * Zones are also written into the map overlays of robots on the map, where the chassis allows it.
+ */
+class Geofences {
+  /**
+   * Get every geofence, optionally only those on one map
+   */
+  async listZones(areaId?: string): Promise<Geofence[]> {
+    const zones = await storage.getAllGeofences();
+    return areaId ? zones.filter(zone => zone.areaId === areaId) : zones;
+  }
+
+  /**
+   * Get a geofence or throw NOT_FOUND
+   */
+  async getZone(zoneId: string): Promise<Geofence> {
+    const zone = await storage.getGeofence(zoneId);
+    if (!zone) {
+      throw new RobotError(`Geofence not found: ${zoneId}`, ErrorCode.NOT_FOUND);
+    }
+    return zone;
+  }
+
+  /**
+   * Create a geofence and push it to robots on its map
+   */
+  async createZone(input: unknown): Promise<Geofence> {
+    const data = parseInput(geofenceInputSchema, input);
+    if (await storage.getGeofence(data.zoneId)) {
+      throw new RobotError(`Geofence ${data.zoneId} already exists`, ErrorCode.CONFLICT);
+    }
+    await this.assertValidZone(data);
+
+    const zone = await storage.createGeofence({
+      ...data,
+      speedLimit: data.kind === GeofenceKind.SLOW ? data.speedLimit : null,
+      isActive: data.isActive ?? true
+    });
+    this.pushInBackground(zone.areaId);
+    return zone;
+  }
+
+  /**
+   * Update a geofence and push the change to robots on its map(s)
+   */
+  async updateZone(zoneId: string, input: unknown): Promise<Geofence> {
+    const zone = await this.getZone(zoneId);
+    const data = parseInput(geofenceUpdateSchema, input);
+    await this.assertValidZone({ ...zone, ...data });
+
+    if ((data.kind ?? zone.kind) === GeofenceKind.NO_GO) {
+      data.speedLimit = null;
+    }
+    const updated = (await storage.updateGeofence(zoneId, data))!;
+    this.pushInBackground(updated.areaId);
+    if (updated.areaId !== zone.areaId) {
+      this.pushInBackground(zone.areaId);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a geofence and remove it from robots on its map
+   */
+  async deleteZone(zoneId: string): Promise<void> {
+    const zone = await this.getZone(zoneId);
+    await storage.deleteGeofence(zoneId);
+    this.pushInBackground(zone.areaId);
+  }
+
+  /**
+   * Throw GEOFENCE_VIOLATION if any point lies in an active no-go zone
+   */
+  async assertAllowed(points: (TaskPoint | null | undefined)[]): Promise<void> {
+    const noGo = (await this.getActiveZones()).filter(zone => zone.kind === GeofenceKind.NO_GO);
+    if (noGo.length === 0) {
+      return;
+    }
+
+    for (const point of points) {
+      const zone = point && noGo.find(entry => entry.areaId === point.areaId && containsPoint(entry.polygon, point));
+      if (zone) {
+        const label = point.ext?.name ?? `(${point.x.toFixed(2)}, ${point.y.toFixed(2)})`;
+        throw new RobotError(`Target ${label} lies in no-go zone ${zone.name}`, ErrorCode.GEOFENCE_VIOLATION);
+      }
+    }
+  }
+
+  /**
+   * Cap a speed for a route: the lowest limit of any slow zone crossed by a leg, starting from the robot's pose
+   * @param speed Requested speed in m/s; unset or -1 means the robot's default
+   * @returns The speed to use (unchanged if no slow zone is crossed)
+   */
+  async clampSpeed(robotId: string | null | undefined, points: TaskPoint[], speed?: number | null): Promise<number | undefined> {
+    const requested = speed ?? undefined;
+    const slow = (await this.getActiveZones()).filter(zone => zone.kind === GeofenceKind.SLOW && zone.speedLimit != null);
+    if (slow.length === 0 || points.length === 0) {
+      return requested;
+    }
+
+    const legs: [ZoneVertex, ZoneVertex, string][] = [];
+    const pose = robotId ? await this.getPoseOnMap(robotId, points[0].areaId) : null;
+    if (pose) {
+      legs.push([pose, points[0], points[0].areaId]);
+    }
+    for (let index = 1; index < points.length; index++) {
+      if (points[index].areaId === points[index - 1].areaId) {
+        legs.push([points[index - 1], points[index], points[index].areaId]);
+      }
+    }
+    // A lone point with no known start is still slowed inside a zone
+    if (legs.length === 0) {
+      legs.push([points[0], points[0], points[0].areaId]);
+    }
+
+    const limits = slow
+      .filter(zone => legs.some(([from, to, areaId]) => areaId === zone.areaId && pathCrosses(zone.polygon, from, to)))
+      .map(zone => zone.speedLimit!);
+    if (limits.length === 0) {
+      return requested;
+    }
+
+    const limit = Math.min(...limits);
+    return requested === undefined || requested <= 0 ? limit : Math.min(requested, limit);
+  }
+
+  /**
+   * Write a map's geofences into the overlays of every online robot currently on that map
+   */
+  async pushOverlays(areaId: string): Promise<OverlaySyncResult[]> {
+    const robots = (await storage.getAllRobots()).filter(robot => robot.status !== RobotStatus.OFFLINE);
+    const results: OverlaySyncResult[] = [];
+
+    for (const robot of robots) {
+      const result = await this.pushToRobot(robot.robotId, areaId);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Write the geofences of a robot's current map into its overlays
+   * @param areaId Only push if the robot is on this map
+   * @returns The outcome, or null if the robot is on another map
+   */
+  async pushToRobot(robotId: string, areaId?: string): Promise<OverlaySyncResult | null> {
+    try {
+      const client = directApi.getRobotApiClient(robotId);
+      const currentMap = await client.getCurrentMap();
+      if (!currentMap?.id || (areaId && currentMap.map_name !== areaId)) {
+        return null;
+      }
+
+      const details = await client.getMapDetails(currentMap.id);
+      const overlays = details?.overlays ? JSON.parse(details.overlays) : { type: 'FeatureCollection', features: [] };
+      const zones = (await this.getActiveZones()).filter(zone => zone.areaId === currentMap.map_name);
+
+      overlays.features = [
+        ...(overlays.features ?? []).filter((feature: any) => !String(feature.id ?? '').startsWith(OVERLAY_ID_PREFIX)),
+        ...zones.map(toOverlayFeature)
+      ];
+      await client.updateMapOverlays(currentMap.id, overlays);
+
+      await record(robotId, 'overlay_synced', `Wrote ${zones.length} geofence(s) to map ${currentMap.map_name}`,
+        { mapId: currentMap.id, zoneIds: zones.map(zone => zone.zoneId) });
+      return { robotId, status: 'synced' };
+    } catch (error: any) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (OVERLAY_UNSUPPORTED_STATUSES.includes(error?.response?.status)) {
+        await record(robotId, 'overlay_unsupported', `Robot cannot edit map overlays: ${message}`);
+        return { robotId, status: 'unsupported', error: message };
+      }
+
+      await record(robotId, 'overlay_failed', `Failed to write geofences: ${message}`);
+      return { robotId, status: 'failed', error: message };
+    }
+  }
+
+  private async getActiveZones(): Promise<Geofence[]> {
+    return (await storage.getAllGeofences()).filter(zone => zone.isActive);
+  }
+
+  /**
+   * Robot's live pose, if it is on the floor of the given map
+   */
+  private async getPoseOnMap(robotId: string, areaId: string): Promise<ZoneVertex | null> {
+    const pose = robotMonitor.getRobotState(robotId)?.pose;
+    if (!pose) {
+      return null;
+    }
+    const [robot, map] = await Promise.all([storage.getRobot(robotId), storage.getMap(areaId)]);
+    return robot && map && robot.floor === map.floor ? pose : null;
+  }
+
+  /**
+   * Check a geofence's map exists and a slow zone has a speed limit
+   */
+  private async assertValidZone(zone: { areaId: string; kind: string; speedLimit?: number | null }): Promise<void> {
+    if (!(await storage.getMap(zone.areaId))) {
+      throw new RobotError(`areaId ${zone.areaId} does not reference an existing map`, ErrorCode.INVALID_PARAM);
+    }
+    if (zone.kind === GeofenceKind.SLOW && zone.speedLimit == null) {
+      throw new RobotError('Slow zones need a speed limit', ErrorCode.INVALID_PARAM);
+    }
+  }
+
+  /**
+   * Push overlays without holding up the request that changed a zone
+   */
+  private pushInBackground(areaId: string): void {
+    this.pushOverlays(areaId).catch(error => {
+      console.error(`Failed to push geofences for map ${areaId}:`, error);
+    });
+  }
+}
+
+// Create singleton instance
+export const geofences = new Geofences();
@@ -0,0 +1,48 @@
+import type { ZoneVertex } from '@shared/schema';
+
+// Polygon helpers for zones drawn on a map, all in map coordinates (meters)
+
+/**
+ * Whether a point lies inside a polygon (ray casting)
+ */
+export function containsPoint(polygon: ZoneVertex[], point: ZoneVertex): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether segments p1-p2 and p3-p4 cross
+ */
+function segmentsCross(p1: ZoneVertex, p2: ZoneVertex, p3: ZoneVertex, p4: ZoneVertex): boolean {
+  const side = (a: ZoneVertex, b: ZoneVertex, c: ZoneVertex) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const d1 = side(p3, p4, p1);
+  const d2 = side(p3, p4, p2);
+  const d3 = side(p1, p2, p3);
+  const d4 = side(p1, p2, p4);
+  return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+/**
+ * Whether the straight line between two points touches a polygon
+ */
+export function pathCrosses(polygon: ZoneVertex[], from: ZoneVertex, to: ZoneVertex): boolean {
+  if (containsPoint(polygon, from) || containsPoint(polygon, to)) {
+    return true;
+  }
+  return polygon.some((vertex, index) => segmentsCross(from, to, vertex, polygon[(index + 1) % polygon.length]));
+}
+
+/**
+ * Straight-line distance between two points
+ */
+export function distance(a: ZoneVertex, b: ZoneVertex): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
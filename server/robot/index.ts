@@ -1,5 +1,12 @@
 import type { Request, Response } from "express";
 import { storage } from "../storage";
+import { ActionsModule } from "./actions";
+import { errorResponse } from "./errors";
+import { floorRouter } from "./floor-router";
+import { MovementModule } from "./movement";
+import { telemetry } from "./telemetry";
+import { pathReplay } from "./path-replay";
+import type { TaskPoint } from "@shared/schema";
 
 // Basic robot endpoints
 
@@ -133,6 +140,32 @@ export async function getRobotPosition(req: Request, res: Response) {
   }
 }
 
+/**
+ * Get robot telemetry history
+ * Query: metric (battery, pose, planning or wheel), from and to (default the last 24 hours), maxPoints
+ */
+export async function getRobotTelemetry(req: Request, res: Response) {
+  try {
+    const history = await telemetry.getHistory(req.params.robotId, req.query);
+    return res.json(history);
+  } catch (error) {
+    return errorResponse(res, error);
+  }
+}
+
+/**
+ * Get a replay of the path a robot drove
+ * Query: taskId, or from and to (default the last hour)
+ */
+export async function getRobotReplay(req: Request, res: Response) {
+  try {
+    const replay = await pathReplay.getReplay(req.params.robotId, req.query);
+    return res.json(replay);
+  } catch (error) {
+    return errorResponse(res, error);
+  }
+}
+
 /**
  * Locate a robot
  */
@@ -225,33 +258,43 @@ export async function goToChargingStation(req: Request, res: Response) {
 
 /**
  * Move robot between floors
+ * Takes a list of points, or a single target ({ areaId | targetFloor, x, y, yaw? }).
+ * Responds with the planned route while the robot drives it.
  */
 export async function moveRobotMultiFloor(req: Request, res: Response) {
   try {
     const { robotId } = req.params;
-    const { targetFloor, x, y } = req.body;
+    const { points, areaId, targetFloor, x, y, yaw } = req.body;
     
-    if (!robotId || !targetFloor || x === undefined || y === undefined) {
-      return res.status(400).json({ error: "Missing required parameters" });
+    let route: TaskPoint[] = points;
+    if (!Array.isArray(route)) {
+      if (typeof x !== 'number' || typeof y !== 'number' || (!areaId && !targetFloor)) {
+        return res.status(400).json({ error: "Provide points, or areaId (or targetFloor) with x and y" });
+      }
+      
+      const map = areaId
+        ? await storage.getMap(areaId)
+        : (await storage.getAllMaps()).find(candidate => candidate.floor === targetFloor);
+      if (!map) {
+        return res.status(404).json({ error: `No map for ${areaId ?? targetFloor}` });
+      }
+      route = [{ x, y, yaw: typeof yaw === 'number' ? yaw : 0, areaId: map.areaId }];
     }
     
-    const robot = await storage.getRobot(robotId);
-    if (!robot) {
-      return res.status(404).json({ error: "Robot not found" });
-    }
+    const plan = await floorRouter.plan(robotId, route);
     
-    // In a real implementation, this would use the SDK to move the robot between floors
-    await storage.updateRobotStatus(robotId, 'moving');
-    await storage.updateRobotPosition(robotId, { x, y, floor: targetFloor });
+    // Elevator rides take minutes; report the outcome through the task instead of holding the request
+    MovementModule.moveRobotMultiFloor({ robotId, points: route }).catch(error => {
+      console.error(`Multi-floor move failed for robot ${robotId}:`, error);
+    });
     
-    return res.json({
-      robotId: robot.robotId,
-      message: `Robot is moving to floor ${targetFloor}`,
-      targetPosition: { x, y, floor: targetFloor }
+    return res.status(202).json({
+      robotId,
+      message: `Robot is moving to ${plan.toAreaId} with ${plan.elevatorRides} elevator ride(s)`,
+      plan
     });
   } catch (error) {
-    console.error("Error moving robot between floors:", error);
-    return res.status(500).json({ error: "Failed to move robot between floors" });
+    return errorResponse(res, error);
   }
 }
 
@@ -340,7 +383,7 @@ export async function lowerRack(req: Request, res: Response) {
 }
 
 /**
- * Open robot doors
+ * Open building doors for a robot
  */
 export async function openDoors(req: Request, res: Response) {
   try {
@@ -355,20 +398,25 @@ export async function openDoors(req: Request, res: Response) {
       return res.status(404).json({ error: "Robot not found" });
     }
     
-    // In a real implementation, this would use the SDK to open robot doors
+    const { doorIds } = req.body;
+    if (!Array.isArray(doorIds) || doorIds.length === 0 || !doorIds.every(Number.isInteger)) {
+      return res.status(400).json({ error: "doorIds must be a non-empty array of door IDs" });
+    }
+    
+    await ActionsModule.openDoors({ robotId, doorIds, requestedBy: req.user?.username });
     
     return res.json({
       robotId: robot.robotId,
-      message: 'Robot doors opened'
+      doorIds,
+      message: `Doors ${doorIds.join(', ')} opened`
     });
   } catch (error) {
-    console.error("Error opening doors:", error);
-    return res.status(500).json({ error: "Failed to open doors" });
+    return errorResponse(res, error);
   }
 }
 
 /**
- * Close robot doors
+ * Close building doors behind a robot
  */
 export async function closeDoors(req: Request, res: Response) {
   try {
@@ -383,15 +431,20 @@ export async function closeDoors(req: Request, res: Response) {
       return res.status(404).json({ error: "Robot not found" });
     }
     
-    // In a real implementation, this would use the SDK to close robot doors
+    const { doorIds } = req.body;
+    if (!Array.isArray(doorIds) || doorIds.length === 0 || !doorIds.every(Number.isInteger)) {
+      return res.status(400).json({ error: "doorIds must be a non-empty array of door IDs" });
+    }
+    
+    await ActionsModule.closeDoors({ robotId, doorIds, requestedBy: req.user?.username });
     
     return res.json({
       robotId: robot.robotId,
-      message: 'Robot doors closed'
+      doorIds,
+      message: `Doors ${doorIds.join(', ')} closed`
     });
   } catch (error) {
-    console.error("Error closing doors:", error);
-    return res.status(500).json({ error: "Failed to close doors" });
+    return errorResponse(res, error);
   }
 }
 
@@ -725,87 +778,4 @@ export async function resolveAlert(req: Request, res: Response) {
     console.error("Error resolving alert:", error);
     return res.status(500).json({ error: "Failed to resolve alert" });
   }
-}
-
-// Map endpoints
-/**
- * Get all maps
- */
-export async function getAllMaps(_req: Request, res: Response) {
-  try {
-    const maps = await storage.getAllMaps();
-    return res.json(maps);
-  } catch (error) {
-    console.error("Error getting maps:", error);
-    return res.status(500).json({ error: "Failed to get maps" });
-  }
-}
-
-/**
- * Create a map
- */
-export async function createMap(req: Request, res: Response) {
-  try {
-    const { name, floor, areaId, building, isActive } = req.body;
-    
-    if (!name || !floor || !areaId) {
-      return res.status(400).json({ error: "Missing required map parameters" });
-    }
-    
-    const map = await storage.createMap({
-      name,
-      floor,
-      areaId,
-      building: building || null,
-      isActive: isActive !== undefined ? isActive : true
-    });
-    
-    return res.status(201).json(map);
-  } catch (error) {
-    console.error("Error creating map:", error);
-    return res.status(500).json({ error: "Failed to create map" });
-  }
-}
-
-/**
- * Get all POIs
- */
-export async function getAllPois(_req: Request, res: Response) {
-  try {
-    const pois = await storage.getAllPois();
-    return res.json(pois);
-  } catch (error) {
-    console.error("Error getting POIs:", error);
-    return res.status(500).json({ error: "Failed to get POIs" });
-  }
-}
-
-/**
- * Create a POI
- */
-export async function createPoi(req: Request, res: Response) {
-  try {
-    const { name, type, x, y, floor, areaId, yaw, poiId, metadata } = req.body;
-    
-    if (!name || !type || x === undefined || y === undefined || !areaId || !poiId) {
-      return res.status(400).json({ error: "Missing required POI parameters" });
-    }
-    
-    const poi = await storage.createPoi({
-      name,
-      type,
-      x,
-      y,
-      floor: floor || null,
-      areaId,
-      yaw: yaw || null,
-      poiId,
-      metadata: metadata || null
-    });
-    
-    return res.status(201).json(poi);
-  } catch (error) {
-    console.error("Error creating POI:", error);
-    return res.status(500).json({ error: "Failed to create POI" });
-  }
 }
\ No newline at end of file
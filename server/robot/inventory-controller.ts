@@ -0,0 +1,123 @@
+import { Router, Request, Response } from 'express';
+import { inventory } from './inventory';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all bins with their slots
+ * GET /api/inventory/bins
+ */
+router.get('/bins', async (_req: Request, res: Response) => {
+  try {
+    res.json(await inventory.listBins());
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a bin with its slot
+ * GET /api/inventory/bins/:binId
+ */
+router.get('/bins/:binId', async (req: Request, res: Response) => {
+  try {
+    res.json(await inventory.getBin(req.params.binId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Register a bin
+ * POST /api/inventory/bins
+ */
+router.post('/bins', async (req: Request, res: Response) => {
+  try {
+    const { binId, label } = req.body ?? {};
+    if (typeof binId !== 'string' || binId.trim() === '') {
+      return res.status(400).json({ error: 'binId is required' });
+    }
+
+    const bin = await inventory.registerBin(binId.trim(), typeof label === 'string' ? label : undefined);
+    res.status(201).json(bin);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Remove a bin
+ * DELETE /api/inventory/bins/:binId
+ */
+router.delete('/bins/:binId', async (req: Request, res: Response) => {
+  try {
+    await inventory.removeBin(req.params.binId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get all shelf slots with their POIs
+ * GET /api/inventory/slots
+ */
+router.get('/slots', async (_req: Request, res: Response) => {
+  try {
+    res.json(await inventory.listSlots());
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create slots for shelf POIs that don't have one
+ * POST /api/inventory/slots/sync
+ */
+router.post('/slots/sync', async (_req: Request, res: Response) => {
+  try {
+    const created = await inventory.syncSlots();
+    res.json({ success: true, created });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Correct which bin a slot holds
+ * PUT /api/inventory/slots/:poiId/bin
+ */
+router.put('/slots/:poiId/bin', async (req: Request, res: Response) => {
+  try {
+    const { binId } = req.body ?? {};
+    if (binId !== null && typeof binId !== 'string') {
+      return res.status(400).json({ error: 'binId must be a string or null' });
+    }
+
+    res.json(await inventory.setSlotBin(req.params.poiId, binId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Enable or disable a slot
+ * PATCH /api/inventory/slots/:poiId
+ */
+router.patch('/slots/:poiId', async (req: Request, res: Response) => {
+  try {
+    const { enabled } = req.body ?? {};
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    res.json(await inventory.setSlotEnabled(req.params.poiId, enabled));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,311 @@
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import {
+  BinStatus,
+  TaskType,
+  type Bin,
+  type Poi,
+  type ShelfSlot,
+  type Task,
+  type TaskPoint
+} from '@shared/schema';
+
+// Point role that workflows use for the shelf
+const SHELF_ROLE = 'shelf';
+
+// Bin with the slot it is stored in
+export type BinLocation = Bin & { poiId: string | null };
+
+// Slot with its shelf POI
+export type SlotDetails = ShelfSlot & { poi: Poi | null };
+
+/**
+ * Convert a shelf POI into a task point for the shelf role
+ */
+function shelfTaskPoint(poi: Poi): TaskPoint {
+  return {
+    x: poi.x,
+    y: poi.y,
+    yaw: poi.yaw ?? 0,
+    areaId: poi.areaId,
+    type: SHELF_ROLE,
+    stopRadius: poi.metadata?.stopRadius,
+    ext: { id: poi.poiId, name: poi.name }
+  };
+}
+
+/**
+ * Bin inventory
+ * Tracks which bin sits in which shelf slot and hands out slots to tasks
+ */
+class Inventory {
+  /**
+   * Create a slot for every shelf POI that doesn't have one yet
+   * @returns Number of slots created
+   */
+  async syncSlots(): Promise<number> {
+    const shelves = (await storage.getAllPois()).filter(poi => poi.type === SHELF_ROLE);
+    let created = 0;
+
+    for (const poi of shelves) {
+      if (!(await storage.getShelfSlot(poi.poiId))) {
+        await storage.createShelfSlot({ poiId: poi.poiId, enabled: true });
+        created++;
+      }
+    }
+
+    if (created > 0) {
+      console.log(`Created ${created} shelf slot(s)`);
+    }
+    return created;
+  }
+
+  /**
+   * Get every bin with its slot
+   */
+  async listBins(): Promise<BinLocation[]> {
+    const [allBins, slots] = await Promise.all([storage.getAllBins(), storage.getAllShelfSlots()]);
+    return allBins.map(bin => ({
+      ...bin,
+      poiId: slots.find(slot => slot.binId === bin.binId)?.poiId ?? null
+    }));
+  }
+
+  /**
+   * Get a bin with its slot
+   */
+  async getBin(binId: string): Promise<BinLocation> {
+    const bin = await storage.getBin(binId);
+    if (!bin) {
+      throw new RobotError(`Bin not found: ${binId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const slot = await storage.getShelfSlotByBin(binId);
+    return { ...bin, poiId: slot?.poiId ?? null };
+  }
+
+  /**
+   * Get every slot with its shelf POI
+   */
+  async listSlots(): Promise<SlotDetails[]> {
+    const [slots, pois] = await Promise.all([storage.getAllShelfSlots(), storage.getAllPois()]);
+    return slots.map(slot => ({
+      ...slot,
+      poi: pois.find(poi => poi.poiId === slot.poiId) ?? null
+    }));
+  }
+
+  /**
+   * Register a new bin
+   */
+  async registerBin(binId: string, label?: string): Promise<Bin> {
+    if (await storage.getBin(binId)) {
+      throw new RobotError(`Bin ${binId} already exists`, ErrorCode.CONFLICT);
+    }
+
+    return storage.createBin({ binId, label: label ?? null, status: BinStatus.OFF_SHELF });
+  }
+
+  /**
+   * Remove a bin that is off the shelves and not being moved
+   */
+  async removeBin(binId: string): Promise<void> {
+    const bin = await this.getBin(binId);
+    if (bin.taskId) {
+      throw new RobotError(`Bin ${binId} is being moved by task ${bin.taskId}`, ErrorCode.CONFLICT);
+    }
+    if (bin.status !== BinStatus.OFF_SHELF) {
+      throw new RobotError(`Bin ${binId} is ${bin.status}; take it off the shelves first`, ErrorCode.CONFLICT);
+    }
+
+    await storage.deleteBin(binId);
+  }
+
+  /**
+   * Correct a slot's contents by hand (e.g. after a stocktake)
+   * @param binId Bin now in the slot, or null if it is empty
+   */
+  async setSlotBin(poiId: string, binId: string | null): Promise<ShelfSlot> {
+    const slot = await this.getSlot(poiId);
+
+    if (slot.binId && slot.binId !== binId) {
+      await storage.updateBin(slot.binId, { status: BinStatus.OFF_SHELF });
+    }
+
+    if (binId) {
+      await this.getBin(binId);
+      const previous = await storage.getShelfSlotByBin(binId);
+      if (previous && previous.poiId !== poiId) {
+        await storage.updateShelfSlot(previous.poiId, { binId: null });
+      }
+      await storage.updateBin(binId, { status: BinStatus.STORED });
+    }
+
+    return (await storage.updateShelfSlot(poiId, { binId }))!;
+  }
+
+  /**
+   * Enable or disable a slot (disabled slots are never handed out)
+   */
+  async setSlotEnabled(poiId: string, enabled: boolean): Promise<ShelfSlot> {
+    await this.getSlot(poiId);
+    return (await storage.updateShelfSlot(poiId, { enabled }))!;
+  }
+
+  /**
+   * Attach a bin to a new task and work out its shelf point
+   * Stored bins are fetched from their slot; other bins get a free slot reserved for them.
+   * @param roles Point roles the task's workflow uses
+   * @returns Task points including the shelf point
+   */
+  async assignBin(task: Task, roles: string[]): Promise<TaskPoint[]> {
+    const binId = task.binId!;
+    const points = (task.points || []).filter(point => point.type !== SHELF_ROLE);
+    const requestedShelf = task.points?.find(point => point.type === SHELF_ROLE);
+
+    let bin = await storage.getBin(binId);
+    if (!bin) {
+      if (task.taskType === TaskType.PICKUP) {
+        throw new RobotError(`Bin not found: ${binId}`, ErrorCode.NOT_FOUND);
+      }
+      bin = await this.registerBin(binId);
+    }
+
+    if (bin.taskId) {
+      throw new RobotError(`Bin ${binId} is already being moved by task ${bin.taskId}`, ErrorCode.CONFLICT);
+    }
+
+    // Workflows that never visit a shelf only record which bin they carry
+    if (!roles.includes(SHELF_ROLE)) {
+      await storage.updateBin(binId, { taskId: task.taskId });
+      return task.points || [];
+    }
+
+    let shelf: Poi;
+    if (bin.status === BinStatus.STORED && task.taskType === TaskType.DROPOFF) {
+      throw new RobotError(`Bin ${binId} is already on a shelf`, ErrorCode.CONFLICT);
+    } else if (bin.status === BinStatus.STORED) {
+      const slot = await storage.getShelfSlotByBin(binId);
+      if (!slot) {
+        throw new RobotError(`Bin ${binId} is marked stored but no slot holds it`, ErrorCode.CONFLICT);
+      }
+      shelf = await this.getShelfPoi(slot.poiId);
+    } else if (task.taskType === TaskType.PICKUP) {
+      throw new RobotError(`Bin ${binId} is not on a shelf (${bin.status})`, ErrorCode.CONFLICT);
+    } else if (requestedShelf?.ext?.id) {
+      if (!(await storage.reserveShelfSlot(requestedShelf.ext.id, task.taskId))) {
+        throw new RobotError(`Shelf slot ${requestedShelf.ext.id} is not free`, ErrorCode.CONFLICT);
+      }
+      shelf = await this.getShelfPoi(requestedShelf.ext.id);
+    } else {
+      shelf = await this.reserveFreeSlot(task.taskId, points[0]);
+    }
+
+    await storage.updateBin(binId, { taskId: task.taskId });
+    return [...points, shelfTaskPoint(shelf)];
+  }
+
+  /**
+   * Update bin and slot occupancy after a task's robot loaded or unloaded its bin
+   * The robot's location is the task's current point.
+   */
+  async recordPayloadChange(taskId: string, loaded: boolean): Promise<void> {
+    const task = await storage.getTask(taskId);
+    if (!task?.binId) return;
+
+    const binId = task.binId;
+    const poiId = task.currentPoint?.ext?.id;
+    const slot = poiId ? await storage.getShelfSlot(poiId) : undefined;
+
+    if (loaded) {
+      const previous = await storage.getShelfSlotByBin(binId);
+      if (previous) {
+        await storage.updateShelfSlot(previous.poiId, { binId: null });
+      }
+      await storage.updateBin(binId, { status: BinStatus.IN_TRANSIT });
+      console.log(`Bin ${binId} loaded onto robot ${task.robotId} for task ${taskId}`);
+      return;
+    }
+
+    if (!slot) {
+      await storage.updateBin(binId, { status: BinStatus.OFF_SHELF });
+      console.log(`Bin ${binId} unloaded off the shelves for task ${taskId}`);
+      return;
+    }
+
+    // Trust what the robot did over what the inventory said
+    if (slot.binId && slot.binId !== binId) {
+      console.warn(`Shelf slot ${slot.poiId} recorded bin ${slot.binId} but bin ${binId} was just stored there`);
+      await storage.updateBin(slot.binId, { status: BinStatus.OFF_SHELF });
+    }
+
+    await storage.updateShelfSlot(slot.poiId, { binId, reservedByTaskId: null });
+    await storage.updateBin(binId, { status: BinStatus.STORED });
+    console.log(`Bin ${binId} stored in shelf slot ${slot.poiId} by task ${taskId}`);
+  }
+
+  /**
+   * Drop a finished task's slot reservations and its claim on its bin
+   */
+  async releaseTask(task: Task): Promise<void> {
+    await storage.releaseShelfSlotReservations(task.taskId);
+
+    if (task.binId) {
+      const bin = await storage.getBin(task.binId);
+      if (bin?.taskId === task.taskId) {
+        await storage.updateBin(task.binId, { taskId: null });
+      }
+    }
+  }
+
+  /**
+   * Reserve the free slot closest to a reference point (preferring its area)
+   */
+  private async reserveFreeSlot(taskId: string, near?: TaskPoint): Promise<Poi> {
+    const [slots, pois] = await Promise.all([storage.getAllShelfSlots(), storage.getAllPois()]);
+
+    const candidates = slots
+      .filter(slot => slot.enabled && !slot.binId && !slot.reservedByTaskId)
+      .map(slot => pois.find(poi => poi.poiId === slot.poiId))
+      .filter((poi): poi is Poi => poi !== undefined);
+
+    if (near) {
+      const rank = (poi: Poi) => (poi.areaId === near.areaId ? 0 : 1e9) + Math.hypot(poi.x - near.x, poi.y - near.y);
+      candidates.sort((a, b) => rank(a) - rank(b));
+    }
+
+    // Another task may claim a slot between listing and reserving it
+    for (const poi of candidates) {
+      if (await storage.reserveShelfSlot(poi.poiId, taskId)) {
+        return poi;
+      }
+    }
+
+    throw new RobotError('No free shelf slot available', ErrorCode.CONFLICT);
+  }
+
+  /**
+   * Get a slot or throw NOT_FOUND
+   */
+  private async getSlot(poiId: string): Promise<ShelfSlot> {
+    const slot = await storage.getShelfSlot(poiId);
+    if (!slot) {
+      throw new RobotError(`Shelf slot not found: ${poiId}`, ErrorCode.NOT_FOUND);
+    }
+    return slot;
+  }
+
+  /**
+   * Get the POI behind a slot
+   */
+  private async getShelfPoi(poiId: string): Promise<Poi> {
+    const poi = await storage.getPoi(poiId);
+    if (!poi) {
+      throw new RobotError(`Shelf POI not found: ${poiId}`, ErrorCode.NOT_FOUND);
+    }
+    return poi;
+  }
+}
+
+// Create singleton instance
+export const inventory = new Inventory();
@@ -0,0 +1,317 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import {
+  insertMapSchema,
+  insertPoiSchema,
+  type InsertMap,
+  type InsertPoi,
+  type Map as FloorMap,
+  type Poi,
+  type Task
+} from '@shared/schema';
+
+// Map fields as sent by clients
+const mapInputSchema = insertMapSchema.extend({
+  areaId: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  floor: z.string().trim().min(1),
+  building: z.string().trim().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+const mapUpdateSchema = mapInputSchema.omit({ areaId: true }).partial();
+
+// POI fields as sent by clients
+const poiInputSchema = insertPoiSchema.extend({
+  poiId: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  type: z.string().trim().min(1),
+  areaId: z.string().trim().min(1),
+  x: z.number().finite(),
+  y: z.number().finite(),
+  yaw: z.number().min(-360).max(360).nullable().optional(),
+  floor: z.string().trim().nullable().optional(),
+  metadata: z.record(z.any()).nullable().optional()
+});
+const poiUpdateSchema = poiInputSchema.omit({ poiId: true }).partial();
+
+// Maps and POIs as exported and imported in bulk
+const bundleSchema = z.object({
+  maps: z.array(mapInputSchema).default([]),
+  pois: z.array(poiInputSchema).default([])
+});
+
+export type MapBundle = {
+  exportedAt: string;
+  maps: InsertMap[];
+  pois: InsertPoi[];
+};
+
+export interface ImportResult {
+  mapsCreated: number;
+  mapsUpdated: number;
+  poisCreated: number;
+  poisUpdated: number;
+}
+
+/**
+ * Whether a task stops at a POI
+ */
+function taskUsesPoi(task: Task, poiId: string): boolean {
+  return [...(task.points || []), task.currentPoint, task.returnPoint]
+    .some(point => point?.ext?.id === poiId);
+}
+
+/**
+ * Map catalog
+ * Validated create/update/delete for maps and POIs, and bulk import/export
+ */
+class MapCatalog {
+  /**
+   * Get every map
+   */
+  async listMaps(): Promise<FloorMap[]> {
+    return storage.getAllMaps();
+  }
+
+  /**
+   * Get a map or throw NOT_FOUND
+   */
+  async getMap(areaId: string): Promise<FloorMap> {
+    const map = await storage.getMap(areaId);
+    if (!map) {
+      throw new RobotError(`Map not found: ${areaId}`, ErrorCode.NOT_FOUND);
+    }
+    return map;
+  }
+
+  /**
+   * Create a map
+   */
+  async createMap(input: unknown): Promise<FloorMap> {
+    const data = parseInput(mapInputSchema, input);
+    if (await storage.getMap(data.areaId)) {
+      throw new RobotError(`Map ${data.areaId} already exists`, ErrorCode.CONFLICT);
+    }
+
+    return storage.createMap({ ...data, building: data.building ?? null, isActive: data.isActive ?? true });
+  }
+
+  /**
+   * Update a map; a new floor is carried over to the map's POIs
+   */
+  async updateMap(areaId: string, input: unknown): Promise<FloorMap> {
+    const map = await this.getMap(areaId);
+    const data = parseInput(mapUpdateSchema, input);
+
+    const updated = (await storage.updateMap(areaId, data))!;
+    if (data.floor && data.floor !== map.floor) {
+      for (const poi of await this.listPois(areaId)) {
+        await storage.updatePoi(poi.poiId, { floor: data.floor });
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a map
+   * @param cascade Also delete the map's POIs (none of them may be in use)
+   */
+  async deleteMap(areaId: string, cascade = false): Promise<void> {
+    await this.getMap(areaId);
+    const pois = await this.listPois(areaId);
+
+    if (pois.length > 0 && !cascade) {
+      throw new RobotError(`Map ${areaId} still has ${pois.length} POI(s); delete them first`, ErrorCode.CONFLICT);
+    }
+
+    // Check every POI before deleting any of them
+    for (const poi of pois) {
+      await this.assertPoiUnused(poi.poiId);
+    }
+    for (const poi of pois) {
+      await this.removePoi(poi.poiId);
+    }
+
+    await storage.deleteMap(areaId);
+  }
+
+  /**
+   * Get every POI, optionally only those on one map
+   */
+  async listPois(areaId?: string): Promise<Poi[]> {
+    const pois = await storage.getAllPois();
+    return areaId ? pois.filter(poi => poi.areaId === areaId) : pois;
+  }
+
+  /**
+   * Get a POI or throw NOT_FOUND
+   */
+  async getPoi(poiId: string): Promise<Poi> {
+    const poi = await storage.getPoi(poiId);
+    if (!poi) {
+      throw new RobotError(`POI not found: ${poiId}`, ErrorCode.NOT_FOUND);
+    }
+    return poi;
+  }
+
+  /**
+   * Create a POI on an existing map (its floor defaults to the map's)
+   */
+  async createPoi(input: unknown): Promise<Poi> {
+    const data = parseInput(poiInputSchema, input);
+    if (await storage.getPoi(data.poiId)) {
+      throw new RobotError(`POI ${data.poiId} already exists`, ErrorCode.CONFLICT);
+    }
+
+    const map = await this.getPoiMap(data.areaId);
+    return storage.createPoi({
+      ...data,
+      yaw: data.yaw ?? null,
+      floor: data.floor ?? map.floor,
+      metadata: data.metadata ?? null
+    });
+  }
+
+  /**
+   * Update a POI; moving it to another map moves it to that map's floor
+   */
+  async updatePoi(poiId: string, input: unknown): Promise<Poi> {
+    const poi = await this.getPoi(poiId);
+    const data = parseInput(poiUpdateSchema, input);
+
+    if (data.areaId && data.areaId !== poi.areaId) {
+      const map = await this.getPoiMap(data.areaId);
+      data.floor = data.floor ?? map.floor;
+    }
+
+    return (await storage.updatePoi(poiId, data))!;
+  }
+
+  /**
+   * Delete a POI that no pending or running task, bin or robot depends on
+   */
+  async deletePoi(poiId: string): Promise<void> {
+    await this.getPoi(poiId);
+    await this.assertPoiUnused(poiId);
+    await this.removePoi(poiId);
+  }
+
+  /**
+   * Every map and POI, without database IDs
+   */
+  async exportAll(): Promise<MapBundle> {
+    const [maps, pois] = await Promise.all([storage.getAllMaps(), storage.getAllPois()]);
+    return {
+      exportedAt: new Date().toISOString(),
+      maps: maps.map(({ id, ...map }) => map),
+      pois: pois.map(({ id, ...poi }) => poi)
+    };
+  }
+
+  /**
+   * Create or update maps and POIs from an export
+   * The whole bundle is validated before anything is written.
+   */
+  async importAll(input: unknown): Promise<ImportResult> {
+    const bundle = parseInput(bundleSchema, input);
+
+    const duplicate = (ids: string[]) => ids.find((id, index) => ids.indexOf(id) !== index);
+    const duplicateMap = duplicate(bundle.maps.map(map => map.areaId));
+    const duplicatePoi = duplicate(bundle.pois.map(poi => poi.poiId));
+    if (duplicateMap || duplicatePoi) {
+      throw new RobotError(
+        duplicateMap ? `Map ${duplicateMap} appears twice` : `POI ${duplicatePoi} appears twice`,
+        ErrorCode.INVALID_PARAM
+      );
+    }
+
+    const existingMaps = await storage.getAllMaps();
+    const floors = new Map<string, string>([
+      ...existingMaps.map(map => [map.areaId, map.floor] as [string, string]),
+      ...bundle.maps.map(map => [map.areaId, map.floor] as [string, string])
+    ]);
+    const orphan = bundle.pois.find(poi => !floors.has(poi.areaId));
+    if (orphan) {
+      throw new RobotError(`POI ${orphan.poiId} references unknown map ${orphan.areaId}`, ErrorCode.INVALID_PARAM);
+    }
+
+    const result: ImportResult = { mapsCreated: 0, mapsUpdated: 0, poisCreated: 0, poisUpdated: 0 };
+
+    for (const { areaId, ...fields } of bundle.maps) {
+      if (existingMaps.some(map => map.areaId === areaId)) {
+        await storage.updateMap(areaId, fields);
+        result.mapsUpdated++;
+      } else {
+        await storage.createMap({ areaId, ...fields, building: fields.building ?? null, isActive: fields.isActive ?? true });
+        result.mapsCreated++;
+      }
+    }
+
+    for (const { poiId, ...fields } of bundle.pois) {
+      const poi = {
+        ...fields,
+        yaw: fields.yaw ?? null,
+        floor: fields.floor ?? floors.get(fields.areaId)!,
+        metadata: fields.metadata ?? null
+      };
+
+      if (await storage.getPoi(poiId)) {
+        await storage.updatePoi(poiId, poi);
+        result.poisUpdated++;
+      } else {
+        await storage.createPoi({ poiId, ...poi });
+        result.poisCreated++;
+      }
+    }
+
+    console.log(`Imported maps and POIs: ${JSON.stringify(result)}`);
+    return result;
+  }
+
+  /**
+   * Get the map a POI is placed on, rejecting unknown area IDs
+   */
+  private async getPoiMap(areaId: string): Promise<FloorMap> {
+    const map = await storage.getMap(areaId);
+    if (!map) {
+      throw new RobotError(`areaId ${areaId} does not reference an existing map`, ErrorCode.INVALID_PARAM);
+    }
+    return map;
+  }
+
+  /**
+   * Throw CONFLICT if anything still depends on a POI
+   */
+  private async assertPoiUnused(poiId: string): Promise<void> {
+    const task = (await storage.getActiveTasks()).find(active => taskUsesPoi(active, poiId));
+    if (task) {
+      throw new RobotError(`POI ${poiId} is used by ${task.status} task ${task.taskId}`, ErrorCode.CONFLICT);
+    }
+
+    const slot = await storage.getShelfSlot(poiId);
+    if (slot?.binId) {
+      throw new RobotError(`Shelf ${poiId} still holds bin ${slot.binId}`, ErrorCode.CONFLICT);
+    }
+    if (slot?.reservedByTaskId) {
+      throw new RobotError(`Shelf ${poiId} is reserved by task ${slot.reservedByTaskId}`, ErrorCode.CONFLICT);
+    }
+
+    const lease = (await storage.getAllChargerLeases()).find(entry => entry.chargerId === poiId);
+    if (lease) {
+      throw new RobotError(`Charger ${poiId} is leased to robot ${lease.robotId}`, ErrorCode.CONFLICT);
+    }
+  }
+
+  /**
+   * Delete a POI and the empty shelf slot that points at it
+   */
+  private async removePoi(poiId: string): Promise<void> {
+    await storage.deleteShelfSlot(poiId);
+    await storage.deletePoi(poiId);
+  }
+}
+
+// Create singleton instance
+export const mapCatalog = new MapCatalog();
@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { mapCatalog } from './map-catalog';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all maps
+ * GET /api/maps
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.listMaps());
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Export every map and POI as JSON
+ * GET /api/maps/export
+ */
+router.get('/export', async (_req: Request, res: Response) => {
+  try {
+    const bundle = await mapCatalog.exportAll();
+    res.set('Content-Disposition', `attachment; filename="maps-${bundle.exportedAt.slice(0, 10)}.json"`);
+    res.json(bundle);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create or update maps and POIs from an export
+ * POST /api/maps/import
+ */
+router.post('/import', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.importAll(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a map
+ * GET /api/maps/:areaId
+ */
+router.get('/:areaId', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.getMap(req.params.areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a map
+ * POST /api/maps
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await mapCatalog.createMap(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a map
+ * PUT /api/maps/:areaId
+ */
+router.put('/:areaId', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.updateMap(req.params.areaId, req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a map (?cascade=true also deletes its POIs)
+ * DELETE /api/maps/:areaId
+ */
+router.delete('/:areaId', async (req: Request, res: Response) => {
+  try {
+    await mapCatalog.deleteMap(req.params.areaId, req.query.cascade === 'true');
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
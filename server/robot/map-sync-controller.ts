@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { mapSync } from './map-sync';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get the map changes waiting for approval
+ * GET /api/map-sync
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json(mapSync.getPending());
+});
+
+/**
+ * Compare every online robot's map with the POI table now
+ * POST /api/map-sync/scan
+ */
+router.post('/scan', async (_req: Request, res: Response) => {
+  try {
+    res.json(await mapSync.scanAll('manual'));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Compare one robot's map with the POI table now
+ * POST /api/map-sync/scan/:robotId
+ */
+router.post('/scan/:robotId', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapSync.scan(req.params.robotId, 'manual'));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Apply a diff's changes (all of them, or only those in poiIds)
+ * POST /api/map-sync/:diffId/approve
+ */
+router.post('/:diffId/approve', async (req: Request, res: Response) => {
+  try {
+    const { poiIds } = req.body ?? {};
+    if (poiIds !== undefined && (!Array.isArray(poiIds) || poiIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'poiIds must be an array of POI IDs' });
+    }
+
+    res.json(await mapSync.approve(req.params.diffId, poiIds));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Discard a diff and keep the POI table as it is
+ * POST /api/map-sync/:diffId/reject
+ */
+router.post('/:diffId/reject', async (req: Request, res: Response) => {
+  try {
+    await mapSync.reject(req.params.diffId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
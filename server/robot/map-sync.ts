@@ -0,0 +1,431 @@
+import { storage } from '../storage';
+import * as directApi from './direct-api';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { mapCatalog } from './map-catalog';
+import { RobotStatus, TaskStatus, type Poi, type PoiMetadata, type Robot, type TaskPoint } from '@shared/schema';
+
+// Event category for every sync result
+const EVENT_CATEGORY = 'map_sync';
+const record = robotEventRecorder(EVENT_CATEGORY, 'Map sync');
+
+// How often every online robot's map is compared with the POI table
+const SYNC_INTERVAL_MS = 15 * 60000;
+
+// How far a point may drift (meters / degrees) before it counts as moved
+const POSITION_TOLERANCE = 0.05;
+const YAW_TOLERANCE = 2;
+
+// What started a scan
+export type SyncTrigger = 'schedule' | 'map_changed' | 'manual';
+
+// Point as it is on the robot's map
+export interface SyncPoint {
+  poiId: string;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  yaw: number;
+  areaId: string;
+  metadata: PoiMetadata;
+}
+
+// Point whose coordinates differ between the robot and the POI table
+export interface MovedPoint {
+  poiId: string;
+  name: string;
+  from: { x: number; y: number; yaw: number };
+  to: SyncPoint;
+}
+
+// Differences between a robot's map and the POI table, waiting for an admin
+export interface MapSyncDiff {
+  id: string;
+  robotId: string;
+  mapUid: string;
+  mapName: string;
+  trigger: SyncTrigger;
+  detectedAt: Date;
+  added: SyncPoint[];    // on the robot's map but not in the POI table
+  removed: Poi[];        // in the POI table but gone from the robot's map
+  moved: MovedPoint[];
+}
+
+// Outcome of approving a diff
+export interface SyncApplyResult {
+  applied: string[];
+  failed: { poiId: string; error: string }[];
+  remaining: MapSyncDiff | null;
+}
+
+/**
+ * Stable description of a diff's changes, used to spot a diff that was already seen or rejected
+ */
+function fingerprint(diff: Pick<MapSyncDiff, 'added' | 'removed' | 'moved'>): string {
+  return JSON.stringify([
+    diff.added.map(point => [point.poiId, point.x, point.y, point.yaw]).sort(),
+    diff.removed.map(poi => poi.poiId).sort(),
+    diff.moved.map(move => [move.poiId, move.to.x, move.to.y, move.to.yaw]).sort()
+  ]);
+}
+
+/**
+ * Whether a stored POI is somewhere else on the robot's map
+ */
+function hasMoved(poi: Poi, point: SyncPoint): boolean {
+  const yawDelta = Math.abs((((poi.yaw ?? 0) - point.yaw) % 360 + 540) % 360 - 180);
+  return Math.hypot(poi.x - point.x, poi.y - point.y) > POSITION_TOLERANCE || yawDelta > YAW_TOLERANCE;
+}
+
+/**
+ * Map sync
+ * Compares each robot's map overlays with the POI table (matched by metadata.mapUid) and holds the
+ * differences until an admin approves them. Moves to POIs with unapproved changes are refused.
+ */
+class MapSync {
+  private started = false;
+  private diffs: Map<string, MapSyncDiff> = new Map();    // by map UID
+  private rejected: Map<string, string> = new Map();      // map UID -> fingerprint of the rejected diff
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Scan every online robot now and then on a schedule
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const scanAll = () => this.scanAll('schedule').catch(error => {
+      console.error('Scheduled map sync failed:', error);
+    });
+    this.syncTimer = setInterval(scanAll, SYNC_INTERVAL_MS);
+    scanAll();
+
+    console.log('Map sync started');
+  }
+
+  /**
+   * Stop the scheduled scans
+   */
+  stop(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Get every diff waiting for approval
+   */
+  getPending(): MapSyncDiff[] {
+    return Array.from(this.diffs.values());
+  }
+
+  /**
+   * Scan every robot that is not offline
+   * Robots sharing a map are only scanned once.
+   */
+  async scanAll(trigger: SyncTrigger): Promise<MapSyncDiff[]> {
+    const robots = (await storage.getAllRobots()).filter(robot => robot.status !== RobotStatus.OFFLINE);
+    const seen = new Set<string>();
+    const found: MapSyncDiff[] = [];
+
+    for (const robot of robots) {
+      try {
+        const result = await this.scanRobot(robot, trigger, seen);
+        if (result) {
+          found.push(result);
+        }
+      } catch (error) {
+        console.warn(`Map sync skipped robot ${robot.robotId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Compare one robot's current map with the POI table
+   * @returns The pending diff for the map, or null if it matches (or only has rejected changes)
+   */
+  async scan(robotId: string, trigger: SyncTrigger): Promise<MapSyncDiff | null> {
+    const robot = await storage.getRobot(robotId);
+    if (!robot) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+    return this.scanRobot(robot, trigger);
+  }
+
+  /**
+   * Apply a diff's changes to the POI table
+   * @param poiIds Only apply the changes to these POIs; the rest stay pending
+   */
+  async approve(diffId: string, poiIds?: string[]): Promise<SyncApplyResult> {
+    const diff = this.getDiff(diffId);
+    const selected = (poiId: string) => !poiIds || poiIds.includes(poiId);
+    const result: SyncApplyResult = { applied: [], failed: [], remaining: null };
+
+    const apply = async (poiId: string, change: () => Promise<unknown>) => {
+      try {
+        await change();
+        result.applied.push(poiId);
+      } catch (error) {
+        result.failed.push({ poiId, error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    for (const point of diff.added.filter(point => selected(point.poiId))) {
+      await apply(point.poiId, () => this.addPoint(diff, point));
+    }
+    for (const move of diff.moved.filter(move => selected(move.poiId))) {
+      await apply(move.poiId, () => this.movePoint(move));
+    }
+    for (const poi of diff.removed.filter(poi => selected(poi.poiId))) {
+      await apply(poi.poiId, () => mapCatalog.deletePoi(poi.poiId));
+    }
+
+    const done = new Set(result.applied);
+    const retargeted = await this.retargetPoints(diff.moved.filter(move => done.has(move.poiId)));
+    const remaining: MapSyncDiff = {
+      ...diff,
+      added: diff.added.filter(point => !done.has(point.poiId)),
+      removed: diff.removed.filter(poi => !done.has(poi.poiId)),
+      moved: diff.moved.filter(move => !done.has(move.poiId))
+    };
+    if (remaining.added.length + remaining.removed.length + remaining.moved.length > 0) {
+      this.diffs.set(diff.mapUid, remaining);
+      result.remaining = remaining;
+    } else {
+      this.diffs.delete(diff.mapUid);
+    }
+
+    await record(diff.robotId, 'approved',
+      `Applied ${result.applied.length} change(s) from map ${diff.mapName}` +
+        (result.failed.length ? `; ${result.failed.length} failed` : ''),
+      { mapUid: diff.mapUid, applied: result.applied, failed: result.failed, retargeted });
+    return result;
+  }
+
+  /**
+   * Move the points of waiting tasks and schedules along with POIs whose move was approved
+   * Tasks keep copies of point coordinates, so without this they would still drive to the old spot.
+   * Only points still at the POI's old position are changed; points deliberately offset from it are kept.
+   * @returns How many tasks and schedules were changed
+   */
+  private async retargetPoints(moves: MapSyncDiff['moved']): Promise<number> {
+    if (moves.length === 0) {
+      return 0;
+    }
+
+    let changed = false;
+    const retarget = (point: TaskPoint): TaskPoint => {
+      const move = moves.find(entry => entry.poiId === point.ext?.id);
+      if (!move || Math.hypot(point.x - move.from.x, point.y - move.from.y) > POSITION_TOLERANCE) {
+        return point;
+      }
+      changed = true;
+      return { ...point, x: move.to.x, y: move.to.y, yaw: move.to.yaw };
+    };
+
+    let count = 0;
+    for (const task of await storage.getActiveTasks()) {
+      if (task.status === TaskStatus.IN_PROGRESS) {
+        continue;
+      }
+      changed = false;
+      const points = (task.points ?? []).map(retarget);
+      const returnPoint = task.returnPoint ? retarget(task.returnPoint) : null;
+      if (changed) {
+        await storage.updateTask({ ...task, points, returnPoint });
+        count++;
+      }
+    }
+
+    for (const schedule of await storage.getAllSchedules()) {
+      changed = false;
+      const points = schedule.task.points.map(retarget);
+      if (changed) {
+        await storage.updateSchedule(schedule.scheduleId, { task: { ...schedule.task, points } });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Discard a diff and keep the POI table as it is
+   * The same changes are not raised again until the robot's map changes further.
+   */
+  async reject(diffId: string): Promise<void> {
+    const diff = this.getDiff(diffId);
+    this.rejected.set(diff.mapUid, fingerprint(diff));
+    this.diffs.delete(diff.mapUid);
+
+    await record(diff.robotId, 'rejected', `Kept the POI table for map ${diff.mapName}`, { mapUid: diff.mapUid });
+  }
+
+  /**
+   * Throw MAP_OUT_OF_SYNC if a point targets a POI that moved or disappeared on a robot's map
+   * and the change has not been approved yet
+   */
+  assertCurrent(points: TaskPoint[]): void {
+    for (const point of points) {
+      const poiId = point.ext?.id;
+      if (!poiId) {
+        continue;
+      }
+
+      for (const diff of Array.from(this.diffs.values())) {
+        if (diff.moved.some(move => move.poiId === poiId) || diff.removed.some(poi => poi.poiId === poiId)) {
+          throw new RobotError(
+            `POI ${poiId} has changed on map ${diff.mapName}; approve or reject the pending map sync first`,
+            ErrorCode.MAP_OUT_OF_SYNC
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Scan a robot unless another robot on the same map was already scanned
+   */
+  private async scanRobot(robot: Robot, trigger: SyncTrigger, seen?: Set<string>): Promise<MapSyncDiff | null> {
+    const client = directApi.getRobotApiClient(robot.robotId);
+    const current = await client.getCurrentMap();
+    const mapUid = String(current.uid ?? current.id);
+    if (seen?.has(mapUid)) {
+      return this.diffs.get(mapUid) ?? null;
+    }
+    seen?.add(mapUid);
+
+    const points: SyncPoint[] = ((await client.getAllMapPoints()) ?? []).map((point: any) => {
+      const { rawFeature, ...metadata } = point.metadata ?? {};
+      return {
+        poiId: String(point.poiId),
+        name: point.name,
+        type: point.type,
+        x: point.x,
+        y: point.y,
+        yaw: point.yaw ?? 0,
+        areaId: point.areaId,
+        metadata: { ...metadata, mapUid }
+      };
+    });
+
+    const stored = (await storage.getAllPois()).filter(poi => poi.metadata?.mapUid === mapUid);
+    const storedById = new Map(stored.map(poi => [poi.poiId, poi]));
+    const pointIds = new Set(points.map(point => point.poiId));
+
+    const changes = {
+      added: points.filter(point => !storedById.has(point.poiId)),
+      removed: stored.filter(poi => !pointIds.has(poi.poiId)),
+      moved: points
+        .filter(point => storedById.has(point.poiId) && hasMoved(storedById.get(point.poiId)!, point))
+        .map(point => {
+          const poi = storedById.get(point.poiId)!;
+          return { poiId: poi.poiId, name: poi.name, from: { x: poi.x, y: poi.y, yaw: poi.yaw ?? 0 }, to: point };
+        })
+    };
+
+    const count = changes.added.length + changes.removed.length + changes.moved.length;
+    const print = fingerprint(changes);
+    if (count === 0 || this.rejected.get(mapUid) === print) {
+      this.diffs.delete(mapUid);
+      return null;
+    }
+    this.rejected.delete(mapUid);
+
+    // Keep the ID (and detection time) of a diff that has not changed
+    const previous = this.diffs.get(mapUid);
+    if (previous && fingerprint(previous) === print) {
+      return previous;
+    }
+
+    const diff: MapSyncDiff = {
+      id: `sync_${Date.now().toString(36)}_${mapUid}`,
+      robotId: robot.robotId,
+      mapUid,
+      mapName: current.map_name ?? mapUid,
+      trigger,
+      detectedAt: new Date(),
+      ...changes
+    };
+    this.diffs.set(mapUid, diff);
+
+    await record(robot.robotId, 'changes_detected',
+      `Map ${diff.mapName}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.moved.length} moved`,
+      { mapUid, trigger, diffId: diff.id });
+    return diff;
+  }
+
+  /**
+   * Move a POI to where the robot's map has it
+   * Metadata set locally (doors, elevator cabins, stop radius) is kept; only fields from the map are overwritten.
+   */
+  private async movePoint(move: MovedPoint): Promise<void> {
+    const existing = await storage.getPoi(move.poiId);
+    if (!existing) {
+      throw new RobotError(`POI not found: ${move.poiId}`, ErrorCode.NOT_FOUND);
+    }
+    await storage.updatePoi(move.poiId, {
+      x: move.to.x,
+      y: move.to.y,
+      yaw: move.to.yaw,
+      metadata: { ...existing.metadata, ...move.to.metadata }
+    });
+  }
+
+  /**
+   * Store a point that only exists on the robot's map
+   * A POI with the same ID that was not synced before is taken over; the map is created if we don't have it.
+   */
+  private async addPoint(diff: MapSyncDiff, point: SyncPoint): Promise<void> {
+    const existing = await storage.getPoi(point.poiId);
+    if (existing) {
+      await storage.updatePoi(point.poiId, { x: point.x, y: point.y, yaw: point.yaw, metadata: { ...existing.metadata, ...point.metadata } });
+      return;
+    }
+
+    let map = await storage.getMap(point.areaId);
+    if (!map) {
+      const robot = await storage.getRobot(diff.robotId);
+      map = await storage.createMap({
+        areaId: point.areaId,
+        name: diff.mapName,
+        floor: robot?.floor || point.areaId,
+        building: null,
+        isActive: true
+      });
+    }
+
+    await storage.createPoi({
+      poiId: point.poiId,
+      name: point.name,
+      type: point.type,
+      x: point.x,
+      y: point.y,
+      yaw: point.yaw,
+      areaId: map.areaId,
+      floor: map.floor,
+      metadata: point.metadata
+    });
+  }
+
+  /**
+   * Get a pending diff or throw NOT_FOUND
+   */
+  private getDiff(diffId: string): MapSyncDiff {
+    const diff = Array.from(this.diffs.values()).find(entry => entry.id === diffId);
+    if (!diff) {
+      throw new RobotError(`Map sync not found: ${diffId}`, ErrorCode.NOT_FOUND);
+    }
+    return diff;
+  }
+}
+
+// Create singleton instance
+export const mapSync = new MapSync();
@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import { mapViewer } from './map-view';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get a floor's map grid, points and robot poses
+ * GET /api/maps/:areaId/live
+ */
+router.get('/:areaId/live', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapViewer.getView(req.params.areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a floor's occupancy image
+ * GET /api/maps/:areaId/image
+ */
+router.get('/:areaId/image', async (req: Request, res: Response) => {
+  try {
+    const image = await mapViewer.getImage(req.params.areaId);
+    res.set('Cache-Control', 'private, max-age=60');
+    res.type(image.contentType).send(image.data);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Send a robot to a clicked point (x, y, optional yaw) or to a POI
+ * POST /api/maps/:areaId/navigate
+ */
+router.post('/:areaId/navigate', async (req: Request, res: Response) => {
+  try {
+    const { robotId, x, y, yaw, poiId } = req.body ?? {};
+    if (typeof robotId !== 'string' || robotId === '') {
+      return res.status(400).json({ error: 'robotId is required' });
+    }
+
+    await mapViewer.sendRobot(req.params.areaId, { robotId, x, y, yaw, poiId });
+    res.json({ success: true, message: `Robot ${robotId} is on its way` });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
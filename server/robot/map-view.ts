@@ -0,0 +1,241 @@
+import { storage } from '../storage';
+import * as directApi from './direct-api';
+import { ErrorCode, RobotError } from './errors';
+import { MovementModule } from './movement';
+import { robotMonitor } from './robot-monitor';
+import { RobotStatus, TaskStatus, type Map as FloorMap, type Poi, type Robot, type TaskPoint } from '@shared/schema';
+
+// How long a robot's map details are reused before asking the robot again
+const DETAIL_CACHE_MS = 60000;
+
+// Point drawn on the map
+export interface MapViewPoint {
+  poiId: string;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  yaw: number;
+  stored: boolean;  // saved in the POI table (and editable), rather than only on the robot's map
+}
+
+// Robot drawn on the map
+export interface MapViewRobot {
+  robotId: string;
+  name: string;
+  status: string;
+  pose: { x: number; y: number; ori: number } | null;
+}
+
+// Everything the live map page needs for one floor
+export interface MapView {
+  map: FloorMap;
+  sourceRobotId: string | null;  // robot the occupancy image and points came from
+  grid: { originX: number; originY: number; resolution: number } | null;
+  hasImage: boolean;
+  points: MapViewPoint[];
+  robots: MapViewRobot[];
+}
+
+// Map details fetched from a robot on the floor
+interface RobotMapDetail {
+  robotId: string;
+  grid: MapView['grid'];
+  imageUrl: string | null;
+  points: MapViewPoint[];
+  fetchedAt: number;
+}
+
+// Where to send a robot from the map
+export interface MapTarget {
+  robotId: string;
+  x?: number;
+  y?: number;
+  yaw?: number;
+  poiId?: string;   // send the robot to a POI instead of a clicked point
+}
+
+/**
+ * Convert a stored POI into a map point
+ */
+function poiToPoint(poi: Poi): MapViewPoint {
+  return { poiId: poi.poiId, name: poi.name, type: poi.type, x: poi.x, y: poi.y, yaw: poi.yaw ?? 0, stored: true };
+}
+
+/**
+ * Map viewer
+ * Combines a robot's occupancy map and points with the live poses of every robot on the floor
+ */
+class MapViewer {
+  private details: Map<string, RobotMapDetail> = new Map();
+
+  /**
+   * Get a floor's map, points and robot poses
+   * Stored POIs are listed first; points only on the robot's map are added after them.
+   */
+  async getView(areaId: string): Promise<MapView> {
+    const map = await this.getMap(areaId);
+    const robots = await this.getRobotsOnFloor(map);
+    const detail = await this.getDetail(map, robots);
+
+    const stored = (await storage.getAllPois()).filter(poi => this.onMap(poi, map)).map(poiToPoint);
+    const storedIds = new Set(stored.map(point => point.poiId));
+    const points = [...stored, ...(detail?.points ?? []).filter(point => !storedIds.has(point.poiId))];
+
+    return {
+      map,
+      sourceRobotId: detail?.robotId ?? null,
+      grid: detail?.grid ?? null,
+      hasImage: !!detail?.imageUrl,
+      points,
+      robots: robots.map(robot => ({
+        robotId: robot.robotId,
+        name: robot.name,
+        status: robot.status,
+        pose: robotMonitor.getRobotState(robot.robotId)?.pose ?? null
+      }))
+    };
+  }
+
+  /**
+   * Get a floor's occupancy image from a robot on that floor
+   */
+  async getImage(areaId: string): Promise<{ data: Buffer; contentType: string }> {
+    const map = await this.getMap(areaId);
+    const detail = await this.getDetail(map, await this.getRobotsOnFloor(map));
+    if (!detail?.imageUrl) {
+      throw new RobotError(`No occupancy image available for map ${areaId}`, ErrorCode.NOT_FOUND);
+    }
+
+    return directApi.getRobotApiClient(detail.robotId).getMapImage(detail.imageUrl);
+  }
+
+  /**
+   * Send a robot on the floor to a clicked point or a POI
+   * Refused with CONFLICT while the robot is running a task.
+   */
+  async sendRobot(areaId: string, target: MapTarget): Promise<void> {
+    const map = await this.getMap(areaId);
+    const robot = await storage.getRobot(target.robotId);
+    if (!robot) {
+      throw new RobotError(`Robot not found: ${target.robotId}`, ErrorCode.NOT_FOUND);
+    }
+    if (robot.floor !== map.floor) {
+      throw new RobotError(`Robot ${robot.robotId} is on ${robot.floor ?? 'no floor'}, not ${map.floor}`, ErrorCode.INVALID_PARAM);
+    }
+
+    // Manual moves would redirect a robot mid-task, possibly while it carries a bin
+    const running = (await storage.getActiveTasksByRobot(robot.robotId)).find(task => task.status === TaskStatus.IN_PROGRESS);
+    if (running) {
+      throw new RobotError(`Robot ${robot.robotId} is running task ${running.taskId}`, ErrorCode.CONFLICT);
+    }
+
+    let point: TaskPoint;
+    if (target.poiId) {
+      const poi = await storage.getPoi(target.poiId);
+      const robotPoint = poi ? null : (await this.getDetail(map, [robot]))?.points.find(p => p.poiId === target.poiId);
+      if (!poi && !robotPoint) {
+        throw new RobotError(`POI not found: ${target.poiId}`, ErrorCode.NOT_FOUND);
+      }
+
+      point = poi ? {
+        x: poi.x,
+        y: poi.y,
+        yaw: poi.yaw ?? 0,
+        areaId: poi.areaId,
+        stopRadius: poi.metadata?.stopRadius,
+        ext: { id: poi.poiId, name: poi.name }
+      } : {
+        x: robotPoint!.x,
+        y: robotPoint!.y,
+        yaw: robotPoint!.yaw,
+        areaId: map.areaId,
+        ext: { id: robotPoint!.poiId, name: robotPoint!.name }
+      };
+    } else {
+      if (typeof target.x !== 'number' || typeof target.y !== 'number') {
+        throw new RobotError('x and y are required unless a poiId is given', ErrorCode.INVALID_PARAM);
+      }
+      point = { x: target.x, y: target.y, yaw: target.yaw ?? 0, areaId: map.areaId };
+    }
+
+    await MovementModule.moveRobot({ robotId: robot.robotId, points: [point] });
+  }
+
+  /**
+   * Whether a stored POI belongs on a map
+   */
+  private onMap(poi: Poi, map: FloorMap): boolean {
+    return poi.areaId === map.areaId || (!!poi.floor && poi.floor === map.floor);
+  }
+
+  /**
+   * Get a map row or throw NOT_FOUND
+   */
+  private async getMap(areaId: string): Promise<FloorMap> {
+    const map = await storage.getMap(areaId);
+    if (!map) {
+      throw new RobotError(`Map not found: ${areaId}`, ErrorCode.NOT_FOUND);
+    }
+    return map;
+  }
+
+  /**
+   * Robots on a map's floor, online ones first
+   */
+  private async getRobotsOnFloor(map: FloorMap): Promise<Robot[]> {
+    const robots = (await storage.getAllRobots()).filter(robot => robot.floor === map.floor);
+    return robots.sort((a, b) =>
+      Number(b.status !== RobotStatus.OFFLINE) - Number(a.status !== RobotStatus.OFFLINE));
+  }
+
+  /**
+   * Fetch the floor's map details from the first robot on it that answers
+   * @returns Details, or null if no robot could be reached
+   */
+  private async getDetail(map: FloorMap, robots: Robot[]): Promise<RobotMapDetail | null> {
+    const cached = this.details.get(map.areaId);
+    if (cached && Date.now() - cached.fetchedAt < DETAIL_CACHE_MS) {
+      return cached;
+    }
+
+    for (const robot of robots) {
+      try {
+        const client = directApi.getRobotApiClient(robot.robotId);
+        const current = await client.getCurrentMap();
+        const details = await client.getMapDetails(current.id);
+        const points: any[] = (await client.getAllMapPoints()) ?? [];
+
+        const detail: RobotMapDetail = {
+          robotId: robot.robotId,
+          grid: details.grid_resolution ? {
+            originX: Number(details.grid_origin_x),
+            originY: Number(details.grid_origin_y),
+            resolution: Number(details.grid_resolution)
+          } : null,
+          imageUrl: details.image_url || null,
+          points: points.map(point => ({
+            poiId: point.poiId,
+            name: point.name,
+            type: point.type,
+            x: point.x,
+            y: point.y,
+            yaw: point.yaw ?? 0,
+            stored: false
+          })),
+          fetchedAt: Date.now()
+        };
+        this.details.set(map.areaId, detail);
+        return detail;
+      } catch (error) {
+        console.warn(`Could not get map details for ${map.areaId} from robot ${robot.robotId}:`,
+          error instanceof Error ? error.message : error);
+      }
+    }
+
+    return null;
+  }
+}
+
+// Create singleton instance
+export const mapViewer = new MapViewer();
@@ -1,8 +1,19 @@
 import { storage } from '../storage';
 import { RobotError, ErrorCode, logError } from './errors';
 import * as sdk from './sdk';
-import { TaskPoint, StepAction } from '@shared/schema';
+import { TaskPoint, StepAction, TaskType } from '@shared/schema';
 import * as directApi from './direct-api';
+import { chargerLeases } from './charger-leases';
+import { mapSync } from './map-sync';
+import { floorRouter } from './floor-router';
+import { trafficManager } from './traffic';
+import { geofences } from './geofences';
+
+// How long a single move may take before it is given up on
+const MOVE_TIMEOUT_MS = 5 * 60000;
+
+// How often a move's state is polled
+const MOVE_POLL_MS = 1000;
 
 // Command types for different movement operations
 export interface MoveCommand {
@@ -15,6 +26,8 @@ export interface MoveCommand {
   speed?: number;
   type?: string; // 'standard', 'charge', 'along_given_route', etc.
   accuracy?: number; // Target accuracy in meters
+  wait?: boolean; // Wait for a single-point move to finish; failed, cancelled or timed-out moves throw
+  onMove?: (moveId: string) => void; // Called with each move action's ID as it is created
 }
 
 export interface StopCommand {
@@ -70,6 +83,16 @@ export class MovementModule {
         await storage.updateRobotStatus(command.robotId, robot.status || 'online', robot.batteryLevel || null, mapObj.floor);
       }
       
+      // Compare the new map's points with ours before the robot takes its next task
+      try {
+        await mapSync.scan(command.robotId, 'map_changed');
+      } catch (error) {
+        console.warn(`Map sync after map change failed for robot ${command.robotId}:`, error instanceof Error ? error.message : error);
+      }
+      
+      // Give the new map our no-go and slow zones
+      await geofences.pushToRobot(command.robotId);
+      
       return true;
     } catch (error) {
       logError(`Failed to set map for robot ${command.robotId}`, error);
@@ -121,6 +144,18 @@ export class MovementModule {
    * Move robot to a series of points
    */
   static async moveRobot(command: MoveCommand): Promise<boolean> {
+    // Refuse POIs that changed on the robot's map until the change is approved
+    mapSync.assertCurrent(command.points ?? []);
+    
+    // Refuse targets in no-go zones and slow down through slow zones
+    await geofences.assertAllowed(command.points ?? []);
+    const speed = await geofences.clampSpeed(command.robotId, command.points ?? [], command.speed);
+    
+    // Wait for any traffic zone on the way to the first point
+    if (command.points?.length) {
+      await trafficManager.acquire(command.robotId, command.points[0]);
+    }
+    
     try {
       // First verify robot availability
       await sdk.verifyRobotAvailability(command.robotId);
@@ -139,30 +174,32 @@ export class MovementModule {
         name: `Movement_${new Date().toISOString()}`,
         robotId: command.robotId,
         status: 'pending',
-        taskType: 'movement',
+        taskType: TaskType.MOVEMENT,
         priority: 'normal',
         runMode: command.runMode || 0,
         runType: command.runType || 0,
         routeMode: command.routeMode || 1,
         ignorePublicSite: command.ignorePublicSite || false,
-        speed: command.speed || -1,
+        speed: speed || -1,
         points: command.points,
         currentPoint: null,
         returnPoint: null
       });
       
       // Using AutoXing direct API to move the robot
+      const client = directApi.getRobotApiClient(command.robotId);
       const firstPoint = command.points[0];
       
       // Create move action for the first point
-      const moveResult = await directApi.createMoveAction(command.robotId, {
+      const moveId = await client.createMoveAction(command.robotId, {
         x: firstPoint.x,
         y: firstPoint.y,
         yaw: firstPoint.yaw,
         type: command.type || 'standard',
-        speed: command.speed,
+        speed,
         accuracy: command.accuracy || 0.2
       });
+      command.onMove?.(String(moveId));
       
       // If we have more than one point, we'll need to queue the next moves
       // and monitor the current move's progress
@@ -180,14 +217,18 @@ export class MovementModule {
                 // Update the current point in the database
                 await storage.updateTaskCurrentPoint(taskId, nextPoint);
                 
+                await trafficManager.acquire(command.robotId, nextPoint);
+                
                 // Create the next move action
-                await directApi.createMoveAction(command.robotId, {
+                const nextMoveId = await client.createMoveAction(command.robotId, {
                   x: nextPoint.x,
                   y: nextPoint.y,
                   yaw: nextPoint.yaw,
                   type: command.type || 'standard',
+                  speed,
                   accuracy: command.accuracy || 0.2
                 });
+                command.onMove?.(String(nextMoveId));
               } catch (error) {
                 logError(`Failed to move to next point for robot ${command.robotId}`, error);
                 clearTimeout(timeout);
@@ -232,7 +273,10 @@ export class MovementModule {
         });
       }
       
-      // For single point moves, we'll just return success after creating the move action
+      // Single point moves return once the move is created, unless the caller waits for the robot to arrive
+      if (command.wait) {
+        await MovementModule.waitForMove(command.robotId, moveId, firstPoint.ext?.name ?? `(${firstPoint.x}, ${firstPoint.y})`);
+      }
       return true;
     } catch (error) {
       logError(`Failed to move robot ${command.robotId}`, error);
@@ -243,28 +287,51 @@ export class MovementModule {
     }
   }
   
+  /**
+   * Poll a move action until the robot finishes it
+   * @param target Where the move goes, for error messages
+   */
+  static async waitForMove(robotId: string, moveId: string, target: string): Promise<void> {
+    const client = directApi.getRobotApiClient(robotId);
+    const deadline = Date.now() + MOVE_TIMEOUT_MS;
+    
+    while (Date.now() < deadline) {
+      const move = await client.getMove(moveId);
+      if (move.state === 'succeeded') {
+        return;
+      }
+      if (move.state === 'failed' || move.state === 'cancelled') {
+        throw new RobotError(
+          `Move to ${target} ${move.state}: ${move.fail_reason_str || 'no reason given'}`,
+          ErrorCode.MOVEMENT_ERROR
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, MOVE_POLL_MS));
+    }
+    
+    throw new RobotError(`Move to ${target} timed out`, ErrorCode.MOVEMENT_ERROR);
+  }
+  
   /**
    * Move robot across multiple floors
+   * Points on other floors are reached by elevator; see FloorRouter for the steps of each ride.
    */
   static async moveRobotMultiFloor(command: MoveCommand): Promise<boolean> {
+    // Refuse POIs that changed on the robot's map until the change is approved
+    mapSync.assertCurrent(command.points ?? []);
+    
+    // Plan the route first so configuration problems are reported as they are
+    const plan = await floorRouter.plan(command.robotId, command.points ?? []);
+    mapSync.assertCurrent(floorRouter.planPoints(plan));
+    await geofences.assertAllowed(floorRouter.planPoints(plan));
+    
+    // Generate a task ID for this movement
+    const taskId = sdk.generateTaskId();
+    
     try {
       // First verify robot availability
       await sdk.verifyRobotAvailability(command.robotId);
       
-      // Check if the points are valid
-      if (!command.points || command.points.length === 0) {
-        throw new RobotError('No points provided for movement', ErrorCode.INVALID_POINT);
-      }
-      
-      // Check if points span multiple floors/areas
-      const areas = new Set(command.points.map(point => point.areaId));
-      if (areas.size < 2) {
-        throw new RobotError('Multi-floor movement requires points from different floors/areas', ErrorCode.INVALID_POINT);
-      }
-      
-      // Generate a task ID for this movement
-      const taskId = sdk.generateTaskId();
-      
       // Create a task in the database
       await storage.createTask({
         taskId,
@@ -282,25 +349,18 @@ export class MovementModule {
         currentPoint: null,
         returnPoint: null
       });
+      await storage.updateTaskStatus(taskId, 'in_progress');
       
-      // Execute the task
-      await sdk.executeTask(
-        taskId,
-        command.robotId,
-        command.points,
-        'multi_floor',
-        {
-          runMode: command.runMode,
-          runType: command.runType,
-          routeMode: command.routeMode,
-          ignorePublicSite: command.ignorePublicSite,
-          speed: command.speed
-        }
-      );
+      // Drive the route step by step, riding elevators between floors
+      await floorRouter.execute(plan, taskId);
       
+      await storage.updateTaskStatus(taskId, 'completed');
+      await storage.updateTaskCompletionTime(taskId, new Date());
       return true;
     } catch (error) {
       logError(`Failed to move robot ${command.robotId} across multiple floors`, error);
+      await storage.updateTaskStatus(taskId, 'failed').catch(() => undefined);
+      await storage.updateTaskCompletionTime(taskId, new Date()).catch(() => undefined);
       throw new RobotError(
         `Failed to move robot across multiple floors: ${error instanceof Error ? error.message : 'Unknown error'}`,
         ErrorCode.MOVEMENT_FAILED
@@ -321,7 +381,7 @@ export class MovementModule {
       }
       
       // Cancel current move action using AutoXing API
-      await directApi.cancelMoveAction(command.robotId);
+      await directApi.getRobotApiClient(command.robotId).cancelCurrentMove();
       
       // Get active tasks for the robot
       const activeTasks = await storage.getActiveTasksByRobot(command.robotId);
@@ -430,8 +490,11 @@ export class MovementModule {
         throw new RobotError(`No charging points found on floor: ${floorId}`, ErrorCode.INVALID_POINT);
       }
       
-      // Use the first available charging point
-      const chargingPoint = chargingPoints[0];
+      // Lease the nearest charging point no other robot holds
+      const chargingPoint = await chargerLeases.tryLease(command.robotId, chargingPoints);
+      if (!chargingPoint) {
+        throw new RobotError(`Every charging point on floor ${floorId} is taken`, ErrorCode.ROBOT_BUSY);
+      }
       
       // Create a task point for the charging station
       const taskPoint: TaskPoint = {
@@ -553,6 +616,7 @@ export class MovementModule {
       
       return true;
     } catch (error) {
+      await chargerLeases.releaseIfUndocked(command.robotId, 'move to charging station failed');
       logError(`Failed to send robot ${command.robotId} to charging station`, error);
       throw new RobotError(
         `Failed to send robot to charging station: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import { TASK_EVENT_CATEGORY } from './task-workflows';
+import { TelemetryMetric } from '@shared/schema';
+
+// Replay window when the caller gives neither a task nor a range
+const DEFAULT_WINDOW_MS = 3600000;
+
+// Longest requested range, so the trail stays a few thousand points at 10 s samples (task replays cover the whole run)
+const MAX_WINDOW_MS = 24 * 3600000;
+
+// Time shown before a task starts and after it ends, so the approach and departure are visible
+const TASK_PADDING_MS = 30000;
+
+// Most step events read for one replay
+const MAX_EVENTS = 1000;
+
+// Query string time; an empty value means unset
+const queryDate = z.preprocess(value => value === '' ? undefined : value, z.coerce.date().optional());
+
+// Replay query as sent by clients: a task, or a time range
+const replayQuerySchema = z.object({
+  taskId: z.string().trim().min(1).optional(),
+  from: queryDate,
+  to: queryDate
+});
+
+// Robot pose at one moment of a replay
+export interface ReplayPose {
+  at: Date;
+  x: number;
+  y: number;
+  ori: number;
+}
+
+// Something that happened during a replay, placed where the robot was at the time
+export interface ReplayMarker {
+  at: Date;
+  kind: 'step' | 'task' | 'alert';
+  event: string;
+  label: string;
+  taskId: string | null;
+  x: number | null;
+  y: number | null;
+}
+
+// A robot's trail over a time range, with its step transitions and alerts
+export interface PathReplay {
+  robotId: string;
+  taskId: string | null;
+  from: Date;
+  to: Date;
+  path: ReplayPose[];
+  markers: ReplayMarker[];
+}
+
+/**
+ * Where the robot was at a moment, interpolated between the samples either side
+ */
+function poseAt(path: ReplayPose[], at: Date): { x: number; y: number } | null {
+  if (path.length === 0) {
+    return null;
+  }
+
+  const time = at.getTime();
+  const next = path.findIndex(pose => pose.at.getTime() >= time);
+  if (next === -1) {
+    return path[path.length - 1];
+  }
+  if (next === 0) {
+    return path[0];
+  }
+
+  const before = path[next - 1];
+  const after = path[next];
+  const span = after.at.getTime() - before.at.getTime();
+  const ratio = span > 0 ? (time - before.at.getTime()) / span : 0;
+  return { x: before.x + (after.x - before.x) * ratio, y: before.y + (after.y - before.y) * ratio };
+}
+
+/**
+ * Path replay
+ * Rebuilds where a robot drove from its recorded poses, with task step transitions and alerts
+ * placed at the spots they happened.
+ */
+class PathReplayService {
+  /**
+   * Get a robot's replay for a task or a time range
+   * @param query taskId, or from and to (default the last hour, at most 24 hours)
+   */
+  async getReplay(robotId: string, query: unknown): Promise<PathReplay> {
+    const { taskId, from, to } = await this.resolveRange(robotId, parseInput(replayQuerySchema, query));
+
+    const samples = await storage.getTelemetrySamples({ robotId, metric: TelemetryMetric.POSE, from, to });
+    const path: ReplayPose[] = samples
+      .filter(sample => typeof sample.values.x === 'number' && typeof sample.values.y === 'number')
+      .map(sample => ({
+        at: sample.recordedAt,
+        x: sample.values.x as number,
+        y: sample.values.y as number,
+        ori: typeof sample.values.ori === 'number' ? sample.values.ori : 0
+      }));
+
+    const [events, alerts] = await Promise.all([
+      storage.getRobotEvents({ robotId, category: TASK_EVENT_CATEGORY, from, to, limit: MAX_EVENTS }),
+      storage.getErrorLogsByRobot(robotId, { from, to })
+    ]);
+
+    const markers: ReplayMarker[] = [
+      ...events
+        .filter(event => !taskId || event.data?.taskId === taskId)
+        .map(event => ({
+          at: event.createdAt!,
+          kind: event.event === 'step_started' ? 'step' as const : 'task' as const,
+          event: event.event,
+          label: event.message,
+          taskId: event.data?.taskId ?? null
+        })),
+      ...alerts.map(alert => ({
+        at: alert.timestamp!,
+        kind: 'alert' as const,
+        event: String(alert.errorCode),
+        label: alert.errorMessage,
+        taskId: alert.taskId
+      }))
+    ]
+      .map(marker => {
+        const position = poseAt(path, marker.at);
+        return { ...marker, x: position?.x ?? null, y: position?.y ?? null };
+      })
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    return { robotId, taskId: taskId ?? null, from, to, path, markers };
+  }
+
+  /**
+   * Time range to replay: the task's run (padded) or the requested range
+   */
+  private async resolveRange(
+    robotId: string,
+    query: { taskId?: string; from?: Date; to?: Date }
+  ): Promise<{ taskId?: string; from: Date; to: Date }> {
+    if (!(await storage.getRobot(robotId))) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    let { from, to } = query;
+    if (query.taskId) {
+      const task = await storage.getTask(query.taskId);
+      if (!task) {
+        throw new RobotError(`Task not found: ${query.taskId}`, ErrorCode.NOT_FOUND);
+      }
+      if (task.robotId !== robotId) {
+        throw new RobotError(`Task ${task.taskId} was not run by robot ${robotId}`, ErrorCode.INVALID_PARAM);
+      }
+      if (!task.startedAt) {
+        throw new RobotError(`Task ${task.taskId} has not started`, ErrorCode.INVALID_PARAM);
+      }
+      from = new Date(task.startedAt.getTime() - TASK_PADDING_MS);
+      to = new Date((task.completedAt ?? new Date()).getTime() + TASK_PADDING_MS);
+    }
+
+    to = to ?? new Date();
+    from = from ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+    if (from.getTime() >= to.getTime()) {
+      throw new RobotError('from must be before to', ErrorCode.INVALID_PARAM);
+    }
+    if (!query.taskId && to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+      throw new RobotError('Replays can cover at most 24 hours', ErrorCode.INVALID_PARAM);
+    }
+    return { taskId: query.taskId, from, to };
+  }
+}
+
+// Create singleton instance
+export const pathReplay = new PathReplayService();
@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { mapCatalog } from './map-catalog';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all POIs (?areaId= limits them to one map)
+ * GET /api/pois
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const areaId = typeof req.query.areaId === 'string' ? req.query.areaId : undefined;
+    res.json(await mapCatalog.listPois(areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a POI
+ * GET /api/pois/:poiId
+ */
+router.get('/:poiId', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.getPoi(req.params.poiId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a POI
+ * POST /api/pois
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await mapCatalog.createPoi(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a POI
+ * PUT /api/pois/:poiId
+ */
+router.put('/:poiId', async (req: Request, res: Response) => {
+  try {
+    res.json(await mapCatalog.updatePoi(req.params.poiId, req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a POI that nothing depends on
+ * DELETE /api/pois/:poiId
+ */
+router.delete('/:poiId', async (req: Request, res: Response) => {
+  try {
+    await mapCatalog.deletePoi(req.params.poiId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,21 @@
+import { storage } from '../storage';
+
+// Logs one module's events against a robot
+export type RobotEventRecorder = (robotId: string, event: string, message: string, data?: Record<string, any>) => Promise<void>;
+
+/**
+ * Build a recorder that logs a module's robot events to the console and stores them under one category
+ * A failure to store an event is logged, never thrown.
+ * @param source Name the console lines start with, e.g. "Traffic"
+ */
+export function robotEventRecorder(category: string, source: string): RobotEventRecorder {
+  return async (robotId, event, message, data = {}) => {
+    console.log(`${source} [${robotId}] ${event}: ${message}`);
+
+    try {
+      await storage.createRobotEvent({ robotId, category, event, message, data });
+    } catch (error) {
+      console.error(`Failed to log ${source.toLowerCase()} event for robot ${robotId}:`, error);
+    }
+  };
+}
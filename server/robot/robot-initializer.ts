@@ -1,6 +1,7 @@
 import { storage } from '../storage';
 import * as directApi from './direct-api';
 import { robotMonitor } from './robot-monitor';
+import { getSimulatorConnectionConfig } from './simulator';
 
 /**
  * Initialize robot for API access with proper connection settings
@@ -46,10 +47,11 @@ export async function initializeRobot(robotId: string, config?: {
       appId: credentials?.appId || '667a51a4d948433081a272c78d10a8a4'
     };
     
-    // Merge with provided config (if any)
+    // Merge with provided config (if any); the simulator overrides the address of the robot it stands in for
     const finalConfig = {
       ...defaultConfig,
-      ...config
+      ...config,
+      ...getSimulatorConnectionConfig(robotId)
     };
     
     // Get existing metadata
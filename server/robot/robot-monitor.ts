@@ -2,6 +2,7 @@ import * as directApi from './direct-api';
 import { storage } from '../storage';
 import { websocketHandler } from '../websocket';
 import { ErrorCode, RobotError, logError } from './errors';
+import { TaskType, TelemetryMetric, type TelemetryValues } from '@shared/schema';
 
 // Robot monitor interface
 interface RobotMonitorInterface {
@@ -10,6 +11,38 @@ interface RobotMonitorInterface {
   isMonitoring(robotId: string): boolean;
 }
 
+// Another robot a robot reports near it, in the reporting robot's map coordinates
+export interface NearbyRobot {
+  robotId: string;
+  x: number;
+  y: number;
+}
+
+// Latest telemetry received from a robot's WebSocket topics
+export interface RobotLiveState {
+  pose?: { x: number; y: number; ori: number };
+  nearbyRobots?: NearbyRobot[];
+  batteryLevel?: number;
+  charging?: boolean;
+  moveState?: string;
+  lastUpdate: Date;
+}
+
+// Called when a robot finishes a move and may be ready for new work
+type RobotIdleListener = (robotId: string) => void;
+
+// Called with every /battery_state reading
+type BatteryListener = (robotId: string, batteryLevel: number, charging: boolean) => void;
+
+// Called with every /tracked_pose reading
+type PoseListener = (robotId: string, pose: { x: number; y: number; ori: number }) => void;
+
+// Called with every battery, pose, planning and wheel reading, for recording
+type TelemetryListener = (robotId: string, metric: string, values: TelemetryValues) => void;
+
+// Move states that mean the robot is no longer driving
+const FINISHED_MOVE_STATES = ['succeeded', 'failed', 'cancelled'];
+
 // Robot connection manager
 class RobotMonitor implements RobotMonitorInterface {
   private monitoredRobots: Map<string, {
@@ -18,6 +51,11 @@ class RobotMonitor implements RobotMonitorInterface {
     positionInterval?: NodeJS.Timeout;
     topics: string[];
   }> = new Map();
+  private robotStates: Map<string, RobotLiveState> = new Map();
+  private idleListeners: RobotIdleListener[] = [];
+  private batteryListeners: BatteryListener[] = [];
+  private poseListeners: PoseListener[] = [];
+  private telemetryListeners: TelemetryListener[] = [];
 
   /**
    * Start monitoring a robot
@@ -56,6 +94,11 @@ class RobotMonitor implements RobotMonitorInterface {
           const batteryLevel = message.percentage * 100;
           const chargingStatus = message.power_supply_status === 'charging' ? 'charging' : 'discharging';
           
+          this.updateRobotState(robotId, {
+            batteryLevel,
+            charging: chargingStatus === 'charging'
+          });
+          
           // Update robot status in database
           storage.updateRobotStatus(robotId, chargingStatus, batteryLevel);
           
@@ -67,6 +110,14 @@ class RobotMonitor implements RobotMonitorInterface {
             current: message.current,
             lastSeen: new Date()
           });
+          
+          this.notifyBatteryUpdate(robotId, batteryLevel, chargingStatus === 'charging');
+          this.notifyTelemetry(robotId, TelemetryMetric.BATTERY, {
+            level: batteryLevel,
+            voltage: message.voltage ?? null,
+            current: message.current ?? null,
+            charging: chargingStatus === 'charging'
+          });
         } 
         else if (message.topic === '/tracked_pose') {
           // Handle position updates
@@ -76,6 +127,10 @@ class RobotMonitor implements RobotMonitorInterface {
             floor: (robot.floor || 'Floor1')
           };
           
+          this.updateRobotState(robotId, {
+            pose: { x: position.x, y: position.y, ori: message.ori }
+          });
+          
           // Update robot position in database
           storage.updateRobotPosition(robotId, position);
           
@@ -88,15 +143,38 @@ class RobotMonitor implements RobotMonitorInterface {
             },
             lastSeen: new Date()
           });
+          
+          this.notifyPoseUpdate(robotId, { x: position.x, y: position.y, ori: message.ori });
+          this.notifyTelemetry(robotId, TelemetryMetric.POSE, { x: position.x, y: position.y, ori: message.ori ?? null });
+        }
+        else if (message.topic === '/nearby_robots') {
+          // Handle robots seen nearby, including ones this server doesn't manage
+          const nearbyRobots: NearbyRobot[] = (message.robots || [])
+            .filter((nearby: any) => Array.isArray(nearby.pos))
+            .map((nearby: any) => ({
+              robotId: String(nearby.sn ?? nearby.robot_id ?? 'unknown'),
+              x: nearby.pos[0],
+              y: nearby.pos[1]
+            }));
+          
+          this.updateRobotState(robotId, { nearbyRobots });
+          
+          websocketHandler.broadcastRobotUpdate(robotId, {
+            nearbyRobots,
+            lastSeen: new Date()
+          });
         }
         else if (message.topic === '/planning_state') {
           // Handle planning/movement state updates
           const moveState = message.move_state;
           const actionType = message.action_type;
           
-          // Find active tasks for this robot
+          const previousMoveState = this.robotStates.get(robotId)?.moveState;
+          this.updateRobotState(robotId, { moveState });
+          
+          // Finish the robot's ad-hoc move tasks; workflows and queued tasks track their own moves
           storage.getActiveTasksByRobot(robotId).then(tasks => {
-            tasks.forEach(task => {
+            tasks.filter(task => task.taskType === TaskType.MOVEMENT).forEach(task => {
               // Update task status based on movement state
               if (moveState === 'succeeded') {
                 // For completed movement, update task status
@@ -118,14 +196,16 @@ class RobotMonitor implements RobotMonitorInterface {
                   priority: true
                 };
                 
+                const failedAt = new Date();
                 storage.updateTaskErrorDetails(task.taskId, errorDetails);
                 storage.updateTaskStatus(task.taskId, 'failed');
+                storage.updateTaskCompletionTime(task.taskId, failedAt);
                 
                 // Broadcast task update
                 websocketHandler.broadcastTaskUpdate(task.taskId, {
                   status: 'failed',
                   errorDetails,
-                  completedAt: new Date()
+                  completedAt: failedAt
                 });
               }
             });
@@ -140,6 +220,18 @@ class RobotMonitor implements RobotMonitorInterface {
             remainingDistance: message.remaining_distance,
             lastSeen: new Date()
           });
+          
+          this.notifyTelemetry(robotId, TelemetryMetric.PLANNING, {
+            moveState: moveState ?? null,
+            actionType: actionType ?? null,
+            actionId: message.action_id != null ? String(message.action_id) : null,
+            remainingDistance: message.remaining_distance ?? null
+          });
+          
+          // Let listeners know the robot stopped driving
+          if (FINISHED_MOVE_STATES.includes(moveState) && moveState !== previousMoveState) {
+            this.notifyRobotIdle(robotId);
+          }
         }
         else if (message.topic === '/wheel_state') {
           // Handle wheel state updates
@@ -157,6 +249,11 @@ class RobotMonitor implements RobotMonitorInterface {
             emergencyStop,
             lastSeen: new Date()
           });
+          
+          this.notifyTelemetry(robotId, TelemetryMetric.WHEEL, {
+            controlMode: controlMode ?? null,
+            emergencyStop: Boolean(emergencyStop)
+          });
         }
         else if (message.topic === '/slam/state') {
           // Handle positioning state updates
@@ -279,6 +376,7 @@ class RobotMonitor implements RobotMonitorInterface {
       
       // Remove from monitored robots
       this.monitoredRobots.delete(robotId);
+      this.robotStates.delete(robotId);
       
       console.log(`Stopped monitoring robot ${robotId}`);
     } catch (error) {
@@ -295,6 +393,112 @@ class RobotMonitor implements RobotMonitorInterface {
     return this.monitoredRobots.has(robotId);
   }
 
+  /**
+   * Get the latest telemetry received from a robot
+   * @param robotId Robot ID to look up
+   * @returns Live state, or undefined if nothing has been received yet
+   */
+  getRobotState(robotId: string): RobotLiveState | undefined {
+    return this.robotStates.get(robotId);
+  }
+
+  /**
+   * Register a listener for robots becoming idle
+   * @param listener Called with the robot ID
+   */
+  onRobotIdle(listener: RobotIdleListener): void {
+    this.idleListeners.push(listener);
+  }
+
+  /**
+   * Notify listeners that a robot has become idle
+   * @param robotId Robot ID that became idle
+   */
+  notifyRobotIdle(robotId: string): void {
+    for (const listener of this.idleListeners) {
+      try {
+        listener(robotId);
+      } catch (error) {
+        console.error(`Robot idle listener failed for robot ${robotId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a listener for battery readings
+   * @param listener Called with the robot ID, battery percentage and charging flag
+   */
+  onBatteryUpdate(listener: BatteryListener): void {
+    this.batteryListeners.push(listener);
+  }
+
+  /**
+   * Notify listeners of a battery reading
+   */
+  private notifyBatteryUpdate(robotId: string, batteryLevel: number, charging: boolean): void {
+    for (const listener of this.batteryListeners) {
+      try {
+        listener(robotId, batteryLevel, charging);
+      } catch (error) {
+        console.error(`Battery listener failed for robot ${robotId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a listener for pose readings
+   * @param listener Called with the robot ID and its pose in map coordinates
+   */
+  onPoseUpdate(listener: PoseListener): void {
+    this.poseListeners.push(listener);
+  }
+
+  /**
+   * Notify listeners of a pose reading
+   */
+  private notifyPoseUpdate(robotId: string, pose: { x: number; y: number; ori: number }): void {
+    for (const listener of this.poseListeners) {
+      try {
+        listener(robotId, pose);
+      } catch (error) {
+        console.error(`Pose listener failed for robot ${robotId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a listener for telemetry readings
+   * @param listener Called with the robot ID, the metric (battery, pose, planning or wheel) and its values
+   */
+  onTelemetry(listener: TelemetryListener): void {
+    this.telemetryListeners.push(listener);
+  }
+
+  /**
+   * Notify listeners of a telemetry reading
+   */
+  private notifyTelemetry(robotId: string, metric: string, values: TelemetryValues): void {
+    for (const listener of this.telemetryListeners) {
+      try {
+        listener(robotId, metric, values);
+      } catch (error) {
+        console.error(`Telemetry listener failed for robot ${robotId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Merge new telemetry into a robot's live state
+   */
+  private updateRobotState(robotId: string, update: Partial<RobotLiveState>): void {
+    const current = this.robotStates.get(robotId);
+    this.robotStates.set(robotId, {
+      ...current,
+      ...update,
+      lastUpdate: new Date()
+    });
+  }
+
   /**
    * Start monitoring all known robots
    */
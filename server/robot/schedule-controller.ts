@@ -0,0 +1,82 @@
+import { Router, Request, Response } from 'express';
+import { scheduler } from './scheduler';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Get all schedules with their next run
+ * GET /api/schedules
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json(await scheduler.listSchedules());
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a schedule
+ * GET /api/schedules/:scheduleId
+ */
+router.get('/:scheduleId', async (req: Request, res: Response) => {
+  try {
+    res.json(await scheduler.getSchedule(req.params.scheduleId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a schedule
+ * POST /api/schedules
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await scheduler.createSchedule(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a schedule
+ * PUT /api/schedules/:scheduleId
+ */
+router.put('/:scheduleId', async (req: Request, res: Response) => {
+  try {
+    res.json(await scheduler.updateSchedule(req.params.scheduleId, req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a schedule
+ * DELETE /api/schedules/:scheduleId
+ */
+router.delete('/:scheduleId', async (req: Request, res: Response) => {
+  try {
+    await scheduler.deleteSchedule(req.params.scheduleId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Run a schedule now
+ * POST /api/schedules/:scheduleId/run
+ */
+router.post('/:scheduleId/run', async (req: Request, res: Response) => {
+  try {
+    res.json(await scheduler.runNow(req.params.scheduleId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
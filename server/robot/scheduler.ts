@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import { fleetDispatcher } from './dispatcher';
+import { TaskWorkflowFactory } from './task-workflows';
+import { isValidTimeZone, matchesCron, nextCronRun, parseCron, toZonedTime, type ZonedTime } from './cron';
+import {
+  insertScheduleSchema,
+  ScheduleOutcome,
+  type BlackoutWindow,
+  type Schedule
+} from '@shared/schema';
+
+// How often schedules are checked; well under a minute so no cron minute is missed
+const TICK_INTERVAL_MS = 15000;
+
+// HH:MM on a 24-hour clock
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Schedule fields as sent by clients
+const scheduleInputSchema = insertScheduleSchema.extend({
+  scheduleId: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  cron: z.string().trim().min(1),
+  timezone: z.string().trim().min(1).optional(),
+  blackouts: z.array(z.object({
+    start: z.string().regex(CLOCK_TIME, 'Expected HH:MM'),
+    end: z.string().regex(CLOCK_TIME, 'Expected HH:MM'),
+    days: z.array(z.number().int().min(0).max(6)).optional()
+  })).optional(),
+  isActive: z.boolean().optional()
+}).omit({ lastRunAt: true, lastOutcome: true, lastTaskId: true });
+const scheduleUpdateSchema = scheduleInputSchema.omit({ scheduleId: true }).partial();
+
+// A schedule with the next time it will fire
+export type ScheduleView = Schedule & { nextRunAt: Date | null };
+
+/**
+ * Minutes since midnight of an HH:MM time
+ */
+function clockMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a wall-clock time falls in a blackout window; windows past midnight belong to the day they start
+ */
+function inBlackout(windows: BlackoutWindow[], time: ZonedTime): boolean {
+  const now = time.hour * 60 + time.minute;
+  const onDay = (window: BlackoutWindow, weekday: number) => !window.days?.length || window.days.includes(weekday);
+
+  return windows.some(window => {
+    const start = clockMinutes(window.start);
+    const end = clockMinutes(window.end);
+    if (start <= end) {
+      return onDay(window, time.weekday) && now >= start && now < end;
+    }
+    return (onDay(window, time.weekday) && now >= start) || (onDay(window, (time.weekday + 6) % 7) && now < end);
+  });
+}
+
+/**
+ * Start of the minute an instant falls in
+ */
+function minuteOf(date: Date): number {
+  return Math.floor(date.getTime() / 60000);
+}
+
+/**
+ * Task scheduler
+ * Creates tasks on cron schedules (e.g. an hourly patrol), skipping runs that fall in a blackout
+ * window or find no robot available. Runs missed while the server was down are not made up.
+ */
+class TaskScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Set<string> = new Set();
+
+  /**
+   * Start checking schedules
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error('Schedule check failed:', error);
+      });
+    }, TICK_INTERVAL_MS);
+    console.log('Task scheduler started');
+  }
+
+  /**
+   * Stop checking schedules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get every schedule with its next run
+   */
+  async listSchedules(): Promise<ScheduleView[]> {
+    const schedules = await storage.getAllSchedules();
+    return schedules.map(schedule => this.toView(schedule));
+  }
+
+  /**
+   * Get a schedule with its next run, or throw NOT_FOUND
+   */
+  async getSchedule(scheduleId: string): Promise<ScheduleView> {
+    return this.toView(await this.findSchedule(scheduleId));
+  }
+
+  /**
+   * Create a schedule
+   */
+  async createSchedule(input: unknown): Promise<ScheduleView> {
+    const data = parseInput(scheduleInputSchema, input);
+    if (await storage.getSchedule(data.scheduleId)) {
+      throw new RobotError(`Schedule ${data.scheduleId} already exists`, ErrorCode.CONFLICT);
+    }
+    this.assertValidSchedule(data);
+
+    const schedule = await storage.createSchedule({
+      ...data,
+      timezone: data.timezone ?? 'UTC',
+      blackouts: data.blackouts ?? [],
+      isActive: data.isActive ?? true
+    });
+    return this.toView(schedule);
+  }
+
+  /**
+   * Update a schedule
+   */
+  async updateSchedule(scheduleId: string, input: unknown): Promise<ScheduleView> {
+    const schedule = await this.findSchedule(scheduleId);
+    const data = parseInput(scheduleUpdateSchema, input);
+    this.assertValidSchedule({ ...schedule, ...data });
+
+    const updated = await storage.updateSchedule(scheduleId, data);
+    return this.toView(updated!);
+  }
+
+  /**
+   * Delete a schedule (tasks it already created are left alone)
+   */
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.findSchedule(scheduleId);
+    await storage.deleteSchedule(scheduleId);
+  }
+
+  /**
+   * Run a schedule now, outside its cron times; blackouts don't apply but a robot must be available
+   */
+  async runNow(scheduleId: string): Promise<ScheduleView> {
+    const schedule = await this.findSchedule(scheduleId);
+    return this.toView(await this.run(schedule, new Date(), true));
+  }
+
+  /**
+   * Fire every active schedule whose cron matches the current minute
+   */
+  private async tick(): Promise<void> {
+    const now = new Date();
+
+    for (const schedule of await storage.getAllSchedules()) {
+      if (!schedule.isActive || this.running.has(schedule.scheduleId)) {
+        continue;
+      }
+      if (schedule.lastRunAt && minuteOf(schedule.lastRunAt) === minuteOf(now)) {
+        continue;
+      }
+
+      try {
+        if (matchesCron(parseCron(schedule.cron), toZonedTime(now, schedule.timezone))) {
+          await this.run(schedule, now, false);
+        }
+      } catch (error) {
+        console.error(`Failed to check schedule ${schedule.scheduleId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Create the schedule's task unless the run has to be skipped, and record the outcome
+   */
+  private async run(schedule: Schedule, now: Date, manual: boolean): Promise<Schedule> {
+    this.running.add(schedule.scheduleId);
+    let outcome: string;
+    let taskId: string | null = null;
+
+    try {
+      if (!manual && inBlackout(schedule.blackouts ?? [], toZonedTime(now, schedule.timezone))) {
+        outcome = ScheduleOutcome.SKIPPED_BLACKOUT;
+      } else if (!(await fleetDispatcher.hasIdleRobot(schedule.task.robotId))) {
+        outcome = ScheduleOutcome.SKIPPED_NO_ROBOT;
+      } else {
+        const task = await TaskWorkflowFactory.createTask({
+          ...schedule.task,
+          name: schedule.task.name || schedule.name,
+          robotId: schedule.task.robotId || null,
+          priority: schedule.task.priority
+        });
+        outcome = ScheduleOutcome.CREATED;
+        taskId = task.taskId;
+      }
+    } catch (error) {
+      console.error(`Schedule ${schedule.scheduleId} failed to create its task:`, error);
+      outcome = ScheduleOutcome.FAILED;
+    } finally {
+      this.running.delete(schedule.scheduleId);
+    }
+
+    console.log(`Schedule ${schedule.scheduleId} (${schedule.name}): ${outcome}${taskId ? ` as task ${taskId}` : ''}`);
+    const updated = await storage.updateSchedule(schedule.scheduleId, {
+      lastRunAt: now,
+      lastOutcome: outcome,
+      lastTaskId: taskId ?? schedule.lastTaskId
+    });
+    return updated ?? schedule;
+  }
+
+  private async findSchedule(scheduleId: string): Promise<Schedule> {
+    const schedule = await storage.getSchedule(scheduleId);
+    if (!schedule) {
+      throw new RobotError(`Schedule not found: ${scheduleId}`, ErrorCode.NOT_FOUND);
+    }
+    return schedule;
+  }
+
+  /**
+   * Check the cron expression, time zone and task type
+   */
+  private assertValidSchedule(schedule: { cron: string; timezone?: string | null; task: { taskType: string } }): void {
+    parseCron(schedule.cron);
+    if (schedule.timezone && !isValidTimeZone(schedule.timezone)) {
+      throw new RobotError(`Unknown time zone: ${schedule.timezone}`, ErrorCode.INVALID_PARAM);
+    }
+
+    const taskTypes = TaskWorkflowFactory.getTaskTypes();
+    if (!taskTypes.includes(schedule.task.taskType)) {
+      throw new RobotError(
+        `Invalid task type. Must be one of: ${taskTypes.join(', ')}`,
+        ErrorCode.INVALID_TASK_CONFIGURATION
+      );
+    }
+  }
+
+  private toView(schedule: Schedule): ScheduleView {
+    let nextRunAt: Date | null = null;
+    if (schedule.isActive) {
+      try {
+        nextRunAt = nextCronRun(parseCron(schedule.cron), schedule.timezone);
+      } catch (error) {
+        console.error(`Schedule ${schedule.scheduleId} has an invalid cron expression:`, error);
+      }
+    }
+    return { ...schedule, nextRunAt };
+  }
+}
+
+// Create singleton instance
+export const scheduler = new TaskScheduler();
@@ -0,0 +1,589 @@
+/**
+ * Local AutoXing Robot Simulator
+ *
+ * Stands in for the real chassis API so workflows can be exercised without
+ * hardware. Serves the subset of the REST API used by direct-api.js and
+ * publishes the WebSocket topics consumed by the RobotMonitor.
+ */
+import express, { type Request, type Response } from 'express';
+import { createServer, type Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+
+// Simulated pose on the current map
+export interface SimulatorPose {
+  x: number;
+  y: number;
+  ori: number;
+}
+
+// Simulated point of interest, published as a GeoJSON overlay feature
+export interface SimulatorPoint {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  yaw: number;
+  type: number; // AutoXing type code: 9=charger, 11=docking, 34=rack, 36=docker
+}
+
+// Simulated map definition
+export interface SimulatorMap {
+  id: number;
+  uid: string;
+  mapName: string;
+  points: SimulatorPoint[];
+}
+
+// Move action as returned by GET /chassis/moves/:id
+interface SimulatorMoveAction {
+  id: number;
+  creator: string;
+  type: string;
+  target_x: number;
+  target_y: number;
+  target_ori: number | null;
+  target_accuracy: number;
+  state: 'moving' | 'succeeded' | 'failed' | 'cancelled';
+  fail_reason: number;
+  fail_reason_str: string;
+  remaining_distance: number;
+  create_time: number;
+  last_update_time: number;
+}
+
+interface SimulatorAlert {
+  code: number;
+  level: 'info' | 'warn' | 'error';
+  msg: string;
+}
+
+export interface SimulatorOptions {
+  port?: number;
+  speed?: number;             // Movement speed in m/s
+  tickMs?: number;            // Simulation step interval
+  drainPerSecond?: number;    // Battery fraction drained per second while moving
+  idleDrainPerSecond?: number; // Battery fraction drained per second while idle
+  chargePerSecond?: number;   // Battery fraction gained per second while docked
+  initialBattery?: number;    // Battery fraction (0-1)
+  initialPose?: SimulatorPose;
+  maps?: SimulatorMap[];
+}
+
+// Default map mirrors the sample Floor 1 layout used by MemStorage
+const DEFAULT_MAPS: SimulatorMap[] = [
+  {
+    id: 1,
+    uid: 'sim-map-floor1',
+    mapName: 'Floor 1',
+    points: [
+      { id: 'sim_charger_1', name: 'Charging Station 1', x: 3.7, y: 2.1, yaw: 0, type: 9 },
+      { id: 'sim_pickup_1', name: 'Pickup 1', x: 2.41, y: 6.3, yaw: 1.57, type: 11 },
+      { id: 'sim_shelf_1', name: 'Shelf 1', x: 8.5, y: 6.3, yaw: 1.57, type: 34 },
+      { id: 'sim_shelf_2', name: 'Shelf 2', x: 8.5, y: 9.2, yaw: 1.57, type: 34 },
+      { id: 'sim_dropoff_1', name: 'Dropoff 1', x: 12.0, y: 3.4, yaw: 3.14, type: 36 }
+    ]
+  },
+  {
+    id: 2,
+    uid: 'sim-map-floor2',
+    mapName: 'Floor 2',
+    points: [
+      { id: 'sim_charger_2', name: 'Charging Station 2', x: 5.2, y: 3.4, yaw: 0, type: 9 },
+      { id: 'sim_shelf_3', name: 'Shelf 3', x: 10.1, y: 4.8, yaw: 1.57, type: 34 }
+    ]
+  }
+];
+
+const DEFAULT_PORT = 8091;
+const LOW_BATTERY_ALERT_CODE = 6001;
+const BATTERY_DEPLETED_FAIL_REASON = 6002;
+
+/**
+ * Simulated AutoXing chassis. One instance simulates one robot.
+ */
+export class RobotSimulator {
+  private options: Required<Omit<SimulatorOptions, 'maps' | 'initialPose'>>;
+  private maps: SimulatorMap[];
+  private currentMapId: number;
+  private pose: SimulatorPose;
+  private battery: number;
+  private charging = false;
+  private jackState: 'up' | 'down' = 'down';
+  private moves = new Map<number, SimulatorMoveAction>();
+  private activeMoveId: number | null = null;
+  private nextMoveId = 1;
+  private alerts: SimulatorAlert[] = [];
+  private lastPublished = { pose: 0, battery: 0 };
+
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private subscriptions = new Map<WebSocket, Set<string>>();
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = {
+      port: options.port ?? DEFAULT_PORT,
+      speed: options.speed ?? 0.8,
+      tickMs: options.tickMs ?? 200,
+      drainPerSecond: options.drainPerSecond ?? 0.0005,
+      idleDrainPerSecond: options.idleDrainPerSecond ?? 0.00005,
+      chargePerSecond: options.chargePerSecond ?? 0.002,
+      initialBattery: options.initialBattery ?? 0.85
+    };
+    this.maps = options.maps ?? DEFAULT_MAPS;
+    this.currentMapId = this.maps[0].id;
+    this.pose = options.initialPose ?? { x: 0, y: 0, ori: 0 };
+    this.battery = this.options.initialBattery;
+  }
+
+  /**
+   * Start the HTTP and WebSocket servers and the simulation loop
+   */
+  start(): Promise<Server> {
+    const app = express();
+    app.use(express.json());
+    this.registerRoutes(app);
+
+    this.server = createServer(app);
+    this.wss = new WebSocketServer({ server: this.server, path: '/ws/v2/topics' });
+    this.wss.on('connection', (ws) => this.handleConnection(ws));
+
+    this.tickInterval = setInterval(() => this.tick(), this.options.tickMs);
+
+    return new Promise((resolve) => {
+      this.server!.listen(this.options.port, '0.0.0.0', () => {
+        console.log(`Robot simulator listening on port ${this.options.port}`);
+        resolve(this.server!);
+      });
+    });
+  }
+
+  /**
+   * Stop the simulation loop and close all connections
+   */
+  stop(): Promise<void> {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+
+    this.subscriptions.forEach((_topics, ws) => ws.terminate());
+    this.subscriptions.clear();
+    this.wss?.close();
+
+    return new Promise((resolve) => {
+      if (!this.server) {
+        return resolve();
+      }
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /** Port the simulator listens on */
+  get port(): number {
+    return this.options.port;
+  }
+
+  private get currentMap(): SimulatorMap {
+    return this.maps.find(map => map.id === this.currentMapId) ?? this.maps[0];
+  }
+
+  private registerRoutes(app: express.Express): void {
+    // Map endpoints
+    app.get('/chassis/current-map', (_req: Request, res: Response) => {
+      const map = this.currentMap;
+      res.json({ id: map.id, uid: map.uid, map_name: map.mapName });
+    });
+
+    app.post('/chassis/current-map', (req: Request, res: Response) => {
+      const mapId = Number(req.body?.map_id);
+      const map = this.maps.find(m => m.id === mapId);
+      if (!map) {
+        return res.status(404).json({ message: `Map ${req.body?.map_id} not found` });
+      }
+      this.cancelActiveMove('map changed');
+      this.currentMapId = map.id;
+      res.json({ id: map.id, uid: map.uid, map_name: map.mapName });
+    });
+
+    app.get('/maps/', (_req: Request, res: Response) => {
+      res.json(this.maps.map(map => ({ id: map.id, uid: map.uid, map_name: map.mapName })));
+    });
+
+    app.get('/maps/:id', (req: Request, res: Response) => {
+      const map = this.maps.find(m => m.id === Number(req.params.id));
+      if (!map) {
+        return res.status(404).json({ message: `Map ${req.params.id} not found` });
+      }
+      res.json(this.serializeMap(map));
+    });
+
+    // Pose endpoints
+    app.get('/chassis/pose', (_req: Request, res: Response) => {
+      res.json({ pos: [this.pose.x, this.pose.y], ori: this.pose.ori });
+    });
+
+    app.post('/chassis/pose', (req: Request, res: Response) => {
+      const { pos, ori } = req.body ?? {};
+      if (!Array.isArray(pos) || pos.length < 2) {
+        return res.status(400).json({ message: 'pos must be [x, y]' });
+      }
+      this.cancelActiveMove('pose reset');
+      this.pose = { x: Number(pos[0]), y: Number(pos[1]), ori: Number(ori) || 0 };
+      this.publish('/tracked_pose', this.posePayload());
+      res.json({});
+    });
+
+    // Chassis state
+    app.get('/chassis/', (_req: Request, res: Response) => {
+      res.json(this.statePayload());
+    });
+
+    app.get('/chassis/state', (_req: Request, res: Response) => {
+      res.json(this.statePayload());
+    });
+
+    // Move actions
+    app.post('/chassis/moves', (req: Request, res: Response) => {
+      const body = req.body ?? {};
+      const targetX = Number(body.target_x);
+      const targetY = Number(body.target_y);
+      if (!Number.isFinite(targetX) || !Number.isFinite(targetY)) {
+        return res.status(400).json({ message: 'target_x and target_y are required' });
+      }
+      if (this.battery <= 0) {
+        return res.status(409).json({ message: 'Battery depleted' });
+      }
+
+      // A new move replaces any move in progress
+      this.cancelActiveMove('superseded');
+      this.charging = false;
+
+      const now = Date.now();
+      const move: SimulatorMoveAction = {
+        id: this.nextMoveId++,
+        creator: body.creator || 'unknown',
+        type: body.type || 'standard',
+        target_x: targetX,
+        target_y: targetY,
+        target_ori: body.target_ori !== undefined ? Number(body.target_ori) : null,
+        target_accuracy: body.target_accuracy !== undefined ? Number(body.target_accuracy) : 0.2,
+        state: 'moving',
+        fail_reason: 0,
+        fail_reason_str: '',
+        remaining_distance: Math.hypot(targetX - this.pose.x, targetY - this.pose.y),
+        create_time: now,
+        last_update_time: now
+      };
+      this.moves.set(move.id, move);
+      this.activeMoveId = move.id;
+      this.publishPlanningState(move);
+
+      res.json({ id: move.id });
+    });
+
+    app.get('/chassis/moves', (_req: Request, res: Response) => {
+      res.json(Array.from(this.moves.values()).reverse());
+    });
+
+    app.get('/chassis/moves/:id', (req: Request, res: Response) => {
+      const move = req.params.id === 'current'
+        ? (this.activeMoveId !== null ? this.moves.get(this.activeMoveId) : undefined)
+        : this.moves.get(Number(req.params.id));
+      if (!move) {
+        return res.status(404).json({ message: `Move ${req.params.id} not found` });
+      }
+      res.json(move);
+    });
+
+    app.patch('/chassis/moves/current', (req: Request, res: Response) => {
+      if (req.body?.state !== 'cancelled') {
+        return res.status(400).json({ message: 'Only state "cancelled" is supported' });
+      }
+      this.cancelActiveMove('cancelled by client');
+      res.json({});
+    });
+
+    // Services
+    app.post('/services/jack_up', (_req: Request, res: Response) => {
+      this.jackState = 'up';
+      res.json({});
+    });
+
+    app.post('/services/jack_down', (_req: Request, res: Response) => {
+      this.jackState = 'down';
+      res.json({});
+    });
+
+    app.post('/services/undock', (_req: Request, res: Response) => {
+      this.charging = false;
+      this.publish('/battery_state', this.batteryPayload());
+      res.json({});
+    });
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const topics = new Set<string>();
+    this.subscriptions.set(ws, topics);
+
+    ws.on('message', (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      if (typeof message.enable_topic === 'string') {
+        topics.add(message.enable_topic);
+      } else if (typeof message.disable_topic === 'string') {
+        topics.delete(message.disable_topic);
+      } else {
+        return;
+      }
+
+      ws.send(JSON.stringify({ enabled_topics: Array.from(topics) }));
+
+      // Send the latest state for the new topic right away
+      if (message.enable_topic) {
+        this.sendSnapshot(ws, message.enable_topic);
+      }
+    });
+
+    ws.on('close', () => {
+      this.subscriptions.delete(ws);
+    });
+  }
+
+  private sendSnapshot(ws: WebSocket, topic: string): void {
+    switch (topic) {
+      case '/tracked_pose':
+        this.send(ws, topic, this.posePayload());
+        break;
+      case '/battery_state':
+        this.send(ws, topic, this.batteryPayload());
+        break;
+      case '/alerts':
+        this.send(ws, topic, { alerts: this.alerts });
+        break;
+      case '/planning_state': {
+        const move = this.activeMoveId !== null ? this.moves.get(this.activeMoveId) : undefined;
+        if (move) {
+          this.send(ws, topic, this.planningPayload(move));
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Advance the simulation by one tick
+   */
+  private tick(): void {
+    const now = Date.now();
+    const dt = this.options.tickMs / 1000;
+    const move = this.activeMoveId !== null ? this.moves.get(this.activeMoveId) : undefined;
+
+    if (move) {
+      this.advanceMove(move, dt, now);
+    }
+
+    this.updateBattery(dt, !!move);
+
+    // Publish pose continuously while moving, otherwise once per second
+    if (move || now - this.lastPublished.pose >= 1000) {
+      this.publish('/tracked_pose', this.posePayload());
+      this.lastPublished.pose = now;
+    }
+
+    if (now - this.lastPublished.battery >= 1000) {
+      this.publish('/battery_state', this.batteryPayload());
+      this.lastPublished.battery = now;
+    }
+  }
+
+  private advanceMove(move: SimulatorMoveAction, dt: number, now: number): void {
+    const dx = move.target_x - this.pose.x;
+    const dy = move.target_y - this.pose.y;
+    const distance = Math.hypot(dx, dy);
+    const step = this.options.speed * dt;
+
+    if (distance <= Math.max(step, move.target_accuracy)) {
+      // Arrived at target
+      this.pose = {
+        x: move.target_x,
+        y: move.target_y,
+        ori: move.target_ori ?? this.pose.ori
+      };
+      this.finishMove(move, 'succeeded');
+
+      // Charge moves dock the robot
+      if (move.type === 'charge') {
+        this.charging = true;
+        this.publish('/battery_state', this.batteryPayload());
+      }
+      return;
+    }
+
+    this.pose = {
+      x: this.pose.x + (dx / distance) * step,
+      y: this.pose.y + (dy / distance) * step,
+      ori: Math.atan2(dy, dx)
+    };
+    move.remaining_distance = distance - step;
+    move.last_update_time = now;
+    this.publishPlanningState(move);
+  }
+
+  private updateBattery(dt: number, moving: boolean): void {
+    const previous = this.battery;
+
+    if (this.charging) {
+      this.battery = Math.min(1, this.battery + this.options.chargePerSecond * dt);
+    } else {
+      const drain = moving ? this.options.drainPerSecond : this.options.idleDrainPerSecond;
+      this.battery = Math.max(0, this.battery - drain * dt);
+    }
+
+    // Raise or clear the low battery alert when crossing 10%
+    if (previous >= 0.1 && this.battery < 0.1) {
+      this.setAlerts([{ code: LOW_BATTERY_ALERT_CODE, level: 'warn', msg: 'Battery low' }]);
+    } else if (previous < 0.1 && this.battery >= 0.1) {
+      this.setAlerts([]);
+    }
+
+    // A depleted battery aborts the current move
+    if (this.battery <= 0 && this.activeMoveId !== null) {
+      const move = this.moves.get(this.activeMoveId);
+      if (move) {
+        move.fail_reason = BATTERY_DEPLETED_FAIL_REASON;
+        move.fail_reason_str = 'Battery depleted';
+        this.finishMove(move, 'failed');
+      }
+      this.setAlerts([{ code: BATTERY_DEPLETED_FAIL_REASON, level: 'error', msg: 'Battery depleted' }]);
+    }
+  }
+
+  private finishMove(move: SimulatorMoveAction, state: SimulatorMoveAction['state']): void {
+    move.state = state;
+    move.remaining_distance = state === 'succeeded' ? 0 : move.remaining_distance;
+    move.last_update_time = Date.now();
+    if (this.activeMoveId === move.id) {
+      this.activeMoveId = null;
+    }
+    this.publishPlanningState(move);
+  }
+
+  private cancelActiveMove(reason: string): void {
+    if (this.activeMoveId === null) {
+      return;
+    }
+    const move = this.moves.get(this.activeMoveId);
+    if (move) {
+      move.fail_reason_str = reason;
+      this.finishMove(move, 'cancelled');
+    }
+  }
+
+  private setAlerts(alerts: SimulatorAlert[]): void {
+    this.alerts = alerts;
+    this.publish('/alerts', { alerts });
+  }
+
+  private publishPlanningState(move: SimulatorMoveAction): void {
+    this.publish('/planning_state', this.planningPayload(move));
+  }
+
+  private publish(topic: string, payload: Record<string, unknown>): void {
+    this.subscriptions.forEach((topics, ws) => {
+      if (topics.has(topic)) {
+        this.send(ws, topic, payload);
+      }
+    });
+  }
+
+  private send(ws: WebSocket, topic: string, payload: Record<string, unknown>): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ topic, ...payload }));
+    }
+  }
+
+  private posePayload() {
+    return { pos: [this.pose.x, this.pose.y], ori: this.pose.ori };
+  }
+
+  private batteryPayload() {
+    return {
+      percentage: Number(this.battery.toFixed(4)),
+      power_supply_status: this.charging ? 'charging' : 'discharging',
+      voltage: Number((23 + this.battery * 6).toFixed(2)),
+      current: this.charging ? 5.0 : -1.5
+    };
+  }
+
+  private planningPayload(move: SimulatorMoveAction) {
+    return {
+      action_id: move.id,
+      action_type: move.type,
+      move_state: move.state,
+      fail_reason: move.fail_reason,
+      fail_reason_str: move.fail_reason_str,
+      remaining_distance: move.remaining_distance,
+      target_poses: [{ pos: [move.target_x, move.target_y], ori: move.target_ori ?? 0 }],
+      stuck_state: 'none'
+    };
+  }
+
+  private statePayload() {
+    const move = this.activeMoveId !== null ? this.moves.get(this.activeMoveId) : undefined;
+    return {
+      current_map_id: this.currentMapId,
+      pose: this.posePayload(),
+      battery: this.batteryPayload(),
+      is_charging: this.charging,
+      jack_state: this.jackState,
+      current_move: move ?? null
+    };
+  }
+
+  private serializeMap(map: SimulatorMap) {
+    const features = map.points.map(point => ({
+      type: 'Feature',
+      id: point.id,
+      geometry: { type: 'Point', coordinates: [point.x, point.y] },
+      properties: { name: point.name, type: point.type, yaw: point.yaw }
+    }));
+
+    return {
+      id: map.id,
+      uid: map.uid,
+      map_name: map.mapName,
+      grid_origin_x: -10,
+      grid_origin_y: -10,
+      grid_resolution: 0.05,
+      overlays: JSON.stringify({ type: 'FeatureCollection', features })
+    };
+  }
+}
+
+/**
+ * Connection settings that point a robot at a running simulator.
+ * A simulator stands in for one robot only: the one whose serial number is ROBOT_SIMULATOR_SERIAL.
+ * Reads ROBOT_SIMULATOR_HOST / ROBOT_SIMULATOR_PORT; returns null when unset or for any other robot.
+ */
+export function getSimulatorConnectionConfig(robotId: string): { publicIp: string; localIp: string; port: number; wsPort: number; useSsl: boolean } | null {
+  const host = process.env.ROBOT_SIMULATOR_HOST;
+  if (!host || process.env.ROBOT_SIMULATOR_SERIAL !== robotId) {
+    return null;
+  }
+
+  const port = Number(process.env.ROBOT_SIMULATOR_PORT) || DEFAULT_PORT;
+  return {
+    publicIp: host,
+    localIp: host,
+    port,
+    wsPort: port,
+    useSsl: false
+  };
+}
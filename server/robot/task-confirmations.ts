@@ -0,0 +1,154 @@
+import { storage } from '../storage';
+import { websocketHandler } from '../websocket';
+import { ErrorCode } from './errors';
+import type { Task, TaskConfirmation } from '@shared/schema';
+
+// How a confirmation wait ended
+export type ConfirmationOutcome = 'confirmed' | 'timed_out' | 'canceled';
+
+// Options for a single confirmation wait
+export interface ConfirmationRequest {
+  message: string;
+  timeoutSeconds: number;     // Until operators are alerted
+  escalationSeconds: number;  // Further wait after the alert before giving up
+}
+
+// A wait that is in progress
+interface PendingConfirmation {
+  resolve: (outcome: ConfirmationOutcome) => void;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Task confirmations
+ * Parks a workflow until a person confirms a load/unload, escalating if nobody does
+ */
+class TaskConfirmations {
+  private pending: Map<string, PendingConfirmation> = new Map();
+
+  /**
+   * Wait for someone to confirm the current step of a task
+   * @returns How the wait ended; the caller decides what a timeout means for the bin
+   */
+  async waitForConfirmation(task: Task, request: ConfirmationRequest): Promise<ConfirmationOutcome> {
+    // A task only ever waits on one step at a time
+    this.release(task.taskId, 'canceled');
+
+    const requestedAt = new Date();
+    const confirmation: TaskConfirmation = {
+      message: request.message,
+      requestedAt,
+      timeoutAt: new Date(requestedAt.getTime() + (request.timeoutSeconds + request.escalationSeconds) * 1000),
+      escalated: false
+    };
+
+    await storage.updateTaskConfirmation(task.taskId, confirmation);
+    websocketHandler.broadcastConfirmationUpdate(task.taskId, { state: 'waiting', ...confirmation });
+
+    try {
+      let outcome = await this.waitFor(task.taskId, request.timeoutSeconds);
+      if (outcome !== 'timed_out') {
+        return outcome;
+      }
+
+      await this.escalate(task, confirmation, request.timeoutSeconds);
+      outcome = await this.waitFor(task.taskId, request.escalationSeconds);
+      if (outcome === 'timed_out') {
+        websocketHandler.broadcastConfirmationUpdate(task.taskId, { state: 'timed_out' });
+      }
+      return outcome;
+    } finally {
+      this.pending.delete(task.taskId);
+      await storage.updateTaskConfirmation(task.taskId, null);
+    }
+  }
+
+  /**
+   * Confirm the step a task is waiting on
+   * @returns False if the task isn't waiting for confirmation
+   */
+  confirm(taskId: string, confirmedBy?: string): boolean {
+    if (!this.release(taskId, 'confirmed')) {
+      return false;
+    }
+
+    websocketHandler.broadcastConfirmationUpdate(taskId, {
+      state: 'confirmed',
+      confirmedBy: confirmedBy ?? null,
+      confirmedAt: new Date()
+    });
+    console.log(`Task ${taskId} confirmed${confirmedBy ? ` by ${confirmedBy}` : ''}`);
+    return true;
+  }
+
+  /**
+   * Stop waiting because the task was canceled
+   */
+  cancel(taskId: string): boolean {
+    return this.release(taskId, 'canceled');
+  }
+
+  /**
+   * Check whether a task is waiting for confirmation
+   */
+  isWaiting(taskId: string): boolean {
+    return this.pending.has(taskId);
+  }
+
+  /**
+   * Wait until the task is released or the timeout passes
+   */
+  private waitFor(taskId: string, seconds: number): Promise<ConfirmationOutcome> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pending.delete(taskId);
+        resolve('timed_out');
+      }, seconds * 1000);
+
+      this.pending.set(taskId, { resolve, timer });
+    });
+  }
+
+  /**
+   * Resolve a pending wait
+   */
+  private release(taskId: string, outcome: ConfirmationOutcome): boolean {
+    const pending = this.pending.get(taskId);
+    if (!pending) {
+      return false;
+    }
+
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    this.pending.delete(taskId);
+    pending.resolve(outcome);
+    return true;
+  }
+
+  /**
+   * Alert operators that nobody has confirmed in time
+   */
+  private async escalate(task: Task, confirmation: TaskConfirmation, waitedSeconds: number): Promise<void> {
+    const escalated: TaskConfirmation = { ...confirmation, escalated: true };
+    const message = `Task ${task.taskId} has waited ${waitedSeconds}s for confirmation: ${confirmation.message}`;
+
+    await storage.updateTaskConfirmation(task.taskId, escalated);
+    await storage.createErrorLog({
+      robotId: task.robotId,
+      taskId: task.taskId,
+      errorCode: ErrorCode.CONFIRMATION_TIMEOUT,
+      errorMessage: message,
+      errorType: 5, // Workflow error
+      errorLevel: 1, // Warning level
+      priority: true,
+      resolved: false
+    });
+
+    websocketHandler.broadcastConfirmationUpdate(task.taskId, { state: 'escalated', ...escalated });
+    console.warn(message);
+  }
+}
+
+// Create singleton instance
+export const taskConfirmations = new TaskConfirmations();
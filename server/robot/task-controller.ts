@@ -2,7 +2,11 @@ import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from '../storage';
 import { TaskWorkflowFactory } from './task-workflows';
-import { Task, TaskType, TaskStatus, TaskPoint } from '@shared/schema';
+import { taskQueue } from './task-queue';
+import { taskConfirmations } from './task-confirmations';
+import { chargingPolicyEngine } from './charging-policy';
+import { taskTracer } from './task-trace';
+import { Task, TaskStatus, TaskPoint, Priority } from '@shared/schema';
 import { ErrorCode, RobotError, logError } from './errors';
 
 // Create router
@@ -21,27 +25,39 @@ router.post('/', async (req: Request, res: Response) => {
       priority,
       points,
       payload,
+      binId,
       runMode,
-      runNum
+      runNum,
+      runUntil
     } = req.body;
     
-    // Validate required fields
-    if (!robotId) {
-      return res.status(400).json({ error: 'Robot ID is required' });
-    }
-    
+    // Validate required fields (leave robotId out to let the dispatcher pick a robot)
     if (!taskType) {
       return res.status(400).json({ error: 'Task type is required' });
     }
     
-    if (!points || !Array.isArray(points) || points.length === 0) {
+    // Bin tasks can leave the shelf point to the inventory
+    if (!points || !Array.isArray(points) || (points.length === 0 && !binId)) {
       return res.status(400).json({ error: 'Task must include at least one point' });
     }
     
-    // Validate task type
-    if (!Object.values(TaskType).includes(taskType)) {
+    // Patrols can loop until a time instead of a number of laps
+    if (runUntil !== undefined && runUntil !== null && Number.isNaN(new Date(runUntil).getTime())) {
+      return res.status(400).json({ error: 'runUntil must be a date' });
+    }
+    
+    // Robots held back by their charging policy don't take new work
+    if (robotId && !chargingPolicyEngine.canAcceptTasks(robotId)) {
+      return res.status(409).json({ 
+        error: `Robot ${robotId} is not accepting tasks until its battery recovers`
+      });
+    }
+    
+    // Validate task type against the registered workflows
+    const taskTypes = TaskWorkflowFactory.getTaskTypes();
+    if (!taskTypes.includes(taskType)) {
       return res.status(400).json({ 
-        error: `Invalid task type. Must be one of: ${Object.values(TaskType).join(', ')}`
+        error: `Invalid task type. Must be one of: ${taskTypes.join(', ')}`
       });
     }
     
@@ -50,12 +66,14 @@ router.post('/', async (req: Request, res: Response) => {
       taskId: uuidv4(),
       name: name || `${taskType} Task`,
       robotId,
-      taskType: taskType as TaskType,
-      priority: priority || 'medium',
+      taskType,
+      priority: priority || Priority.NORMAL,
       points,
       payload,
+      binId,
       runMode,
-      runNum
+      runNum,
+      runUntil: runUntil ? new Date(runUntil) : null
     });
     
     // Return task
@@ -152,6 +170,26 @@ router.get('/:taskId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get a task's per-step trace
+ * GET /api/tasks/:taskId/trace
+ */
+router.get('/:taskId/trace', async (req: Request, res: Response) => {
+  try {
+    res.json(await taskTracer.getTrace(req.params.taskId));
+  } catch (error) {
+    if (error instanceof RobotError && error.code === ErrorCode.NOT_FOUND) {
+      return res.status(404).json({ error: error.message });
+    }
+    
+    console.error(`Error getting trace for task ${req.params.taskId}:`, error);
+    res.status(500).json({ 
+      error: 'Failed to get task trace',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Start a task
  * POST /api/tasks/:taskId/start
@@ -174,20 +212,19 @@ router.post('/:taskId/start', async (req: Request, res: Response) => {
       });
     }
     
-    // Start task execution in background
-    TaskWorkflowFactory.executeTask(taskId).catch(error => {
-      console.error(`Background task execution error for task ${taskId}:`, error);
-    });
-    
-    // Update status to assigned (will be updated to in_progress when execution starts)
-    await storage.updateTaskStatus(taskId, TaskStatus.ASSIGNED);
+    // Unassigned tasks are started by the dispatcher
+    if (!task.robotId) {
+      return res.status(400).json({ 
+        error: 'Task has no robot assigned yet; the dispatcher will start it when a robot is available'
+      });
+    }
     
-    // Get updated task
-    const updatedTask = await storage.getTask(taskId);
+    // Queue the task; it starts once the robot is free
+    const updatedTask = await taskQueue.enqueue(taskId);
     
     res.json({
       success: true,
-      message: `Task ${taskId} started`,
+      message: `Task ${taskId} queued`,
       task: updatedTask
     });
   } catch (error) {
@@ -249,6 +286,40 @@ router.post('/:taskId/pause', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Confirm the step a task is waiting on (e.g. a bin was loaded or unloaded)
+ * POST /api/tasks/:taskId/confirm
+ */
+router.post('/:taskId/confirm', async (req: Request, res: Response) => {
+  try {
+    const { taskId } = req.params;
+    
+    // Get task
+    const task = await storage.getTask(taskId);
+    
+    if (!task) {
+      return res.status(404).json({ error: `Task not found: ${taskId}` });
+    }
+    
+    if (!taskConfirmations.confirm(taskId, req.user?.username)) {
+      return res.status(409).json({ 
+        error: `Task ${taskId} is not waiting for confirmation`
+      });
+    }
+    
+    res.json({
+      success: true,
+      message: `Task ${taskId} confirmed`
+    });
+  } catch (error) {
+    console.error(`Error confirming task ${req.params.taskId}:`, error);
+    res.status(500).json({ 
+      error: 'Failed to confirm task',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Cancel a task
  * POST /api/tasks/:taskId/cancel
@@ -267,7 +338,7 @@ router.post('/:taskId/cancel', async (req: Request, res: Response) => {
     // Validate task status
     if (task.status === TaskStatus.COMPLETED || 
         task.status === TaskStatus.FAILED || 
-        task.status === TaskStatus.CANCELED) {
+        task.status === TaskStatus.CANCELLED) {
       return res.status(400).json({ 
         error: `Cannot cancel task with status: ${task.status}`
       });
@@ -378,6 +449,59 @@ router.get('/robot/:robotId/active', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get a robot's task queue
+ * GET /api/tasks/robot/:robotId/queue
+ */
+router.get('/robot/:robotId/queue', async (req: Request, res: Response) => {
+  try {
+    const { robotId } = req.params;
+    
+    const queue = await taskQueue.getQueue(robotId);
+    
+    res.json({ robotId, ...queue });
+  } catch (error) {
+    console.error(`Error getting task queue for robot ${req.params.robotId}:`, error);
+    res.status(500).json({ 
+      error: 'Failed to get robot task queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Reorder a robot's task queue
+ * PUT /api/tasks/robot/:robotId/queue
+ */
+router.put('/robot/:robotId/queue', async (req: Request, res: Response) => {
+  try {
+    const { robotId } = req.params;
+    const { taskIds } = req.body;
+    
+    if (!Array.isArray(taskIds) || !taskIds.every(id => typeof id === 'string')) {
+      return res.status(400).json({ error: 'taskIds must be an array of task IDs' });
+    }
+    
+    const queue = await taskQueue.reorder(robotId, taskIds);
+    
+    res.json({ success: true, robotId, queue });
+  } catch (error) {
+    console.error(`Error reordering task queue for robot ${req.params.robotId}:`, error);
+    
+    if (error instanceof RobotError) {
+      return res.status(400).json({ 
+        error: error.message,
+        code: error.code
+      });
+    }
+    
+    res.status(500).json({ 
+      error: 'Failed to reorder robot task queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Create a task using the direct AutoXing Task API
  * POST /api/tasks/direct
@@ -0,0 +1,267 @@
+import { storage } from '../storage';
+import { websocketHandler } from '../websocket';
+import { ErrorCode, RobotError } from './errors';
+import { TaskWorkflowFactory } from './task-workflows';
+import { Priority, TaskStatus, priorityRank, type Task } from '@shared/schema';
+
+/**
+ * Per-robot task queue
+ * Queued tasks are stored with a queuePosition so the order survives a restart.
+ * Only one task per robot is in progress at a time.
+ */
+class TaskQueue {
+  // Task currently executing for each robot
+  private running: Map<string, string> = new Map();
+  // Robots whose queue is being checked, and ones that need another check afterwards
+  private starting: Set<string> = new Set();
+  private recheck: Set<string> = new Set();
+  // Running tasks asked to yield to an urgent task
+  private preemptRequests: Set<string> = new Set();
+
+  /**
+   * Resume processing every robot's queue (call once on startup)
+   */
+  async start(): Promise<void> {
+    const robots = await storage.getAllRobots();
+    for (const robot of robots) {
+      this.processQueue(robot.robotId);
+    }
+    console.log('Task queue started');
+  }
+
+  /**
+   * Get a robot's running task and its queued tasks in order
+   */
+  async getQueue(robotId: string): Promise<{ current: Task | null; queue: Task[] }> {
+    const activeTasks = await storage.getActiveTasksByRobot(robotId);
+    const current = activeTasks.find(task => task.status === TaskStatus.IN_PROGRESS) || null;
+    const queue = await storage.getQueuedTasksByRobot(robotId);
+    return { current, queue };
+  }
+
+  /**
+   * Add a task to its robot's queue
+   * Higher priority tasks go ahead of lower ones; urgent tasks may preempt the running task.
+   */
+  async enqueue(taskId: string): Promise<Task> {
+    const task = await storage.getTask(taskId);
+    if (!task) {
+      throw new RobotError(`Task not found: ${taskId}`, ErrorCode.TASK_NOT_FOUND);
+    }
+
+    if (!task.robotId) {
+      throw new RobotError(`Task ${taskId} has no robot assigned`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+
+    if (task.status !== TaskStatus.PENDING && task.status !== TaskStatus.PAUSED) {
+      throw new RobotError(`Cannot queue task with status: ${task.status}`, ErrorCode.TASK_STATUS_CONFLICT);
+    }
+
+    const robotId = task.robotId;
+    const queue = (await storage.getQueuedTasksByRobot(robotId)).filter(t => t.taskId !== taskId);
+
+    // Insert behind every task of the same or higher priority
+    const rank = priorityRank(task.priority);
+    const index = queue.findIndex(t => priorityRank(t.priority) < rank);
+    queue.splice(index === -1 ? queue.length : index, 0, task);
+    await this.writeOrder(robotId, queue.map(t => t.taskId));
+
+    console.log(`Queued task ${taskId} (${task.priority}) for robot ${robotId}`);
+
+    await this.checkPreemption(robotId, task);
+    this.processQueue(robotId);
+
+    return (await storage.getTask(taskId)) || task;
+  }
+
+  /**
+   * Reorder a robot's queue
+   * @param taskIds Every queued task ID for the robot, in the new order
+   */
+  async reorder(robotId: string, taskIds: string[]): Promise<Task[]> {
+    const queue = await storage.getQueuedTasksByRobot(robotId);
+    const queuedIds = new Set(queue.map(task => task.taskId));
+
+    if (taskIds.length !== queuedIds.size ||
+        new Set(taskIds).size !== taskIds.length ||
+        !taskIds.every(id => queuedIds.has(id))) {
+      throw new RobotError(
+        `Task list must contain each queued task for robot ${robotId} exactly once`,
+        ErrorCode.INVALID_PARAM
+      );
+    }
+
+    await this.writeOrder(robotId, taskIds);
+
+    // A reorder can put an urgent task first
+    const [head] = await storage.getQueuedTasksByRobot(robotId);
+    if (head) {
+      await this.checkPreemption(robotId, head);
+    }
+    this.processQueue(robotId);
+
+    return storage.getQueuedTasksByRobot(robotId);
+  }
+
+  /**
+   * Check whether a running task should yield at this step boundary
+   * A robot carrying a bin is never preempted.
+   */
+  async shouldPreempt(taskId: string): Promise<boolean> {
+    if (!this.preemptRequests.has(taskId)) {
+      return false;
+    }
+
+    const task = await storage.getTask(taskId);
+    return !!task && !task.payload?.loaded;
+  }
+
+  /**
+   * Pause a preempted task and put it back at the front of its priority band
+   */
+  async requeuePreempted(taskId: string): Promise<void> {
+    this.preemptRequests.delete(taskId);
+
+    const task = await this.requeue(taskId, (queue, rank) =>
+      queue.findIndex(t => priorityRank(t.priority) <= rank)
+    );
+    if (!task) {
+      return;
+    }
+
+    console.log(`Task ${taskId} preempted on robot ${task.robotId}`);
+
+    websocketHandler.broadcastTaskUpdate(taskId, {
+      status: TaskStatus.PAUSED,
+      preempted: true
+    });
+  }
+
+  /**
+   * Put an interrupted task at the very front of its robot's queue so it resumes first
+   */
+  async requeueInterrupted(taskId: string): Promise<void> {
+    const task = await this.requeue(taskId, () => 0);
+    if (!task) {
+      return;
+    }
+
+    console.log(`Task ${taskId} will resume first on robot ${task.robotId}`);
+
+    websocketHandler.broadcastTaskUpdate(taskId, {
+      status: TaskStatus.PAUSED,
+      resuming: true
+    });
+  }
+
+  /**
+   * Start the next queued task if the robot is free
+   */
+  processQueue(robotId: string): void {
+    if (this.running.has(robotId)) {
+      return;
+    }
+
+    if (this.starting.has(robotId)) {
+      this.recheck.add(robotId);
+      return;
+    }
+
+    this.starting.add(robotId);
+    this.startNext(robotId)
+      .catch(error => {
+        console.error(`Failed to start next queued task for robot ${robotId}:`, error);
+      })
+      .finally(() => {
+        this.starting.delete(robotId);
+        if (this.recheck.delete(robotId)) {
+          this.processQueue(robotId);
+        }
+      });
+  }
+
+  /**
+   * Pop the head of a robot's queue and execute it
+   */
+  private async startNext(robotId: string): Promise<void> {
+    const { current, queue } = await this.getQueue(robotId);
+
+    // A task left in progress (e.g. by a restart) still owns the robot
+    if (current) {
+      return;
+    }
+
+    const [next] = queue;
+    if (!next) {
+      return;
+    }
+
+    await storage.updateTaskQueuePosition(next.taskId, null);
+    this.running.set(robotId, next.taskId);
+
+    TaskWorkflowFactory.executeTask(next.taskId)
+      .catch(error => {
+        console.error(`Queued task ${next.taskId} failed to execute:`, error);
+      })
+      .finally(() => {
+        this.running.delete(robotId);
+        this.preemptRequests.delete(next.taskId);
+        this.processQueue(robotId);
+      });
+  }
+
+  /**
+   * Ask the running task to yield if an urgent task is waiting
+   */
+  private async checkPreemption(robotId: string, queuedTask: Task): Promise<void> {
+    const runningTaskId = this.running.get(robotId);
+    if (!runningTaskId || priorityRank(queuedTask.priority) < priorityRank(Priority.URGENT)) {
+      return;
+    }
+
+    const runningTask = await storage.getTask(runningTaskId);
+    if (runningTask && priorityRank(runningTask.priority) < priorityRank(Priority.URGENT)) {
+      console.log(`Urgent task ${queuedTask.taskId} will preempt task ${runningTaskId} at the next step`);
+      this.preemptRequests.add(runningTaskId);
+    }
+  }
+
+  /**
+   * Pause a task and insert it into its robot's queue
+   * @param findIndex Picks the queue index to insert at (-1 for the end)
+   */
+  private async requeue(
+    taskId: string,
+    findIndex: (queue: Task[], rank: number) => number
+  ): Promise<Task | undefined> {
+    const task = await storage.getTask(taskId);
+    if (!task || !task.robotId) {
+      return undefined;
+    }
+
+    await storage.updateTaskStatus(taskId, TaskStatus.PAUSED);
+
+    const queue = (await storage.getQueuedTasksByRobot(task.robotId)).filter(t => t.taskId !== taskId);
+    const index = findIndex(queue, priorityRank(task.priority));
+    queue.splice(index === -1 ? queue.length : index, 0, task);
+    await this.writeOrder(task.robotId, queue.map(t => t.taskId));
+
+    return task;
+  }
+
+  /**
+   * Persist queue positions and let clients know
+   */
+  private async writeOrder(robotId: string, taskIds: string[]): Promise<void> {
+    for (let i = 0; i < taskIds.length; i++) {
+      await storage.updateTaskQueuePosition(taskIds[i], i);
+    }
+
+    taskIds.forEach((taskId, queuePosition) => {
+      websocketHandler.broadcastTaskUpdate(taskId, { robotId, queuePosition });
+    });
+  }
+}
+
+// Create singleton instance
+export const taskQueue = new TaskQueue();
@@ -0,0 +1,183 @@
+import { storage } from '../storage';
+import { websocketHandler } from '../websocket';
+import * as directApi from './direct-api';
+import { ErrorCode } from './errors';
+import { taskQueue } from './task-queue';
+import { TaskWorkflowFactory } from './task-workflows';
+import { TaskStatus, type ErrorDetails, type Task } from '@shared/schema';
+
+// What the robot reports about itself after a restart
+interface RobotSnapshot {
+  pose: { x: number; y: number } | null;
+  jackState: 'up' | 'down' | null;
+  move: { id: number | string; state: string } | null;
+}
+
+// Result of reconciling one interrupted task
+export interface RecoveryResult {
+  taskId: string;
+  robotId: string | null;
+  outcome: 'resumed' | 'completed' | 'failed';
+  step?: number;
+  reason?: string;
+}
+
+// Move states that mean the chassis is still driving
+const ACTIVE_MOVE_STATES = ['idle', 'moving'];
+
+/**
+ * Task recovery
+ * Re-attaches to tasks that were in progress when the server stopped
+ */
+class TaskRecovery {
+  /**
+   * Reconcile every in-progress task against its robot (call once on startup, before the task queue starts)
+   */
+  async recoverInterruptedTasks(): Promise<RecoveryResult[]> {
+    const interrupted = await storage.getTasksByStatus(TaskStatus.IN_PROGRESS);
+    const results: RecoveryResult[] = [];
+
+    for (const task of interrupted) {
+      try {
+        results.push(await this.recoverTask(task));
+      } catch (error) {
+        const reason = `Recovery after server restart failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        await this.failTask(task, reason);
+        results.push({ taskId: task.taskId, robotId: task.robotId, outcome: 'failed', reason });
+      }
+    }
+
+    if (results.length > 0) {
+      const resumed = results.filter(r => r.outcome === 'resumed').length;
+      const failed = results.filter(r => r.outcome === 'failed').length;
+      console.log(`Recovered ${results.length} interrupted task(s): ${resumed} resumed, ${failed} failed`);
+    }
+
+    return results;
+  }
+
+  /**
+   * Decide whether a single task can resume, and from which step
+   */
+  private async recoverTask(task: Task): Promise<RecoveryResult> {
+    const base = { taskId: task.taskId, robotId: task.robotId };
+    const carryingBin = task.payload?.loaded === true;
+    const step = task.currentStep || 0;
+
+    const fail = async (reason: string): Promise<RecoveryResult> => {
+      await this.failTask(task, reason);
+      return { ...base, outcome: 'failed', step, reason };
+    };
+
+    if (!task.robotId) {
+      return fail('Task was in progress without an assigned robot when the server stopped');
+    }
+
+    const workflow = TaskWorkflowFactory.getWorkflow(task.taskType);
+    if (!workflow) {
+      return fail(`No workflow registered for task type ${task.taskType}; cannot resume`);
+    }
+
+    // Every step finished before the server stopped
+    if (step >= workflow.steps.length) {
+      await storage.updateTaskStatus(task.taskId, TaskStatus.COMPLETED);
+      await storage.updateTaskCompletionTime(task.taskId, new Date());
+      websocketHandler.broadcastTaskUpdate(task.taskId, {
+        status: TaskStatus.COMPLETED,
+        completedAt: new Date()
+      });
+      return { ...base, outcome: 'completed', step };
+    }
+
+    const snapshot = await this.getRobotSnapshot(task.robotId);
+    if (!snapshot) {
+      return fail(carryingBin
+        ? `Robot ${task.robotId} was unreachable after the server restarted while carrying a bin (step ${step + 1}); locate the bin before retrying`
+        : `Robot ${task.robotId} was unreachable after the server restarted (step ${step + 1})`);
+    }
+
+    const where = snapshot.pose
+      ? ` at (${snapshot.pose.x.toFixed(2)}, ${snapshot.pose.y.toFixed(2)})`
+      : '';
+
+    // The jack tells us whether a bin is physically on the robot
+    if (snapshot.jackState === 'down' && carryingBin) {
+      return fail(`Task recorded a bin in transport but robot ${task.robotId} has its jack down${where}; the bin may have been left there`);
+    }
+    if (snapshot.jackState === 'up' && !carryingBin) {
+      return fail(`Robot ${task.robotId} has its jack up${where} but the task has no bin recorded; check what the robot is carrying`);
+    }
+
+    // Re-running the current step re-issues its move, which replaces any move still in flight
+    if (snapshot.move && ACTIVE_MOVE_STATES.includes(snapshot.move.state)) {
+      console.log(`Robot ${task.robotId} is still executing move ${snapshot.move.id} for task ${task.taskId}; resuming step ${step + 1}`);
+    }
+
+    await taskQueue.requeueInterrupted(task.taskId);
+    console.log(`Task ${task.taskId} will resume at step ${step + 1} on robot ${task.robotId}${where}`);
+    return { ...base, outcome: 'resumed', step };
+  }
+
+  /**
+   * Query the robot's pose, jack state and current move
+   * @returns Snapshot, or null if the robot can't be reached
+   */
+  private async getRobotSnapshot(robotId: string): Promise<RobotSnapshot | null> {
+    try {
+      const client = directApi.getRobotApiClient(robotId);
+      const status = await client.getStatus();
+      const pose = status?.pose ?? await client.getCurrentPose();
+      const move = status?.current_move !== undefined ? status.current_move : await client.getCurrentMove();
+
+      return {
+        pose: Array.isArray(pose?.pos) ? { x: Number(pose.pos[0]), y: Number(pose.pos[1]) } : null,
+        jackState: status?.jack_state === 'up' || status?.jack_state === 'down' ? status.jack_state : null,
+        move: move ? { id: move.id, state: move.state } : null
+      };
+    } catch (error) {
+      console.error(`Failed to read state of robot ${robotId} during task recovery:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fail an interrupted task with a clear reason
+   */
+  private async failTask(task: Task, reason: string): Promise<void> {
+    const errorDetails: ErrorDetails = {
+      code: ErrorCode.TASK_RECOVERY_FAILED,
+      message: reason,
+      type: 5, // Workflow error
+      level: 2, // Error level
+      priority: true
+    };
+
+    const failedAt = new Date();
+    await storage.updateTaskStatus(task.taskId, TaskStatus.FAILED);
+    await storage.updateTaskCompletionTime(task.taskId, failedAt);
+    await storage.updateTaskErrorDetails(task.taskId, errorDetails);
+    await storage.updateTaskQueuePosition(task.taskId, null);
+
+    await storage.createErrorLog({
+      robotId: task.robotId,
+      taskId: task.taskId,
+      errorCode: errorDetails.code,
+      errorMessage: reason,
+      errorType: errorDetails.type,
+      errorLevel: errorDetails.level,
+      priority: true,
+      resolved: false
+    });
+
+    websocketHandler.broadcastTaskUpdate(task.taskId, {
+      status: TaskStatus.FAILED,
+      errorDetails,
+      completedAt: failedAt
+    });
+
+    console.warn(`Task ${task.taskId} failed during recovery: ${reason}`);
+  }
+}
+
+// Create singleton instance
+export const taskRecovery = new TaskRecovery();
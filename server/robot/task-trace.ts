@@ -0,0 +1,147 @@
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { robotMonitor } from './robot-monitor';
+import { TaskStatus, TelemetryMetric, type StepSpan } from '@shared/schema';
+
+// A step that is still running
+interface OpenSpan {
+  taskId: string;
+  robotId: string;
+  step: number;
+  name: string;
+  startedAt: Date;
+  startPose: StepSpan['startPose'];
+  moveIds: Set<string>;
+}
+
+// A task's recorded step spans, plus the step running now
+export interface TaskTrace {
+  taskId: string;
+  robotId: string | null;
+  taskType: string;
+  status: string;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  spans: StepSpan[];
+  current: (Omit<StepSpan, 'endedAt' | 'durationMs' | 'result' | 'endPose'> & { elapsedMs: number }) | null;
+}
+
+/**
+ * Task trace
+ * Records a span for every workflow step a task runs: when it started and ended, how it ended, where the robot
+ * was either side of it and the move actions the robot ran in between. Spans are stored with the task.
+ */
+class TaskTracer {
+  private open: Map<string, OpenSpan> = new Map();
+  private subscribed = false;
+
+  /**
+   * Open a span for a step that is about to run
+   */
+  startSpan(taskId: string, robotId: string, step: number, name: string): void {
+    if (!this.subscribed) {
+      robotMonitor.onTelemetry((robotId, metric, values) => {
+        if (metric === TelemetryMetric.PLANNING && typeof values.actionId === 'string') {
+          this.recordMove(robotId, values.actionId);
+        }
+      });
+      this.subscribed = true;
+    }
+
+    this.open.set(taskId, {
+      taskId,
+      robotId,
+      step,
+      name,
+      startedAt: new Date(),
+      startPose: this.currentPose(robotId),
+      moveIds: new Set()
+    });
+  }
+
+  /**
+   * Close a task's open span and store it with the task
+   * A step that ends on a canceled task is recorded as canceled, whatever it returned.
+   */
+  async endSpan(taskId: string, result: StepSpan['result'], error?: string): Promise<void> {
+    const span = this.open.get(taskId);
+    if (!span) {
+      return;
+    }
+    this.open.delete(taskId);
+
+    try {
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return;
+      }
+
+      const endedAt = new Date();
+      const closed: StepSpan = {
+        step: span.step,
+        name: span.name,
+        startedAt: span.startedAt,
+        endedAt,
+        durationMs: endedAt.getTime() - span.startedAt.getTime(),
+        result: task.status === TaskStatus.CANCELLED ? 'cancelled' : result,
+        ...(error ? { error } : {}),
+        startPose: span.startPose,
+        endPose: this.currentPose(span.robotId),
+        moveIds: Array.from(span.moveIds)
+      };
+      await storage.updateTaskTrace(taskId, [...(task.trace ?? []), closed]);
+    } catch (storeError) {
+      console.error(`Failed to store step trace for task ${taskId}:`, storeError);
+    }
+  }
+
+  /**
+   * Get a task's trace
+   */
+  async getTrace(taskId: string): Promise<TaskTrace> {
+    const task = await storage.getTask(taskId);
+    if (!task) {
+      throw new RobotError(`Task not found: ${taskId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const open = this.open.get(taskId);
+    return {
+      taskId,
+      robotId: task.robotId,
+      taskType: task.taskType,
+      status: task.status,
+      startedAt: task.startedAt,
+      completedAt: task.completedAt,
+      spans: task.trace ?? [],
+      current: open
+        ? {
+            step: open.step,
+            name: open.name,
+            startedAt: open.startedAt,
+            elapsedMs: Date.now() - open.startedAt.getTime(),
+            startPose: open.startPose,
+            moveIds: Array.from(open.moveIds)
+          }
+        : null
+    };
+  }
+
+  /**
+   * Attach a move action to the step the robot is running
+   */
+  recordMove(robotId: string, moveId: string): void {
+    for (const span of Array.from(this.open.values())) {
+      if (span.robotId === robotId) {
+        span.moveIds.add(moveId);
+      }
+    }
+  }
+
+  private currentPose(robotId: string): StepSpan['startPose'] {
+    const pose = robotMonitor.getRobotState(robotId)?.pose;
+    return pose ? { x: pose.x, y: pose.y, ori: pose.ori ?? 0 } : null;
+  }
+}
+
+// Create singleton instance
+export const taskTracer = new TaskTracer();
@@ -4,7 +4,30 @@ import * as directApi from './direct-api';
 import { MovementModule } from './movement';
 import { ErrorCode, RobotError, logError } from './errors';
 import { websocketHandler } from '../websocket';
-import { Task, TaskStatus, TaskType, TaskPoint } from '@shared/schema';
+import { robotMonitor } from './robot-monitor';
+import { fleetDispatcher } from './dispatcher';
+import { taskQueue } from './task-queue';
+import { taskConfirmations } from './task-confirmations';
+import { inventory } from './inventory';
+import { doorAccess } from './doors';
+import { chargerLeases } from './charger-leases';
+import { taskTracer } from './task-trace';
+import { BUILT_IN_WORKFLOWS } from './workflows/builtin-workflows';
+import {
+  Task,
+  TaskStatus,
+  TaskPoint,
+  Priority,
+  Poi,
+  WorkflowStepType,
+  workflowPointRoles,
+  type CheckpointVisit,
+  type WorkflowDocument,
+  type WorkflowStep
+} from '@shared/schema';
+
+// Event category for task step transitions, which path replay overlays on the robot's trail
+export const TASK_EVENT_CATEGORY = 'task';
 
 /**
  * Robot task interface - Using Task from shared/schema.ts
@@ -30,31 +53,55 @@ interface WorkflowTask {
   returnPoint?: any;         // Return point for when tasks are canceled
 }
 
+/**
+ * Task that has a robot assigned (workflow steps only run once one is)
+ */
+type AssignedTask = Task & { robotId: string };
+
 /**
  * Task handler type
  */
-type TaskHandler = (task: Task) => Promise<boolean>;
+type TaskHandler = (task: AssignedTask) => Promise<boolean>;
 
 /**
  * Task workflow interface
  */
 interface TaskWorkflow {
   name: string;
-  taskType: TaskType;
+  taskType: string;
   steps: TaskHandler[];
+  stepNames: string[];
   initialize(task: Task): Promise<void>;
   execute(task: Task): Promise<boolean>;
 }
 
+/**
+ * Log a step transition of a task against its robot
+ */
+async function recordTaskEvent(task: AssignedTask, event: string, message: string, data: Record<string, any> = {}): Promise<void> {
+  try {
+    await storage.createRobotEvent({
+      robotId: task.robotId,
+      category: TASK_EVENT_CATEGORY,
+      event,
+      message,
+      data: { taskId: task.taskId, ...data }
+    });
+  } catch (error) {
+    console.error(`Failed to log ${event} for task ${task.taskId}:`, error);
+  }
+}
+
 /**
  * Base task workflow class
  */
 abstract class BaseTaskWorkflow implements TaskWorkflow {
   name: string;
-  taskType: TaskType;
+  taskType: string;
   steps: TaskHandler[] = [];
+  stepNames: string[] = [];
   
-  constructor(name: string, taskType: TaskType) {
+  constructor(name: string, taskType: string) {
     this.name = name;
     this.taskType = taskType;
   }
@@ -62,8 +109,9 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
   /**
    * Add step to workflow
    */
-  protected addStep(handler: TaskHandler): void {
+  protected addStep(handler: TaskHandler, name: string = `Step ${this.steps.length + 1}`): void {
     this.steps.push(handler);
+    this.stepNames.push(name);
   }
   
   /**
@@ -85,10 +133,16 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
       throw new RobotError(`Task not found: ${task.taskId}`, ErrorCode.TASK_NOT_FOUND);
     }
     
+    // Unassigned tasks wait for the dispatcher
+    if (!currentTask.robotId) {
+      throw new RobotError(`Task ${task.taskId} has no robot assigned`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+    const assignedTask: AssignedTask = { ...currentTask, robotId: currentTask.robotId };
+    
     // Skip already completed or failed tasks
     if (currentTask.status === TaskStatus.COMPLETED || 
         currentTask.status === TaskStatus.FAILED ||
-        currentTask.status === TaskStatus.CANCELED) {
+        currentTask.status === TaskStatus.CANCELLED) {
       return true;
     }
     
@@ -96,9 +150,9 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
       // Get current step
       let currentStep = currentTask.currentStep || 0;
       
-      // Mark as started if first step
+      // Mark as in progress (resumed tasks keep their original start time)
+      await storage.updateTaskStatus(task.taskId, TaskStatus.IN_PROGRESS);
       if (currentStep === 0) {
-        await storage.updateTaskStatus(task.taskId, TaskStatus.IN_PROGRESS);
         await storage.updateTaskStartTime(task.taskId, new Date());
         
         // Broadcast task update
@@ -106,22 +160,44 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
           status: TaskStatus.IN_PROGRESS,
           startedAt: new Date()
         });
+      } else {
+        websocketHandler.broadcastTaskUpdate(task.taskId, {
+          status: TaskStatus.IN_PROGRESS,
+          currentStep
+        });
       }
       
       // Execute remaining steps
       while (currentStep < this.steps.length) {
+        // Yield to an urgent task at a safe step boundary
+        if (await taskQueue.shouldPreempt(task.taskId)) {
+          await taskQueue.requeuePreempted(task.taskId);
+          return false;
+        }
+        
         console.log(`Executing step ${currentStep + 1}/${this.steps.length} for task ${task.taskId}`);
+        await recordTaskEvent(assignedTask, 'step_started',
+          `Step ${currentStep + 1}/${this.steps.length} (${this.stepNames[currentStep]}) started`,
+          { step: currentStep, stepName: this.stepNames[currentStep] });
         
         // Get step handler
         const stepHandler = this.steps[currentStep];
         
-        // Execute step
-        const stepResult = await stepHandler(currentTask);
+        // Execute step, tracing how long it took and how it ended
+        taskTracer.startSpan(task.taskId, assignedTask.robotId, currentStep, this.stepNames[currentStep]);
+        let stepResult: boolean;
+        try {
+          stepResult = await stepHandler(assignedTask);
+        } catch (error) {
+          await taskTracer.endSpan(task.taskId, 'error', error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+        await taskTracer.endSpan(task.taskId, stepResult ? 'succeeded' : 'failed');
         
-        // If step failed, stop workflow
+        // If step failed, fail the task so the robot is freed up
         if (!stepResult) {
           console.log(`Step ${currentStep + 1} failed for task ${task.taskId}`);
-          return false;
+          throw new RobotError(`Step ${currentStep + 1} failed`, ErrorCode.TASK_EXECUTION_FAILED);
         }
         
         // Update current step
@@ -137,6 +213,7 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
       // Mark as completed
       await storage.updateTaskStatus(task.taskId, TaskStatus.COMPLETED);
       await storage.updateTaskCompletionTime(task.taskId, new Date());
+      await inventory.releaseTask(currentTask);
       
       // Broadcast completion
       websocketHandler.broadcastTaskUpdate(task.taskId, {
@@ -144,13 +221,21 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
         completedAt: new Date()
       });
       
+      await recordTaskEvent(assignedTask, 'task_completed', `Task ${task.taskId} completed`);
       console.log(`Task ${task.taskId} completed successfully`);
       return true;
     } catch (error) {
       console.error(`Error executing workflow for task ${task.taskId}:`, error);
       
-      // Mark as failed
+      // A task canceled mid-step keeps its canceled status
+      if ((await storage.getTask(task.taskId))?.status === TaskStatus.CANCELLED) {
+        return false;
+      }
+      
+      // Mark as failed (the completion time dates the failure for cycle times and failure rates)
+      const failedAt = new Date();
       await storage.updateTaskStatus(task.taskId, TaskStatus.FAILED);
+      await storage.updateTaskCompletionTime(task.taskId, failedAt);
       
       // Add error details
       const errorDetails = {
@@ -162,538 +247,364 @@ abstract class BaseTaskWorkflow implements TaskWorkflow {
       };
       
       await storage.updateTaskErrorDetails(task.taskId, errorDetails);
+      await inventory.releaseTask(currentTask);
+      await recordTaskEvent(assignedTask, 'task_failed', `Task ${task.taskId} failed: ${errorDetails.message}`,
+        { code: errorDetails.code });
       
       // Broadcast failure
       websocketHandler.broadcastTaskUpdate(task.taskId, {
         status: TaskStatus.FAILED,
-        errorDetails
+        errorDetails,
+        completedAt: failedAt
       });
       
       return false;
+    } finally {
+      // Doors opened along the way are closed however the run ends
+      await doorAccess.closeForTask(task.taskId);
     }
   }
 }
 
+// Time for the jack to finish moving
+const JACK_SETTLE_MS = 5000;
+
+// Patrol waypoints of this type are checkpoints the robot dwells at
+const PATROL_CHECKPOINT_TYPE = 'checkpoint';
+
+// Errors raised before a robot starts moving; the waypoint is skipped rather than unreachable
+const PATROL_SKIP_CODES = [ErrorCode.GEOFENCE_VIOLATION, ErrorCode.INVALID_PARAM];
+
+// Most recent waypoint visits kept on a patrol task
+const MAX_CHECKPOINT_VISITS = 1000;
+
+type PatrolStep = Extract<WorkflowStep, { type: typeof WorkflowStepType.PATROL }>;
+
+/**
+ * Find a task point by its role (the point's `type`)
+ */
+function findTaskPoint(task: Task, role: string): TaskPoint | undefined {
+  return task.points?.find(p => p.type === role);
+}
+
+/**
+ * Convert a stored POI into a task point
+ */
+function poiToTaskPoint(poi: Poi): TaskPoint {
+  return {
+    x: poi.x,
+    y: poi.y,
+    yaw: poi.yaw ?? 0,
+    areaId: poi.areaId,
+    type: poi.type,
+    stopRadius: poi.metadata?.stopRadius,
+    ext: { id: poi.poiId, name: poi.name }
+  };
+}
+
 /**
- * Dropoff task workflow (charger → dropoff → shelf → charger)
+ * Workflow built from a declarative definition (see workflowDocumentSchema)
  */
-class DropoffWorkflow extends BaseTaskWorkflow {
-  constructor() {
-    super('Dropoff Workflow', TaskType.DROPOFF);
+class DeclarativeWorkflow extends BaseTaskWorkflow {
+  readonly document: WorkflowDocument;
+  
+  constructor(document: WorkflowDocument) {
+    super(document.name, document.taskType);
+    this.document = document;
     
     // Add workflow steps
-    this.addStep(this.moveToDropoffPoint.bind(this));
-    this.addStep(this.waitForLoad.bind(this));
-    this.addStep(this.moveToShelf.bind(this));
-    this.addStep(this.waitForUnload.bind(this));
-    this.addStep(this.checkForPickupTasks.bind(this));
-    this.addStep(this.returnToCharger.bind(this));
+    for (const step of document.steps) {
+      this.addStep(task => this.runStep(step, task), step.name ?? step.type);
+    }
   }
   
   /**
-   * Initialize dropoff task
+   * Check the task has every point the definition uses and set its return point
    */
   async initialize(task: Task): Promise<void> {
-    // Verify task has all required points
-    if (!task.points || task.points.length < 3) {
+    const missing = workflowPointRoles(this.document).filter(role => !findTaskPoint(task, role));
+    if (missing.length > 0) {
       throw new RobotError(
-        'Dropoff task requires at least 3 points: dropoff, shelf, and charger', 
+        `${this.name} requires ${missing.join(', ')} point(s)`,
         ErrorCode.INVALID_TASK_CONFIGURATION
       );
     }
     
-    // Check point types
-    const dropoffPoint = task.points.find(p => p.type === 'dropoff');
-    const shelfPoint = task.points.find(p => p.type === 'shelf');
-    const chargerPoint = task.points.find(p => p.type === 'charger');
-    
-    if (!dropoffPoint || !shelfPoint || !chargerPoint) {
-      throw new RobotError(
-        'Dropoff task requires dropoff, shelf, and charger points', 
-        ErrorCode.INVALID_TASK_CONFIGURATION
-      );
+    if (this.document.steps.some(step => step.type === WorkflowStepType.PATROL) && this.patrolWaypoints(task).length === 0) {
+      throw new RobotError(`${this.name} needs at least one waypoint`, ErrorCode.INVALID_TASK_CONFIGURATION);
     }
     
-    // Set return point (charger)
-    await storage.updateTaskReturnPoint(task.taskId, chargerPoint);
-  }
-  
-  /**
-   * Move to dropoff point
-   */
-  private async moveToDropoffPoint(task: Task): Promise<boolean> {
-    try {
-      // Find dropoff point
-      const dropoffPoint = task.points.find(p => p.type === 'dropoff');
-      if (!dropoffPoint) {
-        throw new RobotError('Dropoff point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
-      }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, dropoffPoint);
-      
-      // Move robot to dropoff point
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [dropoffPoint],
-        type: 'standard',
-        speed: 0.5, // Moderate speed
-        accuracy: 0.1 // 10cm accuracy
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: dropoffPoint
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to move to dropoff point for task ${task.taskId}`, error);
-      return false;
+    if (this.document.returnPoint) {
+      await storage.updateTaskReturnPoint(task.taskId, findTaskPoint(task, this.document.returnPoint));
     }
   }
   
   /**
-   * Wait for loading at dropoff point
+   * Run a single step
    */
-  private async waitForLoad(task: Task): Promise<boolean> {
+  private async runStep(step: WorkflowStep, task: AssignedTask): Promise<boolean> {
     try {
-      // Send notification that robot arrived at dropoff
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        status: 'waiting_for_load',
-        message: 'Robot arrived at dropoff point. Please load item.'
-      });
-      
-      // In a real implementation, this would wait for confirmation
-      // For now, we'll simulate a wait
-      await new Promise(resolve => setTimeout(resolve, 10000)); // 10-second wait
-      
-      // Update payload information
-      await storage.updateTaskPayload(task.taskId, {
-        loaded: true,
-        timestamp: new Date()
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to wait for load for task ${task.taskId}`, error);
-      return false;
-    }
-  }
-  
-  /**
-   * Move to shelf
-   */
-  private async moveToShelf(task: Task): Promise<boolean> {
-    try {
-      // Find shelf point
-      const shelfPoint = task.points.find(p => p.type === 'shelf');
-      if (!shelfPoint) {
-        throw new RobotError('Shelf point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
+      switch (step.type) {
+        case WorkflowStepType.MOVE_TO_POI:
+          await this.moveTo(task, await this.resolveTarget(task, step), {
+            type: 'standard',
+            speed: step.speed ?? 0.5,
+            accuracy: step.accuracy ?? 0.1
+          });
+          break;
+          
+        case WorkflowStepType.ALIGN_WITH_RACK:
+          await this.moveTo(task, await this.resolveTarget(task, step), {
+            type: 'align_with_rack',
+            speed: 0.3,
+            accuracy: 0.02 // Has to sit squarely under the rack
+          });
+          break;
+          
+        case WorkflowStepType.JACK_UP:
+        case WorkflowStepType.JACK_DOWN: {
+          const loaded = step.type === WorkflowStepType.JACK_UP;
+          const client = directApi.getRobotApiClient(task.robotId);
+          await (loaded ? client.jackUp() : client.jackDown());
+          await new Promise(resolve => setTimeout(resolve, JACK_SETTLE_MS));
+          
+          await this.setLoaded(task, loaded);
+          break;
+        }
+          
+        case WorkflowStepType.WAIT_FOR_CONFIRMATION: {
+          const message = step.message || 'Robot is waiting for confirmation.';
+          const outcome = await taskConfirmations.waitForConfirmation(task, {
+            message,
+            timeoutSeconds: step.timeoutSeconds,
+            escalationSeconds: step.escalationSeconds
+          });
+          
+          if (outcome === 'canceled') {
+            return false;
+          }
+          if (outcome === 'timed_out') {
+            await this.abandonUnconfirmed(task, message);
+          }
+          
+          if (step.loaded !== undefined) {
+            await this.setLoaded(task, step.loaded);
+          }
+          break;
+        }
+          
+        case WorkflowStepType.WAIT_DURATION:
+          await new Promise(resolve => setTimeout(resolve, step.seconds * 1000));
+          break;
+          
+        case WorkflowStepType.GO_CHARGE:
+          await this.goCharge(task, await this.resolveTarget(task, step), step.speed ?? 0.3);
+          break;
+          
+        case WorkflowStepType.PATROL:
+          return await this.patrol(task, step);
       }
       
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, shelfPoint);
-      
-      // Move robot to shelf point
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [shelfPoint],
-        type: 'standard',
-        speed: 0.3, // Slower speed because carrying item
-        accuracy: 0.05 // 5cm accuracy for precise positioning
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: shelfPoint
-      });
-      
       return true;
     } catch (error) {
-      logError(`Failed to move to shelf for task ${task.taskId}`, error);
-      return false;
-    }
-  }
-  
-  /**
-   * Wait for unloading at shelf
-   */
-  private async waitForUnload(task: Task): Promise<boolean> {
-    try {
-      // Send notification that robot arrived at shelf
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        status: 'waiting_for_unload',
-        message: 'Robot arrived at shelf. Please unload item.'
-      });
-      
-      // In a real implementation, this would wait for confirmation
-      // For now, we'll simulate a wait
-      await new Promise(resolve => setTimeout(resolve, 10000)); // 10-second wait
-      
-      // Update payload information
-      await storage.updateTaskPayload(task.taskId, {
-        loaded: false,
-        timestamp: new Date()
-      });
+      logError(
+        `Workflow step ${step.name || step.type} failed for task ${task.taskId}`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
       
-      return true;
-    } catch (error) {
-      logError(`Failed to wait for unload for task ${task.taskId}`, error);
+      // Keep the reason so the task records why nobody confirmed or why a patrol gave up
+      if (error instanceof RobotError &&
+          (error.code === ErrorCode.CONFIRMATION_TIMEOUT || error.code === ErrorCode.PATROL_FAILED)) {
+        throw error;
+      }
       return false;
     }
   }
   
   /**
-   * Check for pending pickup tasks before returning to charger
+   * Lease a charger, preferring the step's, and dock on it
+   * Fails with ROBOT_BUSY if every charger on the robot's floor is taken.
    */
-  private async checkForPickupTasks(task: Task): Promise<boolean> {
-    try {
-      // Check for pending pickup tasks from the same floor
-      const robot = await storage.getRobot(task.robotId);
-      if (!robot) {
-        return true; // Skip if robot not found
-      }
-      
-      // Look for pending high-priority pickup tasks on this floor
-      const pendingPickupTasks = await storage.getPendingTasksByType(TaskType.PICKUP);
-      const sameFloorPickupTasks = pendingPickupTasks.filter(t => {
-        // Check if pickup task is on same floor
-        const firstPoint = t.points[0];
-        return firstPoint && firstPoint.floor === robot.floor && t.priority === 'high';
-      });
-      
-      // If found pending pickup tasks, assign the first one to this robot
-      if (sameFloorPickupTasks.length > 0) {
-        const pickupTask = sameFloorPickupTasks[0];
-        await storage.updateTaskStatus(pickupTask.taskId, TaskStatus.ASSIGNED);
-        await storage.updateTaskRobot(pickupTask.taskId, task.robotId);
-        
-        console.log(`Assigned pickup task ${pickupTask.taskId} to robot ${task.robotId}`);
-        
-        // Update current task with a note
-        await storage.updateTaskNotes(task.taskId, `Next task: ${pickupTask.taskId}`);
-      }
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to check pending pickup tasks for task ${task.taskId}`, error);
-      // Non-critical error, continue workflow
-      return true;
+  private async goCharge(task: AssignedTask, target: TaskPoint, speed: number): Promise<void> {
+    const charger = await chargerLeases.leaseFor(task.robotId, { poiId: target.ext?.id, x: target.x, y: target.y });
+    if (!charger) {
+      throw new RobotError(`Every charger on robot ${task.robotId}'s floor is taken`, ErrorCode.ROBOT_BUSY);
     }
-  }
-  
-  /**
-   * Return to charging station
-   */
-  private async returnToCharger(task: Task): Promise<boolean> {
+    
     try {
-      // Find charger point
-      const chargerPoint = task.points.find(p => p.type === 'charger');
-      if (!chargerPoint) {
-        throw new RobotError('Charger point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
-      }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, chargerPoint);
-      
-      // Move robot to charger
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [chargerPoint],
+      await this.moveTo(task, poiToTaskPoint(charger), {
         type: 'charge', // Special mode for docking
-        speed: 0.3,
+        speed,
         accuracy: 0.05 // Precise docking
       });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: chargerPoint
-      });
-      
-      return true;
     } catch (error) {
-      logError(`Failed to return to charger for task ${task.taskId}`, error);
-      return false;
+      await chargerLeases.releaseIfUndocked(task.robotId, 'move to charger failed');
+      throw error;
     }
   }
-}
-
-/**
- * Pickup task workflow (charger → shelf → pickup → charger)
- */
-class PickupWorkflow extends BaseTaskWorkflow {
-  constructor() {
-    super('Pickup Workflow', TaskType.PICKUP);
-    
-    // Add workflow steps
-    this.addStep(this.moveToShelf.bind(this));
-    this.addStep(this.waitForLoad.bind(this));
-    this.addStep(this.moveToPickupPoint.bind(this));
-    this.addStep(this.waitForUnload.bind(this));
-    this.addStep(this.returnToCharger.bind(this));
-  }
   
   /**
-   * Initialize pickup task
+   * Loop through the task's waypoints runNum times, or until runUntil, dwelling at checkpoints
+   * Each move is waited on before the robot counts as arrived. A waypoint the robot can't be sent to is skipped
+   * and one it fails to reach is unreachable; either way the patrol moves on, and only fails after maxMisses
+   * misses in a row. Returns false if the task is canceled.
    */
-  async initialize(task: Task): Promise<void> {
-    // Verify task has all required points
-    if (!task.points || task.points.length < 3) {
-      throw new RobotError(
-        'Pickup task requires at least 3 points: shelf, pickup, and charger', 
-        ErrorCode.INVALID_TASK_CONFIGURATION
-      );
-    }
+  private async patrol(task: AssignedTask, step: PatrolStep): Promise<boolean> {
+    const waypoints = this.patrolWaypoints(task);
+    const runUntil = task.runUntil ? new Date(task.runUntil) : null;
+    const laps = runUntil ? Infinity : Math.max(task.runNum ?? 1, 1);
+    const visits: CheckpointVisit[] = [...(task.checkpoints ?? [])];
+    let misses = 0;
     
-    // Check point types
-    const shelfPoint = task.points.find(p => p.type === 'shelf');
-    const pickupPoint = task.points.find(p => p.type === 'pickup');
-    const chargerPoint = task.points.find(p => p.type === 'charger');
-    
-    if (!shelfPoint || !pickupPoint || !chargerPoint) {
-      throw new RobotError(
-        'Pickup task requires shelf, pickup, and charger points', 
-        ErrorCode.INVALID_TASK_CONFIGURATION
-      );
+    for (let lap = 1; lap <= laps; lap++) {
+      for (let index = 0; index < waypoints.length; index++) {
+        if (runUntil && Date.now() >= runUntil.getTime()) {
+          return true;
+        }
+        if (await this.isCanceled(task)) {
+          return false;
+        }
+        
+        const point = waypoints[index];
+        const visit: CheckpointVisit = {
+          lap,
+          index,
+          pointId: point.ext?.id,
+          name: point.ext?.name,
+          checkpoint: point.type === PATROL_CHECKPOINT_TYPE,
+          status: 'reached'
+        };
+        
+        try {
+          await this.moveTo(task, point, {
+            type: 'standard',
+            speed: step.speed ?? 0.5,
+            accuracy: step.accuracy ?? 0.1
+          });
+          visit.arrivedAt = new Date();
+          misses = 0;
+        } catch (error) {
+          if (await this.isCanceled(task)) {
+            return false;
+          }
+          const skipped = error instanceof RobotError && PATROL_SKIP_CODES.includes(error.code);
+          visit.status = skipped ? 'skipped' : 'unreachable';
+          visit.reason = error instanceof Error ? error.message : 'Unknown error';
+          misses++;
+        }
+        
+        visits.push(visit);
+        visits.splice(0, Math.max(visits.length - MAX_CHECKPOINT_VISITS, 0));
+        await storage.updateTaskCheckpoints(task.taskId, visits);
+        websocketHandler.broadcastTaskUpdate(task.taskId, { checkpoint: visit });
+        
+        if (misses >= step.maxMisses) {
+          throw new RobotError(
+            `Patrol gave up after ${misses} missed waypoint(s) in a row: ${visit.reason}`,
+            ErrorCode.PATROL_FAILED
+          );
+        }
+        if (visit.checkpoint && visit.status === 'reached' && step.dwellSeconds > 0) {
+          await new Promise(resolve => setTimeout(resolve, step.dwellSeconds * 1000));
+        }
+      }
     }
     
-    // Set return point (in case task is canceled while robot is carrying a bin)
-    await storage.updateTaskReturnPoint(task.taskId, pickupPoint);
+    return true;
   }
   
   /**
-   * Move to shelf
+   * Task points a patrol visits: every point not used by another step by role
    */
-  private async moveToShelf(task: Task): Promise<boolean> {
-    try {
-      // Find shelf point
-      const shelfPoint = task.points.find(p => p.type === 'shelf');
-      if (!shelfPoint) {
-        throw new RobotError('Shelf point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
-      }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, shelfPoint);
-      
-      // Move robot to shelf point
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [shelfPoint],
-        type: 'standard',
-        speed: 0.5, // Normal speed
-        accuracy: 0.05 // 5cm accuracy for precise positioning
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: shelfPoint
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to move to shelf for task ${task.taskId}`, error);
-      return false;
-    }
+  private patrolWaypoints(task: Task): TaskPoint[] {
+    const roles = workflowPointRoles(this.document);
+    return (task.points ?? []).filter(point => point.type === undefined || !roles.includes(String(point.type)));
   }
   
-  /**
-   * Wait for loading at shelf
-   */
-  private async waitForLoad(task: Task): Promise<boolean> {
-    try {
-      // Send notification that robot arrived at shelf
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        status: 'waiting_for_load',
-        message: 'Robot arrived at shelf. Please load item.'
-      });
-      
-      // In a real implementation, this would wait for confirmation
-      // For now, we'll simulate a wait
-      await new Promise(resolve => setTimeout(resolve, 10000)); // 10-second wait
-      
-      // Update payload information
-      await storage.updateTaskPayload(task.taskId, {
-        loaded: true,
-        timestamp: new Date()
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to wait for load for task ${task.taskId}`, error);
-      return false;
-    }
+  private async isCanceled(task: AssignedTask): Promise<boolean> {
+    return (await storage.getTask(task.taskId))?.status === TaskStatus.CANCELLED;
   }
   
   /**
-   * Move to pickup point
+   * Record whether the robot carries the task's bin, and where the bin went
    */
-  private async moveToPickupPoint(task: Task): Promise<boolean> {
-    try {
-      // Find pickup point
-      const pickupPoint = task.points.find(p => p.type === 'pickup');
-      if (!pickupPoint) {
-        throw new RobotError('Pickup point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
-      }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, pickupPoint);
-      
-      // Move robot to pickup point
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [pickupPoint],
-        type: 'standard',
-        speed: 0.3, // Slower because carrying item
-        accuracy: 0.1 // 10cm accuracy
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: pickupPoint
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to move to pickup point for task ${task.taskId}`, error);
-      return false;
-    }
+  private async setLoaded(task: AssignedTask, loaded: boolean): Promise<void> {
+    await storage.updateTaskPayload(task.taskId, { loaded, timestamp: new Date() });
+    await inventory.recordPayloadChange(task.taskId, loaded);
   }
   
   /**
-   * Wait for unloading at pickup point
+   * Give up on a step nobody confirmed: take any bin back to the return point, then fail
    */
-  private async waitForUnload(task: Task): Promise<boolean> {
-    try {
-      // Send notification that robot arrived at pickup
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        status: 'waiting_for_unload',
-        message: 'Robot arrived at pickup point. Please unload item.'
-      });
-      
-      // In a real implementation, this would wait for confirmation
-      // For now, we'll simulate a wait
-      await new Promise(resolve => setTimeout(resolve, 10000)); // 10-second wait
-      
-      // Update payload information
-      await storage.updateTaskPayload(task.taskId, {
-        loaded: false,
-        timestamp: new Date()
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to wait for unload for task ${task.taskId}`, error);
-      return false;
+  private async abandonUnconfirmed(task: AssignedTask, message: string): Promise<never> {
+    const current = await storage.getTask(task.taskId);
+    let outcome = 'robot was not carrying a bin';
+    
+    if (current?.payload?.loaded === true) {
+      if (current.returnPoint) {
+        await this.moveTo(task, current.returnPoint, {
+          type: 'standard',
+          speed: 0.3, // Slower because carrying item
+          accuracy: 0.1
+        });
+        outcome = 'bin returned to return point';
+      } else {
+        outcome = 'WARNING: no return point set, bin is still on the robot';
+      }
     }
+    
+    throw new RobotError(
+      `Nobody confirmed "${message}" in time; ${outcome}`,
+      ErrorCode.CONFIRMATION_TIMEOUT
+    );
   }
   
   /**
-   * Return to charging station
+   * Resolve a step target to a task point by role, or to a fixed POI
    */
-  private async returnToCharger(task: Task): Promise<boolean> {
-    try {
-      // Find charger point
-      const chargerPoint = task.points.find(p => p.type === 'charger');
-      if (!chargerPoint) {
-        throw new RobotError('Charger point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
+  private async resolveTarget(task: AssignedTask, target: { point?: string; poiId?: string }): Promise<TaskPoint> {
+    if (target.poiId) {
+      const poi = await storage.getPoi(target.poiId);
+      if (!poi) {
+        throw new RobotError(`POI not found: ${target.poiId}`, ErrorCode.INVALID_TASK_CONFIGURATION);
       }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, chargerPoint);
-      
-      // Move robot to charger
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [chargerPoint],
-        type: 'charge', // Special mode for docking
-        speed: 0.3,
-        accuracy: 0.05 // Precise docking
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: chargerPoint
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to return to charger for task ${task.taskId}`, error);
-      return false;
+      return poiToTaskPoint(poi);
     }
-  }
-}
-
-/**
- * Return-to-charger task workflow
- */
-class ReturnWorkflow extends BaseTaskWorkflow {
-  constructor() {
-    super('Return Workflow', TaskType.RETURN);
     
-    // Add workflow steps
-    this.addStep(this.returnToCharger.bind(this));
+    const point = target.point ? findTaskPoint(task, target.point) : undefined;
+    if (!point) {
+      throw new RobotError(`Task has no ${target.point} point`, ErrorCode.INVALID_TASK_CONFIGURATION);
+    }
+    return point;
   }
   
   /**
-   * Initialize return task
+   * Move the robot to a point, wait for it to arrive and record the point as the task's current point
+   * Doors listed on the point's POI are opened first and stay open until the task ends.
    */
-  async initialize(task: Task): Promise<void> {
-    // Verify task has charger point
-    if (!task.points || task.points.length < 1) {
-      throw new RobotError(
-        'Return task requires at least 1 point: charger', 
-        ErrorCode.INVALID_TASK_CONFIGURATION
-      );
-    }
+  private async moveTo(
+    task: AssignedTask,
+    point: TaskPoint,
+    options: { type: string; speed: number; accuracy: number }
+  ): Promise<void> {
+    // Update current point
+    await storage.updateTaskCurrentPoint(task.taskId, point);
     
-    // Check point types
-    const chargerPoint = task.points.find(p => p.type === 'charger');
+    await doorAccess.openForPoint(point, { robotId: task.robotId, taskId: task.taskId });
     
-    if (!chargerPoint) {
-      throw new RobotError(
-        'Return task requires charger point', 
-        ErrorCode.INVALID_TASK_CONFIGURATION
-      );
-    }
+    // The step, and its trace span, ends when the move does
+    await MovementModule.moveRobot({
+      robotId: task.robotId,
+      points: [point],
+      ...options,
+      wait: true,
+      onMove: moveId => taskTracer.recordMove(task.robotId, moveId)
+    });
     
-    // Set return point
-    await storage.updateTaskReturnPoint(task.taskId, chargerPoint);
-  }
-  
-  /**
-   * Return to charging station
-   */
-  private async returnToCharger(task: Task): Promise<boolean> {
-    try {
-      // Find charger point
-      const chargerPoint = task.points.find(p => p.type === 'charger');
-      if (!chargerPoint) {
-        throw new RobotError('Charger point not found', ErrorCode.INVALID_TASK_CONFIGURATION);
-      }
-      
-      // Update current point
-      await storage.updateTaskCurrentPoint(task.taskId, chargerPoint);
-      
-      // Move robot to charger
-      await MovementModule.moveRobot({
-        robotId: task.robotId,
-        points: [chargerPoint],
-        type: 'charge', // Special mode for docking
-        speed: 0.5,
-        accuracy: 0.05 // Precise docking
-      });
-      
-      // Broadcast point update
-      websocketHandler.broadcastTaskUpdate(task.taskId, {
-        currentPoint: chargerPoint
-      });
-      
-      return true;
-    } catch (error) {
-      logError(`Failed to return to charger for task ${task.taskId}`, error);
-      return false;
-    }
+    // Broadcast point update
+    websocketHandler.broadcastTaskUpdate(task.taskId, {
+      currentPoint: point
+    });
   }
 }
 
@@ -701,7 +612,7 @@ class ReturnWorkflow extends BaseTaskWorkflow {
  * Task workflow factory
  */
 class TaskWorkflowFactory {
-  private static workflows: Map<TaskType, TaskWorkflow> = new Map();
+  private static workflows: Map<string, TaskWorkflow> = new Map();
   
   /**
    * Register task workflow
@@ -714,10 +625,37 @@ class TaskWorkflowFactory {
   /**
    * Get workflow for task type
    */
-  static getWorkflow(taskType: TaskType): TaskWorkflow | undefined {
+  static getWorkflow(taskType: string): TaskWorkflow | undefined {
     return this.workflows.get(taskType);
   }
   
+  /**
+   * Register a workflow from a validated definition (replaces any workflow for its task type)
+   */
+  static registerDefinition(document: WorkflowDocument): TaskWorkflow {
+    const workflow = new DeclarativeWorkflow(document);
+    this.registerWorkflow(workflow);
+    return workflow;
+  }
+  
+  /**
+   * Remove the workflow for a task type
+   */
+  static unregisterWorkflow(taskType: string): boolean {
+    const removed = this.workflows.delete(taskType);
+    if (removed) {
+      console.log(`Unregistered workflow for task type: ${taskType}`);
+    }
+    return removed;
+  }
+  
+  /**
+   * Task types that currently have a workflow
+   */
+  static getTaskTypes(): string[] {
+    return Array.from(this.workflows.keys());
+  }
+  
   /**
    * Create and initialize new task
    */
@@ -725,17 +663,13 @@ class TaskWorkflowFactory {
     // Generate task ID
     const taskId = taskData.taskId || uuidv4();
     
-    // Validate required fields
-    if (!taskData.robotId) {
-      throw new RobotError('Robot ID is required', ErrorCode.INVALID_TASK_CONFIGURATION);
-    }
-    
+    // Validate required fields (robotId is optional, the dispatcher assigns one if missing)
     if (!taskData.taskType) {
       throw new RobotError('Task type is required', ErrorCode.INVALID_TASK_CONFIGURATION);
     }
     
     // Get workflow for task type
-    const workflow = this.getWorkflow(taskData.taskType as TaskType);
+    const workflow = this.getWorkflow(taskData.taskType);
     if (!workflow) {
       throw new RobotError(`No workflow registered for task type: ${taskData.taskType}`, ErrorCode.INVALID_TASK_CONFIGURATION);
     }
@@ -744,24 +678,36 @@ class TaskWorkflowFactory {
     const task: Task = {
       taskId,
       name: taskData.name || `${taskData.taskType} Task`,
-      robotId: taskData.robotId,
+      robotId: taskData.robotId || null,
       status: TaskStatus.PENDING,
-      taskType: taskData.taskType as TaskType,
-      priority: taskData.priority || 'medium',
+      taskType: taskData.taskType,
+      priority: taskData.priority || Priority.NORMAL,
       createdAt: new Date(),
       currentStep: 0,
       runMode: taskData.runMode,
       runNum: taskData.runNum,
+      runUntil: taskData.runUntil || null,
       points: taskData.points || [],
       payload: taskData.payload || null,
+      binId: taskData.binId || null,
       errorDetails: null
     };
     
-    // Store task
-    await storage.createTask(task);
+    // Bin tasks get their shelf slot from the inventory
+    if (task.binId && workflow instanceof DeclarativeWorkflow) {
+      task.points = await inventory.assignBin(task, workflowPointRoles(workflow.document));
+    }
     
-    // Initialize workflow
-    await workflow.initialize(task);
+    try {
+      // Store task
+      await storage.createTask(task);
+      
+      // Initialize workflow
+      await workflow.initialize(task);
+    } catch (error) {
+      await inventory.releaseTask(task);
+      throw error;
+    }
     
     // Broadcast task creation
     websocketHandler.broadcastTaskUpdate(taskId, {
@@ -771,6 +717,11 @@ class TaskWorkflowFactory {
       createdAt: task.createdAt
     });
     
+    // Hand robot-agnostic tasks to the dispatcher
+    if (!task.robotId) {
+      fleetDispatcher.requestDispatch();
+    }
+    
     return task;
   }
   
@@ -787,19 +738,37 @@ class TaskWorkflowFactory {
     // Skip if already completed or failed
     if (task.status === TaskStatus.COMPLETED || 
         task.status === TaskStatus.FAILED ||
-        task.status === TaskStatus.CANCELED) {
+        task.status === TaskStatus.CANCELLED) {
       console.log(`Task ${taskId} already in terminal state: ${task.status}`);
       return true;
     }
     
     // Get workflow for task type
-    const workflow = this.getWorkflow(task.taskType as TaskType);
+    const workflow = this.getWorkflow(task.taskType);
     if (!workflow) {
       throw new RobotError(`No workflow registered for task type: ${task.taskType}`, ErrorCode.INVALID_TASK_CONFIGURATION);
     }
     
-    // Execute workflow
-    return workflow.execute(task);
+    // Never drive a robot with two tasks at once
+    if (task.robotId) {
+      const activeTasks = await storage.getActiveTasksByRobot(task.robotId);
+      const otherTask = activeTasks.find(t => t.taskId !== taskId && t.status === TaskStatus.IN_PROGRESS);
+      if (otherTask) {
+        throw new RobotError(
+          `Robot ${task.robotId} is already running task ${otherTask.taskId}`,
+          ErrorCode.ROBOT_BUSY
+        );
+      }
+    }
+    
+    // Execute workflow, then free the robot up for the dispatcher
+    try {
+      return await workflow.execute(task);
+    } finally {
+      if (task.robotId) {
+        robotMonitor.notifyRobotIdle(task.robotId);
+      }
+    }
   }
   
   /**
@@ -815,7 +784,7 @@ class TaskWorkflowFactory {
     // Skip if already completed, failed, or canceled
     if (task.status === TaskStatus.COMPLETED || 
         task.status === TaskStatus.FAILED ||
-        task.status === TaskStatus.CANCELED) {
+        task.status === TaskStatus.CANCELLED) {
       console.log(`Task ${taskId} already in terminal state: ${task.status}`);
       return true;
     }
@@ -823,11 +792,19 @@ class TaskWorkflowFactory {
     try {
       console.log(`Canceling task ${taskId}`);
       
-      // Cancel current robot movement
-      await directApi.cancelMoveAction(task.robotId);
+      // Save the cancellation first so the workflow sees it when its step is interrupted
+      await storage.updateTaskStatus(taskId, TaskStatus.CANCELLED);
+      
+      // Release a workflow parked on a confirmation step
+      taskConfirmations.cancel(taskId);
+      
+      // Cancel current robot movement (unassigned tasks have no robot to stop)
+      if (task.robotId) {
+        await directApi.getRobotApiClient(task.robotId).cancelCurrentMove();
+      }
       
       // Check if robot is carrying a bin (based on payload status)
-      if (task.payload && task.payload.loaded === true) {
+      if (task.robotId && task.payload && task.payload.loaded === true) {
         console.log(`Robot is carrying bin for task ${taskId}, sending to return point first`);
         
         // If robot is carrying a bin, send it to the return point first
@@ -841,23 +818,21 @@ class TaskWorkflowFactory {
             accuracy: 0.1
           });
           
-          // Update task status
-          await storage.updateTaskStatus(taskId, TaskStatus.CANCELED);
           await storage.updateTaskNotes(taskId, 'Task canceled; robot returned bin to return point');
         } else {
           // No return point set, update with error
-          await storage.updateTaskStatus(taskId, TaskStatus.CANCELED);
           await storage.updateTaskNotes(taskId, 'Task canceled; WARNING: No return point set for bin return');
         }
       } else {
         // Robot not carrying bin, simply cancel
-        await storage.updateTaskStatus(taskId, TaskStatus.CANCELED);
         await storage.updateTaskNotes(taskId, 'Task canceled');
       }
       
+      await inventory.releaseTask(task);
+      
       // Broadcast task cancellation
       websocketHandler.broadcastTaskUpdate(taskId, {
-        status: TaskStatus.CANCELED
+        status: TaskStatus.CANCELLED
       });
       
       return true;
@@ -866,6 +841,7 @@ class TaskWorkflowFactory {
       
       // Mark as failed if cancellation fails
       await storage.updateTaskStatus(taskId, TaskStatus.FAILED);
+      await storage.updateTaskCompletionTime(taskId, new Date());
       
       // Add error details
       const errorDetails = {
@@ -883,10 +859,8 @@ class TaskWorkflowFactory {
   }
 }
 
-// Register workflows
-TaskWorkflowFactory.registerWorkflow(new DropoffWorkflow());
-TaskWorkflowFactory.registerWorkflow(new PickupWorkflow());
-TaskWorkflowFactory.registerWorkflow(new ReturnWorkflow());
+// Register built-in workflows (definitions stored in the database replace them on startup)
+BUILT_IN_WORKFLOWS.forEach(document => TaskWorkflowFactory.registerDefinition(document));
 
 // Export only TaskWorkflowFactory to avoid conflicts with shared/schema.ts
 export {
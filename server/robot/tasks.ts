@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { getRobotSdk } from './sdk';
 import { handleError, logError } from './errors';
 import { storage } from '../storage';
+import { geofences } from './geofences';
 import { 
   Task, 
   TaskRequest, 
@@ -37,6 +38,10 @@ export class TaskManager {
         ? this.prepareSinglePoint(taskRequest.returnPoint) 
         : null;
       
+      // Refuse targets in no-go zones and slow down through slow zones
+      await geofences.assertAllowed([...points, currentPoint, returnPoint]);
+      const speed = await geofences.clampSpeed(taskRequest.robotId, points, taskRequest.speed);
+      
       // Create task in storage
       const task = await storage.createTask({
         taskId,
@@ -50,7 +55,7 @@ export class TaskManager {
         runType: taskRequest.runType,
         routeMode: taskRequest.routeMode || 1,
         ignorePublicSite: taskRequest.ignorePublicSite || false,
-        speed: taskRequest.speed || -1,
+        speed: speed || -1,
         points,
         currentPoint,
         returnPoint,
@@ -278,8 +283,9 @@ export class TaskManager {
         throw new Error(`Task with ID ${taskId} not found`);
       }
       
-      // Update task status
+      // Update task status (the completion time dates the failure)
       await storage.updateTaskStatus(taskId, TaskStatus.FAILED);
+      await storage.updateTaskCompletionTime(taskId, new Date());
       
       // Update error details
       await storage.updateTaskErrorDetails(taskId, errorDetails);
@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import { robotMonitor } from './robot-monitor';
+import {
+  TelemetryMetric,
+  type InsertTelemetrySample,
+  type TelemetrySample,
+  type TelemetryValues
+} from '@shared/schema';
+
+// Seconds per sample as recorded, and after rollup
+const RAW_RESOLUTION = 10;
+const ROLLUP_RESOLUTION = 300;
+
+// How long raw samples are kept before they are rolled up, and how long rollups are kept
+const RAW_RETENTION_MS = 7 * 24 * 3600000;
+const ROLLUP_RETENTION_MS = 90 * 24 * 3600000;
+
+// How often finished buckets are written, and how often rollup and retention run
+const FLUSH_INTERVAL_MS = RAW_RESOLUTION * 1000;
+const MAINTENANCE_INTERVAL_MS = 3600000;
+
+// History window when the caller gives no range, and the most points a history may hold
+const DEFAULT_WINDOW_MS = 24 * 3600000;
+const DEFAULT_MAX_POINTS = 500;
+const MAX_POINTS_LIMIT = 5000;
+
+const METRICS = Object.values(TelemetryMetric) as string[];
+
+// Query string time; an empty value means unset
+const queryDate = z.preprocess(value => value === '' ? undefined : value, z.coerce.date().optional());
+
+// History query as sent by clients
+const historyQuerySchema = z.object({
+  metric: z.enum(Object.values(TelemetryMetric) as [string, ...string[]]),
+  from: queryDate,
+  to: queryDate,
+  maxPoints: z.coerce.number().int().min(1).max(MAX_POINTS_LIMIT).optional()
+});
+
+// Readings of one metric of one robot within a bucket
+interface Bucket {
+  robotId: string;
+  metric: string;
+  start: number;
+  readings: TelemetryValues[];
+}
+
+// One point of a telemetry history
+export type TelemetryPoint = Record<string, TelemetryValues[string] | Date> & { at: Date };
+
+// Telemetry of one metric over a time range
+export interface TelemetryHistory {
+  robotId: string;
+  metric: string;
+  from: Date;
+  to: Date;
+  resolution: number; // seconds per point
+  samples: TelemetryPoint[];
+}
+
+/**
+ * Start of the bucket a time falls in
+ * @param resolution Bucket length in seconds
+ */
+function bucketStart(time: number, resolution: number): number {
+  return Math.floor(time / (resolution * 1000)) * resolution * 1000;
+}
+
+/**
+ * Combine readings into one: numbers are averaged, flags are set if any reading set them and text keeps the last value.
+ * Poses keep the last reading, since averaging headings across the wrap-around is meaningless.
+ */
+function aggregate(metric: string, readings: TelemetryValues[]): TelemetryValues {
+  if (metric === TelemetryMetric.POSE) {
+    return readings[readings.length - 1];
+  }
+
+  const result: TelemetryValues = {};
+  const keys = new Set(readings.flatMap(reading => Object.keys(reading)));
+  for (const key of Array.from(keys)) {
+    const values = readings.map(reading => reading[key]).filter(value => value !== null && value !== undefined);
+    if (values.length === 0) {
+      result[key] = null;
+    } else if (values.every(value => typeof value === 'number')) {
+      result[key] = (values as number[]).reduce((sum, value) => sum + value, 0) / values.length;
+    } else if (values.every(value => typeof value === 'boolean')) {
+      result[key] = values.some(Boolean);
+    } else {
+      result[key] = values[values.length - 1];
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop rollups that cover the same time as finer samples
+ * Rollups and the raw samples they were built from briefly coexist; prefer the finest ones.
+ */
+export function preferFinestSamples(samples: TelemetrySample[]): TelemetrySample[] {
+  const finest = samples.reduce((min, sample) => Math.min(min, sample.resolution), Infinity);
+  const firstFinest = samples.find(sample => sample.resolution === finest)?.recordedAt.getTime() ?? Infinity;
+  return samples.filter(sample =>
+    sample.resolution === finest || sample.recordedAt.getTime() + sample.resolution * 1000 <= firstFinest);
+}
+
+/**
+ * Group samples into buckets and combine each bucket into one sample
+ */
+function downsample(samples: TelemetrySample[], resolution: number): InsertTelemetrySample[] {
+  const buckets: Map<string, Bucket> = new Map();
+
+  for (const sample of samples) {
+    const start = bucketStart(sample.recordedAt.getTime(), resolution);
+    const key = `${sample.robotId}|${sample.metric}|${start}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { robotId: sample.robotId, metric: sample.metric, start, readings: [] };
+      buckets.set(key, bucket);
+    }
+    bucket.readings.push(sample.values);
+  }
+
+  return Array.from(buckets.values()).map(bucket => ({
+    robotId: bucket.robotId,
+    metric: bucket.metric,
+    resolution,
+    values: aggregate(bucket.metric, bucket.readings),
+    recordedAt: new Date(bucket.start)
+  }));
+}
+
+/**
+ * Robot telemetry
+ * Records the battery, pose, planning and wheel readings RobotMonitor receives as 10 s samples.
+ * Samples older than a week are rolled up to 5 minutes and rollups are dropped after 90 days.
+ * Histories are downsampled on read to a bounded number of points.
+ */
+class RobotTelemetry {
+  private flushTimer: NodeJS.Timeout | null = null;
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+  private buckets: Map<string, Bucket> = new Map();
+  private pending: InsertTelemetrySample[] = [];
+  private subscribed = false;
+
+  /**
+   * Start recording telemetry
+   */
+  start(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    if (!this.subscribed) {
+      robotMonitor.onTelemetry((robotId, metric, values) => this.record(robotId, metric, values));
+      this.subscribed = true;
+    }
+
+    this.flushTimer = setInterval(() => {
+      this.flush(false).catch(error => {
+        console.error('Failed to write telemetry:', error);
+      });
+    }, FLUSH_INTERVAL_MS);
+    this.maintenanceTimer = setInterval(() => {
+      this.compact().catch(error => {
+        console.error('Telemetry rollup failed:', error);
+      });
+    }, MAINTENANCE_INTERVAL_MS);
+    console.log('Telemetry recorder started');
+  }
+
+  /**
+   * Stop recording telemetry, writing whatever is buffered
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+    await this.flush(true);
+  }
+
+  /**
+   * Get a robot's history of one metric
+   * @param query metric, plus optional from and to (default the last 24 hours) and maxPoints
+   */
+  async getHistory(robotId: string, query: unknown): Promise<TelemetryHistory> {
+    const { metric, from: fromInput, to: toInput, maxPoints } = parseInput(historyQuerySchema, query);
+    const to = toInput ?? new Date();
+    const from = fromInput ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+    if (from.getTime() >= to.getTime()) {
+      throw new RobotError('from must be before to', ErrorCode.INVALID_PARAM);
+    }
+
+    if (!(await storage.getRobot(robotId))) {
+      throw new RobotError(`Robot not found: ${robotId}`, ErrorCode.NOT_FOUND);
+    }
+
+    const samples = await storage.getTelemetrySamples({ robotId, metric, from, to });
+    const sources = preferFinestSamples(samples);
+
+    const spanSeconds = (to.getTime() - from.getTime()) / 1000;
+    const step = Math.ceil(spanSeconds / (maxPoints ?? DEFAULT_MAX_POINTS) / RAW_RESOLUTION) * RAW_RESOLUTION;
+    const resolution = sources.reduce((coarsest, sample) => Math.max(coarsest, sample.resolution), Math.max(step, RAW_RESOLUTION));
+
+    return {
+      robotId,
+      metric,
+      from,
+      to,
+      resolution,
+      samples: downsample(sources, resolution).map(sample => ({ ...sample.values, at: sample.recordedAt }))
+    };
+  }
+
+  /**
+   * Add a reading to its robot's bucket, closing the previous bucket if time has moved on
+   */
+  private record(robotId: string, metric: string, values: TelemetryValues): void {
+    if (!METRICS.includes(metric)) {
+      return;
+    }
+
+    const key = `${robotId}|${metric}`;
+    const start = bucketStart(Date.now(), RAW_RESOLUTION);
+    const bucket = this.buckets.get(key);
+    if (bucket && bucket.start === start) {
+      bucket.readings.push(values);
+      return;
+    }
+
+    if (bucket) {
+      this.pending.push(this.close(bucket));
+    }
+    this.buckets.set(key, { robotId, metric, start, readings: [values] });
+  }
+
+  /**
+   * Write closed buckets, plus buckets whose time has passed
+   * @param all Also write buckets that are still filling
+   */
+  private async flush(all: boolean): Promise<void> {
+    const current = bucketStart(Date.now(), RAW_RESOLUTION);
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (all || bucket.start < current) {
+        this.pending.push(this.close(bucket));
+        this.buckets.delete(key);
+      }
+    }
+
+    if (this.pending.length === 0) {
+      return;
+    }
+    const samples = this.pending;
+    this.pending = [];
+    await storage.createTelemetrySamples(samples);
+  }
+
+  /**
+   * Roll raw samples past retention up into 5-minute samples, then drop expired rollups
+   */
+  private async compact(): Promise<void> {
+    const now = Date.now();
+    // Align the cutoff so no 5-minute bucket is split between two rollups
+    const rawCutoff = new Date(bucketStart(now - RAW_RETENTION_MS, ROLLUP_RESOLUTION));
+
+    const expired = await storage.getTelemetrySamples({ resolution: RAW_RESOLUTION, to: rawCutoff });
+    if (expired.length > 0) {
+      const rollups = downsample(expired, ROLLUP_RESOLUTION);
+      await storage.createTelemetrySamples(rollups);
+      await storage.deleteTelemetrySamples({ resolution: RAW_RESOLUTION, before: rawCutoff });
+      console.log(`Rolled ${expired.length} telemetry sample(s) up into ${rollups.length}`);
+    }
+
+    const dropped = await storage.deleteTelemetrySamples({
+      resolution: ROLLUP_RESOLUTION,
+      before: new Date(now - ROLLUP_RETENTION_MS)
+    });
+    if (dropped > 0) {
+      console.log(`Dropped ${dropped} expired telemetry rollup(s)`);
+    }
+  }
+
+  private close(bucket: Bucket): InsertTelemetrySample {
+    return {
+      robotId: bucket.robotId,
+      metric: bucket.metric,
+      resolution: RAW_RESOLUTION,
+      values: aggregate(bucket.metric, bucket.readings),
+      recordedAt: new Date(bucket.start)
+    };
+  }
+}
+
+// Create singleton instance
+export const telemetry = new RobotTelemetry();
@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import { trafficManager } from './traffic';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+/**
+ * Holder, occupants and waiting robots of every active zone
+ * GET /api/traffic/status
+ */
+router.get('/status', (_req: Request, res: Response) => {
+  res.json(trafficManager.getStatus());
+});
+
+/**
+ * Get recent zone grants, releases and deadlocks
+ * GET /api/traffic/events?robotId=&limit=
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const robotId = typeof req.query.robotId === 'string' ? req.query.robotId : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    res.json(await trafficManager.getEvents(robotId, Number.isNaN(limit) ? undefined : limit));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get all zones (?areaId= limits them to one map)
+ * GET /api/traffic/zones
+ */
+router.get('/zones', async (req: Request, res: Response) => {
+  try {
+    const areaId = typeof req.query.areaId === 'string' ? req.query.areaId : undefined;
+    res.json(await trafficManager.listZones(areaId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get a zone
+ * GET /api/traffic/zones/:zoneId
+ */
+router.get('/zones/:zoneId', async (req: Request, res: Response) => {
+  try {
+    res.json(await trafficManager.getZone(req.params.zoneId));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a zone
+ * POST /api/traffic/zones
+ */
+router.post('/zones', async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await trafficManager.createZone(req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Update a zone
+ * PUT /api/traffic/zones/:zoneId
+ */
+router.put('/zones/:zoneId', async (req: Request, res: Response) => {
+  try {
+    res.json(await trafficManager.updateZone(req.params.zoneId, req.body));
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a zone
+ * DELETE /api/traffic/zones/:zoneId
+ */
+router.delete('/zones/:zoneId', async (req: Request, res: Response) => {
+  try {
+    await trafficManager.deleteZone(req.params.zoneId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Clear a stale hold on a zone
+ * POST /api/traffic/zones/:zoneId/release
+ */
+router.post('/zones/:zoneId/release', async (req: Request, res: Response) => {
+  try {
+    await trafficManager.releaseZone(req.params.zoneId);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
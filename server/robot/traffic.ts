@@ -0,0 +1,522 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import * as directApi from './direct-api';
+import { ErrorCode, RobotError } from './errors';
+import { robotEventRecorder } from './robot-events';
+import { parseInput } from './validation';
+import { robotMonitor } from './robot-monitor';
+import { containsPoint, distance, pathCrosses } from './geometry';
+import {
+  insertTrafficZoneSchema,
+  priorityRank,
+  type RobotEvent,
+  type TaskPoint,
+  type TrafficZone,
+  type ZoneEntryPoint,
+  type ZoneVertex
+} from '@shared/schema';
+
+// Event category for every zone grant, release and deadlock
+const EVENT_CATEGORY = 'traffic';
+const record = robotEventRecorder(EVENT_CATEGORY, 'Traffic');
+
+// How long a robot waits at a zone entry before its move fails
+const WAIT_TIMEOUT_MS = 10 * 60000;
+
+// How often waiting robots are checked for deadlocks
+const DEADLOCK_CHECK_MS = 5000;
+
+// Zone fields as sent by clients
+const vertexSchema = z.object({ x: z.number().finite(), y: z.number().finite() });
+const zoneInputSchema = insertTrafficZoneSchema.extend({
+  zoneId: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  areaId: z.string().trim().min(1),
+  polygon: z.array(vertexSchema).min(3),
+  entryPoints: z.array(vertexSchema.extend({ yaw: z.number().min(-360).max(360) })).min(1),
+  isActive: z.boolean().optional()
+});
+const zoneUpdateSchema = zoneInputSchema.omit({ zoneId: true }).partial();
+
+// Active zone with the floor of its map
+interface LoadedZone {
+  zone: TrafficZone;
+  floor: string;
+}
+
+// Robot waiting at a zone entry for every zone its next move crosses
+interface Waiter {
+  robotId: string;
+  zoneIds: string[];
+  priority: number;
+  since: Date;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface ZoneStatus {
+  zoneId: string;
+  name: string;
+  areaId: string;
+  holder: string | null;
+  occupants: string[];
+  waiting: string[];
+}
+
+/**
+ * Traffic manager
+ * Gives robots exclusive use of traffic zones: a robot waits at a zone's entry until the zone is free,
+ * holds it while inside, and releases it on leaving. Robots that wait on each other are untangled by task priority.
+ */
+class TrafficManager {
+  private zones: Map<string, LoadedZone> = new Map();
+  private holders: Map<string, string> = new Map();          // zone ID -> robot ID
+  private occupied: Map<string, Set<string>> = new Map();    // robot ID -> zones its pose is inside
+  private waiters: Waiter[] = [];
+  private yielding: Set<string> = new Set();                 // robots backing out to break a deadlock
+  private deadlockTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  /**
+   * Load zones, follow robot poses and start checking for deadlocks
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    await this.reload();
+
+    robotMonitor.onPoseUpdate((robotId, pose) => {
+      this.handlePose(robotId, pose).catch(error => {
+        console.error(`Traffic update failed for robot ${robotId}:`, error);
+      });
+    });
+    robotMonitor.onRobotIdle(robotId => this.releaseUnoccupied(robotId));
+    this.deadlockTimer = setInterval(() => {
+      this.resolveDeadlocks().catch(error => {
+        console.error('Traffic deadlock check failed:', error);
+      });
+    }, DEADLOCK_CHECK_MS);
+
+    console.log(`Traffic manager started with ${this.zones.size} zone(s)`);
+  }
+
+  /**
+   * Stop the deadlock checks
+   */
+  stop(): void {
+    if (this.deadlockTimer) {
+      clearInterval(this.deadlockTimer);
+      this.deadlockTimer = null;
+    }
+  }
+
+  /**
+   * Get every zone
+   */
+  async listZones(areaId?: string): Promise<TrafficZone[]> {
+    const zones = await storage.getAllTrafficZones();
+    return areaId ? zones.filter(zone => zone.areaId === areaId) : zones;
+  }
+
+  /**
+   * Get a zone or throw NOT_FOUND
+   */
+  async getZone(zoneId: string): Promise<TrafficZone> {
+    const zone = await storage.getTrafficZone(zoneId);
+    if (!zone) {
+      throw new RobotError(`Traffic zone not found: ${zoneId}`, ErrorCode.NOT_FOUND);
+    }
+    return zone;
+  }
+
+  /**
+   * Create a zone
+   */
+  async createZone(input: unknown): Promise<TrafficZone> {
+    const data = parseInput(zoneInputSchema, input);
+    if (await storage.getTrafficZone(data.zoneId)) {
+      throw new RobotError(`Traffic zone ${data.zoneId} already exists`, ErrorCode.CONFLICT);
+    }
+    await this.assertValidZone(data);
+
+    const zone = await storage.createTrafficZone({ ...data, isActive: data.isActive ?? true });
+    await this.reload();
+    return zone;
+  }
+
+  /**
+   * Update a zone
+   */
+  async updateZone(zoneId: string, input: unknown): Promise<TrafficZone> {
+    const zone = await this.getZone(zoneId);
+    const data = parseInput(zoneUpdateSchema, input);
+    await this.assertValidZone({ ...zone, ...data });
+
+    const updated = (await storage.updateTrafficZone(zoneId, data))!;
+    await this.reload();
+    return updated;
+  }
+
+  /**
+   * Delete a zone, letting anyone waiting for it through
+   */
+  async deleteZone(zoneId: string): Promise<void> {
+    await this.getZone(zoneId);
+    await storage.deleteTrafficZone(zoneId);
+    await this.reload();
+  }
+
+  /**
+   * Who holds, occupies and waits for each zone
+   */
+  getStatus(): ZoneStatus[] {
+    return Array.from(this.zones.values()).map(({ zone }) => ({
+      zoneId: zone.zoneId,
+      name: zone.name,
+      areaId: zone.areaId,
+      holder: this.holders.get(zone.zoneId) ?? null,
+      occupants: Array.from(this.occupied.entries())
+        .filter(([, zoneIds]) => zoneIds.has(zone.zoneId))
+        .map(([robotId]) => robotId),
+      waiting: this.waiters.filter(waiter => waiter.zoneIds.includes(zone.zoneId)).map(waiter => waiter.robotId)
+    }));
+  }
+
+  /**
+   * Zone grants, releases and deadlocks recorded in the audit trail, newest first
+   */
+  async getEvents(robotId?: string, limit?: number): Promise<RobotEvent[]> {
+    return storage.getRobotEvents({ robotId, category: EVENT_CATEGORY, limit });
+  }
+
+  /**
+   * Wait until a robot may drive to a point
+   * Every zone between the robot and the point must be free; otherwise the robot is sent to the
+   * blocking zone's entry point and waits there for its turn.
+   */
+  async acquire(robotId: string, point: TaskPoint): Promise<void> {
+    if (!this.started || this.zones.size === 0) {
+      return;
+    }
+
+    const zoneIds = await this.getZonesOnPath(robotId, point);
+    this.releaseUnoccupied(robotId, zoneIds);
+    this.cancelWait(robotId);
+
+    if (this.isFree(zoneIds, robotId)) {
+      await this.reserve(robotId, zoneIds);
+      return;
+    }
+
+    const blockingId = zoneIds.find(zoneId => !this.isFree([zoneId], robotId))!;
+    const blocking = this.zones.get(blockingId)!.zone;
+    const tasks = await storage.getActiveTasksByRobot(robotId);
+    const priority = Math.max(priorityRank(null), ...tasks.map(task => priorityRank(task.priority)));
+
+    await record(robotId, 'waiting',
+      `Waiting for ${blocking.name}, held by robot ${this.holders.get(blockingId)}`, { zoneIds, priority });
+    if (!this.occupied.get(robotId)?.has(blockingId)) {
+      await this.sendToEntry(robotId, blocking);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(waiter => waiter.robotId !== robotId);
+        record(robotId, 'wait_timeout', `Gave up waiting for ${blocking.name}`, { zoneIds });
+        reject(new RobotError(`Robot ${robotId} timed out waiting for traffic zone ${blocking.name}`, ErrorCode.TRAFFIC_BLOCKED));
+      }, WAIT_TIMEOUT_MS);
+
+      this.waiters.push({ robotId, zoneIds, priority, since: new Date(), resolve, reject, timer });
+    });
+  }
+
+  /**
+   * Drop a robot's hold on a zone (e.g. the robot was taken off the floor by hand)
+   */
+  async releaseZone(zoneId: string): Promise<void> {
+    await this.getZone(zoneId);
+    const robotId = this.holders.get(zoneId);
+    if (robotId) {
+      this.release(zoneId, robotId, 'released by an operator');
+    }
+  }
+
+  /**
+   * Reload active zones and drop state for zones that no longer exist
+   */
+  private async reload(): Promise<void> {
+    const [zones, maps] = await Promise.all([storage.getAllTrafficZones(), storage.getAllMaps()]);
+    const floors = new Map(maps.map(map => [map.areaId, map.floor]));
+
+    this.zones = new Map(zones
+      .filter(zone => zone.isActive && floors.has(zone.areaId))
+      .map(zone => [zone.zoneId, { zone, floor: floors.get(zone.areaId)! }]));
+
+    for (const zoneId of Array.from(this.holders.keys())) {
+      if (!this.zones.has(zoneId)) {
+        this.holders.delete(zoneId);
+      }
+    }
+    for (const waiter of this.waiters) {
+      waiter.zoneIds = waiter.zoneIds.filter(zoneId => this.zones.has(zoneId));
+    }
+    await this.grantWaiting();
+  }
+
+  /**
+   * Zones a robot's straight path to a point crosses (just the target's zones if its pose is unknown)
+   */
+  private async getZonesOnPath(robotId: string, point: TaskPoint): Promise<string[]> {
+    const robot = await storage.getRobot(robotId);
+    const pose = robotMonitor.getRobotState(robotId)?.pose;
+
+    return Array.from(this.zones.values())
+      .filter(({ zone, floor }) => {
+        if (zone.areaId !== point.areaId) {
+          return false;
+        }
+        return pose && robot?.floor === floor
+          ? pathCrosses(zone.polygon, pose, point)
+          : containsPoint(zone.polygon, point);
+      })
+      .map(({ zone }) => zone.zoneId);
+  }
+
+  /**
+   * Track which zones a robot is in; a robot takes a free zone it drives into and releases one it leaves
+   */
+  private async handlePose(robotId: string, pose: { x: number; y: number }): Promise<void> {
+    if (this.zones.size === 0) {
+      return;
+    }
+
+    const robot = await storage.getRobot(robotId);
+    const inside = new Set(Array.from(this.zones.values())
+      .filter(({ zone, floor }) => floor === robot?.floor && containsPoint(zone.polygon, pose))
+      .map(({ zone }) => zone.zoneId));
+    const before = this.occupied.get(robotId) ?? new Set<string>();
+    this.occupied.set(robotId, inside);
+
+    for (const zoneId of Array.from(inside)) {
+      if (before.has(zoneId)) {
+        continue;
+      }
+      const holder = this.holders.get(zoneId);
+      if (!holder) {
+        this.holders.set(zoneId, robotId);
+        await record(robotId, 'entered', `Entered ${this.zones.get(zoneId)!.zone.name} without waiting`, { zoneId });
+      } else if (holder !== robotId) {
+        await record(robotId, 'intrusion',
+          `Entered ${this.zones.get(zoneId)!.zone.name} while robot ${holder} holds it`, { zoneId, holder });
+      }
+    }
+
+    let released = false;
+    for (const zoneId of Array.from(before)) {
+      if (!inside.has(zoneId) && this.holders.get(zoneId) === robotId) {
+        this.release(zoneId, robotId, 'left the zone');
+        released = true;
+      }
+    }
+    if (released) {
+      await this.grantWaiting();
+    }
+  }
+
+  /**
+   * Whether a robot may use every zone in a list
+   */
+  private isFree(zoneIds: string[], robotId: string): boolean {
+    return zoneIds.every(zoneId => {
+      const holder = this.holders.get(zoneId);
+      return !holder || holder === robotId;
+    });
+  }
+
+  /**
+   * Give a robot every zone in a list
+   */
+  private async reserve(robotId: string, zoneIds: string[]): Promise<void> {
+    const granted = zoneIds.filter(zoneId => this.holders.get(zoneId) !== robotId);
+    granted.forEach(zoneId => this.holders.set(zoneId, robotId));
+    if (granted.length > 0) {
+      await record(robotId, 'granted',
+        `Granted ${granted.map(zoneId => this.zones.get(zoneId)!.zone.name).join(', ')}`, { zoneIds: granted });
+    }
+  }
+
+  /**
+   * Release zones a robot holds but is not inside, except the ones it is about to use
+   */
+  private releaseUnoccupied(robotId: string, keep: string[] = []): void {
+    const inside = this.occupied.get(robotId) ?? new Set<string>();
+    let released = false;
+
+    for (const [zoneId, holder] of Array.from(this.holders.entries())) {
+      if (holder === robotId && !inside.has(zoneId) && !keep.includes(zoneId)) {
+        this.release(zoneId, robotId, 'no longer needed');
+        released = true;
+      }
+    }
+    if (released) {
+      this.grantWaiting().catch(error => console.error('Traffic grant failed:', error));
+    }
+  }
+
+  private release(zoneId: string, robotId: string, reason: string): void {
+    this.holders.delete(zoneId);
+    if (!Array.from(this.holders.values()).includes(robotId)) {
+      this.yielding.delete(robotId);
+    }
+    record(robotId, 'released', `Released ${this.zones.get(zoneId)?.zone.name ?? zoneId}: ${reason}`, { zoneId });
+  }
+
+  /**
+   * Let waiting robots through, highest priority first, then longest waiting
+   */
+  private async grantWaiting(): Promise<void> {
+    const queue = [...this.waiters].sort((a, b) => b.priority - a.priority || a.since.getTime() - b.since.getTime());
+
+    for (const waiter of queue) {
+      if (!this.isFree(waiter.zoneIds, waiter.robotId)) {
+        continue;
+      }
+      this.waiters = this.waiters.filter(entry => entry !== waiter);
+      clearTimeout(waiter.timer);
+      await this.reserve(waiter.robotId, waiter.zoneIds);
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Fail a robot's earlier wait when it is given a new move
+   */
+  private cancelWait(robotId: string): void {
+    const waiter = this.waiters.find(entry => entry.robotId === robotId);
+    if (waiter) {
+      this.waiters = this.waiters.filter(entry => entry !== waiter);
+      clearTimeout(waiter.timer);
+      waiter.reject(new RobotError(`Robot ${robotId} was given a new move`, ErrorCode.TRAFFIC_BLOCKED));
+    }
+  }
+
+  /**
+   * Find robots waiting on each other in a cycle and make the lowest-priority one give way
+   */
+  private async resolveDeadlocks(): Promise<void> {
+    const waitsFor = new Map<string, string[]>();
+    for (const waiter of this.waiters) {
+      const holders = waiter.zoneIds
+        .map(zoneId => this.holders.get(zoneId))
+        .filter((holder): holder is string => !!holder && holder !== waiter.robotId);
+      waitsFor.set(waiter.robotId, Array.from(new Set(holders)));
+    }
+
+    const cycle = this.findCycle(waitsFor);
+    if (!cycle || cycle.some(robotId => this.yielding.has(robotId))) {
+      return;
+    }
+
+    const inCycle = this.waiters.filter(waiter => cycle.includes(waiter.robotId));
+    const loser = inCycle.reduce((lowest, waiter) =>
+      waiter.priority < lowest.priority ||
+      (waiter.priority === lowest.priority && waiter.since > lowest.since) ? waiter : lowest);
+    const wanted = new Set(inCycle.filter(waiter => waiter !== loser).flatMap(waiter => waiter.zoneIds));
+
+    await record(loser.robotId, 'deadlock',
+      `Deadlock between robots ${cycle.join(', ')}; robot ${loser.robotId} gives way`, { cycle });
+
+    let released = false;
+    for (const [zoneId, holder] of Array.from(this.holders.entries())) {
+      if (holder !== loser.robotId || !wanted.has(zoneId)) {
+        continue;
+      }
+      if (this.occupied.get(loser.robotId)?.has(zoneId)) {
+        // Back out; the zone is released once the robot's pose leaves it
+        this.yielding.add(loser.robotId);
+        await this.sendToEntry(loser.robotId, this.zones.get(zoneId)!.zone);
+      } else {
+        this.release(zoneId, loser.robotId, 'giving way');
+        released = true;
+      }
+    }
+    if (released) {
+      await this.grantWaiting();
+    }
+  }
+
+  /**
+   * First cycle in a waits-for graph, if any
+   */
+  private findCycle(waitsFor: Map<string, string[]>): string[] | null {
+    const done = new Set<string>();
+
+    const visit = (robotId: string, path: string[]): string[] | null => {
+      const index = path.indexOf(robotId);
+      if (index >= 0) {
+        return path.slice(index);
+      }
+      if (done.has(robotId)) {
+        return null;
+      }
+      for (const next of waitsFor.get(robotId) ?? []) {
+        const cycle = visit(next, [...path, robotId]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      done.add(robotId);
+      return null;
+    };
+
+    for (const robotId of Array.from(waitsFor.keys())) {
+      const cycle = visit(robotId, []);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Send a robot to the zone entry point nearest to it
+   */
+  private async sendToEntry(robotId: string, zone: TrafficZone): Promise<void> {
+    const pose = robotMonitor.getRobotState(robotId)?.pose;
+    const entry = pose
+      ? zone.entryPoints.reduce((nearest, candidate) => distance(candidate, pose) < distance(nearest, pose) ? candidate : nearest)
+      : zone.entryPoints[0];
+
+    try {
+      await directApi.getRobotApiClient(robotId).createMoveAction(robotId, {
+        x: entry.x,
+        y: entry.y,
+        yaw: entry.yaw,
+        type: 'standard',
+        accuracy: 0.2
+      });
+    } catch (error) {
+      console.error(`Failed to send robot ${robotId} to the entry of ${zone.name}:`, error);
+    }
+  }
+
+  /**
+   * Check a zone's map exists and its entry points lie outside it
+   */
+  private async assertValidZone(zone: { areaId: string; polygon: ZoneVertex[]; entryPoints: ZoneEntryPoint[] }): Promise<void> {
+    if (!(await storage.getMap(zone.areaId))) {
+      throw new RobotError(`areaId ${zone.areaId} does not reference an existing map`, ErrorCode.INVALID_PARAM);
+    }
+    const inside = zone.entryPoints.find(entry => containsPoint(zone.polygon, entry));
+    if (inside) {
+      throw new RobotError(`Entry point (${inside.x}, ${inside.y}) is inside the zone`, ErrorCode.INVALID_PARAM);
+    }
+  }
+}
+
+// Create singleton instance
+export const trafficManager = new TrafficManager();
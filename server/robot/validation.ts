@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { ErrorCode, RobotError } from './errors';
+
+/**
+ * Parse input with a schema or throw a RobotError (INVALID_PARAM unless another code is given)
+ */
+export function parseInput<T extends z.ZodTypeAny>(schema: T, input: unknown, code = ErrorCode.INVALID_PARAM): z.infer<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new RobotError(fromZodError(parsed.error).message, code);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,95 @@
+import express, { Router, Request, Response } from 'express';
+import { workflowRegistry } from './workflow-definitions';
+import { errorResponse } from './errors';
+
+// Create router
+const router = Router();
+
+// Definitions may be posted as YAML text as well as JSON
+router.use(express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'] }));
+
+/**
+ * Get all workflow definitions
+ * GET /api/workflows
+ */
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const definitions = await workflowRegistry.list();
+    res.json(definitions);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Get the workflow definition for a task type
+ * GET /api/workflows/:taskType
+ */
+router.get('/:taskType', async (req: Request, res: Response) => {
+  try {
+    const definition = await workflowRegistry.get(req.params.taskType);
+    res.json(definition);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Create a workflow definition from a JSON or YAML document
+ * POST /api/workflows
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const definition = await workflowRegistry.create(req.body);
+    res.status(201).json(definition);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Replace the workflow definition for a task type
+ * PUT /api/workflows/:taskType
+ */
+router.put('/:taskType', async (req: Request, res: Response) => {
+  try {
+    const definition = await workflowRegistry.update(req.params.taskType, req.body);
+    res.json(definition);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Enable or disable a workflow definition
+ * PATCH /api/workflows/:taskType/active
+ */
+router.patch('/:taskType/active', async (req: Request, res: Response) => {
+  try {
+    const { isActive } = req.body ?? {};
+    if (typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be a boolean' });
+    }
+
+    const definition = await workflowRegistry.setActive(req.params.taskType, isActive);
+    res.json(definition);
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+/**
+ * Delete a workflow definition
+ * DELETE /api/workflows/:taskType
+ */
+router.delete('/:taskType', async (req: Request, res: Response) => {
+  try {
+    await workflowRegistry.remove(req.params.taskType);
+    res.json({ success: true });
+  } catch (error) {
+    errorResponse(res, error);
+  }
+});
+
+// Export router
+export default router;
@@ -0,0 +1,192 @@
+import { parse as parseYaml } from 'yaml';
+import { fromZodError } from 'zod-validation-error';
+import { storage } from '../storage';
+import { ErrorCode, RobotError } from './errors';
+import { parseInput } from './validation';
+import { TaskWorkflowFactory } from './task-workflows';
+import { BUILT_IN_WORKFLOWS } from './workflows/builtin-workflows';
+import { workflowDocumentSchema, type WorkflowDefinition, type WorkflowDocument } from '@shared/schema';
+
+/**
+ * Parse and validate a workflow document
+ * @param source JSON/YAML text, or an already parsed object
+ */
+export function parseWorkflowDocument(source: unknown): WorkflowDocument {
+  let raw = source;
+  if (typeof source === 'string') {
+    try {
+      // YAML is a superset of JSON, so this handles both
+      raw = parseYaml(source);
+    } catch (error) {
+      throw new RobotError(
+        `Workflow definition is not valid JSON or YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorCode.INVALID_WORKFLOW_DEFINITION
+      );
+    }
+  }
+
+  return parseInput(workflowDocumentSchema, raw, ErrorCode.INVALID_WORKFLOW_DEFINITION);
+}
+
+/**
+ * Workflow registry
+ * Keeps the workflow definitions stored in the database and TaskWorkflowFactory in step
+ */
+class WorkflowRegistry {
+  /**
+   * Seed the built-in definitions and register every active one (call once on startup)
+   */
+  async load(): Promise<void> {
+    for (const document of BUILT_IN_WORKFLOWS) {
+      const existing = await storage.getWorkflowDefinition(document.taskType);
+      if (!existing) {
+        await storage.createWorkflowDefinition({
+          taskType: document.taskType,
+          name: document.name,
+          definition: document,
+          isActive: true,
+          builtIn: true
+        });
+      }
+    }
+
+    const definitions = await storage.getAllWorkflowDefinitions();
+    definitions.forEach(definition => this.register(definition));
+    console.log(`Loaded ${definitions.filter(d => d.isActive).length} active workflow definition(s)`);
+  }
+
+  /**
+   * Get every stored definition
+   */
+  async list(): Promise<WorkflowDefinition[]> {
+    return storage.getAllWorkflowDefinitions();
+  }
+
+  /**
+   * Get the definition for a task type
+   */
+  async get(taskType: string): Promise<WorkflowDefinition> {
+    const definition = await storage.getWorkflowDefinition(taskType);
+    if (!definition) {
+      throw new RobotError(`No workflow definition for task type: ${taskType}`, ErrorCode.NOT_FOUND);
+    }
+    return definition;
+  }
+
+  /**
+   * Store and register a new definition
+   */
+  async create(source: unknown): Promise<WorkflowDefinition> {
+    const document = parseWorkflowDocument(source);
+
+    if (await storage.getWorkflowDefinition(document.taskType)) {
+      throw new RobotError(`A workflow for task type ${document.taskType} already exists`, ErrorCode.CONFLICT);
+    }
+
+    const definition = await storage.createWorkflowDefinition({
+      taskType: document.taskType,
+      name: document.name,
+      definition: document,
+      isActive: true,
+      builtIn: false
+    });
+    this.register(definition);
+    return definition;
+  }
+
+  /**
+   * Replace the document for an existing task type
+   * Tasks already running keep the steps they started with.
+   */
+  async update(taskType: string, source: unknown): Promise<WorkflowDefinition> {
+    const document = parseWorkflowDocument(source);
+    if (document.taskType !== taskType) {
+      throw new RobotError(
+        `Definition is for task type ${document.taskType}, not ${taskType}`,
+        ErrorCode.INVALID_WORKFLOW_DEFINITION
+      );
+    }
+
+    await this.get(taskType);
+    const updated = await storage.updateWorkflowDefinition(taskType, {
+      name: document.name,
+      definition: document
+    });
+    if (!updated) {
+      throw new RobotError(`No workflow definition for task type: ${taskType}`, ErrorCode.NOT_FOUND);
+    }
+
+    this.register(updated);
+    return updated;
+  }
+
+  /**
+   * Enable or disable a definition (disabled task types can't be created)
+   */
+  async setActive(taskType: string, isActive: boolean): Promise<WorkflowDefinition> {
+    await this.get(taskType);
+    if (!isActive) {
+      await this.assertUnused(taskType);
+    }
+
+    const updated = await storage.updateWorkflowDefinition(taskType, { isActive });
+    if (!updated) {
+      throw new RobotError(`No workflow definition for task type: ${taskType}`, ErrorCode.NOT_FOUND);
+    }
+
+    this.register(updated);
+    return updated;
+  }
+
+  /**
+   * Delete a definition (built-in ones can only be deactivated)
+   */
+  async remove(taskType: string): Promise<void> {
+    const definition = await this.get(taskType);
+    if (definition.builtIn) {
+      throw new RobotError(
+        `Built-in workflow ${taskType} can't be deleted; deactivate it instead`,
+        ErrorCode.CONFLICT
+      );
+    }
+
+    await this.assertUnused(taskType);
+    await storage.deleteWorkflowDefinition(taskType);
+    TaskWorkflowFactory.unregisterWorkflow(taskType);
+  }
+
+  /**
+   * Register an active definition with the factory, or drop an inactive one
+   */
+  private register(definition: WorkflowDefinition): void {
+    if (!definition.isActive) {
+      TaskWorkflowFactory.unregisterWorkflow(definition.taskType);
+      return;
+    }
+
+    // Stored documents are re-validated in case the step schema changed since they were saved
+    const parsed = workflowDocumentSchema.safeParse(definition.definition);
+    if (!parsed.success) {
+      console.error(`Skipping invalid workflow definition for ${definition.taskType}: ${fromZodError(parsed.error).message}`);
+      return;
+    }
+
+    TaskWorkflowFactory.registerDefinition(parsed.data);
+  }
+
+  /**
+   * Refuse to remove a workflow that unfinished tasks still need
+   */
+  private async assertUnused(taskType: string): Promise<void> {
+    const activeTasks = (await storage.getActiveTasks()).filter(task => task.taskType === taskType);
+    if (activeTasks.length > 0) {
+      throw new RobotError(
+        `${activeTasks.length} unfinished ${taskType} task(s) still use this workflow`,
+        ErrorCode.CONFLICT
+      );
+    }
+  }
+}
+
+// Create singleton instance
+export const workflowRegistry = new WorkflowRegistry();
@@ -0,0 +1,51 @@
+import { TaskType, workflowDocumentSchema, type WorkflowDocument } from '@shared/schema';
+
+/**
+ * Workflow definitions shipped with the server
+ * Seeded into the database on first start; sites can edit them from there.
+ */
+export const BUILT_IN_WORKFLOWS: WorkflowDocument[] = [
+  {
+    name: 'Dropoff Workflow',
+    taskType: TaskType.DROPOFF,
+    description: 'Collect a bin at a dropoff point, store it on a shelf and return to the charger',
+    returnPoint: 'charger',
+    steps: [
+      { type: 'move-to-poi', name: 'Move to dropoff point', point: 'dropoff', speed: 0.5, accuracy: 0.1 },
+      { type: 'wait-for-confirmation', name: 'Wait for load', message: 'Robot arrived at dropoff point. Please load item.', loaded: true },
+      { type: 'move-to-poi', name: 'Move to shelf', point: 'shelf', speed: 0.3, accuracy: 0.05 },
+      { type: 'wait-for-confirmation', name: 'Wait for unload', message: 'Robot arrived at shelf. Please unload item.', loaded: false },
+      { type: 'go-charge', name: 'Return to charger', point: 'charger', speed: 0.3 }
+    ]
+  },
+  {
+    name: 'Pickup Workflow',
+    taskType: TaskType.PICKUP,
+    description: 'Fetch a bin from a shelf, bring it to a pickup point and return to the charger',
+    returnPoint: 'pickup',
+    steps: [
+      { type: 'move-to-poi', name: 'Move to shelf', point: 'shelf', speed: 0.5, accuracy: 0.05 },
+      { type: 'wait-for-confirmation', name: 'Wait for load', message: 'Robot arrived at shelf. Please load item.', loaded: true },
+      { type: 'move-to-poi', name: 'Move to pickup point', point: 'pickup', speed: 0.3, accuracy: 0.1 },
+      { type: 'wait-for-confirmation', name: 'Wait for unload', message: 'Robot arrived at pickup point. Please unload item.', loaded: false },
+      { type: 'go-charge', name: 'Return to charger', point: 'charger', speed: 0.3 }
+    ]
+  },
+  {
+    name: 'Return Workflow',
+    taskType: TaskType.RETURN,
+    description: 'Return to the charging station',
+    returnPoint: 'charger',
+    steps: [
+      { type: 'go-charge', name: 'Return to charger', point: 'charger', speed: 0.5 }
+    ]
+  },
+  {
+    name: 'Patrol Workflow',
+    taskType: TaskType.PATROL,
+    description: 'Loop through the task points runNum times or until runUntil, dwelling at checkpoints',
+    steps: [
+      { type: 'patrol', name: 'Patrol waypoints', speed: 0.5, dwellSeconds: 30 }
+    ]
+  }
+].map(document => workflowDocumentSchema.parse(document));
@@ -2,10 +2,26 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { websocketHandler } from "./websocket";
+import { setupAuth, requireAuth, requireRole, requireRoleForWrites, registerUserRoutes } from "./auth";
 import * as robotIndex from "./robot";
 import * as robotController from "./robot/controller";
 import * as taskWorkflowController from "./robot/task-controller";
+import * as workflowDefinitionController from "./robot/workflow-controller";
+import * as inventoryController from "./robot/inventory-controller";
+import * as chargingPolicyController from "./robot/charging-policy-controller";
+import * as chargerController from "./robot/charger-controller";
+import * as mapViewController from "./robot/map-view-controller";
+import * as mapController from "./robot/map-controller";
+import * as poiController from "./robot/poi-controller";
+import * as mapSyncController from "./robot/map-sync-controller";
+import * as doorController from "./robot/door-controller";
+import * as trafficController from "./robot/traffic-controller";
+import * as geofenceController from "./robot/geofence-controller";
+import * as scheduleController from "./robot/schedule-controller";
+import * as analyticsController from "./robot/analytics-controller";
 import * as robotPoints from "./robot/points";
+import { fleetDispatcher } from "./robot/dispatcher";
+import { UserRole } from "@shared/schema";
 import { registerL382502104987irRobot } from "./robot/robot-registration";
 import path from "path";
 
@@ -16,13 +32,31 @@ import robotChargerRoutes from './robot/charger-routes.js';
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
+  // Sessions and login/logout endpoints come before anything under /api
+  setupAuth(app);
+  
   // Setup WebSocket server for real-time updates
   websocketHandler.initialize(httpServer);
   
-  // Register the robot task routes for bin operations
-  app.use('/api/robot', robotTaskRoutes);
+  // Health check stays public for uptime probes
+  app.get("/api/health", (_req: Request, res: Response) => {
+    res.json({ status: "ok" });
+  });
+  
+  // Every other API route requires a logged-in user
+  app.use('/api', requireAuth);
+  
+  // User administration
+  registerUserRoutes(app);
+  
+  // Register the robot task routes for bin operations (operators can request dropoffs)
+  app.use('/api/robot', requireRoleForWrites(UserRole.OPERATOR), robotTaskRoutes);
   
   // Register the robot charger routes for charging operations
+  app.post(
+    ['/api/robot/charger/return', '/api/robot/charger/cancel', '/api/robot/:robotId/undock'],
+    requireRole(UserRole.SUPERVISOR)
+  );
   app.use('/api/robot', robotChargerRoutes);
   
   // A pure HTML login page at root level to avoid any routing issues
@@ -146,7 +180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   <div id="error-message" class="error-message"></div>
               </form>
               <div class="footer">
-                  <p>Use credentials: Ozzydog / Ozzydog</p>
+                  <p>Robot Fleet Management System</p>
               </div>
           </div>
 
@@ -158,18 +192,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   const password = document.getElementById('password').value;
                   const errorElement = document.getElementById('error-message');
                   
-                  if (username === 'Ozzydog' && password === 'Ozzydog') {
-                      // Store auth info
-                      localStorage.setItem('auth', 'true');
-                      localStorage.setItem('username', username);
-                      
-                      // Redirect to dashboard
-                      window.location.href = '/dashboard';
-                  } else {
-                      // Show error
-                      errorElement.textContent = 'Invalid username or password';
-                      errorElement.style.display = 'block';
-                  }
+                  fetch('/api/login', {
+                      method: 'POST',
+                      headers: { 'Content-Type': 'application/json' },
+                      credentials: 'include',
+                      body: JSON.stringify({ username, password })
+                  }).then(function(res) {
+                      if (res.ok) {
+                          // Session cookie is set, go to dashboard
+                          window.location.href = '/dashboard';
+                      } else {
+                          // Show error
+                          errorElement.textContent = 'Invalid username or password';
+                          errorElement.style.display = 'block';
+                      }
+                  });
               });
           </script>
       </body>
@@ -177,11 +214,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     `);
   });
   
-  // Added health check endpoint
-  app.get("/api/health", (_req: Request, res: Response) => {
-    res.json({ status: "ok" });
-  });
-  
   // Direct login route with HTML response - bypassing Vite middleware
   app.use('/admin-login', (_req: Request, res: Response) => {
     // Set content type explicitly to avoid middleware interference
@@ -189,16 +221,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.setHeader('X-Content-Type-Options', 'nosniff');
     
     // Send raw HTML without template literals to avoid any potential processing
-    res.send('<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>SKYTECH AUTOMATED - Robot Fleet Management</title><style>*{margin:0;padding:0;box-sizing:border-box;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Arial,sans-serif}body{display:flex;justify-content:center;align-items:center;min-height:100vh;background-color:#111827;padding:1rem}.card{max-width:400px;width:100%;background-color:rgba(0,0,0,0.3);border-radius:8px;padding:2rem;color:#f3f4f6;border:1px solid #374151}.heading{font-size:2.5rem;font-weight:bold;background:linear-gradient(to right,#10b981,#059669);-webkit-background-clip:text;-webkit-text-fill-color:transparent;margin-bottom:0.5rem;text-align:center}.subheading{color:#9ca3af;font-size:1.125rem;margin-bottom:2rem;text-align:center}.title{font-size:1.5rem;text-align:center;margin-bottom:1.5rem;color:#f3f4f6}.form-group{margin-bottom:1.5rem}.label{display:block;margin-bottom:0.5rem;color:#d1d5db}.input{width:100%;padding:0.75rem;background-color:#1f2937;border:1px solid #374151;border-radius:4px;color:#f3f4f6;font-size:1rem}.button{width:100%;padding:0.75rem;background:linear-gradient(to right,#10b981,#065f46);color:white;border:none;border-radius:4px;font-weight:bold;font-size:1rem;cursor:pointer}.error{background-color:rgba(220,38,38,0.2);color:#f87171;padding:0.75rem;border-radius:4px;margin-bottom:1rem;border:1px solid #ef4444;display:none}.footer{margin-top:1.5rem;text-align:center;color:#6b7280;font-size:0.875rem}.small-text{font-size:0.75rem;margin-top:0.5rem}</style></head><body><div class="card"><div><h1 class="heading">SKYTECH AUTOMATED</h1><p class="subheading">Robot Fleet Management System</p></div><h2 class="title">Admin Login</h2><div id="error-message" class="error"></div><form id="login-form"><div class="form-group"><label for="username" class="label">Username</label><input id="username" class="input" required /></div><div class="form-group"><label for="password" class="label">Password</label><input id="password" type="password" class="input" required /></div><button type="submit" class="button" id="login-button">Login</button></form><div class="footer"><p>Fleet Management Admin Portal</p><p class="small-text">Access credentials: Ozzydog / Ozzydog</p></div></div><script>document.getElementById("login-form").addEventListener("submit",function(e){e.preventDefault();const username=document.getElementById("username").value;const password=document.getElementById("password").value;const errorElement=document.getElementById("error-message");const loginButton=document.getElementById("login-button");errorElement.style.display="none";errorElement.textContent="";loginButton.textContent="Logging in...";loginButton.disabled=true;if(username==="Ozzydog"&&password==="Ozzydog"){localStorage.setItem("auth","true");localStorage.setItem("username",username);localStorage.setItem("lastLogin",new Date().toISOString());window.location.href="/dashboard"}else{errorElement.textContent="Invalid username or password";errorElement.style.display="block";loginButton.textContent="Login";loginButton.disabled=false}});</script></body></html>');
+    res.send('<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>SKYTECH AUTOMATED - Robot Fleet Management</title><style>*{margin:0;padding:0;box-sizing:border-box;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Arial,sans-serif}body{display:flex;justify-content:center;align-items:center;min-height:100vh;background-color:#111827;padding:1rem}.card{max-width:400px;width:100%;background-color:rgba(0,0,0,0.3);border-radius:8px;padding:2rem;color:#f3f4f6;border:1px solid #374151}.heading{font-size:2.5rem;font-weight:bold;background:linear-gradient(to right,#10b981,#059669);-webkit-background-clip:text;-webkit-text-fill-color:transparent;margin-bottom:0.5rem;text-align:center}.subheading{color:#9ca3af;font-size:1.125rem;margin-bottom:2rem;text-align:center}.title{font-size:1.5rem;text-align:center;margin-bottom:1.5rem;color:#f3f4f6}.form-group{margin-bottom:1.5rem}.label{display:block;margin-bottom:0.5rem;color:#d1d5db}.input{width:100%;padding:0.75rem;background-color:#1f2937;border:1px solid #374151;border-radius:4px;color:#f3f4f6;font-size:1rem}.button{width:100%;padding:0.75rem;background:linear-gradient(to right,#10b981,#065f46);color:white;border:none;border-radius:4px;font-weight:bold;font-size:1rem;cursor:pointer}.error{background-color:rgba(220,38,38,0.2);color:#f87171;padding:0.75rem;border-radius:4px;margin-bottom:1rem;border:1px solid #ef4444;display:none}.footer{margin-top:1.5rem;text-align:center;color:#6b7280;font-size:0.875rem}.small-text{font-size:0.75rem;margin-top:0.5rem}</style></head><body><div class="card"><div><h1 class="heading">SKYTECH AUTOMATED</h1><p class="subheading">Robot Fleet Management System</p></div><h2 class="title">Admin Login</h2><div id="error-message" class="error"></div><form id="login-form"><div class="form-group"><label for="username" class="label">Username</label><input id="username" class="input" required /></div><div class="form-group"><label for="password" class="label">Password</label><input id="password" type="password" class="input" required /></div><button type="submit" class="button" id="login-button">Login</button></form><div class="footer"><p>Fleet Management Admin Portal</p></div></div><script>document.getElementById("login-form").addEventListener("submit",function(e){e.preventDefault();const username=document.getElementById("username").value;const password=document.getElementById("password").value;const errorElement=document.getElementById("error-message");const loginButton=document.getElementById("login-button");errorElement.style.display="none";errorElement.textContent="";loginButton.textContent="Logging in...";loginButton.disabled=true;fetch("/api/login",{method:"POST",headers:{"Content-Type":"application/json"},credentials:"include",body:JSON.stringify({username:username,password:password})}).then(function(res){if(res.ok){window.location.href="/dashboard"}else{errorElement.textContent="Invalid username or password";errorElement.style.display="block";loginButton.textContent="Login";loginButton.disabled=false}})});</script></body></html>');
   });
   
-  // Robot configuration endpoints
-  app.post("/api/robot/config", robotController.configureRobotConnection);
-  app.post("/api/robot/connect", robotController.connectToRobot);
-  app.post("/api/robot/initialize", robotController.initializeRobot);
+  // Robot configuration endpoints (admin only)
+  const adminOnly = requireRole(UserRole.ADMIN);
+  app.post("/api/robot/config", adminOnly, robotController.configureRobotConnection);
+  app.post("/api/robot/connect", adminOnly, robotController.connectToRobot);
+  app.post("/api/robot/initialize", adminOnly, robotController.initializeRobot);
   
   // Register specific robot L382502104987ir
-  app.post("/api/robot/register-l382502104987ir", async (_req: Request, res: Response) => {
+  app.post("/api/robot/register-l382502104987ir", adminOnly, async (_req: Request, res: Response) => {
     try {
       const result = await registerL382502104987irRobot();
       return res.json({
@@ -217,7 +250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Auth endpoints
-  app.post("/api/robot/auth", robotIndex.authenticateRobot);
+  app.post("/api/robot/auth", adminOnly, robotIndex.authenticateRobot);
   
   // Robot management endpoints
   app.get("/api/robots", robotIndex.getAllRobots);
@@ -227,22 +260,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/robot/:robotId/status", robotIndex.getRobotStatus);
   app.get("/api/robot/:robotId/battery", robotIndex.getRobotBattery);
   app.get("/api/robot/:robotId/position", robotIndex.getRobotPosition);
-  app.post("/api/robots/locate", robotIndex.locateRobot);
-  app.post("/api/robots/charge", robotIndex.startCharging);
+  app.get("/api/robot/:robotId/telemetry", robotIndex.getRobotTelemetry);
+  app.get("/api/robot/:robotId/replay", robotIndex.getRobotReplay);
+  const supervisorOnly = requireRole(UserRole.SUPERVISOR);
+  app.post("/api/robots/locate", supervisorOnly, robotIndex.locateRobot);
+  app.post("/api/robots/charge", supervisorOnly, robotIndex.startCharging);
   
-  // Movement endpoints
-  app.post("/api/robot/:robotId/move", robotController.moveRobot);
-  app.post("/api/robot/:robotId/move/multi-floor", robotIndex.moveRobotMultiFloor);
-  app.post("/api/robot/:robotId/stop", robotController.stopRobot);
-  app.post("/api/robot/:robotId/charge", robotIndex.goToChargingStation);
-  app.post("/api/robot/:robotId/action", robotController.executeRobotAction);
+  // Movement endpoints (stop stays available to floor staff)
+  app.post("/api/robot/:robotId/move", supervisorOnly, robotController.moveRobot);
+  app.post("/api/robot/:robotId/move/multi-floor", supervisorOnly, robotIndex.moveRobotMultiFloor);
+  app.post("/api/robot/:robotId/stop", requireRole(UserRole.OPERATOR), robotController.stopRobot);
+  app.post("/api/robot/:robotId/charge", supervisorOnly, robotIndex.goToChargingStation);
+  app.post("/api/robot/:robotId/action", supervisorOnly, robotController.executeRobotAction);
   
   // Action endpoints
-  app.post("/api/robot/:robotId/align", robotIndex.alignWithRack);
-  app.post("/api/robot/:robotId/lift", robotIndex.liftRack);
-  app.post("/api/robot/:robotId/lower", robotIndex.lowerRack);
-  app.post("/api/robot/:robotId/doors/open", robotIndex.openDoors);
-  app.post("/api/robot/:robotId/doors/close", robotIndex.closeDoors);
+  app.post("/api/robot/:robotId/align", supervisorOnly, robotIndex.alignWithRack);
+  app.post("/api/robot/:robotId/lift", supervisorOnly, robotIndex.liftRack);
+  app.post("/api/robot/:robotId/lower", supervisorOnly, robotIndex.lowerRack);
+  app.post("/api/robot/:robotId/doors/open", supervisorOnly, robotIndex.openDoors);
+  app.post("/api/robot/:robotId/doors/close", supervisorOnly, robotIndex.closeDoors);
   
   // Task management endpoints
   app.get("/api/tasks", robotIndex.getAllTasks);
@@ -251,21 +287,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/tasks/history", robotIndex.getTaskHistory);
   app.get("/api/tasks/completed/stats", robotIndex.getCompletedTaskStats);
   
-  // Task workflow endpoints
-  app.use('/api/tasks', taskWorkflowController.default);
+  // Task workflow endpoints (deleting and direct robot tasks need a supervisor)
+  app.delete("/api/tasks/:taskId", supervisorOnly);
+  app.post("/api/tasks/direct", supervisorOnly);
+  app.use('/api/tasks', requireRoleForWrites(UserRole.OPERATOR), taskWorkflowController.default);
   
   // Legacy task endpoints
   app.post("/api/tasks", robotIndex.createTask);
   app.post("/api/tasks/:taskId/pause", robotIndex.pauseTask);
   app.post("/api/tasks/:taskId/resume", robotIndex.resumeTask);
   app.post("/api/tasks/:taskId/retry", robotIndex.retryTask);
-  app.post("/api/tasks/pause-all", robotIndex.pauseAllTasks);
+  app.post("/api/tasks/pause-all", supervisorOnly, robotIndex.pauseAllTasks);
+  
+  // Fleet dispatcher endpoints
+  app.get("/api/dispatcher/status", (_req: Request, res: Response) => {
+    res.json(fleetDispatcher.getStatus());
+  });
+  app.post("/api/dispatcher/run", supervisorOnly, (_req: Request, res: Response) => {
+    fleetDispatcher.requestDispatch();
+    res.json({ success: true, message: "Dispatch requested" });
+  });
+  
+  // Workflow definition endpoints (anyone can read, only admins change them)
+  app.use('/api/workflows', requireRoleForWrites(UserRole.ADMIN), workflowDefinitionController.default);
+  
+  // Bin inventory endpoints (corrections need a supervisor)
+  app.use('/api/inventory', requireRoleForWrites(UserRole.SUPERVISOR), inventoryController.default);
+  
+  // Charging policy endpoints (changing thresholds needs a supervisor)
+  app.use('/api/charging-policies', requireRoleForWrites(UserRole.SUPERVISOR), chargingPolicyController.default);
+  
+  // Charger occupancy endpoints (freeing a charger needs a supervisor)
+  app.use('/api/chargers', requireRoleForWrites(UserRole.SUPERVISOR), chargerController.default);
+  
+  // Live map endpoints (occupancy image and points come from a robot on the floor; sending robots needs a supervisor)
+  app.use('/api/maps', requireRoleForWrites(UserRole.SUPERVISOR), mapViewController.default);
+  
+  // Maps and POIs endpoints (anyone can read, only admins change them)
+  app.use('/api/maps', requireRoleForWrites(UserRole.ADMIN), mapController.default);
+  app.use('/api/pois', requireRoleForWrites(UserRole.ADMIN), poiController.default);
+  
+  // Map sync endpoints (reviewing changes from robot maps needs an admin)
+  app.use('/api/map-sync', requireRoleForWrites(UserRole.ADMIN), mapSyncController.default);
+  
+  // Door endpoints (registering doors needs an admin)
+  app.use('/api/doors', requireRoleForWrites(UserRole.ADMIN), doorController.default);
+  
+  // Traffic zone endpoints (anyone can read, only admins change zones or clear holds)
+  app.use('/api/traffic', requireRoleForWrites(UserRole.ADMIN), trafficController.default);
+  
+  // Geofence endpoints (anyone can read, only admins change no-go and slow zones)
+  app.use('/api/geofences', requireRoleForWrites(UserRole.ADMIN), geofenceController.default);
+  
+  // Schedule endpoints (recurring tasks are managed by supervisors)
+  app.use('/api/schedules', requireRoleForWrites(UserRole.SUPERVISOR), scheduleController.default);
   
-  // Maps and POIs endpoints
-  app.get("/api/maps", robotIndex.getAllMaps);
-  app.post("/api/maps", robotIndex.createMap);
-  app.get("/api/pois", robotIndex.getAllPois);
-  app.post("/api/pois", robotIndex.createPoi);
+  // Analytics endpoints (read-only fleet KPIs, open to anyone logged in)
+  app.use('/api/analytics', analyticsController.default);
   
   // Robot Points API endpoints
   app.get("/api/robot/list-endpoints", async (_req: Request, res: Response) => {
@@ -289,7 +367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/robot/getPoints", async (req: Request, res: Response) => {
+  app.post("/api/robot/getPoints", supervisorOnly, async (req: Request, res: Response) => {
     try {
       const { robotId, floor } = req.body;
       
@@ -337,7 +415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/alerts", robotIndex.getAllAlerts);
   app.get("/api/alerts/recent", robotIndex.getRecentAlerts);
   app.get("/api/alerts/stats", robotIndex.getAlertStats);
-  app.post("/api/alerts/:alertId/resolve", robotIndex.resolveAlert);
+  app.post("/api/alerts/:alertId/resolve", requireRole(UserRole.OPERATOR), robotIndex.resolveAlert);
   
   return httpServer;
 }
@@ -0,0 +1,23 @@
+import { RobotSimulator } from './robot/simulator';
+
+// Standalone entry point for the local robot simulator.
+// Point the fleet server at it with ROBOT_SIMULATOR_HOST / ROBOT_SIMULATOR_PORT, and name the one robot
+// it simulates with ROBOT_SIMULATOR_SERIAL.
+const simulator = new RobotSimulator({
+  port: Number(process.env.ROBOT_SIMULATOR_PORT) || undefined,
+  speed: Number(process.env.ROBOT_SIMULATOR_SPEED) || undefined
+});
+
+simulator.start().catch((error) => {
+  console.error('Failed to start robot simulator:', error);
+  process.exit(1);
+});
+
+const shutdown = async () => {
+  console.log('Shutting down robot simulator...');
+  await simulator.stop();
+  process.exit(0);
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
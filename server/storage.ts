@@ -3,11 +3,28 @@ import {
   pois, type Poi, type InsertPoi,
   tasks, type Task, type InsertTask,
   errorLogs, type ErrorLog, type InsertErrorLog,
-  maps, type Map, type InsertMap,
+  maps, type Map as FloorMap, type InsertMap,
   sdkCredentials, type SdkCredentials, type InsertSdkCredentials,
   users, type User, type InsertUser,
-  TaskStatus
+  workflowDefinitions, type WorkflowDefinition, type InsertWorkflowDefinition,
+  bins, type Bin, type InsertBin,
+  shelfSlots, type ShelfSlot, type InsertShelfSlot,
+  chargingPolicies, type ChargingPolicy, type InsertChargingPolicy,
+  robotEvents, type RobotEvent, type InsertRobotEvent,
+  chargerLeases, type ChargerLease, type InsertChargerLease,
+  doors, type Door, type InsertDoor,
+  trafficZones, type TrafficZone, type InsertTrafficZone,
+  geofences, type Geofence, type InsertGeofence,
+  schedules, type Schedule, type InsertSchedule,
+  telemetrySamples, type TelemetrySample, type InsertTelemetrySample,
+  TaskStatus, UserRole, type TaskConfirmation, type CheckpointVisit, type StepSpan
 } from '@shared/schema';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import connectPg from 'connect-pg-simple';
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // Storage interface with all the methods needed for the application
 export interface IStorage {
@@ -23,6 +40,8 @@ export interface IStorage {
   getAllPois(): Promise<Poi[]>;
   getPoi(poiId: string): Promise<Poi | undefined>;
   createPoi(poi: InsertPoi): Promise<Poi>;
+  updatePoi(poiId: string, updates: Partial<Omit<Poi, 'id' | 'poiId'>>): Promise<Poi | undefined>;
+  deletePoi(poiId: string): Promise<boolean>;
   getChargingPoints(floor: string): Promise<Poi[]>;
   
   // Task operations
@@ -40,25 +59,33 @@ export interface IStorage {
   updateTaskReturnPoint(taskId: string, returnPoint: any): Promise<boolean>;
   updateTaskRobot(taskId: string, robotId: string): Promise<boolean>;
   updateTaskNotes(taskId: string, notes: string): Promise<boolean>;
+  updateTaskQueuePosition(taskId: string, queuePosition: number | null): Promise<boolean>;
+  updateTaskConfirmation(taskId: string, confirmation: TaskConfirmation | null): Promise<boolean>;
+  updateTaskCheckpoints(taskId: string, checkpoints: CheckpointVisit[]): Promise<boolean>;
+  updateTaskTrace(taskId: string, trace: StepSpan[]): Promise<boolean>;
   getTasksByStatus(status: string): Promise<Task[]>;
   getActiveTasks(): Promise<Task[]>;
   getPendingTasks(): Promise<Task[]>;
   getPendingTasksByType(taskType: string): Promise<Task[]>;
   getTasksByRobot(robotId: string): Promise<Task[]>;
   getActiveTasksByRobot(robotId: string): Promise<Task[]>;
+  getQueuedTasksByRobot(robotId: string): Promise<Task[]>;
   getTaskHistory(): Promise<Task[]>;
   deleteTask(taskId: string): Promise<boolean>;
   
   // Error log operations
   getAllErrorLogs(): Promise<ErrorLog[]>;
   getRecentErrorLogs(limit: number): Promise<ErrorLog[]>;
+  getErrorLogsByRobot(robotId: string, range: { from: Date; to: Date }): Promise<ErrorLog[]>; // oldest first
   createErrorLog(errorLog: InsertErrorLog): Promise<ErrorLog>;
   resolveErrorLog(id: number): Promise<boolean>;
   
   // Map operations
-  getAllMaps(): Promise<Map[]>;
-  getMap(areaId: string): Promise<Map | undefined>;
-  createMap(map: InsertMap): Promise<Map>;
+  getAllMaps(): Promise<FloorMap[]>;
+  getMap(areaId: string): Promise<FloorMap | undefined>;
+  createMap(map: InsertMap): Promise<FloorMap>;
+  updateMap(areaId: string, updates: Partial<Omit<InsertMap, 'areaId'>>): Promise<FloorMap | undefined>;
+  deleteMap(areaId: string): Promise<boolean>;
   
   // SDK credentials operations
   getAllSdkCredentials(): Promise<SdkCredentials[]>;
@@ -66,10 +93,106 @@ export interface IStorage {
   createSdkCredentials(credentials: InsertSdkCredentials): Promise<SdkCredentials>;
   updateSdkCredentials(appId: string, appSecret: string, mode: string): Promise<boolean>;
   
+  // Workflow definition operations
+  getAllWorkflowDefinitions(): Promise<WorkflowDefinition[]>;
+  getWorkflowDefinition(taskType: string): Promise<WorkflowDefinition | undefined>;
+  createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition>;
+  updateWorkflowDefinition(taskType: string, updates: Partial<InsertWorkflowDefinition>): Promise<WorkflowDefinition | undefined>;
+  deleteWorkflowDefinition(taskType: string): Promise<boolean>;
+  
+  // Bin inventory operations
+  getAllBins(): Promise<Bin[]>;
+  getBin(binId: string): Promise<Bin | undefined>;
+  createBin(bin: InsertBin): Promise<Bin>;
+  updateBin(binId: string, updates: Partial<InsertBin>): Promise<Bin | undefined>;
+  deleteBin(binId: string): Promise<boolean>;
+  getAllShelfSlots(): Promise<ShelfSlot[]>;
+  getShelfSlot(poiId: string): Promise<ShelfSlot | undefined>;
+  getShelfSlotByBin(binId: string): Promise<ShelfSlot | undefined>;
+  createShelfSlot(slot: InsertShelfSlot): Promise<ShelfSlot>;
+  updateShelfSlot(poiId: string, updates: Partial<InsertShelfSlot>): Promise<ShelfSlot | undefined>;
+  deleteShelfSlot(poiId: string): Promise<boolean>;
+  reserveShelfSlot(poiId: string, taskId: string): Promise<boolean>;
+  releaseShelfSlotReservations(taskId: string): Promise<number>;
+  
+  // Charging policy operations
+  getAllChargingPolicies(): Promise<ChargingPolicy[]>;
+  getChargingPolicy(robotId: string): Promise<ChargingPolicy | undefined>;
+  saveChargingPolicy(policy: InsertChargingPolicy): Promise<ChargingPolicy>;
+  deleteChargingPolicy(robotId: string): Promise<boolean>;
+  
+  // Charger lease operations
+  getAllChargerLeases(): Promise<ChargerLease[]>;
+  getChargerLeaseByRobot(robotId: string): Promise<ChargerLease | undefined>;
+  createChargerLease(lease: InsertChargerLease): Promise<ChargerLease | undefined>; // undefined if the charger or robot already has a lease
+  updateChargerLease(robotId: string, updates: Partial<InsertChargerLease>): Promise<ChargerLease | undefined>;
+  deleteChargerLease(robotId: string): Promise<boolean>;
+  
+  // Door operations
+  getAllDoors(): Promise<Door[]>;
+  getDoor(doorId: number): Promise<Door | undefined>;
+  createDoor(door: InsertDoor): Promise<Door>;
+  updateDoor(doorId: number, updates: Partial<InsertDoor>): Promise<Door | undefined>;
+  deleteDoor(doorId: number): Promise<boolean>;
+  
+  // Traffic zone operations
+  getAllTrafficZones(): Promise<TrafficZone[]>;
+  getTrafficZone(zoneId: string): Promise<TrafficZone | undefined>;
+  createTrafficZone(zone: InsertTrafficZone): Promise<TrafficZone>;
+  updateTrafficZone(zoneId: string, updates: Partial<InsertTrafficZone>): Promise<TrafficZone | undefined>;
+  deleteTrafficZone(zoneId: string): Promise<boolean>;
+  
+  // Geofence operations
+  getAllGeofences(): Promise<Geofence[]>;
+  getGeofence(zoneId: string): Promise<Geofence | undefined>;
+  createGeofence(geofence: InsertGeofence): Promise<Geofence>;
+  updateGeofence(zoneId: string, updates: Partial<InsertGeofence>): Promise<Geofence | undefined>;
+  deleteGeofence(zoneId: string): Promise<boolean>;
+  
+  // Schedule operations
+  getAllSchedules(): Promise<Schedule[]>;
+  getSchedule(scheduleId: string): Promise<Schedule | undefined>;
+  createSchedule(schedule: InsertSchedule): Promise<Schedule>;
+  updateSchedule(scheduleId: string, updates: Partial<InsertSchedule>): Promise<Schedule | undefined>;
+  deleteSchedule(scheduleId: string): Promise<boolean>;
+  
+  // Telemetry operations
+  createTelemetrySamples(samples: InsertTelemetrySample[]): Promise<void>;
+  getTelemetrySamples(filter: TelemetryFilter): Promise<TelemetrySample[]>; // oldest first
+  deleteTelemetrySamples(filter: { resolution: number; before: Date }): Promise<number>;
+  
+  // Robot event operations
+  createRobotEvent(event: InsertRobotEvent): Promise<RobotEvent>;
+  getRobotEvents(filter: RobotEventFilter): Promise<RobotEvent[]>;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: string): Promise<boolean>;
+  
+  // Session store used by the auth middleware
+  sessionStore: session.Store;
+}
+
+// Robot event query, newest first; from is inclusive, to exclusive
+export interface RobotEventFilter {
+  robotId?: string;
+  category?: string;
+  data?: Record<string, string | number>; // top-level event data fields that must match
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Telemetry sample query; from is inclusive, to exclusive
+export interface TelemetryFilter {
+  robotId?: string;
+  metric?: string;
+  resolution?: number;
+  from?: Date;
+  to?: Date;
 }
 
 // Task cache to preserve rich data between operations
@@ -84,9 +207,20 @@ export class MemStorage implements IStorage {
   private pois: Map<string, Poi>;
   private tasks: Map<string, Task>;
   private errorLogs: Map<number, ErrorLog>;
-  private maps: Map<string, Map>;
+  private maps: Map<string, FloorMap>;
   private sdkCredentials: Map<number, SdkCredentials>;
   private users: Map<number, User>;
+  private workflowDefinitions: Map<string, WorkflowDefinition>;
+  private bins: Map<string, Bin>;
+  private shelfSlots: Map<string, ShelfSlot>;
+  private chargingPolicies: Map<string, ChargingPolicy>;
+  private robotEvents: RobotEvent[];
+  private chargerLeases: Map<string, ChargerLease>;
+  private doors: Map<number, Door>;
+  private trafficZones: Map<string, TrafficZone>;
+  private geofences: Map<string, Geofence>;
+  private schedules: Map<string, Schedule>;
+  private telemetrySamples: TelemetrySample[];
   
   // Cache for task data preservation
   private taskDataCache: Map<string, TaskCache>;
@@ -99,6 +233,19 @@ export class MemStorage implements IStorage {
   private mapIdCounter: number;
   private sdkCredentialsIdCounter: number;
   private userIdCounter: number;
+  private workflowDefinitionIdCounter: number;
+  private binIdCounter: number;
+  private shelfSlotIdCounter: number;
+  private chargingPolicyIdCounter: number;
+  private robotEventIdCounter: number;
+  private chargerLeaseIdCounter: number;
+  private doorIdCounter: number;
+  private trafficZoneIdCounter: number;
+  private geofenceIdCounter: number;
+  private scheduleIdCounter: number;
+  private telemetrySampleIdCounter: number;
+  
+  sessionStore: session.Store;
 
   constructor() {
     this.robots = new Map();
@@ -108,6 +255,17 @@ export class MemStorage implements IStorage {
     this.maps = new Map();
     this.sdkCredentials = new Map();
     this.users = new Map();
+    this.workflowDefinitions = new Map();
+    this.bins = new Map();
+    this.shelfSlots = new Map();
+    this.chargingPolicies = new Map();
+    this.robotEvents = [];
+    this.chargerLeases = new Map();
+    this.doors = new Map();
+    this.trafficZones = new Map();
+    this.geofences = new Map();
+    this.schedules = new Map();
+    this.telemetrySamples = [];
     this.taskDataCache = new Map();
     
     this.robotIdCounter = 1;
@@ -117,6 +275,21 @@ export class MemStorage implements IStorage {
     this.mapIdCounter = 1;
     this.sdkCredentialsIdCounter = 1;
     this.userIdCounter = 1;
+    this.workflowDefinitionIdCounter = 1;
+    this.binIdCounter = 1;
+    this.shelfSlotIdCounter = 1;
+    this.chargingPolicyIdCounter = 1;
+    this.robotEventIdCounter = 1;
+    this.chargerLeaseIdCounter = 1;
+    this.doorIdCounter = 1;
+    this.trafficZoneIdCounter = 1;
+    this.geofenceIdCounter = 1;
+    this.scheduleIdCounter = 1;
+    this.telemetrySampleIdCounter = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // Prune expired entries every 24h
+    });
     
     // Initialize with sample data
     this.initializeSampleData();
@@ -402,6 +575,19 @@ export class MemStorage implements IStorage {
     return newPoi;
   }
 
+  async updatePoi(poiId: string, updates: Partial<Omit<Poi, 'id' | 'poiId'>>): Promise<Poi | undefined> {
+    const poi = this.pois.get(poiId);
+    if (!poi) return undefined;
+    
+    const updated: Poi = { ...poi, ...updates };
+    this.pois.set(poiId, updated);
+    return updated;
+  }
+
+  async deletePoi(poiId: string): Promise<boolean> {
+    return this.pois.delete(poiId);
+  }
+
   async getChargingPoints(floor: string): Promise<Poi[]> {
     return Array.from(this.pois.values()).filter(poi => 
       poi.type === 'charging' && poi.floor === floor
@@ -571,6 +757,94 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getPendingTasks(): Promise<Task[]> {
+    return this.getTasksByStatus(TaskStatus.PENDING);
+  }
+
+  async getPendingTasksByType(taskType: string): Promise<Task[]> {
+    const pendingTasks = await this.getPendingTasks();
+    return pendingTasks.filter(task => task.taskType === taskType);
+  }
+
+  async updateTaskRobot(taskId: string, robotId: string): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.robotId = robotId;
+    return true;
+  }
+
+  async updateTaskCurrentStep(taskId: string, currentStep: number): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.currentStep = currentStep;
+    return true;
+  }
+
+  async updateTaskPayload(taskId: string, payload: any): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.payload = payload;
+    return true;
+  }
+
+  async updateTaskCurrentPoint(taskId: string, currentPoint: any): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.currentPoint = currentPoint;
+    return true;
+  }
+
+  async updateTaskReturnPoint(taskId: string, returnPoint: any): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.returnPoint = returnPoint;
+    return true;
+  }
+
+  async updateTaskQueuePosition(taskId: string, queuePosition: number | null): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.queuePosition = queuePosition;
+    return true;
+  }
+
+  async updateTaskConfirmation(taskId: string, confirmation: TaskConfirmation | null): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.confirmation = confirmation;
+    return true;
+  }
+
+  async updateTaskCheckpoints(taskId: string, checkpoints: CheckpointVisit[]): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.checkpoints = checkpoints;
+    return true;
+  }
+
+  async updateTaskTrace(taskId: string, trace: StepSpan[]): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    
+    task.trace = trace;
+    return true;
+  }
+
+  async getQueuedTasksByRobot(robotId: string): Promise<Task[]> {
+    const activeTasks = await this.getActiveTasksByRobot(robotId);
+    return activeTasks
+      .filter(task => task.status !== TaskStatus.IN_PROGRESS && task.queuePosition !== null)
+      .sort((a, b) => (a.queuePosition ?? 0) - (b.queuePosition ?? 0));
+  }
+
   // Error log operations
   async getAllErrorLogs(): Promise<ErrorLog[]> {
     return Array.from(this.errorLogs.values());
@@ -579,10 +853,16 @@ export class MemStorage implements IStorage {
   async getRecentErrorLogs(limit: number): Promise<ErrorLog[]> {
     return Array.from(this.errorLogs.values())
       .filter(log => !log.resolved)
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .sort((a, b) => (b.timestamp?.getTime() ?? 0) - (a.timestamp?.getTime() ?? 0))
       .slice(0, limit);
   }
 
+  async getErrorLogsByRobot(robotId: string, range: { from: Date; to: Date }): Promise<ErrorLog[]> {
+    return Array.from<ErrorLog>(this.errorLogs.values())
+      .filter(log => log.robotId === robotId && log.timestamp! >= range.from && log.timestamp! < range.to)
+      .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
+  }
+
   async createErrorLog(errorLog: InsertErrorLog): Promise<ErrorLog> {
     const id = this.errorLogIdCounter++;
     const newErrorLog: ErrorLog = { 
@@ -604,21 +884,34 @@ export class MemStorage implements IStorage {
   }
 
   // Map operations
-  async getAllMaps(): Promise<Map[]> {
+  async getAllMaps(): Promise<FloorMap[]> {
     return Array.from(this.maps.values());
   }
 
-  async getMap(areaId: string): Promise<Map | undefined> {
+  async getMap(areaId: string): Promise<FloorMap | undefined> {
     return this.maps.get(areaId);
   }
 
-  async createMap(map: InsertMap): Promise<Map> {
+  async createMap(map: InsertMap): Promise<FloorMap> {
     const id = this.mapIdCounter++;
-    const newMap: Map = { ...map, id };
+    const newMap: FloorMap = { ...map, id };
     this.maps.set(map.areaId, newMap);
     return newMap;
   }
 
+  async updateMap(areaId: string, updates: Partial<Omit<InsertMap, 'areaId'>>): Promise<FloorMap | undefined> {
+    const map = this.maps.get(areaId);
+    if (!map) return undefined;
+    
+    const updated: FloorMap = { ...map, ...updates };
+    this.maps.set(areaId, updated);
+    return updated;
+  }
+
+  async deleteMap(areaId: string): Promise<boolean> {
+    return this.maps.delete(areaId);
+  }
+
   // SDK credentials operations
   async getAllSdkCredentials(): Promise<SdkCredentials[]> {
     return Array.from(this.sdkCredentials.values());
@@ -638,7 +931,7 @@ export class MemStorage implements IStorage {
 
   async updateSdkCredentials(appId: string, appSecret: string, mode: string): Promise<boolean> {
     // Set all existing credentials to inactive
-    for (const cred of this.sdkCredentials.values()) {
+    for (const cred of Array.from(this.sdkCredentials.values())) {
       cred.isActive = false;
     }
     
@@ -653,6 +946,394 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Workflow definition operations
+  async getAllWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+    return Array.from<WorkflowDefinition>(this.workflowDefinitions.values());
+  }
+
+  async getWorkflowDefinition(taskType: string): Promise<WorkflowDefinition | undefined> {
+    return this.workflowDefinitions.get(taskType);
+  }
+
+  async createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition> {
+    const id = this.workflowDefinitionIdCounter++;
+    const newDefinition: WorkflowDefinition = {
+      ...definition,
+      isActive: definition.isActive ?? true,
+      builtIn: definition.builtIn ?? false,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.workflowDefinitions.set(definition.taskType, newDefinition);
+    return newDefinition;
+  }
+
+  async updateWorkflowDefinition(taskType: string, updates: Partial<InsertWorkflowDefinition>): Promise<WorkflowDefinition | undefined> {
+    const definition: WorkflowDefinition | undefined = this.workflowDefinitions.get(taskType);
+    if (!definition) return undefined;
+    
+    const updated: WorkflowDefinition = { ...definition, ...updates, updatedAt: new Date() };
+    this.workflowDefinitions.set(taskType, updated);
+    return updated;
+  }
+
+  async deleteWorkflowDefinition(taskType: string): Promise<boolean> {
+    return this.workflowDefinitions.delete(taskType);
+  }
+
+  // Bin inventory operations
+  async getAllBins(): Promise<Bin[]> {
+    return Array.from<Bin>(this.bins.values());
+  }
+
+  async getBin(binId: string): Promise<Bin | undefined> {
+    return this.bins.get(binId);
+  }
+
+  async createBin(bin: InsertBin): Promise<Bin> {
+    const id = this.binIdCounter++;
+    const newBin: Bin = {
+      ...bin,
+      label: bin.label ?? null,
+      status: bin.status ?? 'off_shelf',
+      taskId: bin.taskId ?? null,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.bins.set(bin.binId, newBin);
+    return newBin;
+  }
+
+  async updateBin(binId: string, updates: Partial<InsertBin>): Promise<Bin | undefined> {
+    const bin: Bin | undefined = this.bins.get(binId);
+    if (!bin) return undefined;
+    
+    const updated: Bin = { ...bin, ...updates, updatedAt: new Date() };
+    this.bins.set(binId, updated);
+    return updated;
+  }
+
+  async deleteBin(binId: string): Promise<boolean> {
+    return this.bins.delete(binId);
+  }
+
+  async getAllShelfSlots(): Promise<ShelfSlot[]> {
+    return Array.from<ShelfSlot>(this.shelfSlots.values());
+  }
+
+  async getShelfSlot(poiId: string): Promise<ShelfSlot | undefined> {
+    return this.shelfSlots.get(poiId);
+  }
+
+  async getShelfSlotByBin(binId: string): Promise<ShelfSlot | undefined> {
+    return Array.from<ShelfSlot>(this.shelfSlots.values()).find(slot => slot.binId === binId);
+  }
+
+  async createShelfSlot(slot: InsertShelfSlot): Promise<ShelfSlot> {
+    const id = this.shelfSlotIdCounter++;
+    const newSlot: ShelfSlot = {
+      ...slot,
+      binId: slot.binId ?? null,
+      reservedByTaskId: slot.reservedByTaskId ?? null,
+      enabled: slot.enabled ?? true,
+      id,
+      updatedAt: new Date()
+    };
+    this.shelfSlots.set(slot.poiId, newSlot);
+    return newSlot;
+  }
+
+  async updateShelfSlot(poiId: string, updates: Partial<InsertShelfSlot>): Promise<ShelfSlot | undefined> {
+    const slot: ShelfSlot | undefined = this.shelfSlots.get(poiId);
+    if (!slot) return undefined;
+    
+    const updated: ShelfSlot = { ...slot, ...updates, updatedAt: new Date() };
+    this.shelfSlots.set(poiId, updated);
+    return updated;
+  }
+
+  async deleteShelfSlot(poiId: string): Promise<boolean> {
+    return this.shelfSlots.delete(poiId);
+  }
+
+  async reserveShelfSlot(poiId: string, taskId: string): Promise<boolean> {
+    const slot = this.shelfSlots.get(poiId);
+    if (!slot || !slot.enabled || slot.binId || slot.reservedByTaskId) return false;
+    
+    slot.reservedByTaskId = taskId;
+    slot.updatedAt = new Date();
+    return true;
+  }
+
+  async releaseShelfSlotReservations(taskId: string): Promise<number> {
+    let released = 0;
+    Array.from<ShelfSlot>(this.shelfSlots.values()).forEach(slot => {
+      if (slot.reservedByTaskId === taskId) {
+        slot.reservedByTaskId = null;
+        slot.updatedAt = new Date();
+        released++;
+      }
+    });
+    return released;
+  }
+
+  // Charging policy operations
+  async getAllChargingPolicies(): Promise<ChargingPolicy[]> {
+    return Array.from<ChargingPolicy>(this.chargingPolicies.values());
+  }
+
+  async getChargingPolicy(robotId: string): Promise<ChargingPolicy | undefined> {
+    return this.chargingPolicies.get(robotId);
+  }
+
+  async saveChargingPolicy(policy: InsertChargingPolicy): Promise<ChargingPolicy> {
+    const existing = this.chargingPolicies.get(policy.robotId);
+    const saved: ChargingPolicy = {
+      enabled: true,
+      chargeBelow: 25,
+      refuseTasksBelow: 15,
+      releaseAbove: 80,
+      idleChargeMinutes: null,
+      ...existing,
+      ...policy,
+      id: existing?.id ?? this.chargingPolicyIdCounter++,
+      updatedAt: new Date()
+    };
+    this.chargingPolicies.set(policy.robotId, saved);
+    return saved;
+  }
+
+  async deleteChargingPolicy(robotId: string): Promise<boolean> {
+    return this.chargingPolicies.delete(robotId);
+  }
+
+  // Charger lease operations
+  async getAllChargerLeases(): Promise<ChargerLease[]> {
+    return Array.from<ChargerLease>(this.chargerLeases.values());
+  }
+
+  async getChargerLeaseByRobot(robotId: string): Promise<ChargerLease | undefined> {
+    return this.chargerLeases.get(robotId);
+  }
+
+  async createChargerLease(lease: InsertChargerLease): Promise<ChargerLease | undefined> {
+    const chargerTaken = Array.from<ChargerLease>(this.chargerLeases.values())
+      .some(existing => existing.chargerId === lease.chargerId);
+    if (chargerTaken || this.chargerLeases.has(lease.robotId)) return undefined;
+    
+    const newLease: ChargerLease = {
+      ...lease,
+      status: lease.status ?? 'traveling',
+      dockedAt: lease.dockedAt ?? null,
+      id: this.chargerLeaseIdCounter++,
+      leasedAt: new Date()
+    };
+    this.chargerLeases.set(lease.robotId, newLease);
+    return newLease;
+  }
+
+  async updateChargerLease(robotId: string, updates: Partial<InsertChargerLease>): Promise<ChargerLease | undefined> {
+    const lease: ChargerLease | undefined = this.chargerLeases.get(robotId);
+    if (!lease) return undefined;
+    
+    const updated: ChargerLease = { ...lease, ...updates };
+    this.chargerLeases.set(robotId, updated);
+    return updated;
+  }
+
+  async deleteChargerLease(robotId: string): Promise<boolean> {
+    return this.chargerLeases.delete(robotId);
+  }
+
+  // Door operations
+  async getAllDoors(): Promise<Door[]> {
+    return Array.from<Door>(this.doors.values()).sort((a, b) => a.doorId - b.doorId);
+  }
+
+  async getDoor(doorId: number): Promise<Door | undefined> {
+    return this.doors.get(doorId);
+  }
+
+  async createDoor(door: InsertDoor): Promise<Door> {
+    const newDoor: Door = {
+      ...door,
+      controller: door.controller ?? 'fake',
+      address: door.address ?? null,
+      isActive: door.isActive ?? true,
+      id: this.doorIdCounter++,
+      createdAt: new Date()
+    };
+    this.doors.set(door.doorId, newDoor);
+    return newDoor;
+  }
+
+  async updateDoor(doorId: number, updates: Partial<InsertDoor>): Promise<Door | undefined> {
+    const door: Door | undefined = this.doors.get(doorId);
+    if (!door) return undefined;
+    
+    const updated: Door = { ...door, ...updates, doorId };
+    this.doors.set(doorId, updated);
+    return updated;
+  }
+
+  async deleteDoor(doorId: number): Promise<boolean> {
+    return this.doors.delete(doorId);
+  }
+
+  // Traffic zone operations
+  async getAllTrafficZones(): Promise<TrafficZone[]> {
+    return Array.from<TrafficZone>(this.trafficZones.values());
+  }
+
+  async getTrafficZone(zoneId: string): Promise<TrafficZone | undefined> {
+    return this.trafficZones.get(zoneId);
+  }
+
+  async createTrafficZone(zone: InsertTrafficZone): Promise<TrafficZone> {
+    const newZone: TrafficZone = {
+      ...zone,
+      isActive: zone.isActive ?? true,
+      id: this.trafficZoneIdCounter++,
+      createdAt: new Date()
+    };
+    this.trafficZones.set(zone.zoneId, newZone);
+    return newZone;
+  }
+
+  async updateTrafficZone(zoneId: string, updates: Partial<InsertTrafficZone>): Promise<TrafficZone | undefined> {
+    const zone: TrafficZone | undefined = this.trafficZones.get(zoneId);
+    if (!zone) return undefined;
+    
+    const updated: TrafficZone = { ...zone, ...updates, zoneId };
+    this.trafficZones.set(zoneId, updated);
+    return updated;
+  }
+
+  async deleteTrafficZone(zoneId: string): Promise<boolean> {
+    return this.trafficZones.delete(zoneId);
+  }
+
+  // Geofence operations
+  async getAllGeofences(): Promise<Geofence[]> {
+    return Array.from<Geofence>(this.geofences.values());
+  }
+
+  async getGeofence(zoneId: string): Promise<Geofence | undefined> {
+    return this.geofences.get(zoneId);
+  }
+
+  async createGeofence(geofence: InsertGeofence): Promise<Geofence> {
+    const newGeofence: Geofence = {
+      ...geofence,
+      speedLimit: geofence.speedLimit ?? null,
+      isActive: geofence.isActive ?? true,
+      id: this.geofenceIdCounter++,
+      createdAt: new Date()
+    };
+    this.geofences.set(geofence.zoneId, newGeofence);
+    return newGeofence;
+  }
+
+  async updateGeofence(zoneId: string, updates: Partial<InsertGeofence>): Promise<Geofence | undefined> {
+    const geofence: Geofence | undefined = this.geofences.get(zoneId);
+    if (!geofence) return undefined;
+    
+    const updated: Geofence = { ...geofence, ...updates, zoneId };
+    this.geofences.set(zoneId, updated);
+    return updated;
+  }
+
+  async deleteGeofence(zoneId: string): Promise<boolean> {
+    return this.geofences.delete(zoneId);
+  }
+
+  // Schedule operations
+  async getAllSchedules(): Promise<Schedule[]> {
+    return Array.from<Schedule>(this.schedules.values());
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+    return this.schedules.get(scheduleId);
+  }
+
+  async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
+    const newSchedule: Schedule = {
+      ...schedule,
+      timezone: schedule.timezone ?? 'UTC',
+      blackouts: schedule.blackouts ?? [],
+      isActive: schedule.isActive ?? true,
+      lastRunAt: schedule.lastRunAt ?? null,
+      lastOutcome: schedule.lastOutcome ?? null,
+      lastTaskId: schedule.lastTaskId ?? null,
+      id: this.scheduleIdCounter++,
+      createdAt: new Date()
+    };
+    this.schedules.set(schedule.scheduleId, newSchedule);
+    return newSchedule;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    const schedule: Schedule | undefined = this.schedules.get(scheduleId);
+    if (!schedule) return undefined;
+    
+    const updated: Schedule = { ...schedule, ...updates, scheduleId };
+    this.schedules.set(scheduleId, updated);
+    return updated;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    return this.schedules.delete(scheduleId);
+  }
+
+  // Telemetry operations
+  async createTelemetrySamples(samples: InsertTelemetrySample[]): Promise<void> {
+    for (const sample of samples) {
+      this.telemetrySamples.push({ ...sample, id: this.telemetrySampleIdCounter++ });
+    }
+  }
+
+  async getTelemetrySamples(filter: TelemetryFilter): Promise<TelemetrySample[]> {
+    return this.telemetrySamples
+      .filter(sample => (!filter.robotId || sample.robotId === filter.robotId) &&
+        (!filter.metric || sample.metric === filter.metric) &&
+        (filter.resolution === undefined || sample.resolution === filter.resolution) &&
+        (!filter.from || sample.recordedAt >= filter.from) &&
+        (!filter.to || sample.recordedAt < filter.to))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  }
+
+  async deleteTelemetrySamples(filter: { resolution: number; before: Date }): Promise<number> {
+    const count = this.telemetrySamples.length;
+    this.telemetrySamples = this.telemetrySamples
+      .filter(sample => sample.resolution !== filter.resolution || sample.recordedAt >= filter.before);
+    return count - this.telemetrySamples.length;
+  }
+
+  // Robot event operations
+  async createRobotEvent(event: InsertRobotEvent): Promise<RobotEvent> {
+    const newEvent: RobotEvent = {
+      ...event,
+      data: event.data ?? null,
+      id: this.robotEventIdCounter++,
+      createdAt: new Date()
+    };
+    this.robotEvents.push(newEvent);
+    return newEvent;
+  }
+
+  async getRobotEvents(filter: RobotEventFilter): Promise<RobotEvent[]> {
+    return this.robotEvents
+      .filter(event => (!filter.robotId || event.robotId === filter.robotId) &&
+        (!filter.category || event.category === filter.category) &&
+        Object.entries(filter.data ?? {}).every(([key, value]) => event.data?.[key] === value) &&
+        (!filter.from || event.createdAt! >= filter.from) &&
+        (!filter.to || event.createdAt! < filter.to))
+      .reverse()
+      .slice(0, filter.limit ?? 100);
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -664,17 +1345,36 @@ export class MemStorage implements IStorage {
 
   async createUser(user: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const newUser: User = { ...user, id };
+    const newUser: User = { ...user, role: user.role ?? UserRole.VIEWER, id };
     this.users.set(id, newUser);
     return newUser;
   }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserRole(id: number, role: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user) {
+      return false;
+    }
+    this.users.set(id, { ...user, role });
+    return true;
+  }
 }
 
 // Database-backed storage implementation
-import { eq, and, or, desc } from "drizzle-orm";
-import { db } from './db';
+import { eq, and, or, desc, asc, gte, lt, isNotNull, isNull, sql } from "drizzle-orm";
+import { db, pool } from './db';
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+  
   // Robot operations
   async getAllRobots(): Promise<Robot[]> {
     return await db.select().from(robots);
@@ -777,6 +1477,23 @@ export class DatabaseStorage implements IStorage {
     return newPoi;
   }
 
+  async updatePoi(poiId: string, updates: Partial<Omit<Poi, 'id' | 'poiId'>>): Promise<Poi | undefined> {
+    const [updated] = await db.update(pois)
+      .set(updates)
+      .where(eq(pois.poiId, poiId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deletePoi(poiId: string): Promise<boolean> {
+    const result = await db.delete(pois)
+      .where(eq(pois.poiId, poiId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
   async getChargingPoints(floor: string): Promise<Poi[]> {
     return await db.select()
       .from(pois)
@@ -876,18 +1593,137 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
-  // Error log operations
-  async getAllErrorLogs(): Promise<ErrorLog[]> {
-    return await db.select().from(errorLogs);
+  async getPendingTasks(): Promise<Task[]> {
+    return this.getTasksByStatus(TaskStatus.PENDING);
   }
 
-  async getRecentErrorLogs(limit: number): Promise<ErrorLog[]> {
+  async getPendingTasksByType(taskType: string): Promise<Task[]> {
     return await db.select()
-      .from(errorLogs)
-      .where(eq(errorLogs.resolved, false))
-      .orderBy(desc(errorLogs.timestamp))
-      .limit(limit);
-  }
+      .from(tasks)
+      .where(and(
+        eq(tasks.status, TaskStatus.PENDING),
+        eq(tasks.taskType, taskType)
+      ));
+  }
+
+  async updateTaskRobot(taskId: string, robotId: string): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ robotId })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskCurrentStep(taskId: string, currentStep: number): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ currentStep })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskPayload(taskId: string, payload: any): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ payload })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskCurrentPoint(taskId: string, currentPoint: any): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ currentPoint })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskReturnPoint(taskId: string, returnPoint: any): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ returnPoint })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskQueuePosition(taskId: string, queuePosition: number | null): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ queuePosition })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskConfirmation(taskId: string, confirmation: TaskConfirmation | null): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ confirmation })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskCheckpoints(taskId: string, checkpoints: CheckpointVisit[]): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ checkpoints })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async updateTaskTrace(taskId: string, trace: StepSpan[]): Promise<boolean> {
+    const result = await db.update(tasks)
+      .set({ trace })
+      .where(eq(tasks.taskId, taskId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async getQueuedTasksByRobot(robotId: string): Promise<Task[]> {
+    return await db.select()
+      .from(tasks)
+      .where(and(
+        eq(tasks.robotId, robotId),
+        isNotNull(tasks.queuePosition),
+        or(
+          eq(tasks.status, TaskStatus.PENDING),
+          eq(tasks.status, TaskStatus.PAUSED)
+        )
+      ))
+      .orderBy(asc(tasks.queuePosition));
+  }
+
+  // Error log operations
+  async getAllErrorLogs(): Promise<ErrorLog[]> {
+    return await db.select().from(errorLogs);
+  }
+
+  async getRecentErrorLogs(limit: number): Promise<ErrorLog[]> {
+    return await db.select()
+      .from(errorLogs)
+      .where(eq(errorLogs.resolved, false))
+      .orderBy(desc(errorLogs.timestamp))
+      .limit(limit);
+  }
+
+  async getErrorLogsByRobot(robotId: string, range: { from: Date; to: Date }): Promise<ErrorLog[]> {
+    return await db.select()
+      .from(errorLogs)
+      .where(and(
+        eq(errorLogs.robotId, robotId),
+        gte(errorLogs.timestamp, range.from),
+        lt(errorLogs.timestamp, range.to)
+      ))
+      .orderBy(asc(errorLogs.timestamp));
+  }
 
   async createErrorLog(errorLog: InsertErrorLog): Promise<ErrorLog> {
     const [newErrorLog] = await db.insert(errorLogs)
@@ -913,20 +1749,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Map operations
-  async getAllMaps(): Promise<Map[]> {
+  async getAllMaps(): Promise<FloorMap[]> {
     return await db.select().from(maps);
   }
 
-  async getMap(areaId: string): Promise<Map | undefined> {
+  async getMap(areaId: string): Promise<FloorMap | undefined> {
     const [map] = await db.select().from(maps).where(eq(maps.areaId, areaId));
     return map;
   }
 
-  async createMap(map: InsertMap): Promise<Map> {
+  async createMap(map: InsertMap): Promise<FloorMap> {
     const [newMap] = await db.insert(maps).values(map).returning();
     return newMap;
   }
 
+  async updateMap(areaId: string, updates: Partial<Omit<InsertMap, 'areaId'>>): Promise<FloorMap | undefined> {
+    const [updated] = await db.update(maps)
+      .set(updates)
+      .where(eq(maps.areaId, areaId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteMap(areaId: string): Promise<boolean> {
+    const result = await db.delete(maps)
+      .where(eq(maps.areaId, areaId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
   // SDK credentials operations
   async getAllSdkCredentials(): Promise<SdkCredentials[]> {
     return await db.select().from(sdkCredentials);
@@ -964,6 +1817,391 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Workflow definition operations
+  async getAllWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+    return await db.select().from(workflowDefinitions).orderBy(asc(workflowDefinitions.taskType));
+  }
+
+  async getWorkflowDefinition(taskType: string): Promise<WorkflowDefinition | undefined> {
+    const [definition] = await db.select()
+      .from(workflowDefinitions)
+      .where(eq(workflowDefinitions.taskType, taskType));
+    
+    return definition;
+  }
+
+  async createWorkflowDefinition(definition: InsertWorkflowDefinition): Promise<WorkflowDefinition> {
+    const [newDefinition] = await db.insert(workflowDefinitions)
+      .values(definition)
+      .returning();
+    
+    return newDefinition;
+  }
+
+  async updateWorkflowDefinition(taskType: string, updates: Partial<InsertWorkflowDefinition>): Promise<WorkflowDefinition | undefined> {
+    const [updated] = await db.update(workflowDefinitions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workflowDefinitions.taskType, taskType))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteWorkflowDefinition(taskType: string): Promise<boolean> {
+    const result = await db.delete(workflowDefinitions)
+      .where(eq(workflowDefinitions.taskType, taskType))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Bin inventory operations
+  async getAllBins(): Promise<Bin[]> {
+    return await db.select().from(bins).orderBy(asc(bins.binId));
+  }
+
+  async getBin(binId: string): Promise<Bin | undefined> {
+    const [bin] = await db.select().from(bins).where(eq(bins.binId, binId));
+    return bin;
+  }
+
+  async createBin(bin: InsertBin): Promise<Bin> {
+    const [newBin] = await db.insert(bins)
+      .values(bin)
+      .returning();
+    
+    return newBin;
+  }
+
+  async updateBin(binId: string, updates: Partial<InsertBin>): Promise<Bin | undefined> {
+    const [updated] = await db.update(bins)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(bins.binId, binId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteBin(binId: string): Promise<boolean> {
+    const result = await db.delete(bins)
+      .where(eq(bins.binId, binId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async getAllShelfSlots(): Promise<ShelfSlot[]> {
+    return await db.select().from(shelfSlots).orderBy(asc(shelfSlots.poiId));
+  }
+
+  async getShelfSlot(poiId: string): Promise<ShelfSlot | undefined> {
+    const [slot] = await db.select().from(shelfSlots).where(eq(shelfSlots.poiId, poiId));
+    return slot;
+  }
+
+  async getShelfSlotByBin(binId: string): Promise<ShelfSlot | undefined> {
+    const [slot] = await db.select().from(shelfSlots).where(eq(shelfSlots.binId, binId));
+    return slot;
+  }
+
+  async createShelfSlot(slot: InsertShelfSlot): Promise<ShelfSlot> {
+    const [newSlot] = await db.insert(shelfSlots)
+      .values(slot)
+      .returning();
+    
+    return newSlot;
+  }
+
+  async updateShelfSlot(poiId: string, updates: Partial<InsertShelfSlot>): Promise<ShelfSlot | undefined> {
+    const [updated] = await db.update(shelfSlots)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shelfSlots.poiId, poiId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteShelfSlot(poiId: string): Promise<boolean> {
+    const result = await db.delete(shelfSlots)
+      .where(eq(shelfSlots.poiId, poiId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async reserveShelfSlot(poiId: string, taskId: string): Promise<boolean> {
+    // Conditional update so two tasks can't claim the same slot
+    const result = await db.update(shelfSlots)
+      .set({ reservedByTaskId: taskId, updatedAt: new Date() })
+      .where(and(
+        eq(shelfSlots.poiId, poiId),
+        eq(shelfSlots.enabled, true),
+        isNull(shelfSlots.binId),
+        isNull(shelfSlots.reservedByTaskId)
+      ))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  async releaseShelfSlotReservations(taskId: string): Promise<number> {
+    const result = await db.update(shelfSlots)
+      .set({ reservedByTaskId: null, updatedAt: new Date() })
+      .where(eq(shelfSlots.reservedByTaskId, taskId))
+      .returning();
+    
+    return result.length;
+  }
+
+  // Charging policy operations
+  async getAllChargingPolicies(): Promise<ChargingPolicy[]> {
+    return await db.select().from(chargingPolicies).orderBy(asc(chargingPolicies.robotId));
+  }
+
+  async getChargingPolicy(robotId: string): Promise<ChargingPolicy | undefined> {
+    const [policy] = await db.select().from(chargingPolicies).where(eq(chargingPolicies.robotId, robotId));
+    return policy;
+  }
+
+  async saveChargingPolicy(policy: InsertChargingPolicy): Promise<ChargingPolicy> {
+    const [saved] = await db.insert(chargingPolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: chargingPolicies.robotId,
+        set: { ...policy, updatedAt: new Date() }
+      })
+      .returning();
+    
+    return saved;
+  }
+
+  async deleteChargingPolicy(robotId: string): Promise<boolean> {
+    const result = await db.delete(chargingPolicies)
+      .where(eq(chargingPolicies.robotId, robotId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Charger lease operations
+  async getAllChargerLeases(): Promise<ChargerLease[]> {
+    return await db.select().from(chargerLeases).orderBy(asc(chargerLeases.chargerId));
+  }
+
+  async getChargerLeaseByRobot(robotId: string): Promise<ChargerLease | undefined> {
+    const [lease] = await db.select().from(chargerLeases).where(eq(chargerLeases.robotId, robotId));
+    return lease;
+  }
+
+  async createChargerLease(lease: InsertChargerLease): Promise<ChargerLease | undefined> {
+    // Unique charger and robot columns settle races between robots
+    const [newLease] = await db.insert(chargerLeases)
+      .values(lease)
+      .onConflictDoNothing()
+      .returning();
+    
+    return newLease;
+  }
+
+  async updateChargerLease(robotId: string, updates: Partial<InsertChargerLease>): Promise<ChargerLease | undefined> {
+    const [updated] = await db.update(chargerLeases)
+      .set(updates)
+      .where(eq(chargerLeases.robotId, robotId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteChargerLease(robotId: string): Promise<boolean> {
+    const result = await db.delete(chargerLeases)
+      .where(eq(chargerLeases.robotId, robotId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Door operations
+  async getAllDoors(): Promise<Door[]> {
+    return await db.select().from(doors).orderBy(asc(doors.doorId));
+  }
+
+  async getDoor(doorId: number): Promise<Door | undefined> {
+    const [door] = await db.select().from(doors).where(eq(doors.doorId, doorId));
+    return door;
+  }
+
+  async createDoor(door: InsertDoor): Promise<Door> {
+    const [newDoor] = await db.insert(doors).values(door).returning();
+    return newDoor;
+  }
+
+  async updateDoor(doorId: number, updates: Partial<InsertDoor>): Promise<Door | undefined> {
+    const [updated] = await db.update(doors)
+      .set(updates)
+      .where(eq(doors.doorId, doorId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteDoor(doorId: number): Promise<boolean> {
+    const result = await db.delete(doors)
+      .where(eq(doors.doorId, doorId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Traffic zone operations
+  async getAllTrafficZones(): Promise<TrafficZone[]> {
+    return await db.select().from(trafficZones).orderBy(asc(trafficZones.zoneId));
+  }
+
+  async getTrafficZone(zoneId: string): Promise<TrafficZone | undefined> {
+    const [zone] = await db.select().from(trafficZones).where(eq(trafficZones.zoneId, zoneId));
+    return zone;
+  }
+
+  async createTrafficZone(zone: InsertTrafficZone): Promise<TrafficZone> {
+    const [newZone] = await db.insert(trafficZones).values(zone).returning();
+    return newZone;
+  }
+
+  async updateTrafficZone(zoneId: string, updates: Partial<InsertTrafficZone>): Promise<TrafficZone | undefined> {
+    const [updated] = await db.update(trafficZones)
+      .set(updates)
+      .where(eq(trafficZones.zoneId, zoneId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteTrafficZone(zoneId: string): Promise<boolean> {
+    const result = await db.delete(trafficZones)
+      .where(eq(trafficZones.zoneId, zoneId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Geofence operations
+  async getAllGeofences(): Promise<Geofence[]> {
+    return await db.select().from(geofences).orderBy(asc(geofences.zoneId));
+  }
+
+  async getGeofence(zoneId: string): Promise<Geofence | undefined> {
+    const [geofence] = await db.select().from(geofences).where(eq(geofences.zoneId, zoneId));
+    return geofence;
+  }
+
+  async createGeofence(geofence: InsertGeofence): Promise<Geofence> {
+    const [newGeofence] = await db.insert(geofences).values(geofence).returning();
+    return newGeofence;
+  }
+
+  async updateGeofence(zoneId: string, updates: Partial<InsertGeofence>): Promise<Geofence | undefined> {
+    const [updated] = await db.update(geofences)
+      .set(updates)
+      .where(eq(geofences.zoneId, zoneId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteGeofence(zoneId: string): Promise<boolean> {
+    const result = await db.delete(geofences)
+      .where(eq(geofences.zoneId, zoneId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Schedule operations
+  async getAllSchedules(): Promise<Schedule[]> {
+    return await db.select().from(schedules).orderBy(asc(schedules.scheduleId));
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+    const [schedule] = await db.select().from(schedules).where(eq(schedules.scheduleId, scheduleId));
+    return schedule;
+  }
+
+  async createSchedule(schedule: InsertSchedule): Promise<Schedule> {
+    const [newSchedule] = await db.insert(schedules).values(schedule).returning();
+    return newSchedule;
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<InsertSchedule>): Promise<Schedule | undefined> {
+    const [updated] = await db.update(schedules)
+      .set(updates)
+      .where(eq(schedules.scheduleId, scheduleId))
+      .returning();
+    
+    return updated;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const result = await db.delete(schedules)
+      .where(eq(schedules.scheduleId, scheduleId))
+      .returning();
+    
+    return result.length > 0;
+  }
+
+  // Telemetry operations
+  async createTelemetrySamples(samples: InsertTelemetrySample[]): Promise<void> {
+    if (samples.length > 0) {
+      await db.insert(telemetrySamples).values(samples);
+    }
+  }
+
+  async getTelemetrySamples(filter: TelemetryFilter): Promise<TelemetrySample[]> {
+    const conditions = [];
+    if (filter.robotId) conditions.push(eq(telemetrySamples.robotId, filter.robotId));
+    if (filter.metric) conditions.push(eq(telemetrySamples.metric, filter.metric));
+    if (filter.resolution !== undefined) conditions.push(eq(telemetrySamples.resolution, filter.resolution));
+    if (filter.from) conditions.push(gte(telemetrySamples.recordedAt, filter.from));
+    if (filter.to) conditions.push(lt(telemetrySamples.recordedAt, filter.to));
+    
+    return await db.select()
+      .from(telemetrySamples)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(telemetrySamples.recordedAt));
+  }
+
+  async deleteTelemetrySamples(filter: { resolution: number; before: Date }): Promise<number> {
+    const result = await db.delete(telemetrySamples)
+      .where(and(eq(telemetrySamples.resolution, filter.resolution), lt(telemetrySamples.recordedAt, filter.before)))
+      .returning({ id: telemetrySamples.id });
+    return result.length;
+  }
+
+  // Robot event operations
+  async createRobotEvent(event: InsertRobotEvent): Promise<RobotEvent> {
+    const [newEvent] = await db.insert(robotEvents)
+      .values(event)
+      .returning();
+    
+    return newEvent;
+  }
+
+  async getRobotEvents(filter: RobotEventFilter): Promise<RobotEvent[]> {
+    const conditions = [];
+    if (filter.robotId) conditions.push(eq(robotEvents.robotId, filter.robotId));
+    if (filter.category) conditions.push(eq(robotEvents.category, filter.category));
+    for (const [key, value] of Object.entries(filter.data ?? {})) {
+      conditions.push(sql`${robotEvents.data}->>${key} = ${String(value)}`);
+    }
+    if (filter.from) conditions.push(gte(robotEvents.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(robotEvents.createdAt, filter.to));
+    
+    return await db.select()
+      .from(robotEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(robotEvents.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -979,6 +2217,15 @@ export class DatabaseStorage implements IStorage {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
   }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
+  async updateUserRole(id: number, role: string): Promise<boolean> {
+    const result = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return result.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -3,6 +3,7 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from './storage';
 import { ErrorCode, RobotError, logError } from './robot/errors';
+import { authenticateUpgrade } from './auth';
 
 // Client connection information
 interface Client {
@@ -30,6 +31,7 @@ type MessageType =
   | 'get_task_status'
   | 'robot_update'
   | 'task_update'
+  | 'task_confirmation'
   | 'ping'
   | 'pong';
 
@@ -54,7 +56,13 @@ export class WebSocketHandler {
       // Create WebSocket server
       this.wss = new WebSocketServer({ 
         server, 
-        path: '/ws' // Use distinct path to avoid conflicts with Vite's HMR
+        path: '/ws', // Use distinct path to avoid conflicts with Vite's HMR
+        // Only accept upgrades that carry a logged-in session cookie
+        verifyClient: (info, callback) => {
+          authenticateUpgrade(info.req)
+            .then(user => callback(!!user, 401, 'Unauthorized'))
+            .catch(() => callback(false, 401, 'Unauthorized'));
+        }
       });
       
       // Set up connection handler
@@ -437,6 +445,23 @@ export class WebSocketHandler {
     });
   }
   
+  /**
+   * Broadcast a workflow confirmation request (or its outcome) to subscribed clients
+   */
+  broadcastConfirmationUpdate(taskId: string, data: any): void {
+    Array.from(this.clients.values()).forEach(client => {
+      if (client.subscriptions.allTasks || client.subscriptions.tasks.has(taskId)) {
+        this.sendToClient(client, {
+          type: 'task_confirmation',
+          payload: {
+            taskId,
+            ...data
+          }
+        });
+      }
+    });
+  }
+  
   /**
    * Start periodic status updates
    */
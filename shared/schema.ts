@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, json, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, timestamp, varchar, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,9 +21,9 @@ export const pois = pgTable("pois", {
   id: serial("id").primaryKey(),
   poiId: text("poi_id").notNull().unique(),
   name: text("name").notNull(),
-  x: integer("x").notNull(),
-  y: integer("y").notNull(),
-  yaw: integer("yaw"),
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  yaw: real("yaw"), // degrees
   areaId: text("area_id").notNull(),
   type: text("type").notNull(), // regular, charging, shelf, etc.
   floor: text("floor"),
@@ -35,19 +35,27 @@ export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
   taskId: text("task_id").notNull().unique(),
   name: text("name").notNull(),
-  robotId: text("robot_id").notNull().references(() => robots.robotId),
+  robotId: text("robot_id").references(() => robots.robotId), // null until the dispatcher assigns a robot
   status: text("status").default("pending").notNull(),
   priority: text("priority").default("normal").notNull(),
   taskType: text("task_type").notNull(),
   runMode: integer("run_mode"),
   runNum: integer("run_num").default(1),
+  runUntil: timestamp("run_until"), // patrols loop until this time instead of runNum laps
   runType: integer("run_type"),
   routeMode: integer("route_mode").default(1),
   ignorePublicSite: boolean("ignore_public_site").default(false),
-  speed: integer("speed").default(-1),
+  speed: real("speed").default(-1), // m/s; -1 uses the robot's default
   points: json("points").$type<TaskPoint[]>(),
   currentPoint: json("current_point").$type<TaskPoint | null>(),
   returnPoint: json("return_point").$type<TaskPoint | null>(),
+  currentStep: integer("current_step").default(0),
+  queuePosition: integer("queue_position"), // null unless waiting in the robot's queue
+  payload: json("payload").$type<TaskPayload | null>(),
+  confirmation: json("confirmation").$type<TaskConfirmation | null>(), // set while a workflow step waits for a person
+  binId: text("bin_id"), // bin the task moves, if tracked in the inventory
+  checkpoints: json("checkpoints").$type<CheckpointVisit[] | null>(), // patrol waypoint visits, in order
+  trace: json("trace").$type<StepSpan[] | null>(), // one span per workflow step run, in order
   createdAt: timestamp("created_at").defaultNow(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -88,6 +96,135 @@ export const sdkCredentials = pgTable("sdk_credentials", {
   isActive: boolean("is_active").default(true),
 });
 
+// Declarative task workflows (one definition per task type)
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: serial("id").primaryKey(),
+  taskType: text("task_type").notNull().unique(),
+  name: text("name").notNull(),
+  definition: json("definition").$type<WorkflowDocument>().notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  builtIn: boolean("built_in").default(false).notNull(), // shipped with the server; can be edited but not deleted
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bin inventory schema
+export const bins = pgTable("bins", {
+  id: serial("id").primaryKey(),
+  binId: text("bin_id").notNull().unique(),
+  label: text("label"),
+  status: text("status").default("off_shelf").notNull(),
+  taskId: text("task_id"), // unfinished task that moves the bin
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Shelf slot schema - one slot per shelf POI, holding at most one bin
+export const shelfSlots = pgTable("shelf_slots", {
+  id: serial("id").primaryKey(),
+  poiId: text("poi_id").notNull().unique().references(() => pois.poiId),
+  binId: text("bin_id").references(() => bins.binId), // bin stored in the slot
+  reservedByTaskId: text("reserved_by_task_id"), // task bringing a bin to the slot
+  enabled: boolean("enabled").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Charging policy schema - battery thresholds that drive automatic charging per robot
+export const chargingPolicies = pgTable("charging_policies", {
+  id: serial("id").primaryKey(),
+  robotId: text("robot_id").notNull().unique().references(() => robots.robotId),
+  enabled: boolean("enabled").default(true).notNull(),
+  chargeBelow: integer("charge_below").default(25).notNull(), // battery % that sends the robot to charge
+  refuseTasksBelow: integer("refuse_tasks_below").default(15).notNull(), // battery % below which no new tasks are accepted
+  releaseAbove: integer("release_above").default(80).notNull(), // battery % at which the robot returns to work
+  idleChargeMinutes: integer("idle_charge_minutes"), // charge after this long idle (null to never charge opportunistically)
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Charger lease schema - a charger belongs to one robot while it travels to and sits on the dock
+export const chargerLeases = pgTable("charger_leases", {
+  id: serial("id").primaryKey(),
+  chargerId: text("charger_id").notNull().unique().references(() => pois.poiId),
+  robotId: text("robot_id").notNull().unique().references(() => robots.robotId),
+  status: text("status").default("traveling").notNull(),
+  leasedAt: timestamp("leased_at").defaultNow(),
+  dockedAt: timestamp("docked_at"),
+});
+
+// Door schema - powered doors and access gates robots pass through, grouped by floor
+export const doors = pgTable("doors", {
+  id: serial("id").primaryKey(),
+  doorId: integer("door_id").notNull().unique(), // ID listed in PoiMetadata.doorIds
+  name: text("name").notNull(),
+  floor: text("floor").notNull(),
+  controller: text("controller").notNull(), // http, mqtt or fake (development only)
+  address: text("address"), // base URL for http, topic prefix for mqtt
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Traffic zone schema - stretches of a map (narrow aisles, doorways) only one robot may occupy at a time
+export const trafficZones = pgTable("traffic_zones", {
+  id: serial("id").primaryKey(),
+  zoneId: text("zone_id").notNull().unique(),
+  name: text("name").notNull(),
+  areaId: text("area_id").notNull().references(() => maps.areaId),
+  polygon: json("polygon").$type<ZoneVertex[]>().notNull(), // map coordinates, in order
+  entryPoints: json("entry_points").$type<ZoneEntryPoint[]>().notNull(), // where robots wait, just outside the polygon
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Geofence schema - areas of a map robots must not enter (no_go) or must cross slowly (slow)
+export const geofences = pgTable("geofences", {
+  id: serial("id").primaryKey(),
+  zoneId: text("zone_id").notNull().unique(),
+  name: text("name").notNull(),
+  areaId: text("area_id").notNull().references(() => maps.areaId),
+  kind: text("kind").notNull(), // no_go or slow
+  polygon: json("polygon").$type<ZoneVertex[]>().notNull(), // map coordinates, in order
+  speedLimit: real("speed_limit"), // m/s, slow zones only
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Schedule schema - tasks created on a cron expression, e.g. an hourly patrol
+export const schedules = pgTable("schedules", {
+  id: serial("id").primaryKey(),
+  scheduleId: text("schedule_id").notNull().unique(),
+  name: text("name").notNull(),
+  cron: text("cron").notNull(), // minute hour day-of-month month day-of-week
+  timezone: text("timezone").default("UTC").notNull(), // IANA zone the cron and blackouts are read in
+  task: json("task").$type<ScheduledTask>().notNull(),
+  blackouts: json("blackouts").$type<BlackoutWindow[]>().default([]).notNull(),
+  isActive: boolean("is_active").default(true),
+  lastRunAt: timestamp("last_run_at"),
+  lastOutcome: text("last_outcome"), // created, skipped_no_robot, skipped_blackout or failed
+  lastTaskId: text("last_task_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Telemetry sample schema - one metric of one robot aggregated over a time bucket
+export const telemetrySamples = pgTable("telemetry_samples", {
+  id: serial("id").primaryKey(),
+  robotId: text("robot_id").notNull(),
+  metric: text("metric").notNull(), // battery, pose, planning or wheel
+  resolution: integer("resolution").notNull(), // bucket length in seconds
+  values: json("values").$type<TelemetryValues>().notNull(),
+  recordedAt: timestamp("recorded_at").notNull(), // bucket start
+});
+
+// Robot event schema - automated decisions about a robot, kept for auditing
+export const robotEvents = pgTable("robot_events", {
+  id: serial("id").primaryKey(),
+  robotId: text("robot_id").notNull(),
+  category: text("category").notNull(), // e.g. charging
+  event: text("event").notNull(),
+  message: text("message").notNull(),
+  data: json("data").$type<Record<string, any> | null>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Types for complex JSON fields
 export type RobotMetadata = {
   connectionConfig?: {
@@ -110,7 +247,7 @@ export type TaskPoint = {
   yaw: number;
   stopRadius?: number;
   areaId: string;
-  type?: number;
+  type?: number | string; // point role such as "shelf" or "charger" for workflow tasks
   ext?: {
     id?: string;
     name?: string;
@@ -125,6 +262,42 @@ export type StepAction = {
   data?: Record<string, any>;
 };
 
+export type TaskPayload = {
+  loaded: boolean;
+  timestamp?: Date | string;
+};
+
+export type TaskConfirmation = {
+  message: string;
+  requestedAt: Date | string;
+  timeoutAt: Date | string;
+  escalated: boolean; // past the first timeout; the task gives up at timeoutAt
+};
+
+export type CheckpointVisit = {
+  lap: number;        // 1-based
+  index: number;      // waypoint's position in the route
+  pointId?: string;
+  name?: string;
+  checkpoint: boolean; // the robot dwelled here
+  status: "reached" | "skipped" | "unreachable";
+  arrivedAt?: Date | string;
+  reason?: string;    // why a waypoint was skipped or unreachable
+};
+
+export type StepSpan = {
+  step: number;       // 0-based
+  name: string;
+  startedAt: Date | string;
+  endedAt: Date | string;
+  durationMs: number;
+  result: "succeeded" | "failed" | "error" | "cancelled";
+  error?: string;     // why the step failed or threw
+  startPose: { x: number; y: number; ori: number } | null;
+  endPose: { x: number; y: number; ori: number } | null;
+  moveIds: string[];  // /chassis/moves actions the robot ran during the step
+};
+
 export type ErrorDetails = {
   code: number;
   message: string;
@@ -133,10 +306,47 @@ export type ErrorDetails = {
   priority?: boolean;
 };
 
+export type ZoneVertex = {
+  x: number;
+  y: number;
+};
+
+export type ZoneEntryPoint = {
+  x: number;
+  y: number;
+  yaw: number;
+};
+
+export type ScheduledTask = {
+  taskType: string;
+  name?: string;
+  robotId?: string | null; // leave empty to let the dispatcher pick a robot
+  priority?: string;
+  points: TaskPoint[];
+  binId?: string | null;
+  runMode?: number;
+  runNum?: number;
+};
+
+export type BlackoutWindow = {
+  start: string;   // HH:MM, local to the schedule's time zone
+  end: string;     // HH:MM; earlier than start for windows that run past midnight
+  days?: number[]; // 0 = Sunday; every day if empty
+};
+
+// Readings of one telemetry metric, e.g. { level: 82, voltage: 25.1, charging: false }
+export type TelemetryValues = Record<string, number | boolean | string | null>;
+
 export type PoiMetadata = {
   stopRadius?: number;
   dockingRadius?: number;
   doorIds?: number[];
+  mapId?: number | string;  // robot map the POI was synced from
+  mapName?: string;
+  mapUid?: string;
+  elevatorId?: string;      // elevator POIs: shaft shared by the hall points on each floor
+  elevatorFloor?: string;   // floor name the elevator controller uses, if not the map's floor
+  cabin?: { x: number; y: number; yaw: number };  // where the robot stands inside the car, in this floor's map
 };
 
 // Create insert schemas
@@ -146,6 +356,46 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({ id: true, creat
 export const insertErrorLogSchema = createInsertSchema(errorLogs).omit({ id: true, timestamp: true, resolvedAt: true });
 export const insertMapSchema = createInsertSchema(maps).omit({ id: true });
 export const insertSdkCredentialsSchema = createInsertSchema(sdkCredentials).omit({ id: true });
+export const insertBinSchema = createInsertSchema(bins).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertShelfSlotSchema = createInsertSchema(shelfSlots).omit({ id: true, updatedAt: true });
+export const insertChargingPolicySchema = createInsertSchema(chargingPolicies, {
+  chargeBelow: z.number().int().min(0).max(100).optional(),
+  refuseTasksBelow: z.number().int().min(0).max(100).optional(),
+  releaseAbove: z.number().int().min(1).max(100).optional(),
+  idleChargeMinutes: z.number().int().positive().nullable().optional(),
+}).omit({ id: true, updatedAt: true });
+export const insertChargerLeaseSchema = createInsertSchema(chargerLeases).omit({ id: true, leasedAt: true });
+export const insertDoorSchema = createInsertSchema(doors).omit({ id: true, createdAt: true });
+export const insertTrafficZoneSchema = createInsertSchema(trafficZones, {
+  polygon: z.array(z.object({ x: z.number(), y: z.number() })),
+  entryPoints: z.array(z.object({ x: z.number(), y: z.number(), yaw: z.number() })),
+}).omit({ id: true, createdAt: true });
+export const insertGeofenceSchema = createInsertSchema(geofences, {
+  polygon: z.array(z.object({ x: z.number(), y: z.number() })),
+}).omit({ id: true, createdAt: true });
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  task: z.object({
+    taskType: z.string(),
+    name: z.string().optional(),
+    robotId: z.string().nullable().optional(),
+    priority: z.string().optional(),
+    points: z.array(z.any()),
+    binId: z.string().nullable().optional(),
+    runMode: z.number().int().optional(),
+    runNum: z.number().int().optional(),
+  }),
+  blackouts: z.array(z.object({
+    start: z.string(),
+    end: z.string(),
+    days: z.array(z.number().int().min(0).max(6)).optional(),
+  })).optional(),
+}).omit({ id: true, createdAt: true });
+export const insertTelemetrySampleSchema = createInsertSchema(telemetrySamples, {
+  values: z.record(z.union([z.number(), z.boolean(), z.string(), z.null()])),
+}).omit({ id: true });
+export const insertRobotEventSchema = createInsertSchema(robotEvents, {
+  data: z.record(z.any()).nullable().optional(),
+}).omit({ id: true, createdAt: true });
 
 // Create types for inserts
 export type InsertRobot = z.infer<typeof insertRobotSchema>;
@@ -154,6 +404,16 @@ export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type InsertErrorLog = z.infer<typeof insertErrorLogSchema>;
 export type InsertMap = z.infer<typeof insertMapSchema>;
 export type InsertSdkCredentials = z.infer<typeof insertSdkCredentialsSchema>;
+export type InsertBin = z.infer<typeof insertBinSchema>;
+export type InsertShelfSlot = z.infer<typeof insertShelfSlotSchema>;
+export type InsertChargingPolicy = z.infer<typeof insertChargingPolicySchema>;
+export type InsertRobotEvent = z.infer<typeof insertRobotEventSchema>;
+export type InsertChargerLease = z.infer<typeof insertChargerLeaseSchema>;
+export type InsertDoor = z.infer<typeof insertDoorSchema>;
+export type InsertTrafficZone = z.infer<typeof insertTrafficZoneSchema>;
+export type InsertGeofence = z.infer<typeof insertGeofenceSchema>;
+export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
+export type InsertTelemetrySample = z.infer<typeof insertTelemetrySampleSchema>;
 
 // Create types for selects
 export type Robot = typeof robots.$inferSelect;
@@ -162,6 +422,17 @@ export type Task = typeof tasks.$inferSelect;
 export type ErrorLog = typeof errorLogs.$inferSelect;
 export type Map = typeof maps.$inferSelect;
 export type SdkCredentials = typeof sdkCredentials.$inferSelect;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type Bin = typeof bins.$inferSelect;
+export type ShelfSlot = typeof shelfSlots.$inferSelect;
+export type ChargingPolicy = typeof chargingPolicies.$inferSelect;
+export type RobotEvent = typeof robotEvents.$inferSelect;
+export type ChargerLease = typeof chargerLeases.$inferSelect;
+export type Door = typeof doors.$inferSelect;
+export type TrafficZone = typeof trafficZones.$inferSelect;
+export type Geofence = typeof geofences.$inferSelect;
+export type Schedule = typeof schedules.$inferSelect;
+export type TelemetrySample = typeof telemetrySamples.$inferSelect;
 
 // Task Status Enum
 export const TaskStatus = {
@@ -183,15 +454,59 @@ export const RobotStatus = {
   BUSY: "busy",
 } as const;
 
+// Bin Status Enum
+export const BinStatus = {
+  OFF_SHELF: "off_shelf", // registered, or handed out at a pickup point
+  IN_TRANSIT: "in_transit", // on a robot
+  STORED: "stored", // in a shelf slot
+} as const;
+
+// Charger Lease Status Enum
+export const ChargerLeaseStatus = {
+  TRAVELING: "traveling",
+  DOCKED: "docked",
+} as const;
+
+// Door Controller Enum
+export const DoorControllerType = {
+  HTTP: "http",
+  MQTT: "mqtt",
+  FAKE: "fake",
+} as const;
+
+// Geofence Kind Enum
+export const GeofenceKind = {
+  NO_GO: "no_go",
+  SLOW: "slow",
+} as const;
+
+// Schedule Run Outcome Enum
+export const ScheduleOutcome = {
+  CREATED: "created",
+  SKIPPED_NO_ROBOT: "skipped_no_robot",
+  SKIPPED_BLACKOUT: "skipped_blackout",
+  FAILED: "failed",
+} as const;
+
+// Telemetry Metric Enum
+export const TelemetryMetric = {
+  BATTERY: "battery",
+  POSE: "pose",
+  PLANNING: "planning",
+  WHEEL: "wheel",
+} as const;
+
 // Task Type Enum
 export const TaskType = {
   DROPOFF: "dropoff",
   PICKUP: "pickup",
+  RETURN: "return",
   CHARGING: "charging",
   RACK: "rack_operation",
   MULTI_FLOOR: "multi_floor",
   PATROL: "patrol",
   CUSTOM: "custom",
+  MOVEMENT: "movement", // Ad-hoc move sent through MovementModule.moveRobot
 } as const;
 
 // Priority Enum
@@ -202,10 +517,22 @@ export const Priority = {
   URGENT: "urgent",
 } as const;
 
+const PRIORITY_RANK: Record<string, number> = {
+  [Priority.LOW]: 0,
+  [Priority.NORMAL]: 1,
+  [Priority.HIGH]: 2,
+  [Priority.URGENT]: 3,
+};
+
+// Rank a task priority (higher runs first); unknown values count as normal
+export function priorityRank(priority: string | null | undefined): number {
+  return PRIORITY_RANK[priority ?? ""] ?? PRIORITY_RANK[Priority.NORMAL];
+}
+
 // Task Request Schema
 export const taskRequestSchema = z.object({
   name: z.string().min(1, "Task name is required"),
-  robotId: z.string().min(1, "Robot ID is required"),
+  robotId: z.string().min(1).optional(), // omit to let the dispatcher pick a robot
   taskType: z.string().min(1, "Task type is required"),
   priority: z.string().default("normal"),
   points: z.array(z.any()).min(1, "At least one point is required"),
@@ -221,17 +548,158 @@ export const taskRequestSchema = z.object({
 
 export type TaskRequest = z.infer<typeof taskRequestSchema>;
 
+// Workflow Step Type Enum
+export const WorkflowStepType = {
+  MOVE_TO_POI: "move-to-poi",
+  ALIGN_WITH_RACK: "align-with-rack",
+  JACK_UP: "jack-up",
+  JACK_DOWN: "jack-down",
+  WAIT_FOR_CONFIRMATION: "wait-for-confirmation",
+  WAIT_DURATION: "wait-duration",
+  GO_CHARGE: "go-charge",
+  PATROL: "patrol",
+} as const;
+
+const workflowStepBase = z.object({
+  name: z.string().min(1).optional(),
+});
+
+// Where a step drives to: a task point by role (its `type`, e.g. "shelf") or a fixed POI
+const workflowStepTarget = {
+  point: z.string().min(1).optional(),
+  poiId: z.string().min(1).optional(),
+};
+
+export const workflowStepSchema = z.discriminatedUnion("type", [
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.MOVE_TO_POI),
+    ...workflowStepTarget,
+    speed: z.number().positive().optional(),
+    accuracy: z.number().positive().optional(),
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.ALIGN_WITH_RACK),
+    ...workflowStepTarget,
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.JACK_UP),
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.JACK_DOWN),
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.WAIT_FOR_CONFIRMATION),
+    message: z.string().min(1).optional(),
+    loaded: z.boolean().optional(), // payload state once confirmed
+    timeoutSeconds: z.number().positive().default(300), // operators are alerted after this
+    escalationSeconds: z.number().positive().default(120), // then the bin is returned and the task fails
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.WAIT_DURATION),
+    seconds: z.number().positive(),
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.GO_CHARGE),
+    point: z.string().min(1).default("charger"),
+    speed: z.number().positive().optional(),
+  }),
+  workflowStepBase.extend({
+    type: z.literal(WorkflowStepType.PATROL),
+    speed: z.number().positive().optional(),
+    accuracy: z.number().positive().optional(),
+    dwellSeconds: z.number().min(0).default(30), // time spent at each checkpoint-type point
+    maxMisses: z.number().int().positive().default(3), // consecutive unreachable waypoints before the patrol fails
+  }),
+]);
+
+// Workflow document as written in JSON/YAML
+export const workflowDocumentSchema = z.object({
+  name: z.string().min(1, "Workflow name is required"),
+  taskType: z.string().regex(/^[a-z0-9_-]+$/, "Task type may only contain lowercase letters, digits, '_' and '-'"),
+  description: z.string().optional(),
+  returnPoint: z.string().min(1).optional(), // where a loaded robot takes the bin if the task is canceled
+  steps: z.array(workflowStepSchema).min(1, "A workflow needs at least one step"),
+}).superRefine((doc, ctx) => {
+  doc.steps.forEach((step, index) => {
+    if ((step.type === WorkflowStepType.MOVE_TO_POI || step.type === WorkflowStepType.ALIGN_WITH_RACK) &&
+        !step.point === !step.poiId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["steps", index],
+        message: `${step.type} needs exactly one of point or poiId`,
+      });
+    }
+  });
+});
+
+export type WorkflowStep = z.infer<typeof workflowStepSchema>;
+export type WorkflowDocument = z.infer<typeof workflowDocumentSchema>;
+
+export const insertWorkflowDefinitionSchema = createInsertSchema(workflowDefinitions, {
+  definition: workflowDocumentSchema,
+}).omit({ id: true, createdAt: true, updatedAt: true });
+
+export type InsertWorkflowDefinition = z.infer<typeof insertWorkflowDefinitionSchema>;
+
+// Task point roles a workflow document uses (tasks must provide all of them)
+export function workflowPointRoles(doc: WorkflowDocument): string[] {
+  const roles = new Set<string>();
+  for (const step of doc.steps) {
+    if ("point" in step && step.point) {
+      roles.add(step.point);
+    }
+  }
+  if (doc.returnPoint) {
+    roles.add(doc.returnPoint);
+  }
+  return Array.from(roles);
+}
+
+// User Role Enum (ordered from least to most privileged)
+export const UserRole = {
+  VIEWER: "viewer",
+  OPERATOR: "operator",
+  SUPERVISOR: "supervisor",
+  ADMIN: "admin",
+} as const;
+
+export type UserRoleValue = typeof UserRole[keyof typeof UserRole];
+
+const ROLE_RANK: Record<string, number> = {
+  [UserRole.VIEWER]: 0,
+  [UserRole.OPERATOR]: 1,
+  [UserRole.SUPERVISOR]: 2,
+  [UserRole.ADMIN]: 3,
+};
+
+// Check whether a role grants at least the required role's permissions
+export function hasRole(role: string | null | undefined, required: UserRoleValue): boolean {
+  if (!role || !(role in ROLE_RANK)) {
+    return false;
+  }
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
 // Users table (required for the base template)
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default(UserRole.VIEWER),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
+export const userRoleSchema = z.enum([
+  UserRole.VIEWER,
+  UserRole.OPERATOR,
+  UserRole.SUPERVISOR,
+  UserRole.ADMIN,
+]);
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;